@@ -18,6 +18,7 @@ interface EnvConfig {
   stripe: {
     secretKey: string;
     webhookSecret: string;
+    reconciliationFixture?: string; // JSON file read by reconciliation instead of the Stripe API
   };
   frontend: {
     url: string;
@@ -27,12 +28,21 @@ interface EnvConfig {
   };
   admin: {
     sku: string;
-    secretCode: string;
+    bootstrapEmail?: string;
+    bootstrapPassword?: string;
   };
   email: {
     resendApiKey?: string;
     fromEmail: string;
   };
+  jobs: {
+    workerEnabled: boolean;
+    pollIntervalMs: number;
+  };
+  scheduler: {
+    enabled: boolean;
+    tickIntervalMs: number;
+  };
 }
 
 // Validate and export environment variables
@@ -50,7 +60,6 @@ const validateEnv = (): EnvConfig => {
     'FRONTEND_URL',
     'JWT_SECRET',
     'ADMIN_SKU',
-    'ADMIN_SECRET_CODE',
     'FROM_EMAIL'
   ];
 
@@ -74,6 +83,7 @@ const validateEnv = (): EnvConfig => {
     stripe: {
       secretKey: process.env.STRIPE_SECRET_KEY!,
       webhookSecret: process.env.STRIPE_WEBHOOK_SECRET!,
+      reconciliationFixture: process.env.STRIPE_RECONCILIATION_FIXTURE,
     },
     frontend: {
       url: process.env.FRONTEND_URL!,
@@ -83,12 +93,21 @@ const validateEnv = (): EnvConfig => {
     },
     admin: {
       sku: process.env.ADMIN_SKU!,
-      secretCode: process.env.ADMIN_SECRET_CODE!,
+      bootstrapEmail: process.env.ADMIN_BOOTSTRAP_EMAIL,
+      bootstrapPassword: process.env.ADMIN_BOOTSTRAP_PASSWORD,
     },
     email: {
       resendApiKey: process.env.RESEND_API_KEY,
       fromEmail: process.env.FROM_EMAIL!,
     },
+    jobs: {
+      workerEnabled: process.env.JOB_WORKER_ENABLED !== 'false',
+      pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000', 10),
+    },
+    scheduler: {
+      enabled: process.env.SCHEDULER_ENABLED !== 'false',
+      tickIntervalMs: parseInt(process.env.SCHEDULER_TICK_INTERVAL_MS || '30000', 10),
+    },
   };
 };
 
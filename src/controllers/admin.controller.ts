@@ -1,23 +1,25 @@
-import { Request, Response } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import adminService from '../services/admin.service.js';
 import { env } from '../config/env.js';
+import { ADMIN_ROLE_PERMISSIONS } from '../database/models/AdminUser.js';
 
 class AdminController {
-  // Admin login with secret code
+  // Admin login with email and password (first factor)
+  // Returns a challenge token - the admin JWT is only issued by /login/2fa or /login/2fa/enroll/confirm
   async login(req: Request, res: Response): Promise<void> {
     try {
-      const { code } = req.body;
+      const { email, password } = req.body;
 
-      if (!code) {
+      if (!email || !password) {
         res.status(400).json({
           success: false,
-          error: 'Admin code is required',
+          error: 'Email and password are required',
         });
         return;
       }
 
-      // Validate code and generate token
-      const result = await adminService.loginAdmin(code);
+      // Validate credentials and generate token
+      const result = await adminService.loginAdmin(email, password);
 
       if (!result.success) {
         res.status(401).json({
@@ -30,8 +32,9 @@ class AdminController {
       res.json({
         success: true,
         data: {
-          token: result.token,
-          role: 'admin',
+          twoFactorRequired: true,
+          enrollmentRequired: result.enrollmentRequired,
+          challengeToken: result.challengeToken,
         },
       });
     } catch (error) {
@@ -57,9 +60,9 @@ class AdminController {
       }
 
       const token = authHeader.substring(7);
-      const isValid = adminService.verifyAdminToken(token);
+      const admin = await adminService.verifyAdminToken(token);
 
-      if (!isValid) {
+      if (!admin) {
         res.status(403).json({
           success: false,
           error: 'Invalid or expired token',
@@ -72,6 +75,8 @@ class AdminController {
         data: {
           role: 'admin',
           authenticated: true,
+          admin,
+          permissions: ADMIN_ROLE_PERMISSIONS[admin.role],
         },
       });
     } catch (error) {
@@ -100,6 +105,226 @@ class AdminController {
       });
     }
   }
+
+  // POST /api/admin/login/2fa - Second factor: TOTP code or recovery code, returns the admin JWT
+  // Body: { challengeToken, code } or { challengeToken, recoveryCode }
+  async verifySecondFactor(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { challengeToken, code, recoveryCode } = req.body;
+
+      if (!challengeToken || (!code && !recoveryCode)) {
+        return res.status(400).json({
+          success: false,
+          error: 'challengeToken and either code or recoveryCode are required',
+        });
+      }
+
+      const { token, admin } = await adminService.verifySecondFactor(challengeToken, { code, recoveryCode });
+
+      res.json({
+        success: true,
+        data: {
+          token,
+          role: 'admin',
+          admin,
+          permissions: ADMIN_ROLE_PERMISSIONS[admin.role],
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/admin/login/2fa/enroll - Start mandatory TOTP enrollment, returns QR code
+  // Body: { challengeToken }
+  async beginTotpEnrollment(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { challengeToken } = req.body;
+
+      if (!challengeToken) {
+        return res.status(400).json({
+          success: false,
+          error: 'challengeToken is required',
+        });
+      }
+
+      const enrollment = await adminService.beginTotpEnrollment(challengeToken);
+
+      res.json({
+        success: true,
+        data: enrollment,
+        message: 'Scan the QR code with your authenticator app, then confirm with a code',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/admin/login/2fa/enroll/confirm - Confirm enrollment, returns admin JWT and recovery codes
+  // Body: { challengeToken, code }
+  async completeTotpEnrollment(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { challengeToken, code } = req.body;
+
+      if (!challengeToken || !code) {
+        return res.status(400).json({
+          success: false,
+          error: 'challengeToken and code are required',
+        });
+      }
+
+      const { token, admin, recoveryCodes } = await adminService.completeTotpEnrollment(challengeToken, code);
+
+      res.json({
+        success: true,
+        data: {
+          token,
+          role: 'admin',
+          admin,
+          permissions: ADMIN_ROLE_PERMISSIONS[admin.role],
+          recoveryCodes,
+        },
+        message: 'Two-factor authentication enabled - store the recovery codes safely, they are shown only once',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/admin/me/2fa/recovery-codes - Replace recovery codes (requires current TOTP code)
+  async regenerateRecoveryCodes(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { code } = req.body;
+
+      if (!code) {
+        return res.status(400).json({
+          success: false,
+          error: 'code is required',
+        });
+      }
+
+      const recoveryCodes = await adminService.regenerateRecoveryCodes(req.admin!, code);
+
+      res.json({
+        success: true,
+        data: { recoveryCodes },
+        message: 'New recovery codes generated - previous codes no longer work',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // PUT /api/admin/me/password - Change own password
+  async changeOwnPassword(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { currentPassword, newPassword } = req.body;
+
+      if (!currentPassword || !newPassword) {
+        return res.status(400).json({
+          success: false,
+          error: 'currentPassword and newPassword are required',
+        });
+      }
+
+      await adminService.changeOwnPassword(req.admin!, currentPassword, newPassword);
+
+      res.json({
+        success: true,
+        message: 'Password changed successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/admin/users - List admin accounts (super_admin only)
+  async getAllAdmins(req: Request, res: Response, next: NextFunction) {
+    try {
+      const admins = await adminService.getAllAdmins();
+
+      res.json({
+        success: true,
+        data: admins,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/admin/users - Create admin account (super_admin only)
+  // Body: { email, name, password, role }
+  async createAdmin(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { email, name, password, role } = req.body;
+
+      const admin = await adminService.createAdmin({ email, name, password, role }, req.admin!.email);
+
+      res.status(201).json({
+        success: true,
+        data: admin,
+        message: 'Admin user created successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // PUT /api/admin/users/:id - Update admin name, role or active status (super_admin only)
+  async updateAdmin(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { name, role, isActive } = req.body;
+
+      const admin = await adminService.updateAdmin(req.params.id, { name, role, isActive }, req.admin!);
+
+      res.json({
+        success: true,
+        data: admin,
+        message: 'Admin user updated successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // PUT /api/admin/users/:id/password - Reset another admin's password (super_admin only)
+  async resetPassword(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { newPassword } = req.body;
+
+      if (!newPassword) {
+        return res.status(400).json({
+          success: false,
+          error: 'newPassword is required',
+        });
+      }
+
+      await adminService.resetPassword(req.params.id, newPassword);
+
+      res.json({
+        success: true,
+        message: 'Password reset successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // DELETE /api/admin/users/:id/2fa - Reset an admin's two-factor authentication (super_admin only)
+  // The admin's tokens stop working and they enroll again at next login
+  async resetTwoFactor(req: Request, res: Response, next: NextFunction) {
+    try {
+      const admin = await adminService.resetTwoFactor(req.params.id);
+
+      res.json({
+        success: true,
+        data: admin,
+        message: 'Two-factor authentication reset',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export default new AdminController();
@@ -4,8 +4,8 @@
 // These endpoints allow merchants to integrate plastic-neutral checkout
 // into their e-commerce platforms.
 //
-// Authentication: Merchants authenticate using their merchantId + webhookSecret
-// This provides a simple API key-like auth without requiring OAuth.
+// Authentication: Merchants authenticate with a scoped API key (x-api-key header,
+// checkout:write scope) issued from the merchant portal or by an admin.
 
 import { Request, Response, NextFunction } from 'express';
 import checkoutService from '../services/checkout.service.js';
@@ -19,6 +19,7 @@ class CheckoutController {
    * Request body:
    * {
    *   "merchantId": "uuid",
+   *   "currency": "EUR",  // Optional ISO 4217 currency of item prices
    *   "items": [
    *     { "sku": "PRODUCT-001", "quantity": 2, "price": 25.00 }
    *   ]
@@ -26,15 +27,20 @@ class CheckoutController {
    *
    * Response:
    * {
+   *   "currency": "EUR",
+   *   "plasticFee": 0.50,  // In the request currency - charge this
    *   "plasticFeeEur": 0.50,
+   *   "fxRate": 1,
    *   "plasticFeePerItem": [...],
    *   "totalImpactGrams": 4545,
-   *   "csrPricePerKg": 0.11
+   *   "csrPricePerKg": 0.11,
+   *   "quoteId": "eyJ...",  // Signed quote - pass to create-session / create-payment-intent
+   *   "quoteExpiresAt": "2026-01-15T12:30:00Z"
    * }
    */
   async calculateFee(req: Request, res: Response, next: NextFunction) {
     try {
-      const { merchantId, items } = req.body;
+      const { merchantId, items, currency } = req.body;
 
       if (!merchantId || !items || !Array.isArray(items)) {
         return res.status(400).json({
@@ -43,7 +49,7 @@ class CheckoutController {
         });
       }
 
-      const result = await checkoutService.calculatePlasticFee({ merchantId, items });
+      const result = await checkoutService.calculatePlasticFee({ merchantId, items, currency });
 
       res.json({
         success: true,
@@ -71,6 +77,8 @@ class CheckoutController {
    *     { "sku": "PRODUCT-001", "name": "Product Name", "quantity": 2, "priceEur": 25.00 }
    *   ],
    *   "plasticFeeEur": 0.50,
+   *   "currency": "EUR",  // Optional - item prices and plasticFeeEur are in this currency
+   *   "quoteId": "eyJ...",  // From calculate-fee - items and fee must match the quote
    *   "successUrl": "https://merchant.com/checkout/success",
    *   "cancelUrl": "https://merchant.com/checkout/cancel",
    *   "partnerId": "optional-partner-id"
@@ -82,6 +90,7 @@ class CheckoutController {
    *   "checkoutUrl": "https://checkout.stripe.com/...",
    *   "expiresAt": "2026-01-15T12:30:00Z",
    *   "splitDetails": {
+   *     "currency": "EUR",
    *     "totalAmount": 50.50,
    *     "merchantReceives": 50.00,
    *     "plasticFee": 0.50
@@ -96,6 +105,8 @@ class CheckoutController {
         customer,
         items,
         plasticFeeEur,
+        currency,
+        quoteId,
         successUrl,
         cancelUrl,
         partnerId,
@@ -103,10 +114,10 @@ class CheckoutController {
       } = req.body;
 
       // Validate required fields
-      if (!merchantId || !orderId || !customer || !items || plasticFeeEur === undefined) {
+      if (!merchantId || !orderId || !customer || !items || plasticFeeEur === undefined || !quoteId) {
         return res.status(400).json({
           success: false,
-          error: 'Missing required fields: merchantId, orderId, customer, items, plasticFeeEur',
+          error: 'Missing required fields: merchantId, orderId, customer, items, plasticFeeEur, quoteId',
         });
       }
 
@@ -130,6 +141,8 @@ class CheckoutController {
         customer,
         items,
         plasticFeeEur,
+        currency,
+        quoteId,
         successUrl,
         cancelUrl,
         partnerId,
@@ -237,7 +250,11 @@ class CheckoutController {
    *   "orderId": "ORDER-12345",
    *   "totalAmountEur": 50.50,
    *   "plasticFeeEur": 0.50,
+   *   "currency": "EUR",  // Optional - amounts are in this currency
+   *   "quoteId": "eyJ...",  // From calculate-fee - total and fee must match the quote
    *   "customerEmail": "customer@example.com",
+   *   "customerFirstName": "John",  // Optional - used for the impact page
+   *   "customerLastName": "Doe",
    *   "partnerId": "optional"
    * }
    *
@@ -255,15 +272,19 @@ class CheckoutController {
         orderId,
         totalAmountEur,
         plasticFeeEur,
+        currency,
+        quoteId,
         customerEmail,
+        customerFirstName,
+        customerLastName,
         partnerId,
         metadata,
       } = req.body;
 
-      if (!merchantId || !orderId || !totalAmountEur || plasticFeeEur === undefined || !customerEmail) {
+      if (!merchantId || !orderId || !totalAmountEur || plasticFeeEur === undefined || !customerEmail || !quoteId) {
         return res.status(400).json({
           success: false,
-          error: 'Missing required fields: merchantId, orderId, totalAmountEur, plasticFeeEur, customerEmail',
+          error: 'Missing required fields: merchantId, orderId, totalAmountEur, plasticFeeEur, customerEmail, quoteId',
         });
       }
 
@@ -272,7 +293,11 @@ class CheckoutController {
         orderId,
         totalAmountEur,
         plasticFeeEur,
+        currency,
+        quoteId,
         customerEmail,
+        customerFirstName,
+        customerLastName,
         partnerId,
         metadata,
       });
@@ -285,6 +310,29 @@ class CheckoutController {
       next(error);
     }
   }
+
+  /**
+   * POST /api/checkout/payment-intent/:id/complete
+   * Complete a direct payment intent after Stripe.js confirmed it client-side
+   * Idempotent - the payment_intent.succeeded webhook may already have recorded it
+   *
+   * Response: same as POST /api/checkout/complete
+   */
+  async completePaymentIntent(req: Request, res: Response, next: NextFunction) {
+    try {
+      const result = await checkoutService.completePaymentIntent({
+        merchantId: req.merchantId!,
+        paymentIntentId: req.params.id,
+      });
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export default new CheckoutController();
@@ -1,6 +1,7 @@
 // Config Controller - HTTP handlers for global configuration management
 import { Request, Response, NextFunction } from 'express';
 import configService from '../services/config.service.js';
+import exchangeRateService from '../services/exchange-rate.service.js';
 
 class ConfigController {
   // GET /api/config/:key - Get configuration value by key
@@ -56,9 +57,8 @@ class ConfigController {
         }
       }
 
-      // Get admin identifier from request (could be from JWT token or session)
-      // For now, using a placeholder - this should be replaced with actual admin identification
-      const changedBy = (req as any).adminEmail || 'admin';
+      // Audit trail - authenticated admin set by requirePermission
+      const changedBy = req.admin!.email;
 
       const config = await configService.setValue(key, value, description, changedBy);
 
@@ -101,6 +101,146 @@ class ConfigController {
       next(error);
     }
   }
+
+  // GET /api/config/csr-price/periods - List CSR price periods (admin only)
+  async getCSRPricePeriods(req: Request, res: Response, next: NextFunction) {
+    try {
+      const periods = await configService.getCSRPricePeriods();
+
+      res.json({
+        success: true,
+        data: periods,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/config/csr-price/periods - Schedule a CSR price change (admin only)
+  // Body: { price: number, effectiveFrom?: ISO date (defaults to now), note?: string }
+  async scheduleCSRPrice(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { price, effectiveFrom, note } = req.body;
+
+      const numPrice = parseFloat(price);
+      if (isNaN(numPrice) || numPrice <= 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Price must be a positive number',
+        });
+      }
+
+      const effectiveDate = effectiveFrom ? new Date(effectiveFrom) : new Date();
+      if (isNaN(effectiveDate.getTime())) {
+        return res.status(400).json({
+          success: false,
+          error: 'effectiveFrom must be a valid date',
+        });
+      }
+
+      // Audit trail - authenticated admin set by requirePermission
+      const createdBy = req.admin!.email;
+
+      const period = await configService.scheduleCSRPrice(numPrice, effectiveDate, createdBy, note);
+
+      res.status(201).json({
+        success: true,
+        data: period,
+        message: `CSR price €${numPrice}/kg scheduled from ${effectiveDate.toISOString()}`,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // DELETE /api/config/csr-price/periods/:id - Cancel a scheduled CSR price change (admin only)
+  async cancelCSRPricePeriod(req: Request, res: Response, next: NextFunction) {
+    try {
+      await configService.cancelCSRPricePeriod(req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Scheduled CSR price change cancelled',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/config/fx-rates - Exchange rates in force and scheduled changes (admin only)
+  async getExchangeRates(req: Request, res: Response, next: NextFunction) {
+    try {
+      const rates = await exchangeRateService.getCurrentRates();
+
+      res.json({
+        success: true,
+        data: rates,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/config/fx-rates/:currency/history - All rates entered for a currency (admin only)
+  async getExchangeRateHistory(req: Request, res: Response, next: NextFunction) {
+    try {
+      const rates = await exchangeRateService.getRateHistory(req.params.currency);
+
+      res.json({
+        success: true,
+        data: rates,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/config/fx-rates - Enter an exchange rate (admin only)
+  // Body: { currency: string, rate: number (units per 1 EUR), effectiveFrom?: ISO date (defaults to now), note?: string }
+  async setExchangeRate(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { currency, rate, effectiveFrom, note } = req.body;
+
+      if (!currency) {
+        return res.status(400).json({
+          success: false,
+          error: 'currency is required',
+        });
+      }
+
+      const numRate = parseFloat(rate);
+      if (isNaN(numRate) || numRate <= 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Rate must be a positive number',
+        });
+      }
+
+      const effectiveDate = effectiveFrom ? new Date(effectiveFrom) : new Date();
+      if (isNaN(effectiveDate.getTime())) {
+        return res.status(400).json({
+          success: false,
+          error: 'effectiveFrom must be a valid date',
+        });
+      }
+
+      // Audit trail - authenticated admin set by requirePermission
+      const createdBy = req.admin!.email;
+
+      const exchangeRate = await exchangeRateService.setRate(currency, numRate, createdBy, {
+        effectiveFrom: effectiveDate,
+        note,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: exchangeRate,
+        message: `${exchangeRate.currency} ${numRate} per EUR from ${effectiveDate.toISOString()}`,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export default new ConfigController();
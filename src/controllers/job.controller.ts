@@ -0,0 +1,77 @@
+// Job Controller - Admin view of the background job queue
+// NO business logic here - all in service layer
+
+import { Request, Response, NextFunction } from 'express';
+import jobQueueService from '../services/job-queue.service.js';
+import { JobStatus } from '../database/models/Job.js';
+
+class JobController {
+  // GET /api/admin/jobs - List jobs
+  // Query: status (pending|running|completed|dead), type, limit, offset
+  async getAll(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { status, type, limit, offset } = req.query;
+
+      const result = await jobQueueService.listJobs({
+        status: status as JobStatus | undefined,
+        type: type as string | undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        offset: offset ? parseInt(offset as string, 10) : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: result.jobs,
+        total: result.total,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/admin/jobs/stats - Queue counts by status and type
+  async getStats(req: Request, res: Response, next: NextFunction) {
+    try {
+      const stats = await jobQueueService.getStats();
+
+      res.json({
+        success: true,
+        data: stats,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/admin/jobs/:id - Job details including payload and last error
+  async getById(req: Request, res: Response, next: NextFunction) {
+    try {
+      const job = await jobQueueService.getJobById(req.params.id);
+
+      res.json({
+        success: true,
+        data: job,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/admin/jobs/:id/retry - Requeue a dead-lettered job
+  async retry(req: Request, res: Response, next: NextFunction) {
+    try {
+      const job = await jobQueueService.retryJob(req.params.id);
+      console.log(`🔁 Job ${job.type} ${job.id} requeued by ${req.admin!.email}`);
+
+      res.json({
+        success: true,
+        data: job,
+        message: 'Job requeued',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new JobController();
@@ -0,0 +1,240 @@
+// Merchant Auth Controller - Merchant portal login, merchant users and API keys
+// NO business logic here - all in service layer
+
+import { Request, Response, NextFunction } from 'express';
+import merchantAuthService from '../services/merchant-auth.service.js';
+import { Merchant } from '../database/models/index.js';
+import { MERCHANT_API_KEY_SCOPES } from '../database/models/MerchantApiKey.js';
+
+// Audit identity - admin email on admin routes, merchant user email on portal routes
+// (module-level: controller methods are passed to the router unbound)
+const getActor = (req: Request): string => {
+  return req.admin?.email || req.merchantAuth?.actor || 'unknown';
+};
+
+class MerchantAuthController {
+  // ==========================================
+  // MERCHANT PORTAL LOGIN
+  // ==========================================
+
+  // POST /api/merchant/auth/request-magic-link - Send a login link to a merchant user
+  async requestMagicLink(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { email } = req.body;
+
+      if (!email) {
+        return res.status(400).json({
+          success: false,
+          error: 'Email is required',
+        });
+      }
+
+      const result = await merchantAuthService.requestMagicLink(email.toLowerCase());
+
+      res.json({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/merchant/auth/verify-magic-link - Verify login link and create portal session
+  async verifyMagicLink(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { token } = req.body;
+
+      if (!token) {
+        return res.status(400).json({
+          success: false,
+          error: 'Token is required',
+        });
+      }
+
+      const result = await merchantAuthService.verifyMagicLink(token);
+
+      if (!result.success) {
+        return res.status(401).json({
+          success: false,
+          error: result.error,
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          sessionToken: result.sessionToken,
+          merchantUser: result.merchantUser,
+          merchant: result.merchant,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/merchant/me - Current merchant and how the caller authenticated
+  async getMe(req: Request, res: Response, next: NextFunction) {
+    try {
+      const merchant = await Merchant.findByPk(req.merchantId!, {
+        attributes: ['id', 'name', 'email', 'isActive', 'stripeAccountStatus'],
+      });
+
+      res.json({
+        success: true,
+        data: {
+          merchant,
+          auth: req.merchantAuth,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // ==========================================
+  // API KEYS - merchant portal (own merchant) and admin (any merchant)
+  // ==========================================
+
+  // GET /api/merchant/api-keys | GET /api/admin/merchants/:id/api-keys - List API keys
+  async getApiKeys(req: Request, res: Response, next: NextFunction) {
+    try {
+      const apiKeys = await merchantAuthService.getApiKeys(req.merchantId || req.params.id);
+
+      res.json({
+        success: true,
+        data: apiKeys,
+        availableScopes: MERCHANT_API_KEY_SCOPES,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/merchant/api-keys | POST /api/admin/merchants/:id/api-keys - Issue an API key
+  // Body: { name: string, scopes: string[] }
+  async issueApiKey(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { name, scopes } = req.body;
+
+      if (!name || !Array.isArray(scopes)) {
+        return res.status(400).json({
+          success: false,
+          error: 'name and scopes are required',
+        });
+      }
+
+      const { apiKey, key } = await merchantAuthService.issueApiKey(
+        req.merchantId || req.params.id,
+        { name, scopes },
+        getActor(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        data: { ...apiKey.toJSON(), key },
+        message: 'API key created - copy it now, it will not be shown again',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/merchant/api-keys/:keyId/rotate | POST /api/admin/merchants/:id/api-keys/:keyId/rotate
+  // Body: { graceHours?: number } - how long the old key keeps working (default 24)
+  async rotateApiKey(req: Request, res: Response, next: NextFunction) {
+    try {
+      const graceHours = req.body.graceHours !== undefined ? Number(req.body.graceHours) : undefined;
+      if (graceHours !== undefined && (isNaN(graceHours) || graceHours < 0 || graceHours > 168)) {
+        return res.status(400).json({
+          success: false,
+          error: 'graceHours must be between 0 and 168',
+        });
+      }
+
+      const { apiKey, key, previousKeyExpiresAt } = await merchantAuthService.rotateApiKey(
+        req.merchantId || req.params.id,
+        req.params.keyId,
+        getActor(req),
+        graceHours
+      );
+
+      res.json({
+        success: true,
+        data: { ...apiKey.toJSON(), key, previousKeyExpiresAt },
+        message: 'API key rotated - copy the new key now, it will not be shown again',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // DELETE /api/merchant/api-keys/:keyId | DELETE /api/admin/merchants/:id/api-keys/:keyId - Revoke
+  async revokeApiKey(req: Request, res: Response, next: NextFunction) {
+    try {
+      const apiKey = await merchantAuthService.revokeApiKey(req.merchantId || req.params.id, req.params.keyId);
+
+      res.json({
+        success: true,
+        data: apiKey,
+        message: 'API key revoked',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // ==========================================
+  // MERCHANT USERS (admin only)
+  // ==========================================
+
+  // GET /api/admin/merchants/:id/users - List portal users of a merchant
+  async getMerchantUsers(req: Request, res: Response, next: NextFunction) {
+    try {
+      const users = await merchantAuthService.getMerchantUsers(req.params.id);
+
+      res.json({
+        success: true,
+        data: users,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/admin/merchants/:id/users - Invite a portal user
+  // Body: { email: string, name?: string }
+  async createMerchantUser(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { email, name } = req.body;
+
+      const merchantUser = await merchantAuthService.createMerchantUser(req.params.id, { email, name }, req.admin!.email);
+
+      res.status(201).json({
+        success: true,
+        data: merchantUser,
+        message: 'Merchant user created - they can now request a login link',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // DELETE /api/admin/merchants/:id/users/:userId - Deactivate a portal user
+  async deactivateMerchantUser(req: Request, res: Response, next: NextFunction) {
+    try {
+      const merchantUser = await merchantAuthService.deactivateMerchantUser(req.params.id, req.params.userId);
+
+      res.json({
+        success: true,
+        data: merchantUser,
+        message: 'Merchant user deactivated',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new MerchantAuthController();
@@ -0,0 +1,50 @@
+// Order Controller - E-commerce orders and their line transactions
+// Admins view any merchant's orders via :id; merchants view their own (portal session or API key)
+// NO business logic here - all in service layer
+
+import { Request, Response, NextFunction } from 'express';
+import orderService from '../services/order.service.js';
+import { OrderPlatform, OrderStatus } from '../database/models/Order.js';
+
+class OrderController {
+  // GET /api/merchant/orders | GET /api/admin/merchants/:id/orders - List orders, newest first
+  // Query: ?status=pending|completed&platform=CHECKOUT|WOOCOMMERCE|SHOPIFY|CUSTOM&limit=50&offset=0
+  async listOrders(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { status, platform, limit, offset } = req.query;
+
+      const result = await orderService.listOrders(req.merchantId || req.params.id, {
+        status: status as OrderStatus | undefined,
+        platform: platform as OrderPlatform | undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        offset: offset ? parseInt(offset as string, 10) : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: result.orders,
+        total: result.total,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/merchant/orders/:orderId | GET /api/admin/merchants/:id/orders/:orderId
+  // :orderId is the external order id (e.g. WC-1234) or the CSR26 order id
+  // Returns the order with its transactions, landing page tokens and impact URL
+  async getOrder(req: Request, res: Response, next: NextFunction) {
+    try {
+      const order = await orderService.getOrderDetails(req.merchantId || req.params.id, req.params.orderId);
+
+      res.json({
+        success: true,
+        data: order,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new OrderController();
@@ -0,0 +1,185 @@
+// Outbound Webhook Controller - Merchant webhook endpoints and their delivery log
+// Routes exist for the merchant portal (own merchant) and admins (any merchant via :id)
+// NO business logic here - all in service layer
+
+import { Request, Response, NextFunction } from 'express';
+import outboundWebhookService from '../services/outbound-webhook.service.js';
+import { OUTBOUND_WEBHOOK_EVENTS } from '../database/models/WebhookEndpoint.js';
+import { WebhookDeliveryStatus } from '../database/models/WebhookDelivery.js';
+
+// Audit identity - admin email on admin routes, merchant user email on portal routes
+// (module-level: controller methods are passed to the router unbound)
+const getActor = (req: Request): string => {
+  return req.admin?.email || req.merchantAuth?.actor || 'unknown';
+};
+
+class OutboundWebhookController {
+  // ==========================================
+  // ENDPOINTS
+  // ==========================================
+
+  // GET /api/merchant/webhook-endpoints | GET /api/admin/merchants/:id/webhook-endpoints - List endpoints
+  async getEndpoints(req: Request, res: Response, next: NextFunction) {
+    try {
+      const endpoints = await outboundWebhookService.getEndpoints(req.merchantId || req.params.id);
+
+      res.json({
+        success: true,
+        data: endpoints,
+        availableEvents: OUTBOUND_WEBHOOK_EVENTS,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/merchant/webhook-endpoints | POST /api/admin/merchants/:id/webhook-endpoints - Register an endpoint
+  // Body: { url: string, events: string[], description?: string }
+  async createEndpoint(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { url, events, description } = req.body;
+
+      if (!url || !Array.isArray(events)) {
+        return res.status(400).json({
+          success: false,
+          error: 'url and events are required',
+        });
+      }
+
+      const { endpoint, secret } = await outboundWebhookService.createEndpoint(
+        req.merchantId || req.params.id,
+        { url, events, description },
+        getActor(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        data: { ...endpoint.toJSON(), secret },
+        message: 'Webhook endpoint created - copy the signing secret now, it will not be shown again',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // PUT /api/merchant/webhook-endpoints/:endpointId | PUT /api/admin/merchants/:id/webhook-endpoints/:endpointId
+  // Body: { url?, events?, description?, isActive? }
+  async updateEndpoint(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { url, events, description, isActive } = req.body;
+
+      const endpoint = await outboundWebhookService.updateEndpoint(
+        req.merchantId || req.params.id,
+        req.params.endpointId,
+        { url, events, description, isActive }
+      );
+
+      res.json({
+        success: true,
+        data: endpoint,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/merchant/webhook-endpoints/:endpointId/rotate-secret | POST /api/admin/merchants/:id/webhook-endpoints/:endpointId/rotate-secret
+  async rotateEndpointSecret(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { endpoint, secret } = await outboundWebhookService.rotateEndpointSecret(
+        req.merchantId || req.params.id,
+        req.params.endpointId
+      );
+
+      res.json({
+        success: true,
+        data: { ...endpoint.toJSON(), secret },
+        message: 'Signing secret rotated - deliveries are signed with the new secret from now on',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // DELETE /api/merchant/webhook-endpoints/:endpointId | DELETE /api/admin/merchants/:id/webhook-endpoints/:endpointId
+  async deleteEndpoint(req: Request, res: Response, next: NextFunction) {
+    try {
+      await outboundWebhookService.deleteEndpoint(req.merchantId || req.params.id, req.params.endpointId);
+
+      res.json({
+        success: true,
+        message: 'Webhook endpoint deleted',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // ==========================================
+  // DELIVERY LOG
+  // ==========================================
+
+  // GET /api/merchant/webhook-deliveries | GET /api/admin/merchants/:id/webhook-deliveries
+  // Query: ?endpointId=&status=pending|succeeded|failed&eventType=&limit=50&offset=0
+  async listDeliveries(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { endpointId, status, eventType, limit, offset } = req.query;
+
+      const result = await outboundWebhookService.listDeliveries(req.merchantId || req.params.id, {
+        endpointId: endpointId as string | undefined,
+        status: status as WebhookDeliveryStatus | undefined,
+        eventType: eventType as string | undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        offset: offset ? parseInt(offset as string, 10) : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: result.deliveries,
+        total: result.total,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/merchant/webhook-deliveries/:deliveryId | GET /api/admin/merchants/:id/webhook-deliveries/:deliveryId
+  // The endpoint's response body is only returned on the admin route
+  async getDelivery(req: Request, res: Response, next: NextFunction) {
+    try {
+      const delivery = await outboundWebhookService.getDelivery(
+        req.merchantId || req.params.id,
+        req.params.deliveryId,
+        { includeResponseBody: !req.merchantAuth && !!req.admin }
+      );
+
+      res.json({
+        success: true,
+        data: delivery,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/merchant/webhook-deliveries/:deliveryId/resend | POST /api/admin/merchants/:id/webhook-deliveries/:deliveryId/resend
+  async resendDelivery(req: Request, res: Response, next: NextFunction) {
+    try {
+      const delivery = await outboundWebhookService.resendDelivery(
+        req.merchantId || req.params.id,
+        req.params.deliveryId,
+        getActor(req)
+      );
+
+      res.json({
+        success: true,
+        data: delivery,
+        message: 'Webhook delivery queued for resend',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new OutboundWebhookController();
@@ -0,0 +1,98 @@
+// Partner Assignment Controller - Partner-merchant assignments and attribution history
+// NO business logic here - all in service layer
+
+import { Request, Response, NextFunction } from 'express';
+import partnerAssignmentService from '../services/partner-assignment.service.js';
+
+class PartnerAssignmentController {
+  // GET /api/admin/merchants/:id/partner-assignments - Assignments and per-partner attribution of a merchant
+  async getMerchantAttributionHistory(req: Request, res: Response, next: NextFunction) {
+    try {
+      const history = await partnerAssignmentService.getMerchantAttributionHistory(req.params.id);
+
+      res.json({
+        success: true,
+        data: history,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/admin/merchants/:id/partner-assignments - Assign the merchant to a partner
+  // Body: { partnerId, startDate?, endDate?, note? } - startDate defaults to now
+  async createAssignment(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { partnerId, startDate, endDate, note } = req.body;
+
+      const assignment = await partnerAssignmentService.createAssignment(
+        req.params.id,
+        { partnerId, startDate, endDate, note },
+        req.admin!.email
+      );
+
+      res.status(201).json({
+        success: true,
+        data: assignment,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // PUT /api/admin/merchants/:id/partner-assignments/:assignmentId - Change dates or note
+  // Body: { startDate?, endDate?, note? }
+  async updateAssignment(req: Request, res: Response, next: NextFunction) {
+    try {
+      const assignment = await partnerAssignmentService.updateAssignment(
+        req.params.id,
+        req.params.assignmentId,
+        req.body,
+        req.admin!.email
+      );
+
+      res.json({
+        success: true,
+        data: assignment,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/admin/merchants/:id/partner-assignments/:assignmentId/end - End an assignment
+  // Body: { endDate? } - defaults to now
+  async endAssignment(req: Request, res: Response, next: NextFunction) {
+    try {
+      const assignment = await partnerAssignmentService.endAssignment(
+        req.params.id,
+        req.params.assignmentId,
+        req.admin!.email,
+        req.body.endDate
+      );
+
+      res.json({
+        success: true,
+        data: assignment,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/admin/partners/:id/merchant-assignments - Merchants assigned to a partner, newest first
+  async getPartnerAssignments(req: Request, res: Response, next: NextFunction) {
+    try {
+      const assignments = await partnerAssignmentService.getPartnerAssignments(req.params.id);
+
+      res.json({
+        success: true,
+        data: assignments,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new PartnerAssignmentController();
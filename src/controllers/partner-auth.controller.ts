@@ -0,0 +1,139 @@
+// Partner Auth Controller - Partner portal login and partner users
+// NO business logic here - all in service layer
+
+import { Request, Response, NextFunction } from 'express';
+import partnerAuthService from '../services/partner-auth.service.js';
+import partnerPortalService from '../services/partner-portal.service.js';
+
+class PartnerAuthController {
+  // ==========================================
+  // PARTNER PORTAL LOGIN
+  // ==========================================
+
+  // POST /api/partner/auth/request-magic-link - Send a login link to a partner user
+  async requestMagicLink(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { email } = req.body;
+
+      if (!email) {
+        return res.status(400).json({
+          success: false,
+          error: 'Email is required',
+        });
+      }
+
+      const result = await partnerAuthService.requestMagicLink(email.toLowerCase());
+
+      res.json({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/partner/auth/verify-magic-link - Verify login link and create portal session
+  async verifyMagicLink(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { token } = req.body;
+
+      if (!token) {
+        return res.status(400).json({
+          success: false,
+          error: 'Token is required',
+        });
+      }
+
+      const result = await partnerAuthService.verifyMagicLink(token);
+
+      if (!result.success) {
+        return res.status(401).json({
+          success: false,
+          error: result.error,
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          sessionToken: result.sessionToken,
+          partnerUser: result.partnerUser,
+          partner: result.partner,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/partner/me - Current partner and portal user
+  async getMe(req: Request, res: Response, next: NextFunction) {
+    try {
+      const partner = await partnerPortalService.getPartner(req.partnerId!);
+
+      res.json({
+        success: true,
+        data: {
+          partner,
+          partnerUser: req.partnerUser,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // ==========================================
+  // PARTNER USERS (admin only)
+  // ==========================================
+
+  // GET /api/admin/partners/:id/users - List portal users of a partner
+  async getPartnerUsers(req: Request, res: Response, next: NextFunction) {
+    try {
+      const users = await partnerAuthService.getPartnerUsers(req.params.id);
+
+      res.json({
+        success: true,
+        data: users,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/admin/partners/:id/users - Invite a portal user
+  // Body: { email: string, name?: string }
+  async createPartnerUser(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { email, name } = req.body;
+
+      const partnerUser = await partnerAuthService.createPartnerUser(req.params.id, { email, name }, req.admin!.email);
+
+      res.status(201).json({
+        success: true,
+        data: partnerUser,
+        message: 'Partner user created - they can now request a login link',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // DELETE /api/admin/partners/:id/users/:userId - Deactivate a portal user
+  async deactivatePartnerUser(req: Request, res: Response, next: NextFunction) {
+    try {
+      const partnerUser = await partnerAuthService.deactivatePartnerUser(req.params.id, req.params.userId);
+
+      res.json({
+        success: true,
+        data: partnerUser,
+        message: 'Partner user deactivated',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new PartnerAuthController();
@@ -0,0 +1,169 @@
+// Partner Portal Controller - Partner-scoped merchants, transactions, impact, invoices and QR codes
+// NO business logic here - all in service layer
+// Every handler reads the partner from req.partnerId (set by requirePartner)
+
+import { Request, Response, NextFunction } from 'express';
+import partnerPortalService from '../services/partner-portal.service.js';
+import partnerRoyaltyService from '../services/partner-royalty.service.js';
+import { PaymentStatus } from '../database/models/index.js';
+import { PartnerInvoiceStatus } from '../database/models/PartnerInvoice.js';
+
+class PartnerPortalController {
+  // GET /api/partner/merchants - Assigned merchants and merchants with attributed transactions, with their totals
+  async getMerchants(req: Request, res: Response, next: NextFunction) {
+    try {
+      const merchants = await partnerPortalService.getMerchants(req.partnerId!);
+
+      res.json({
+        success: true,
+        data: merchants,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/partner/transactions - Attributed transactions, newest first
+  // Query: ?merchantId=&paymentStatus=&startDate=&endDate=&limit=50&offset=0
+  async listTransactions(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { merchantId, paymentStatus, startDate, endDate, limit, offset } = req.query;
+
+      const result = await partnerPortalService.listTransactions(req.partnerId!, {
+        merchantId: merchantId as string | undefined,
+        paymentStatus: paymentStatus as PaymentStatus | undefined,
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        offset: offset ? parseInt(offset as string, 10) : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: result.transactions,
+        total: result.total,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/partner/impact - Completed totals, overall and per month
+  // Query: ?startDate=&endDate=
+  async getImpactSummary(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { startDate, endDate } = req.query;
+
+      const summary = await partnerPortalService.getImpactSummary(req.partnerId!, {
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: summary,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/partner/invoices - Issued and paid royalty invoices
+  // Query: ?status=ISSUED|PAID&month=YYYY-MM&limit=50&offset=0
+  async listInvoices(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { status, month, limit, offset } = req.query;
+
+      const result = await partnerRoyaltyService.listInvoices({
+        partnerId: req.partnerId!,
+        issuedOnly: true,
+        status: status as PartnerInvoiceStatus | undefined,
+        month: month as string | undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        offset: offset ? parseInt(offset as string, 10) : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: result.invoices,
+        total: result.total,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/partner/invoices/:invoiceId - Invoice with its lines
+  async getInvoice(req: Request, res: Response, next: NextFunction) {
+    try {
+      const invoice = await partnerRoyaltyService.getInvoice(req.params.invoiceId, req.partnerId!);
+
+      res.json({
+        success: true,
+        data: invoice,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/partner/invoices/:invoiceId/pdf - Download the invoice PDF
+  async downloadInvoicePDF(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { invoice, pdf } = await partnerRoyaltyService.generateInvoicePDF(req.params.invoiceId, req.partnerId!);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename=${invoice.invoiceNumber}.pdf`);
+      res.send(pdf);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/partner/qrcodes - QR code attributed to the partner
+  // Body: { skuCode, merchantId?, amount?, format?, includeLogo? } - merchantId must be one of the partner's merchants
+  async generateQRCode(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { skuCode, merchantId, amount, format, includeLogo } = req.body;
+
+      const qrCode = await partnerPortalService.generateQRCode(req.partnerId!, {
+        skuCode,
+        merchantId,
+        amount,
+        format,
+        includeLogo,
+      });
+
+      res.json({
+        success: true,
+        data: qrCode,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/partner/qrcodes/bulk - QR codes for several SKUs attributed to the partner
+  // Body: { skuCodes[], merchantId?, format?, includeLogo? } - merchantId must be one of the partner's merchants
+  async generateBulkQRCodes(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { skuCodes, merchantId, format, includeLogo } = req.body;
+
+      const result = await partnerPortalService.generateBulkQRCodes(req.partnerId!, {
+        skuCodes,
+        merchantId,
+        format,
+        includeLogo,
+      });
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new PartnerPortalController();
@@ -0,0 +1,165 @@
+// Partner Royalty Controller - Partner agreements, monthly close and royalty invoices
+// NO business logic here - all in service layer
+
+import { Request, Response, NextFunction } from 'express';
+import partnerRoyaltyService from '../services/partner-royalty.service.js';
+import { PartnerInvoiceStatus } from '../database/models/PartnerInvoice.js';
+
+class PartnerRoyaltyController {
+  // GET /api/admin/partners/:id/agreements - Agreements of a partner, newest first
+  async getAgreements(req: Request, res: Response, next: NextFunction) {
+    try {
+      const agreements = await partnerRoyaltyService.getAgreements(req.params.id);
+
+      res.json({
+        success: true,
+        data: agreements,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/admin/partners/:id/agreements - Create an agreement
+  // Body: { royaltyType, rate?, tiers?, effectiveFrom, effectiveTo?, note? }
+  async createAgreement(req: Request, res: Response, next: NextFunction) {
+    try {
+      const agreement = await partnerRoyaltyService.createAgreement(req.params.id, req.body, req.admin!.email);
+
+      res.status(201).json({
+        success: true,
+        data: agreement,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // PUT /api/admin/partners/:id/agreements/:agreementId - Update an agreement
+  async updateAgreement(req: Request, res: Response, next: NextFunction) {
+    try {
+      const agreement = await partnerRoyaltyService.updateAgreement(req.params.id, req.params.agreementId, req.body);
+
+      res.json({
+        success: true,
+        data: agreement,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // DELETE /api/admin/partners/:id/agreements/:agreementId - Delete an agreement not yet invoiced
+  async deleteAgreement(req: Request, res: Response, next: NextFunction) {
+    try {
+      await partnerRoyaltyService.deleteAgreement(req.params.id, req.params.agreementId);
+
+      res.json({
+        success: true,
+        message: 'Partner agreement deleted',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/admin/partner-invoices - List invoices, newest period first
+  // Query: ?partnerId=&status=DRAFT|ISSUED|PAID&month=YYYY-MM&limit=50&offset=0
+  async listInvoices(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { partnerId, status, month, limit, offset } = req.query;
+
+      const result = await partnerRoyaltyService.listInvoices({
+        partnerId: partnerId as string | undefined,
+        status: status as PartnerInvoiceStatus | undefined,
+        month: month as string | undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        offset: offset ? parseInt(offset as string, 10) : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: result.invoices,
+        total: result.total,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/admin/partner-invoices/:id - Invoice with its lines
+  async getInvoice(req: Request, res: Response, next: NextFunction) {
+    try {
+      const invoice = await partnerRoyaltyService.getInvoice(req.params.id);
+
+      res.json({
+        success: true,
+        data: invoice,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/admin/partner-invoices/:id/pdf - Download the invoice PDF
+  async downloadInvoicePDF(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { invoice, pdf } = await partnerRoyaltyService.generateInvoicePDF(req.params.id);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename=${invoice.invoiceNumber}.pdf`);
+      res.send(pdf);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/admin/partner-invoices/close - Compute (or recompute) a month's invoices
+  // Body: { month: 'YYYY-MM' }
+  async closeMonth(req: Request, res: Response, next: NextFunction) {
+    try {
+      const result = await partnerRoyaltyService.closeMonth(req.body.month, req.admin!.email);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/admin/partner-invoices/:id/issue - Issue a draft invoice
+  async issueInvoice(req: Request, res: Response, next: NextFunction) {
+    try {
+      const invoice = await partnerRoyaltyService.issueInvoice(req.params.id, req.admin!.email);
+
+      res.json({
+        success: true,
+        data: invoice,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/admin/partner-invoices/:id/mark-paid - Record the payment of an issued invoice
+  // Body: { paidAt?, paymentReference? }
+  async markInvoicePaid(req: Request, res: Response, next: NextFunction) {
+    try {
+      const invoice = await partnerRoyaltyService.markInvoicePaid(req.params.id, {
+        paidAt: req.body.paidAt,
+        paymentReference: req.body.paymentReference,
+      });
+
+      res.json({
+        success: true,
+        data: invoice,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new PartnerRoyaltyController();
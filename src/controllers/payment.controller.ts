@@ -39,7 +39,7 @@ class PaymentController {
       }
 
       // Raw body is required for webhook signature verification
-      const result = await paymentService.handleWebhook(req.body, signature);
+      const result = await paymentService.handleWebhook(req.body, signature, req.headers);
 
       res.json(result);
     } catch (error) {
@@ -0,0 +1,90 @@
+// Pricing Rule Controller - Per-merchant plastic fee pricing rules
+// Admins manage rules for any merchant via :id; merchant users can view their own
+// NO business logic here - all in service layer
+
+import { Request, Response, NextFunction } from 'express';
+import pricingRuleService from '../services/pricing-rule.service.js';
+
+class PricingRuleController {
+  // GET /api/merchant/pricing-rules | GET /api/admin/merchants/:id/pricing-rules - List rules
+  // Query: ?includeInactive=true
+  async getRules(req: Request, res: Response, next: NextFunction) {
+    try {
+      const rules = await pricingRuleService.getRules(
+        req.merchantId || req.params.id,
+        req.query.includeInactive === 'true'
+      );
+
+      res.json({
+        success: true,
+        data: rules,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/admin/merchants/:id/pricing-rules - Create a rule (admin only)
+  // Body: { scope: SKU|CATEGORY|MERCHANT, skuCode?, category?, feeType: PERCENTAGE|FIXED_PER_ITEM|PER_GRAM,
+  //         value: number, minFee?, maxFee?, roundingMode?: NEAREST|UP|DOWN, isActive? }
+  async createRule(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { scope, skuCode, category, feeType, value, minFee, maxFee, roundingMode, isActive } = req.body;
+
+      const rule = await pricingRuleService.createRule(
+        req.params.id,
+        { scope, skuCode, category, feeType, value, minFee, maxFee, roundingMode, isActive },
+        req.admin!.email
+      );
+
+      res.status(201).json({
+        success: true,
+        data: rule,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // PUT /api/admin/merchants/:id/pricing-rules/:ruleId - Update a rule (admin only)
+  async updateRule(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { scope, skuCode, category, feeType, value, minFee, maxFee, roundingMode, isActive } = req.body;
+
+      const rule = await pricingRuleService.updateRule(req.params.id, req.params.ruleId, {
+        scope,
+        skuCode,
+        category,
+        feeType,
+        value,
+        minFee,
+        maxFee,
+        roundingMode,
+        isActive,
+      });
+
+      res.json({
+        success: true,
+        data: rule,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // DELETE /api/admin/merchants/:id/pricing-rules/:ruleId - Delete a rule (admin only)
+  async deleteRule(req: Request, res: Response, next: NextFunction) {
+    try {
+      await pricingRuleService.deleteRule(req.params.id, req.params.ruleId);
+
+      res.json({
+        success: true,
+        message: 'Pricing rule deleted',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new PricingRuleController();
@@ -2,7 +2,7 @@
 // Section 15: QR Code Generation for merchants
 import { Request, Response, NextFunction } from 'express';
 import qrcodeService from '../services/qrcode.service.js';
-import { SKU, Merchant, Partner } from '../database/models/index.js';
+import { Merchant, Partner } from '../database/models/index.js';
 import { env } from '../config/env.js';
 
 class QRCodeController {
@@ -14,12 +14,7 @@ class QRCodeController {
       const { skuCode, partnerId, amount, format = 'png', includeLogo = false } = req.body;
 
       // Validate format
-      if (!['png', 'svg', 'pdf'].includes(format)) {
-        return res.status(400).json({
-          success: false,
-          error: 'Invalid format. Must be png, svg, or pdf',
-        });
-      }
+      const qrFormat = qrcodeService.validateFormat(format);
 
       // Validate merchant exists
       const merchant = await Merchant.findByPk(merchantId);
@@ -43,13 +38,7 @@ class QRCodeController {
       }
 
       // Validate SKU exists and is active
-      const sku = await SKU.findOne({ where: { code: skuCode, isActive: true } });
-      if (!sku) {
-        return res.status(404).json({
-          success: false,
-          error: 'SKU not found or inactive',
-        });
-      }
+      const sku = await qrcodeService.getActiveSKU(skuCode);
 
       const baseUrl = env.frontend.url;
       const qrCodeData = await qrcodeService.generateQRCode({
@@ -58,7 +47,7 @@ class QRCodeController {
         merchantId,
         partnerId,
         amount: amount ? parseFloat(amount) : undefined,
-        format: format as 'png' | 'svg' | 'pdf',
+        format: qrFormat,
         includeLogo,
       });
 
@@ -83,20 +72,8 @@ class QRCodeController {
       const { merchantId } = req.params;
       const { skuCodes, partnerId, format = 'png', includeLogo = false } = req.body;
 
-      if (!Array.isArray(skuCodes) || skuCodes.length === 0) {
-        return res.status(400).json({
-          success: false,
-          error: 'skuCodes must be a non-empty array',
-        });
-      }
-
       // Validate format
-      if (!['png', 'svg', 'pdf'].includes(format)) {
-        return res.status(400).json({
-          success: false,
-          error: 'Invalid format. Must be png, svg, or pdf',
-        });
-      }
+      const qrFormat = qrcodeService.validateFormat(format);
 
       // Validate merchant
       const merchant = await Merchant.findByPk(merchantId);
@@ -120,18 +97,7 @@ class QRCodeController {
       }
 
       // Validate all SKUs exist
-      const skus = await SKU.findAll({
-        where: { code: skuCodes, isActive: true },
-      });
-
-      if (skus.length !== skuCodes.length) {
-        const foundCodes = skus.map(s => s.code);
-        const missingCodes = skuCodes.filter((c: string) => !foundCodes.includes(c));
-        return res.status(400).json({
-          success: false,
-          error: `Some SKUs not found or inactive: ${missingCodes.join(', ')}`,
-        });
-      }
+      const skus = await qrcodeService.getActiveSKUs(skuCodes);
 
       const baseUrl = env.frontend.url;
       const qrCodes = await qrcodeService.generateBulkQRCodes(
@@ -140,7 +106,7 @@ class QRCodeController {
         {
           merchantId,
           partnerId,
-          format: format as 'png' | 'svg' | 'pdf',
+          format: qrFormat,
           includeLogo,
         }
       );
@@ -172,21 +138,10 @@ class QRCodeController {
       const { skuCode, merchantId, partnerId, amount, format = 'png', includeLogo = false } = req.body;
 
       // Validate format
-      if (!['png', 'svg', 'pdf'].includes(format)) {
-        return res.status(400).json({
-          success: false,
-          error: 'Invalid format. Must be png, svg, or pdf',
-        });
-      }
+      const qrFormat = qrcodeService.validateFormat(format);
 
       // Validate SKU exists and is active
-      const sku = await SKU.findOne({ where: { code: skuCode, isActive: true } });
-      if (!sku) {
-        return res.status(404).json({
-          success: false,
-          error: 'SKU not found or inactive',
-        });
-      }
+      const sku = await qrcodeService.getActiveSKU(skuCode);
 
       // Optional: Validate merchant if provided
       let merchant = null;
@@ -219,7 +174,7 @@ class QRCodeController {
         merchantId,
         partnerId,
         amount: amount ? parseFloat(amount) : undefined,
-        format: format as 'png' | 'svg' | 'pdf',
+        format: qrFormat,
         includeLogo,
       });
 
@@ -0,0 +1,113 @@
+// Stripe Reconciliation Controller - Admin reconciliation runs and their issues
+// NO business logic here - all in service layer
+
+import { Request, Response, NextFunction } from 'express';
+import stripeReconciliationService from '../services/stripe-reconciliation.service.js';
+import { ReconciliationIssueType } from '../database/models/ReconciliationIssue.js';
+
+class StripeReconciliationController {
+  // GET /api/admin/reconciliation/runs - List reconciliation runs, newest first
+  // Query: ?limit=50&offset=0
+  async listRuns(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { limit, offset } = req.query;
+
+      const result = await stripeReconciliationService.listRuns(
+        limit ? parseInt(limit as string, 10) : undefined,
+        offset ? parseInt(offset as string, 10) : undefined
+      );
+
+      res.json({
+        success: true,
+        data: result.runs,
+        total: result.total,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/admin/reconciliation/runs - Import and reconcile a period
+  // Body: { startDate, endDate }
+  async startRun(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { startDate, endDate } = req.body;
+
+      if (!startDate || !endDate) {
+        return res.status(400).json({
+          success: false,
+          error: 'startDate and endDate are required',
+        });
+      }
+
+      const run = await stripeReconciliationService.runReconciliation(
+        new Date(startDate),
+        new Date(endDate),
+        req.admin!.email
+      );
+
+      res.status(201).json({
+        success: true,
+        data: run,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/admin/reconciliation/runs/:id - Run with its issue counts per type
+  async getRun(req: Request, res: Response, next: NextFunction) {
+    try {
+      const result = await stripeReconciliationService.getRun(req.params.id);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/admin/reconciliation/issues - List issues, newest first
+  // Query: ?runId=&issueType=FEE_MISMATCH&status=open|resolved&paymentIntentId=&limit=50&offset=0
+  async listIssues(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { runId, issueType, status, paymentIntentId, limit, offset } = req.query;
+
+      const result = await stripeReconciliationService.listIssues({
+        runId: runId as string | undefined,
+        issueType: issueType as ReconciliationIssueType | undefined,
+        status: status as 'open' | 'resolved' | undefined,
+        stripePaymentIntentId: paymentIntentId as string | undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        offset: offset ? parseInt(offset as string, 10) : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: result.issues,
+        total: result.total,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/admin/reconciliation/issues/:id/resolve - Mark an issue as resolved
+  // Body: { note? }
+  async resolveIssue(req: Request, res: Response, next: NextFunction) {
+    try {
+      const issue = await stripeReconciliationService.resolveIssue(req.params.id, req.admin!.email, req.body.note);
+
+      res.json({
+        success: true,
+        data: issue,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new StripeReconciliationController();
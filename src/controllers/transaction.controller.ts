@@ -95,7 +95,8 @@ class TransactionController {
     }
   }
 
-  // PUT /api/transactions/:id/payment-status - Update payment status (Stripe webhook)
+  // PUT /api/transactions/:id/payment-status - Settle a pending payment (admin only)
+  // Body: { paymentStatus: COMPLETED|FAILED|EXPIRED, stripePaymentIntentId? } - refunds use POST /:id/refund
   async updatePaymentStatus(req: Request, res: Response, next: NextFunction) {
     try {
       const { paymentStatus, stripePaymentIntentId } = req.body;
@@ -156,8 +157,8 @@ class TransactionController {
         });
       }
 
-      // Get admin identifier from request
-      const createdBy = (req as any).adminEmail || 'admin';
+      // Audit trail - authenticated admin set by requirePermission
+      const createdBy = req.admin!.email;
 
       const transaction = await transactionService.createManualTransaction({
         userId,
@@ -179,6 +180,49 @@ class TransactionController {
       next(error);
     }
   }
+
+  // POST /api/transactions/:id/refund - Refund or reverse a transaction (admin only)
+  // Body: { amount?: number (euros, defaults to full remainder), reason: string, reversal?: boolean }
+  async refund(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { amount, reason, reversal } = req.body;
+
+      if (!reason || reason.trim().length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Reason is required for refunds',
+        });
+      }
+
+      let amountNum: number | undefined;
+      if (amount !== undefined && amount !== null) {
+        amountNum = Number(amount);
+        if (isNaN(amountNum) || amountNum <= 0) {
+          return res.status(400).json({
+            success: false,
+            error: 'Amount must be a positive number',
+          });
+        }
+      }
+
+      // Audit trail - authenticated admin set by requirePermission
+      const refundedBy = req.admin!.email;
+
+      const transaction = await transactionService.refundTransaction(req.params.id, {
+        amount: amountNum,
+        reason: `${reason.trim()} (by ${refundedBy})`,
+        reversal: reversal === true,
+      });
+
+      res.json({
+        success: true,
+        data: transaction,
+        message: 'Refund recorded',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export default new TransactionController();
@@ -2,6 +2,7 @@
 // Section 20.4: E-commerce Integration - Token-based transaction access
 import { Request, Response, NextFunction } from 'express';
 import transactionTokenService from '../services/transactionToken.service.js';
+import orderService from '../services/order.service.js';
 
 class TransactionTokenController {
   /**
@@ -28,6 +29,11 @@ class TransactionTokenController {
         token
       );
 
+      // Checkout carts are recorded one transaction per line - the landing page shows the whole order
+      const order = result.transaction.parentOrderId
+        ? await orderService.getOrderSummary(result.transaction.parentOrderId)
+        : null;
+
       // Return transaction data formatted for e-commerce landing page
       // Note: We only return safe, public-facing data
       res.json({
@@ -52,6 +58,7 @@ class TransactionTokenController {
             name: result.sku.name,
             paymentMode: result.sku.paymentMode,
           },
+          order,
           tokenInfo: {
             accessCount: result.tokenRecord.accessCount,
             firstAccessedAt: result.tokenRecord.usedAt,
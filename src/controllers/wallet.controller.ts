@@ -32,13 +32,8 @@ class WalletController {
   // Query params: merchantId, limit, offset, startDate, endDate
   async getMerchantWallet(req: Request, res: Response, next: NextFunction) {
     try {
-      const merchantId = req.query.merchantId as string;
-      if (!merchantId) {
-        return res.status(400).json({
-          success: false,
-          error: 'Merchant ID required',
-        });
-      }
+      // Authenticated merchant set by requireMerchant
+      const merchantId = req.merchantId!;
 
       // Parse optional pagination and filtering parameters
       const options = {
@@ -113,8 +108,8 @@ class WalletController {
         });
       }
 
-      // Get admin identifier from request
-      const adjustedBy = (req as any).adminEmail || 'admin';
+      // Audit trail - authenticated admin set by requirePermission
+      const adjustedBy = req.admin!.email;
 
       const result = await walletService.adjustWallet(userId, amountGrams, reason, adjustedBy);
 
@@ -142,6 +137,54 @@ class WalletController {
       next(error);
     }
   }
+
+  // GET /api/admin/wallets/:walletId/ledger - Get wallet ledger lines (admin only)
+  async getWalletLedger(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { walletId } = req.params;
+      const options = {
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+        offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
+      };
+
+      const data = await walletService.getLedger(walletId, options);
+      res.json({
+        success: true,
+        data,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // GET /api/admin/wallets/:walletId/verify - Verify wallet totals against the ledger (admin only)
+  async verifyWallet(req: Request, res: Response, next: NextFunction) {
+    try {
+      const data = await walletService.rebuildWallet(req.params.walletId, { apply: false });
+      res.json({
+        success: true,
+        data,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // POST /api/admin/wallets/:walletId/rebuild - Rebuild wallet totals from the ledger (admin only)
+  async rebuildWallet(req: Request, res: Response, next: NextFunction) {
+    try {
+      const data = await walletService.rebuildWallet(req.params.walletId, { apply: true });
+      res.json({
+        success: true,
+        data,
+        message: data.applied
+          ? `Wallet rebuilt from ledger (${data.drift.length} field(s) corrected)`
+          : 'Wallet already matches ledger',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export default new WalletController();
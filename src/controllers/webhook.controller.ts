@@ -2,7 +2,9 @@
 // Section 20.4: WooCommerce/E-commerce Integration
 import { Request, Response, NextFunction } from 'express';
 import webhookService from '../services/webhook.service.js';
+import inboundWebhookService from '../services/inbound-webhook.service.js';
 import { Merchant } from '../database/models/index.js';
+import { InboundWebhookProvider, InboundWebhookStatus } from '../database/models/InboundWebhookEvent.js';
 
 class WebhookController {
   /**
@@ -52,12 +54,8 @@ class WebhookController {
 
       // Verify signature using raw body
       // req.body should be raw Buffer at this point (handled by middleware)
-      const isValid = webhookService.verifySignature(
-        req.body,
-        signature,
-        merchant.webhookSecret,
-        merchant.webhookPlatform
-      );
+      // During a rotation grace window the previous secret is accepted too
+      const isValid = await webhookService.verifyMerchantSignature(merchant, req.body, signature);
 
       if (!isValid) {
         console.error(`❌ Invalid webhook signature from merchant ${merchantId}`);
@@ -69,21 +67,44 @@ class WebhookController {
 
       // Parse JSON payload (now that signature is verified)
       const payload = typeof req.body === 'string' ? JSON.parse(req.body) : JSON.parse(req.body.toString('utf8'));
+      const platform = merchant.webhookPlatform;
 
-      // Process webhook
-      const result = await webhookService.processWebhook(
-        merchantId,
-        payload,
-        merchant.webhookPlatform
+      // Store the event before processing, then process it (repeated deliveries of an order are skipped)
+      const { event, duplicate, value: result } = await inboundWebhookService.receive(
+        {
+          provider: platform,
+          merchantId,
+          externalId: webhookService.getExternalOrderId(payload, platform),
+          eventType: (req.headers['x-wc-webhook-topic'] || req.headers['x-shopify-topic'] || null) as string | null,
+          rawBody: req.body,
+          headers: req.headers,
+        },
+        () => webhookService.processWebhook(merchantId, payload, platform),
+        (processed) => ({ orderId: processed.orderId, transactionIds: processed.transactionIds })
       );
 
-      console.log(`✅ Webhook processed successfully for merchant ${merchantId} - ${result.transactionIds.length} transactions created`);
+      if (duplicate) {
+        return res.json({
+          success: true,
+          data: {
+            duplicate: true,
+            eventId: event.id,
+            status: event.status,
+          },
+        });
+      }
+
+      console.log(`✅ Webhook processed successfully for merchant ${merchantId} - ${result!.transactionIds.length} transactions created`);
 
       res.json({
         success: true,
         data: {
-          transactionsCreated: result.transactionIds.length,
-          transactionIds: result.transactionIds,
+          eventId: event.id,
+          orderId: result!.orderId,
+          // Order already recorded by an earlier webhook - its transactions are returned, none created
+          duplicate: result!.duplicate,
+          transactionsCreated: result!.duplicate ? 0 : result!.transactionIds.length,
+          transactionIds: result!.transactionIds,
         },
       });
     } catch (error: any) {
@@ -132,15 +153,19 @@ class WebhookController {
       const result = await webhookService.processWebhook(
         merchantId,
         payload,
-        merchant.webhookPlatform
+        merchant.webhookPlatform,
+        { includeQrCodes: true }
       );
 
       res.json({
         success: true,
         message: 'Test webhook processed successfully',
         data: {
-          transactionsCreated: result.transactionIds.length,
+          orderId: result.orderId,
+          duplicate: result.duplicate,
+          transactionsCreated: result.duplicate ? 0 : result.transactionIds.length,
           transactionIds: result.transactionIds,
+          impactUrls: result.impactUrls,
           qrCodes: result.qrCodes,
         },
       });
@@ -177,6 +202,7 @@ class WebhookController {
           webhookUrl,
           webhookPlatform: merchant.webhookPlatform || 'Not configured',
           webhookConfigured: !!(merchant.webhookSecret && merchant.webhookPlatform),
+          webhookSecret: webhookService.getWebhookSecretStatus(merchant),
           instructions: {
             woocommerce: {
               step1: 'Go to WooCommerce > Settings > Advanced > Webhooks',
@@ -203,6 +229,116 @@ class WebhookController {
       next(error);
     }
   }
+
+  /**
+   * POST /api/webhooks/config/:merchantId/rotate-secret (merchant portal)
+   * POST /api/admin/merchants/:id/webhook-secret/rotate (admin)
+   * Issue a new webhook secret - the old one keeps working for the grace window
+   * Body: { graceHours?: number (0-168, default 24), secret?: string }
+   */
+  async rotateWebhookSecret(req: Request, res: Response, next: NextFunction) {
+    try {
+      const merchantId = req.params.merchantId || req.params.id;
+      const graceHours = req.body.graceHours !== undefined ? Number(req.body.graceHours) : undefined;
+
+      if (graceHours !== undefined && (isNaN(graceHours) || graceHours < 0 || graceHours > 168)) {
+        return res.status(400).json({
+          success: false,
+          error: 'graceHours must be between 0 and 168',
+        });
+      }
+
+      if (req.body.secret !== undefined && (typeof req.body.secret !== 'string' || req.body.secret.length < 16)) {
+        return res.status(400).json({
+          success: false,
+          error: 'secret must be a string of at least 16 characters',
+        });
+      }
+
+      const { secret, previousSecretExpiresAt } = await webhookService.rotateWebhookSecret(
+        merchantId,
+        req.admin?.email || req.merchantAuth?.actor || 'unknown',
+        { graceHours, secret: req.body.secret }
+      );
+
+      res.json({
+        success: true,
+        data: {
+          secret,
+          previousSecretExpiresAt,
+        },
+        message: 'Webhook secret rotated - update it in your store before the previous secret expires',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // ==========================================
+  // INBOUND WEBHOOK EVENTS (admin)
+  // ==========================================
+
+  /**
+   * GET /api/webhooks/admin/events
+   * List stored Stripe and e-commerce webhook events (raw body excluded)
+   * Query: status (received|processing|processed|failed), provider, merchantId, limit, offset
+   */
+  async listInboundEvents(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { status, provider, merchantId, limit, offset } = req.query;
+
+      const result = await inboundWebhookService.listEvents({
+        status: status as InboundWebhookStatus | undefined,
+        provider: provider as InboundWebhookProvider | undefined,
+        merchantId: merchantId as string | undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        offset: offset ? parseInt(offset as string, 10) : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: result.events,
+        total: result.total,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/webhooks/admin/events/:id
+   * Stored event including raw body and headers
+   */
+  async getInboundEvent(req: Request, res: Response, next: NextFunction) {
+    try {
+      const event = await inboundWebhookService.getEventById(req.params.id);
+
+      res.json({
+        success: true,
+        data: event,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/webhooks/admin/events/:id/reprocess
+   * Run a failed or stuck event again from its stored raw body
+   */
+  async reprocessInboundEvent(req: Request, res: Response, next: NextFunction) {
+    try {
+      const event = await inboundWebhookService.reprocessEvent(req.params.id, req.admin!.email);
+
+      res.json({
+        success: event.status === 'processed',
+        data: event,
+        ...(event.status !== 'processed' && { error: `Reprocessing failed: ${event.lastError}` }),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export default new WebhookController();
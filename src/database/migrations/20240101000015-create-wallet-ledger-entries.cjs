@@ -0,0 +1,190 @@
+'use strict';
+
+const { randomUUID } = require('crypto');
+
+/**
+ * WalletLedgerEntry Migration
+ * Append-only double-entry ledger behind wallet balances
+ *
+ * Purpose: Every wallet movement (credit, redemption, adjustment, reversal) is
+ * posted as a journal of two lines - the wallet line and a system contra line -
+ * so wallet totals can be rebuilt and verified from history.
+ *
+ * Existing wallets get an OPENING_BALANCE journal carrying over their current totals.
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Check if table already exists
+    const tableExists = await queryInterface.sequelize.query(
+      `SELECT EXISTS (SELECT FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'wallet_ledger_entries');`,
+      { type: Sequelize.QueryTypes.SELECT }
+    );
+
+    if (!tableExists[0].exists) {
+      await queryInterface.createTable('wallet_ledger_entries', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        journal_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          comment: 'Journal grouping the wallet line and its contra line (lines sum to zero)',
+        },
+        account: {
+          type: Sequelize.STRING(50),
+          allowNull: false,
+          comment: 'Ledger account: wallet or a system contra account',
+        },
+        wallet_id: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'wallets',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'RESTRICT',
+          comment: 'Wallet this line belongs to (null for system contra lines)',
+        },
+        entry_type: {
+          type: Sequelize.ENUM('OPENING_BALANCE', 'CREDIT', 'REDEMPTION', 'ADJUSTMENT', 'REVERSAL'),
+          allowNull: false,
+          comment: 'OPENING_BALANCE, CREDIT, REDEMPTION, ADJUSTMENT or REVERSAL',
+        },
+        impact_grams: {
+          type: Sequelize.DECIMAL(15, 2),
+          allowNull: false,
+          defaultValue: 0,
+          comment: 'Signed change to total accumulated grams',
+        },
+        redeemed_grams: {
+          type: Sequelize.DECIMAL(15, 2),
+          allowNull: false,
+          defaultValue: 0,
+          comment: 'Signed change to total redeemed grams',
+        },
+        amount_eur: {
+          type: Sequelize.DECIMAL(10, 2),
+          allowNull: false,
+          defaultValue: 0,
+          comment: 'Section 6.1: Signed change to total euros spent (threshold tracking)',
+        },
+        transaction_id: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'transactions',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+          comment: 'Transaction that caused this posting (credits and reversals)',
+        },
+        wallet_adjustment_id: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'wallet_adjustments',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+          comment: 'Section 9.4: Admin adjustment that caused this posting',
+        },
+        redemption_reference: {
+          type: Sequelize.STRING,
+          allowNull: true,
+          comment: 'External reference of the redemption that caused this posting',
+        },
+        balance_after: {
+          type: Sequelize.DECIMAL(15, 2),
+          allowNull: true,
+          comment: 'Wallet current balance after this posting (wallet lines only)',
+        },
+        description: {
+          type: Sequelize.TEXT,
+          allowNull: true,
+          comment: 'Human readable description of the movement',
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.NOW,
+        },
+      });
+    }
+
+    // Use IF NOT EXISTS for indexes to make migration idempotent
+    // Index on wallet_id + created_at for reading a wallet's ledger in order
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_wallet_ledger_entries_wallet_id_created_at" ON "wallet_ledger_entries" ("wallet_id", "created_at");`
+    );
+
+    // Index on journal_id for verifying journals balance
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_wallet_ledger_entries_journal_id" ON "wallet_ledger_entries" ("journal_id");`
+    );
+
+    // Index on transaction_id for finding postings caused by a transaction
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_wallet_ledger_entries_transaction_id" ON "wallet_ledger_entries" ("transaction_id");`
+    );
+
+    // Backfill OPENING_BALANCE journals for wallets that have no ledger lines yet
+    const wallets = await queryInterface.sequelize.query(
+      `SELECT w.id, w.total_accumulated, w.total_redeemed, w.current_balance, w.total_amount_spent
+       FROM wallets w
+       WHERE NOT EXISTS (SELECT 1 FROM wallet_ledger_entries e WHERE e.wallet_id = w.id);`,
+      { type: Sequelize.QueryTypes.SELECT }
+    );
+
+    const now = new Date();
+    const rows = [];
+    for (const wallet of wallets) {
+      const journalId = randomUUID();
+      const base = {
+        journal_id: journalId,
+        entry_type: 'OPENING_BALANCE',
+        transaction_id: null,
+        wallet_adjustment_id: null,
+        redemption_reference: null,
+        description: 'Opening balance carried over from wallet totals',
+        created_at: now,
+      };
+      rows.push({
+        ...base,
+        id: randomUUID(),
+        account: 'wallet',
+        wallet_id: wallet.id,
+        impact_grams: wallet.total_accumulated,
+        redeemed_grams: wallet.total_redeemed,
+        amount_eur: wallet.total_amount_spent,
+        balance_after: wallet.current_balance,
+      });
+      rows.push({
+        ...base,
+        id: randomUUID(),
+        account: 'system:impact_issuance',
+        wallet_id: null,
+        impact_grams: -Number(wallet.total_accumulated),
+        redeemed_grams: -Number(wallet.total_redeemed),
+        amount_eur: -Number(wallet.total_amount_spent),
+        balance_after: null,
+      });
+    }
+
+    if (rows.length > 0) {
+      await queryInterface.bulkInsert('wallet_ledger_entries', rows);
+    }
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('wallet_ledger_entries');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_wallet_ledger_entries_entry_type";');
+  },
+};
@@ -0,0 +1,36 @@
+'use strict';
+
+/**
+ * Concurrency constraints Migration
+ *
+ * Purpose: Back the row locks taken during transaction creation with database guarantees:
+ * - One wallet per user and one wallet per merchant (concurrent first purchases
+ *   cannot create duplicate wallets)
+ * - A gift card code can be attached to at most one transaction
+ *
+ * NOTE: Fails if duplicate wallets already exist - merge them before running.
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface) {
+    // Use IF NOT EXISTS for indexes to make migration idempotent
+    await queryInterface.sequelize.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "idx_wallets_user_id_unique" ON "wallets" ("user_id") WHERE "user_id" IS NOT NULL;`
+    );
+
+    await queryInterface.sequelize.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "idx_wallets_merchant_id_unique" ON "wallets" ("merchant_id") WHERE "merchant_id" IS NOT NULL;`
+    );
+
+    await queryInterface.sequelize.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "idx_transactions_gift_card_code_id_unique" ON "transactions" ("gift_card_code_id") WHERE "gift_card_code_id" IS NOT NULL;`
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.sequelize.query(`DROP INDEX IF EXISTS "idx_wallets_user_id_unique";`);
+    await queryInterface.sequelize.query(`DROP INDEX IF EXISTS "idx_wallets_merchant_id_unique";`);
+    await queryInterface.sequelize.query(`DROP INDEX IF EXISTS "idx_transactions_gift_card_code_id_unique";`);
+  },
+};
@@ -0,0 +1,73 @@
+'use strict';
+
+/**
+ * Transaction refunds Migration
+ *
+ * Purpose: Support full and partial refunds and chargebacks of PAY and checkout transactions.
+ * - Adds 'refunded' and 'reversed' payment statuses
+ * - Tracks how much of the amount and impact has been reversed so far
+ *
+ * NOTE: ALTER TYPE ... ADD VALUE cannot be rolled back; down() only drops the columns.
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.sequelize.query(
+      `ALTER TYPE "enum_transactions_payment_status" ADD VALUE IF NOT EXISTS 'refunded';`
+    );
+    await queryInterface.sequelize.query(
+      `ALTER TYPE "enum_transactions_payment_status" ADD VALUE IF NOT EXISTS 'reversed';`
+    );
+
+    // Only add columns that don't exist yet to keep migration idempotent
+    const columns = await queryInterface.describeTable('transactions');
+
+    if (!columns.refunded_amount) {
+      await queryInterface.addColumn('transactions', 'refunded_amount', {
+        type: Sequelize.DECIMAL(10, 4),
+        allowNull: false,
+        defaultValue: 0,
+        comment: 'Euros of amount refunded or charged back so far (partial refunds accumulate)',
+      });
+    }
+
+    if (!columns.refunded_impact) {
+      await queryInterface.addColumn('transactions', 'refunded_impact', {
+        type: Sequelize.DECIMAL(15, 2),
+        allowNull: false,
+        defaultValue: 0,
+        comment: 'Grams of calculated impact reversed from wallets so far',
+      });
+    }
+
+    if (!columns.refunded_at) {
+      await queryInterface.addColumn('transactions', 'refunded_at', {
+        type: Sequelize.DATE,
+        allowNull: true,
+        comment: 'Timestamp of the latest refund or reversal',
+      });
+    }
+
+    if (!columns.refund_reason) {
+      await queryInterface.addColumn('transactions', 'refund_reason', {
+        type: Sequelize.TEXT,
+        allowNull: true,
+        comment: 'Reason of the latest refund or reversal (Stripe refund, dispute, admin notes)',
+      });
+    }
+
+    // Index on stripe_payment_intent_id - refunds and disputes are matched by payment intent
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_transactions_stripe_payment_intent_id" ON "transactions" ("stripe_payment_intent_id");`
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.sequelize.query(`DROP INDEX IF EXISTS "idx_transactions_stripe_payment_intent_id";`);
+    await queryInterface.removeColumn('transactions', 'refund_reason');
+    await queryInterface.removeColumn('transactions', 'refunded_at');
+    await queryInterface.removeColumn('transactions', 'refunded_impact');
+    await queryInterface.removeColumn('transactions', 'refunded_amount');
+  },
+};
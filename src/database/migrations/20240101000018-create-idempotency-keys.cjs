@@ -0,0 +1,90 @@
+'use strict';
+
+/**
+ * IdempotencyKey Migration
+ *
+ * Purpose: Store requests and responses of POST /api/transactions and checkout endpoints
+ * by Idempotency-Key header for 24h, so partner retries replay the original response
+ * instead of creating duplicate transactions.
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Check if table already exists
+    const tableExists = await queryInterface.sequelize.query(
+      `SELECT EXISTS (SELECT FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'idempotency_keys');`,
+      { type: Sequelize.QueryTypes.SELECT }
+    );
+
+    if (!tableExists[0].exists) {
+      await queryInterface.createTable('idempotency_keys', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        key: {
+          type: Sequelize.STRING(255),
+          allowNull: false,
+          comment: 'Client supplied Idempotency-Key header value',
+        },
+        scope: {
+          type: Sequelize.STRING(255),
+          allowNull: false,
+          comment: 'HTTP method and route the key was used on',
+        },
+        request_hash: {
+          type: Sequelize.STRING(64),
+          allowNull: false,
+          comment: 'SHA-256 of the request body (hex)',
+        },
+        status: {
+          type: Sequelize.STRING(20),
+          allowNull: false,
+          defaultValue: 'in_progress',
+          comment: 'in_progress while the first request runs, completed once the response is stored',
+        },
+        response_status: {
+          type: Sequelize.INTEGER,
+          allowNull: true,
+          comment: 'HTTP status code of the stored response',
+        },
+        response_body: {
+          type: Sequelize.JSONB,
+          allowNull: true,
+          comment: 'JSON body of the stored response, replayed for retries',
+        },
+        expires_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          comment: '24 hours after first use - after that the key can be reused',
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      });
+    }
+
+    // Use IF NOT EXISTS for indexes to make migration idempotent
+    // Unique key per route - concurrent first uses race on this index
+    await queryInterface.sequelize.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "idx_idempotency_keys_scope_key" ON "idempotency_keys" ("scope", "key");`
+    );
+
+    // Index on expires_at for pruning expired keys
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_idempotency_keys_expires_at" ON "idempotency_keys" ("expires_at");`
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('idempotency_keys');
+  },
+};
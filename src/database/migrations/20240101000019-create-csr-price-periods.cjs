@@ -0,0 +1,157 @@
+'use strict';
+
+const { randomUUID } = require('crypto');
+
+/**
+ * CSRPricePeriod Migration
+ * Historical CSR price versioning for impact calculations
+ *
+ * Purpose: CURRENT_CSR_PRICE becomes effective-dated. Each transaction stores the
+ * period (and so the price) it was calculated with, and admins can schedule future
+ * price changes that activate automatically at effective_from.
+ *
+ * Backfill: periods are reconstructed from the CURRENT_CSR_PRICE audit log
+ * (the first period starts at the epoch), then existing transactions are linked
+ * to the period in force at their created_at.
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Check if table already exists
+    const tableExists = await queryInterface.sequelize.query(
+      `SELECT EXISTS (SELECT FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'csr_price_periods');`,
+      { type: Sequelize.QueryTypes.SELECT }
+    );
+
+    if (!tableExists[0].exists) {
+      await queryInterface.createTable('csr_price_periods', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        price: {
+          type: Sequelize.DECIMAL(10, 4),
+          allowNull: false,
+          comment: 'CSR price per kg of plastic removal in EUR',
+        },
+        effective_from: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          comment: 'Start of the period (inclusive)',
+        },
+        effective_to: {
+          type: Sequelize.DATE,
+          allowNull: true,
+          comment: 'End of the period (exclusive), null while open-ended',
+        },
+        created_by: {
+          type: Sequelize.STRING,
+          allowNull: false,
+          comment: 'Admin who created or scheduled the period (email or ID)',
+        },
+        note: {
+          type: Sequelize.TEXT,
+          allowNull: true,
+          comment: 'Optional admin note explaining the price change',
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      });
+    }
+
+    // Use IF NOT EXISTS for indexes to make migration idempotent
+    // Unique start per period - periods never share an effective_from
+    await queryInterface.sequelize.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "idx_csr_price_periods_effective_from" ON "csr_price_periods" ("effective_from");`
+    );
+
+    // Link transactions to the price period they were calculated with
+    const columns = await queryInterface.describeTable('transactions');
+    if (!columns.csr_price_period_id) {
+      await queryInterface.addColumn('transactions', 'csr_price_period_id', {
+        type: Sequelize.UUID,
+        allowNull: true,
+        references: {
+          model: 'csr_price_periods',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'RESTRICT',
+        comment: 'CSR price period applied when the impact was calculated',
+      });
+    }
+
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_transactions_csr_price_period_id" ON "transactions" ("csr_price_period_id");`
+    );
+
+    // Backfill periods only once
+    const [{ count }] = await queryInterface.sequelize.query(
+      `SELECT COUNT(*)::int AS count FROM csr_price_periods;`,
+      { type: Sequelize.QueryTypes.SELECT }
+    );
+    const currentConfig = await queryInterface.sequelize.query(
+      `SELECT value FROM global_config WHERE key = 'CURRENT_CSR_PRICE';`,
+      { type: Sequelize.QueryTypes.SELECT }
+    );
+
+    // Fresh databases get their first period from the seeders
+    if (count > 0 || currentConfig.length === 0) {
+      return;
+    }
+
+    const isValidPrice = (value) => value !== null && !isNaN(parseFloat(value)) && parseFloat(value) > 0;
+    const changes = (await queryInterface.sequelize.query(
+      `SELECT old_value, new_value, changed_by, changed_at FROM config_audit_log
+       WHERE config_key = 'CURRENT_CSR_PRICE' ORDER BY changed_at ASC;`,
+      { type: Sequelize.QueryTypes.SELECT }
+    )).filter((change) => isValidPrice(change.new_value));
+
+    const now = new Date();
+    const periods = [];
+    const firstPrice = changes.length > 0
+      ? (isValidPrice(changes[0].old_value) ? changes[0].old_value : changes[0].new_value)
+      : currentConfig[0].value;
+
+    periods.push({ price: firstPrice, effective_from: new Date(0), created_by: 'system' });
+    for (const change of changes) {
+      periods.push({ price: change.new_value, effective_from: change.changed_at, created_by: change.changed_by });
+    }
+
+    // The open-ended period always carries the live config value
+    periods[periods.length - 1].price = currentConfig[0].value;
+
+    await queryInterface.bulkInsert('csr_price_periods', periods.map((period, index) => ({
+      id: randomUUID(),
+      price: period.price,
+      effective_from: period.effective_from,
+      effective_to: index < periods.length - 1 ? periods[index + 1].effective_from : null,
+      created_by: period.created_by,
+      note: 'Backfilled from configuration history',
+      created_at: now,
+      updated_at: now,
+    })));
+
+    await queryInterface.sequelize.query(
+      `UPDATE transactions t SET csr_price_period_id = p.id
+       FROM csr_price_periods p
+       WHERE t.csr_price_period_id IS NULL
+         AND t.created_at >= p.effective_from
+         AND (p.effective_to IS NULL OR t.created_at < p.effective_to);`
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('transactions', 'csr_price_period_id');
+    await queryInterface.dropTable('csr_price_periods');
+  },
+};
@@ -0,0 +1,88 @@
+'use strict';
+
+/**
+ * AdminUser Migration
+ * Role-based admin accounts replacing the shared ADMIN_SECRET_CODE
+ *
+ * Purpose: Individual admin logins (email + scrypt password hash) with a role
+ * (super_admin, finance, support, read_only) enforced per route. Audit fields such as
+ * config_audit_log.changed_by and wallet_adjustments.adjusted_by are filled with the
+ * authenticated admin's email.
+ *
+ * The first super_admin is created at server startup from ADMIN_BOOTSTRAP_EMAIL and
+ * ADMIN_BOOTSTRAP_PASSWORD when the table is empty.
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Check if table already exists
+    const tableExists = await queryInterface.sequelize.query(
+      `SELECT EXISTS (SELECT FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'admin_users');`,
+      { type: Sequelize.QueryTypes.SELECT }
+    );
+
+    if (!tableExists[0].exists) {
+      await queryInterface.createTable('admin_users', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        email: {
+          type: Sequelize.STRING,
+          allowNull: false,
+          unique: true,
+        },
+        name: {
+          type: Sequelize.STRING,
+          allowNull: false,
+        },
+        password_hash: {
+          type: Sequelize.STRING,
+          allowNull: false,
+          comment: 'scrypt password hash as salt:hash (hex)',
+        },
+        role: {
+          type: Sequelize.ENUM('super_admin', 'finance', 'support', 'read_only'),
+          allowNull: false,
+          defaultValue: 'read_only',
+        },
+        is_active: {
+          type: Sequelize.BOOLEAN,
+          allowNull: false,
+          defaultValue: true,
+          comment: 'Deactivated admins cannot log in and their tokens stop working',
+        },
+        last_login_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        created_by: {
+          type: Sequelize.STRING,
+          allowNull: true,
+          comment: 'Admin who created the account (email), null for the bootstrap admin',
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      });
+    }
+
+    // Use IF NOT EXISTS for indexes to make migration idempotent
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_admin_users_role" ON "admin_users" ("role");`
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('admin_users');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_admin_users_role";');
+  },
+};
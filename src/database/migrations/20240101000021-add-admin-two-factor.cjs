@@ -0,0 +1,57 @@
+'use strict';
+
+/**
+ * Admin Two-Factor Migration
+ * TOTP two-factor authentication for admin login
+ *
+ * Purpose: Admin JWTs are only issued after a TOTP code (or a one-time recovery code)
+ * is verified. Admins without 2FA enroll during their next login.
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const columns = await queryInterface.describeTable('admin_users');
+
+    if (!columns.totp_enabled) {
+      await queryInterface.addColumn('admin_users', 'totp_enabled', {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+        comment: 'Second factor verified - required before an admin JWT is issued',
+      });
+    }
+
+    if (!columns.totp_secret) {
+      await queryInterface.addColumn('admin_users', 'totp_secret', {
+        type: Sequelize.TEXT,
+        allowNull: true,
+        comment: 'AES-256-GCM encrypted base32 TOTP secret',
+      });
+    }
+
+    if (!columns.totp_last_used_step) {
+      await queryInterface.addColumn('admin_users', 'totp_last_used_step', {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+        comment: 'Last accepted TOTP time step - rejects replay of the same code',
+      });
+    }
+
+    if (!columns.recovery_code_hashes) {
+      await queryInterface.addColumn('admin_users', 'recovery_code_hashes', {
+        type: Sequelize.JSONB,
+        allowNull: false,
+        defaultValue: [],
+        comment: 'SHA-256 hashes of unused one-time recovery codes',
+      });
+    }
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('admin_users', 'recovery_code_hashes');
+    await queryInterface.removeColumn('admin_users', 'totp_last_used_step');
+    await queryInterface.removeColumn('admin_users', 'totp_secret');
+    await queryInterface.removeColumn('admin_users', 'totp_enabled');
+  },
+};
@@ -0,0 +1,219 @@
+'use strict';
+
+/**
+ * Merchant Authentication Migration
+ * Merchant portal logins and scoped API keys
+ *
+ * Purpose:
+ * - merchant_users: portal users bound to one merchant, logging in via magic link
+ * - merchant_magic_links: one-time login links for merchant users (15 minutes)
+ * - merchant_api_keys: hashed, scoped, rotatable API keys replacing the use of
+ *   merchants.webhook_secret as checkout API key
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const tableExists = async (tableName) => {
+      const result = await queryInterface.sequelize.query(
+        `SELECT EXISTS (SELECT FROM information_schema.tables WHERE table_schema = 'public' AND table_name = '${tableName}');`,
+        { type: Sequelize.QueryTypes.SELECT }
+      );
+      return result[0].exists;
+    };
+
+    if (!(await tableExists('merchant_users'))) {
+      await queryInterface.createTable('merchant_users', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        merchant_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'merchants',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+          comment: 'Merchant this user can access - every merchant route is restricted to it',
+        },
+        email: {
+          type: Sequelize.STRING,
+          allowNull: false,
+          unique: true,
+        },
+        name: {
+          type: Sequelize.STRING,
+          allowNull: true,
+        },
+        is_active: {
+          type: Sequelize.BOOLEAN,
+          allowNull: false,
+          defaultValue: true,
+        },
+        last_login_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        created_by: {
+          type: Sequelize.STRING,
+          allowNull: true,
+          comment: 'Admin who invited the user (email)',
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      });
+    }
+
+    if (!(await tableExists('merchant_magic_links'))) {
+      await queryInterface.createTable('merchant_magic_links', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        merchant_user_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'merchant_users',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+        },
+        email: {
+          type: Sequelize.STRING,
+          allowNull: false,
+        },
+        token: {
+          type: Sequelize.STRING(64),
+          allowNull: false,
+          unique: true,
+        },
+        expires_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        used_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      });
+    }
+
+    if (!(await tableExists('merchant_api_keys'))) {
+      await queryInterface.createTable('merchant_api_keys', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        merchant_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'merchants',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+        },
+        name: {
+          type: Sequelize.STRING,
+          allowNull: false,
+        },
+        key_prefix: {
+          type: Sequelize.STRING(20),
+          allowNull: false,
+          comment: 'First characters of the key, shown in listings',
+        },
+        key_hash: {
+          type: Sequelize.STRING(64),
+          allowNull: false,
+          unique: true,
+          comment: 'SHA-256 (hex) of the full key - the plain key is never stored',
+        },
+        scopes: {
+          type: Sequelize.JSONB,
+          allowNull: false,
+          defaultValue: [],
+        },
+        created_by: {
+          type: Sequelize.STRING,
+          allowNull: false,
+          comment: 'Admin or merchant user who issued the key (email)',
+        },
+        last_used_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        expires_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+          comment: 'Set on rotation - the old key keeps working until then',
+        },
+        revoked_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        rotated_to_id: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'merchant_api_keys',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+          comment: 'Key that replaced this one on rotation',
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      });
+    }
+
+    // Use IF NOT EXISTS for indexes to make migration idempotent
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_merchant_users_merchant_id" ON "merchant_users" ("merchant_id");`
+    );
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_merchant_magic_links_merchant_user_id" ON "merchant_magic_links" ("merchant_user_id");`
+    );
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_merchant_api_keys_merchant_id" ON "merchant_api_keys" ("merchant_id");`
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('merchant_api_keys');
+    await queryInterface.dropTable('merchant_magic_links');
+    await queryInterface.dropTable('merchant_users');
+  },
+};
@@ -0,0 +1,63 @@
+'use strict';
+
+/**
+ * Webhook Secret Rotation Migration
+ * Overlapping validity for merchant webhook secrets
+ *
+ * Purpose: Rotating merchants.webhook_secret keeps the replaced secret valid for a
+ * grace window so the merchant's store can switch without rejected webhooks.
+ * Usage timestamps show when the old secret stopped being used.
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const columns = await queryInterface.describeTable('merchants');
+
+    if (!columns.webhook_secret_last_used_at) {
+      await queryInterface.addColumn('merchants', 'webhook_secret_last_used_at', {
+        type: Sequelize.DATE,
+        allowNull: true,
+        comment: 'Last time a webhook signed with the current secret was accepted',
+      });
+    }
+
+    if (!columns.webhook_secret_rotated_at) {
+      await queryInterface.addColumn('merchants', 'webhook_secret_rotated_at', {
+        type: Sequelize.DATE,
+        allowNull: true,
+      });
+    }
+
+    if (!columns.previous_webhook_secret) {
+      await queryInterface.addColumn('merchants', 'previous_webhook_secret', {
+        type: Sequelize.STRING,
+        allowNull: true,
+        comment: 'Secret replaced by the last rotation - accepted until previous_webhook_secret_expires_at',
+      });
+    }
+
+    if (!columns.previous_webhook_secret_expires_at) {
+      await queryInterface.addColumn('merchants', 'previous_webhook_secret_expires_at', {
+        type: Sequelize.DATE,
+        allowNull: true,
+      });
+    }
+
+    if (!columns.previous_webhook_secret_last_used_at) {
+      await queryInterface.addColumn('merchants', 'previous_webhook_secret_last_used_at', {
+        type: Sequelize.DATE,
+        allowNull: true,
+        comment: 'Last time a webhook signed with the previous secret was accepted',
+      });
+    }
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('merchants', 'previous_webhook_secret_last_used_at');
+    await queryInterface.removeColumn('merchants', 'previous_webhook_secret_expires_at');
+    await queryInterface.removeColumn('merchants', 'previous_webhook_secret');
+    await queryInterface.removeColumn('merchants', 'webhook_secret_rotated_at');
+    await queryInterface.removeColumn('merchants', 'webhook_secret_last_used_at');
+  },
+};
@@ -0,0 +1,127 @@
+'use strict';
+
+/**
+ * Inbound Webhook Events Migration
+ * Durable store for Stripe and e-commerce webhooks
+ *
+ * Purpose: Every verified webhook is saved with its raw body and headers before it is
+ * processed, so a crash mid-processing no longer loses the event. Repeated deliveries
+ * are deduplicated on dedupe_key and failed events can be reprocessed by admins.
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const tableExists = async (tableName) => {
+      const result = await queryInterface.sequelize.query(
+        `SELECT EXISTS (SELECT FROM information_schema.tables WHERE table_schema = 'public' AND table_name = '${tableName}');`,
+        { type: Sequelize.QueryTypes.SELECT }
+      );
+      return result[0].exists;
+    };
+
+    if (!(await tableExists('inbound_webhook_events'))) {
+      await queryInterface.createTable('inbound_webhook_events', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        provider: {
+          type: Sequelize.ENUM('STRIPE', 'WOOCOMMERCE', 'SHOPIFY', 'CUSTOM'),
+          allowNull: false,
+        },
+        merchant_id: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'merchants',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+        },
+        external_id: {
+          type: Sequelize.STRING,
+          allowNull: true,
+          comment: 'Stripe event id or e-commerce order id',
+        },
+        dedupe_key: {
+          type: Sequelize.STRING,
+          allowNull: true,
+          unique: true,
+          comment: 'provider:merchant:externalId - repeated deliveries of the same event map to one row',
+        },
+        event_type: {
+          type: Sequelize.STRING(100),
+          allowNull: true,
+        },
+        raw_body: {
+          type: Sequelize.TEXT,
+          allowNull: false,
+          comment: 'Body exactly as received - replayed on reprocess',
+        },
+        headers: {
+          type: Sequelize.JSONB,
+          allowNull: false,
+          defaultValue: {},
+        },
+        status: {
+          type: Sequelize.ENUM('received', 'processing', 'processed', 'failed'),
+          allowNull: false,
+          defaultValue: 'received',
+        },
+        attempts: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        last_error: {
+          type: Sequelize.TEXT,
+          allowNull: true,
+        },
+        result: {
+          type: Sequelize.JSONB,
+          allowNull: true,
+          comment: 'Processing outcome, e.g. created transaction ids',
+        },
+        processing_started_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        processed_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        last_reprocessed_by: {
+          type: Sequelize.STRING,
+          allowNull: true,
+          comment: 'Admin who last triggered a manual reprocess (email)',
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      });
+    }
+
+    // Use IF NOT EXISTS for indexes to make migration idempotent
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_inbound_webhook_events_status" ON "inbound_webhook_events" ("status", "created_at");`
+    );
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_inbound_webhook_events_merchant_id" ON "inbound_webhook_events" ("merchant_id");`
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('inbound_webhook_events');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_inbound_webhook_events_provider";');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_inbound_webhook_events_status";');
+  },
+};
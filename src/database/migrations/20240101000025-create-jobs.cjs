@@ -0,0 +1,103 @@
+'use strict';
+
+/**
+ * Jobs Migration
+ * Postgres-backed background job queue
+ *
+ * Purpose: Emails, certificate PDFs and other slow work run in background workers
+ * instead of inside the HTTP request. Workers claim jobs with FOR UPDATE SKIP LOCKED,
+ * failed jobs are retried with exponential backoff and dead-lettered after max_attempts.
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const tableExists = async (tableName) => {
+      const result = await queryInterface.sequelize.query(
+        `SELECT EXISTS (SELECT FROM information_schema.tables WHERE table_schema = 'public' AND table_name = '${tableName}');`,
+        { type: Sequelize.QueryTypes.SELECT }
+      );
+      return result[0].exists;
+    };
+
+    if (!(await tableExists('jobs'))) {
+      await queryInterface.createTable('jobs', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        type: {
+          type: Sequelize.STRING(100),
+          allowNull: false,
+        },
+        payload: {
+          type: Sequelize.JSONB,
+          allowNull: false,
+          defaultValue: {},
+        },
+        status: {
+          type: Sequelize.ENUM('pending', 'running', 'completed', 'dead'),
+          allowNull: false,
+          defaultValue: 'pending',
+        },
+        attempts: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        max_attempts: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          defaultValue: 5,
+        },
+        run_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          defaultValue: Sequelize.literal('CURRENT_TIMESTAMP'),
+          comment: 'Not picked up before this time - pushed back on each retry',
+        },
+        locked_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        locked_by: {
+          type: Sequelize.STRING,
+          allowNull: true,
+          comment: 'Worker id (hostname:pid) holding the job',
+        },
+        last_error: {
+          type: Sequelize.TEXT,
+          allowNull: true,
+        },
+        completed_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      });
+    }
+
+    // Use IF NOT EXISTS for indexes to make migration idempotent
+    // Partial index keeps the worker's polling query cheap as completed jobs pile up
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_jobs_pending_run_at" ON "jobs" ("run_at") WHERE "status" = 'pending';`
+    );
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_jobs_status_type" ON "jobs" ("status", "type");`
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('jobs');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_jobs_status";');
+  },
+};
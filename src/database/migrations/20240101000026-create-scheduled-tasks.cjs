@@ -0,0 +1,140 @@
+'use strict';
+
+/**
+ * Scheduled Tasks Migration
+ * In-process maintenance scheduler state and run history
+ *
+ * Purpose:
+ * - scheduled_tasks: one row per task with its cron schedule and next run. The row is
+ *   also the lock - an instance claims a due task by setting locked_until, so each
+ *   scheduled run executes on exactly one instance.
+ * - scheduled_task_runs: result of every run, surfaced in /health/detailed
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const tableExists = async (tableName) => {
+      const result = await queryInterface.sequelize.query(
+        `SELECT EXISTS (SELECT FROM information_schema.tables WHERE table_schema = 'public' AND table_name = '${tableName}');`,
+        { type: Sequelize.QueryTypes.SELECT }
+      );
+      return result[0].exists;
+    };
+
+    if (!(await tableExists('scheduled_tasks'))) {
+      await queryInterface.createTable('scheduled_tasks', {
+        name: {
+          type: Sequelize.STRING(100),
+          primaryKey: true,
+          allowNull: false,
+        },
+        schedule: {
+          type: Sequelize.STRING(100),
+          allowNull: false,
+          comment: 'Cron expression (UTC)',
+        },
+        next_run_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        locked_until: {
+          type: Sequelize.DATE,
+          allowNull: true,
+          comment: 'Lock lease - set while an instance runs the task',
+        },
+        locked_by: {
+          type: Sequelize.STRING,
+          allowNull: true,
+          comment: 'Instance id (hostname:pid) holding the lock',
+        },
+        last_run_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        last_status: {
+          type: Sequelize.STRING(20),
+          allowNull: true,
+        },
+        last_duration_ms: {
+          type: Sequelize.INTEGER,
+          allowNull: true,
+        },
+        last_result: {
+          type: Sequelize.JSONB,
+          allowNull: true,
+        },
+        last_error: {
+          type: Sequelize.TEXT,
+          allowNull: true,
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      });
+    }
+
+    if (!(await tableExists('scheduled_task_runs'))) {
+      await queryInterface.createTable('scheduled_task_runs', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        task_name: {
+          type: Sequelize.STRING(100),
+          allowNull: false,
+        },
+        status: {
+          type: Sequelize.STRING(20),
+          allowNull: false,
+        },
+        started_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        finished_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        duration_ms: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+        },
+        result: {
+          type: Sequelize.JSONB,
+          allowNull: true,
+          comment: 'Task output, e.g. number of rows cleaned up',
+        },
+        error: {
+          type: Sequelize.TEXT,
+          allowNull: true,
+        },
+        instance_id: {
+          type: Sequelize.STRING,
+          allowNull: false,
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      });
+    }
+
+    // Use IF NOT EXISTS for indexes to make migration idempotent
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_scheduled_task_runs_task_name" ON "scheduled_task_runs" ("task_name", "started_at");`
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('scheduled_task_runs');
+    await queryInterface.dropTable('scheduled_tasks');
+  },
+};
@@ -0,0 +1,29 @@
+'use strict';
+
+/**
+ * Transaction expiry Migration
+ *
+ * Purpose: Abandoned PAY transactions no longer stay PENDING forever.
+ * - Adds the 'expired' payment status - set by the maintenance scheduler once a PENDING
+ *   transaction outlives PENDING_TRANSACTION_TIMEOUT_MINUTES and its PaymentIntent is cancelled
+ * - Partial index on created_at of PENDING transactions for the expiry scan
+ *
+ * NOTE: ALTER TYPE ... ADD VALUE cannot be rolled back; down() only drops the index.
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface) {
+    await queryInterface.sequelize.query(
+      `ALTER TYPE "enum_transactions_payment_status" ADD VALUE IF NOT EXISTS 'expired';`
+    );
+
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_transactions_pending_created_at" ON "transactions" ("created_at") WHERE "payment_status" = 'pending';`
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.sequelize.query(`DROP INDEX IF EXISTS "idx_transactions_pending_created_at";`);
+  },
+};
@@ -0,0 +1,195 @@
+'use strict';
+
+/**
+ * Outbound Webhooks Migration
+ * Merchant-registered endpoints notified of impact events
+ *
+ * Purpose:
+ * - webhook_endpoints: merchant URLs, their signing secret and subscribed events
+ *   (transaction.completed, transaction.refunded, certificate.issued, wallet.threshold_reached)
+ * - webhook_deliveries: one row per event and endpoint with the latest response code,
+ *   so merchants and support can see what was sent and resend failed deliveries.
+ *   Attempts run on the job queue with exponential backoff.
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const tableExists = async (tableName) => {
+      const result = await queryInterface.sequelize.query(
+        `SELECT EXISTS (SELECT FROM information_schema.tables WHERE table_schema = 'public' AND table_name = '${tableName}');`,
+        { type: Sequelize.QueryTypes.SELECT }
+      );
+      return result[0].exists;
+    };
+
+    if (!(await tableExists('webhook_endpoints'))) {
+      await queryInterface.createTable('webhook_endpoints', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        merchant_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'merchants',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+        },
+        url: {
+          type: Sequelize.STRING(2048),
+          allowNull: false,
+        },
+        description: {
+          type: Sequelize.STRING,
+          allowNull: true,
+        },
+        secret: {
+          type: Sequelize.STRING,
+          allowNull: false,
+          comment: 'HMAC-SHA256 signing secret for the X-CSR26-Signature header',
+        },
+        events: {
+          type: Sequelize.JSONB,
+          allowNull: false,
+          defaultValue: [],
+        },
+        is_active: {
+          type: Sequelize.BOOLEAN,
+          allowNull: false,
+          defaultValue: true,
+        },
+        created_by: {
+          type: Sequelize.STRING,
+          allowNull: false,
+          comment: 'Admin or merchant user who registered the endpoint (email)',
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      });
+    }
+
+    if (!(await tableExists('webhook_deliveries'))) {
+      await queryInterface.createTable('webhook_deliveries', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        endpoint_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'webhook_endpoints',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+        },
+        merchant_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'merchants',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+        },
+        event_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          comment: 'Shared by the deliveries of one event - receivers dedupe on it',
+        },
+        event_type: {
+          type: Sequelize.STRING(100),
+          allowNull: false,
+        },
+        payload: {
+          type: Sequelize.JSONB,
+          allowNull: false,
+        },
+        status: {
+          type: Sequelize.ENUM('pending', 'succeeded', 'failed'),
+          allowNull: false,
+          defaultValue: 'pending',
+        },
+        attempts: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        response_status: {
+          type: Sequelize.INTEGER,
+          allowNull: true,
+          comment: 'HTTP status of the latest attempt',
+        },
+        response_body: {
+          type: Sequelize.TEXT,
+          allowNull: true,
+          comment: 'Truncated response body of the latest attempt',
+        },
+        duration_ms: {
+          type: Sequelize.INTEGER,
+          allowNull: true,
+        },
+        last_error: {
+          type: Sequelize.TEXT,
+          allowNull: true,
+        },
+        last_attempt_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        delivered_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        last_resent_by: {
+          type: Sequelize.STRING,
+          allowNull: true,
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      });
+    }
+
+    // Use IF NOT EXISTS for indexes to make migration idempotent
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_webhook_endpoints_merchant_id" ON "webhook_endpoints" ("merchant_id");`
+    );
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_webhook_deliveries_merchant_created" ON "webhook_deliveries" ("merchant_id", "created_at");`
+    );
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_webhook_deliveries_endpoint_created" ON "webhook_deliveries" ("endpoint_id", "created_at");`
+    );
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_webhook_deliveries_event_id" ON "webhook_deliveries" ("event_id");`
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('webhook_deliveries');
+    await queryInterface.dropTable('webhook_endpoints');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_webhook_deliveries_status";');
+  },
+};
@@ -0,0 +1,117 @@
+'use strict';
+
+/**
+ * Multi-currency Migration
+ *
+ * Purpose: Transactions can be paid in currencies other than EUR.
+ * - exchange_rates: admin-managed, effective-dated FX rates (units of currency per 1 EUR)
+ * - transactions.currency / original_amount / fx_rate: what the customer paid and the rate
+ *   used to normalize it. transactions.amount stays in EUR, so impact, wallets and reports
+ *   keep working on the normalized amount.
+ * - Existing transactions are backfilled as EUR at rate 1
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const tableExists = async (tableName) => {
+      const result = await queryInterface.sequelize.query(
+        `SELECT EXISTS (SELECT FROM information_schema.tables WHERE table_schema = 'public' AND table_name = '${tableName}');`,
+        { type: Sequelize.QueryTypes.SELECT }
+      );
+      return result[0].exists;
+    };
+
+    if (!(await tableExists('exchange_rates'))) {
+      await queryInterface.createTable('exchange_rates', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        currency: {
+          type: Sequelize.STRING(3),
+          allowNull: false,
+          comment: 'ISO 4217 currency code',
+        },
+        rate: {
+          type: Sequelize.DECIMAL(18, 8),
+          allowNull: false,
+          comment: 'Units of the currency per 1 EUR',
+        },
+        effective_from: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          comment: 'Rate applies from this time until a later rate takes over',
+        },
+        created_by: {
+          type: Sequelize.STRING,
+          allowNull: false,
+          comment: 'Admin who entered the rate (email or ID)',
+        },
+        note: {
+          type: Sequelize.TEXT,
+          allowNull: true,
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      });
+    }
+
+    // Rate lookup: latest effective_from <= now for a currency
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_exchange_rates_currency_effective_from" ON "exchange_rates" ("currency", "effective_from");`
+    );
+
+    // Only add columns that don't exist yet to keep migration idempotent
+    const columns = await queryInterface.describeTable('transactions');
+
+    if (!columns.currency) {
+      await queryInterface.addColumn('transactions', 'currency', {
+        type: Sequelize.STRING(3),
+        allowNull: false,
+        defaultValue: 'EUR',
+        comment: 'ISO 4217 currency the customer paid in',
+      });
+    }
+
+    if (!columns.fx_rate) {
+      await queryInterface.addColumn('transactions', 'fx_rate', {
+        type: Sequelize.DECIMAL(18, 8),
+        allowNull: false,
+        defaultValue: 1,
+        comment: 'Units of the original currency per 1 EUR used to normalize amount',
+      });
+    }
+
+    if (!columns.original_amount) {
+      await queryInterface.addColumn('transactions', 'original_amount', {
+        type: Sequelize.DECIMAL(10, 4),
+        allowNull: true,
+        comment: 'Amount in the original currency',
+      });
+      await queryInterface.sequelize.query(
+        'UPDATE "transactions" SET "original_amount" = "amount" WHERE "original_amount" IS NULL;'
+      );
+      await queryInterface.changeColumn('transactions', 'original_amount', {
+        type: Sequelize.DECIMAL(10, 4),
+        allowNull: false,
+        comment: 'Amount in the original currency',
+      });
+    }
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('transactions', 'original_amount');
+    await queryInterface.removeColumn('transactions', 'fx_rate');
+    await queryInterface.removeColumn('transactions', 'currency');
+    await queryInterface.dropTable('exchange_rates');
+  },
+};
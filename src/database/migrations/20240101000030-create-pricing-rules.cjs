@@ -0,0 +1,124 @@
+'use strict';
+
+/**
+ * Merchant Pricing Rules Migration
+ *
+ * Purpose: Replace the hardcoded 1% plastic fee in checkout calculate-fee with
+ * per-merchant rules.
+ * - pricing_rules: percentage of price, fixed fee per item or fee per gram of product
+ *   weight, with optional min/max caps per line and a rounding mode. Scoped to the
+ *   whole merchant, a product category or a single SKU (most specific wins).
+ * - skus.category: product category matched by CATEGORY-scoped rules
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const tableExists = async (tableName) => {
+      const result = await queryInterface.sequelize.query(
+        `SELECT EXISTS (SELECT FROM information_schema.tables WHERE table_schema = 'public' AND table_name = '${tableName}');`,
+        { type: Sequelize.QueryTypes.SELECT }
+      );
+      return result[0].exists;
+    };
+
+    if (!(await tableExists('pricing_rules'))) {
+      await queryInterface.createTable('pricing_rules', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        merchant_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'merchants',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+        },
+        scope: {
+          type: Sequelize.ENUM('SKU', 'CATEGORY', 'MERCHANT'),
+          allowNull: false,
+        },
+        sku_code: {
+          type: Sequelize.STRING,
+          allowNull: true,
+          comment: 'SKU code for SKU-scoped rules',
+        },
+        category: {
+          type: Sequelize.STRING,
+          allowNull: true,
+          comment: 'Product category for CATEGORY-scoped rules',
+        },
+        fee_type: {
+          type: Sequelize.ENUM('PERCENTAGE', 'FIXED_PER_ITEM', 'PER_GRAM'),
+          allowNull: false,
+        },
+        value: {
+          type: Sequelize.DECIMAL(12, 6),
+          allowNull: false,
+          comment: 'Percent of price, EUR per item or EUR per gram depending on fee_type',
+        },
+        min_fee: {
+          type: Sequelize.DECIMAL(10, 2),
+          allowNull: true,
+          comment: 'Minimum fee per cart line in EUR',
+        },
+        max_fee: {
+          type: Sequelize.DECIMAL(10, 2),
+          allowNull: true,
+          comment: 'Maximum fee per cart line in EUR',
+        },
+        rounding_mode: {
+          type: Sequelize.ENUM('NEAREST', 'UP', 'DOWN'),
+          allowNull: false,
+          defaultValue: 'NEAREST',
+        },
+        is_active: {
+          type: Sequelize.BOOLEAN,
+          allowNull: false,
+          defaultValue: true,
+        },
+        created_by: {
+          type: Sequelize.STRING,
+          allowNull: false,
+          comment: 'Admin who created the rule (email)',
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      });
+    }
+
+    // Rule lookup during calculate-fee: all active rules of a merchant
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_pricing_rules_merchant_active" ON "pricing_rules" ("merchant_id", "is_active");`
+    );
+
+    const skuColumns = await queryInterface.describeTable('skus');
+    if (!skuColumns.category) {
+      await queryInterface.addColumn('skus', 'category', {
+        type: Sequelize.STRING,
+        allowNull: true,
+        comment: 'Product category (e.g. food, cosmetics) used by merchant pricing rules',
+      });
+    }
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('skus', 'category');
+    await queryInterface.dropTable('pricing_rules');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_pricing_rules_scope";');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_pricing_rules_fee_type";');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_pricing_rules_rounding_mode";');
+  },
+};
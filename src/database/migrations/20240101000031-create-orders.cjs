@@ -0,0 +1,153 @@
+'use strict';
+
+/**
+ * Orders Migration
+ *
+ * Purpose: E-commerce checkouts record one transaction per cart line, linked to the
+ * real SKU, instead of a single ECOM-SPLIT-01 transaction for the whole cart.
+ * - orders: one row per merchant order (external order id unique per merchant) with the
+ *   quoted cart lines, fee totals and status
+ * - transactions.parent_order_id: the order a line-item transaction belongs to
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const tableExists = async (tableName) => {
+      const result = await queryInterface.sequelize.query(
+        `SELECT EXISTS (SELECT FROM information_schema.tables WHERE table_schema = 'public' AND table_name = '${tableName}');`,
+        { type: Sequelize.QueryTypes.SELECT }
+      );
+      return result[0].exists;
+    };
+
+    if (!(await tableExists('orders'))) {
+      await queryInterface.createTable('orders', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        merchant_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'merchants',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+        },
+        external_order_id: {
+          type: Sequelize.STRING,
+          allowNull: false,
+          comment: 'Order reference in the merchant platform - unique per merchant',
+        },
+        user_id: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'users',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+        },
+        partner_id: {
+          type: Sequelize.UUID,
+          allowNull: true,
+        },
+        stripe_checkout_session_id: {
+          type: Sequelize.STRING,
+          allowNull: true,
+        },
+        stripe_payment_intent_id: {
+          type: Sequelize.STRING,
+          allowNull: true,
+        },
+        currency: {
+          type: Sequelize.STRING(3),
+          allowNull: false,
+          defaultValue: 'EUR',
+        },
+        items: {
+          type: Sequelize.JSONB,
+          allowNull: false,
+          defaultValue: [],
+          comment: 'Quoted cart lines: sku, name, quantity, price, plasticFee, transactionId',
+        },
+        product_total: {
+          type: Sequelize.DECIMAL(10, 4),
+          allowNull: false,
+        },
+        plastic_fee: {
+          type: Sequelize.DECIMAL(10, 4),
+          allowNull: false,
+        },
+        plastic_fee_eur: {
+          type: Sequelize.DECIMAL(10, 4),
+          allowNull: false,
+        },
+        total_impact_grams: {
+          type: Sequelize.DECIMAL(12, 2),
+          allowNull: false,
+          defaultValue: 0,
+        },
+        status: {
+          type: Sequelize.ENUM('pending', 'completed'),
+          allowNull: false,
+          defaultValue: 'pending',
+        },
+        completed_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      });
+    }
+
+    await queryInterface.sequelize.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "idx_orders_merchant_external_order_id" ON "orders" ("merchant_id", "external_order_id");`
+    );
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_orders_stripe_checkout_session_id" ON "orders" ("stripe_checkout_session_id");`
+    );
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_orders_stripe_payment_intent_id" ON "orders" ("stripe_payment_intent_id");`
+    );
+
+    const columns = await queryInterface.describeTable('transactions');
+    if (!columns.parent_order_id) {
+      await queryInterface.addColumn('transactions', 'parent_order_id', {
+        type: Sequelize.UUID,
+        allowNull: true,
+        references: {
+          model: 'orders',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'SET NULL',
+        comment: 'Order this line-item transaction belongs to (e-commerce checkout)',
+      });
+    }
+
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_transactions_parent_order_id" ON "transactions" ("parent_order_id");`
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.sequelize.query(`DROP INDEX IF EXISTS "idx_transactions_parent_order_id";`);
+    await queryInterface.removeColumn('transactions', 'parent_order_id');
+    await queryInterface.dropTable('orders');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_orders_status";');
+  },
+};
@@ -0,0 +1,70 @@
+'use strict';
+
+/**
+ * Order Platform & Customer Migration
+ *
+ * Purpose: E-commerce webhook orders (WooCommerce, Shopify, custom) are recorded as orders too,
+ * so all line transactions of an external order are grouped and repeated webhooks are deduplicated
+ * per order.
+ * - orders.platform: CHECKOUT (CSR26 split payment) or the webhook platform
+ * - orders.customer_*: customer snapshot as received with the order
+ * - Existing orders come from checkout and are backfilled as CHECKOUT
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const columns = await queryInterface.describeTable('orders');
+
+    if (!columns.platform) {
+      await queryInterface.addColumn('orders', 'platform', {
+        type: Sequelize.ENUM('CHECKOUT', 'WOOCOMMERCE', 'SHOPIFY', 'CUSTOM'),
+        allowNull: false,
+        defaultValue: 'CHECKOUT',
+        comment: 'Where the order came from - CSR26 checkout or a merchant platform webhook',
+      });
+    }
+
+    if (!columns.customer_email) {
+      await queryInterface.addColumn('orders', 'customer_email', {
+        type: Sequelize.STRING,
+        allowNull: true,
+      });
+    }
+
+    if (!columns.customer_first_name) {
+      await queryInterface.addColumn('orders', 'customer_first_name', {
+        type: Sequelize.STRING,
+        allowNull: true,
+      });
+    }
+
+    if (!columns.customer_last_name) {
+      await queryInterface.addColumn('orders', 'customer_last_name', {
+        type: Sequelize.STRING,
+        allowNull: true,
+      });
+    }
+
+    if (!columns.customer_country) {
+      await queryInterface.addColumn('orders', 'customer_country', {
+        type: Sequelize.STRING,
+        allowNull: true,
+      });
+    }
+
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_orders_merchant_created_at" ON "orders" ("merchant_id", "created_at");`
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.sequelize.query(`DROP INDEX IF EXISTS "idx_orders_merchant_created_at";`);
+    await queryInterface.removeColumn('orders', 'customer_country');
+    await queryInterface.removeColumn('orders', 'customer_last_name');
+    await queryInterface.removeColumn('orders', 'customer_first_name');
+    await queryInterface.removeColumn('orders', 'customer_email');
+    await queryInterface.removeColumn('orders', 'platform');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_orders_platform";');
+  },
+};
@@ -0,0 +1,284 @@
+'use strict';
+
+/**
+ * Stripe Reconciliation Migration
+ *
+ * Purpose: Reconcile local transactions against what Stripe actually charged and paid out,
+ * instead of recomputing platform fees from the current PLATFORM_FEE_PERCENTAGE.
+ * - stripe_ledger_entries: imported balance transactions, application fees and transfers,
+ *   unique per Stripe id and resolved to their payment intent
+ * - reconciliation_runs: one import + match of a period
+ * - reconciliation_issues: missing/orphan records and amount, fee or transfer mismatches found by a run
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const tableExists = async (tableName) => {
+      const result = await queryInterface.sequelize.query(
+        `SELECT EXISTS (SELECT FROM information_schema.tables WHERE table_schema = 'public' AND table_name = '${tableName}');`,
+        { type: Sequelize.QueryTypes.SELECT }
+      );
+      return result[0].exists;
+    };
+
+    if (!(await tableExists('stripe_ledger_entries'))) {
+      await queryInterface.createTable('stripe_ledger_entries', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        object_type: {
+          type: Sequelize.ENUM('balance_transaction', 'application_fee', 'transfer'),
+          allowNull: false,
+        },
+        stripe_id: {
+          type: Sequelize.STRING,
+          allowNull: false,
+          unique: true,
+        },
+        type: {
+          type: Sequelize.STRING(50),
+          allowNull: false,
+          comment: 'Balance transaction type (charge, payment, refund, payout, ...) or the object type',
+        },
+        stripe_charge_id: {
+          type: Sequelize.STRING,
+          allowNull: true,
+        },
+        stripe_payment_intent_id: {
+          type: Sequelize.STRING,
+          allowNull: true,
+        },
+        stripe_account_id: {
+          type: Sequelize.STRING,
+          allowNull: true,
+          comment: 'Connected account - application fee payer or transfer destination',
+        },
+        amount: {
+          type: Sequelize.DECIMAL(12, 2),
+          allowNull: false,
+        },
+        fee: {
+          type: Sequelize.DECIMAL(12, 2),
+          allowNull: false,
+          defaultValue: 0,
+        },
+        net: {
+          type: Sequelize.DECIMAL(12, 2),
+          allowNull: false,
+        },
+        currency: {
+          type: Sequelize.STRING(3),
+          allowNull: false,
+        },
+        source_amount: {
+          type: Sequelize.DECIMAL(12, 2),
+          allowNull: true,
+          comment: 'Charge amount in the charge currency',
+        },
+        source_currency: {
+          type: Sequelize.STRING(3),
+          allowNull: true,
+        },
+        amount_refunded: {
+          type: Sequelize.DECIMAL(12, 2),
+          allowNull: false,
+          defaultValue: 0,
+        },
+        status: {
+          type: Sequelize.STRING(50),
+          allowNull: true,
+        },
+        stripe_created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        raw: {
+          type: Sequelize.JSONB,
+          allowNull: false,
+        },
+        last_imported_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      });
+    }
+
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_stripe_ledger_entries_payment_intent" ON "stripe_ledger_entries" ("stripe_payment_intent_id");`
+    );
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_stripe_ledger_entries_created" ON "stripe_ledger_entries" ("stripe_created_at");`
+    );
+
+    if (!(await tableExists('reconciliation_runs'))) {
+      await queryInterface.createTable('reconciliation_runs', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        period_start: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        period_end: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        status: {
+          type: Sequelize.ENUM('running', 'completed', 'failed'),
+          allowNull: false,
+          defaultValue: 'running',
+        },
+        source: {
+          type: Sequelize.STRING(20),
+          allowNull: false,
+          comment: 'stripe (live API) or fixture (local file)',
+        },
+        imported: {
+          type: Sequelize.JSONB,
+          allowNull: true,
+        },
+        matched_payments: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        issue_count: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        started_by: {
+          type: Sequelize.STRING,
+          allowNull: false,
+        },
+        completed_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        error: {
+          type: Sequelize.TEXT,
+          allowNull: true,
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      });
+    }
+
+    if (!(await tableExists('reconciliation_issues'))) {
+      await queryInterface.createTable('reconciliation_issues', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        run_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'reconciliation_runs',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+        },
+        issue_type: {
+          type: Sequelize.ENUM('MISSING_IN_STRIPE', 'ORPHAN_IN_STRIPE', 'AMOUNT_MISMATCH', 'FEE_MISMATCH', 'TRANSFER_MISMATCH'),
+          allowNull: false,
+        },
+        stripe_payment_intent_id: {
+          type: Sequelize.STRING,
+          allowNull: true,
+        },
+        transaction_ids: {
+          type: Sequelize.JSONB,
+          allowNull: false,
+          defaultValue: [],
+        },
+        ledger_entry_id: {
+          type: Sequelize.UUID,
+          allowNull: true,
+          references: {
+            model: 'stripe_ledger_entries',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'SET NULL',
+        },
+        currency: {
+          type: Sequelize.STRING(3),
+          allowNull: true,
+        },
+        expected_amount: {
+          type: Sequelize.DECIMAL(12, 2),
+          allowNull: true,
+        },
+        actual_amount: {
+          type: Sequelize.DECIMAL(12, 2),
+          allowNull: true,
+        },
+        details: {
+          type: Sequelize.TEXT,
+          allowNull: false,
+        },
+        resolved_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        resolved_by: {
+          type: Sequelize.STRING,
+          allowNull: true,
+        },
+        resolution_note: {
+          type: Sequelize.TEXT,
+          allowNull: true,
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      });
+    }
+
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_reconciliation_issues_run" ON "reconciliation_issues" ("run_id", "issue_type");`
+    );
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_reconciliation_issues_payment_intent" ON "reconciliation_issues" ("stripe_payment_intent_id");`
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('reconciliation_issues');
+    await queryInterface.dropTable('reconciliation_runs');
+    await queryInterface.dropTable('stripe_ledger_entries');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_reconciliation_issues_issue_type";');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_reconciliation_runs_status";');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_stripe_ledger_entries_object_type";');
+  },
+};
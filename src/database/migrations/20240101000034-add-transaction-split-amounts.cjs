@@ -0,0 +1,54 @@
+'use strict';
+
+/**
+ * Transaction Split Amounts Migration
+ *
+ * Purpose: Record the actual split of each confirmed Stripe payment on its transactions, so
+ * ESG, reconciliation and partner reports read stored figures instead of recomputing them.
+ * - gross_amount: charged to the customer (products + plastic fee)
+ * - merchant_amount: transferred to the merchant
+ * - plastic_fee_amount: kept by CSR26 (application fee, or the whole charge without a split)
+ * - stripe_fee_amount / stripe_fee_currency: Stripe processing fee in the settlement currency
+ * - Amounts are in the transaction currency; order lines hold their share of the payment
+ * - Existing transactions stay NULL until their figures are recorded
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const columns = await queryInterface.describeTable('transactions');
+
+    const amountColumns = {
+      gross_amount: 'Charged to the customer in currency (share of the payment for order lines)',
+      merchant_amount: 'Transferred to the merchant in currency',
+      plastic_fee_amount: 'Kept by CSR26 in currency - application fee, or the whole charge without a split',
+      stripe_fee_amount: 'Stripe processing fee in stripe_fee_currency',
+    };
+
+    for (const [column, comment] of Object.entries(amountColumns)) {
+      if (!columns[column]) {
+        await queryInterface.addColumn('transactions', column, {
+          type: Sequelize.DECIMAL(12, 2),
+          allowNull: true,
+          comment,
+        });
+      }
+    }
+
+    if (!columns.stripe_fee_currency) {
+      await queryInterface.addColumn('transactions', 'stripe_fee_currency', {
+        type: Sequelize.STRING(3),
+        allowNull: true,
+        comment: 'Stripe settlement currency of the processing fee',
+      });
+    }
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('transactions', 'stripe_fee_currency');
+    await queryInterface.removeColumn('transactions', 'stripe_fee_amount');
+    await queryInterface.removeColumn('transactions', 'plastic_fee_amount');
+    await queryInterface.removeColumn('transactions', 'merchant_amount');
+    await queryInterface.removeColumn('transactions', 'gross_amount');
+  },
+};
@@ -0,0 +1,211 @@
+'use strict';
+
+/**
+ * Partner Royalties Migration
+ *
+ * Purpose: Partners get commercial terms, and attributed transactions are invoiced monthly.
+ * - partner_agreements: effective-dated royalty terms per partner (percentage of amount,
+ *   per-kg rate or tiered volume bands) - agreements of one partner never overlap
+ * - partner_invoices: one numbered invoice per partner and month, computed by the monthly
+ *   close from completed transactions; DRAFT -> ISSUED -> PAID
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const tableExists = async (tableName) => {
+      const result = await queryInterface.sequelize.query(
+        `SELECT EXISTS (SELECT FROM information_schema.tables WHERE table_schema = 'public' AND table_name = '${tableName}');`,
+        { type: Sequelize.QueryTypes.SELECT }
+      );
+      return result[0].exists;
+    };
+
+    if (!(await tableExists('partner_agreements'))) {
+      await queryInterface.createTable('partner_agreements', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        partner_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'partners',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+        },
+        royalty_type: {
+          type: Sequelize.ENUM('PERCENTAGE', 'PER_KG', 'TIERED'),
+          allowNull: false,
+        },
+        rate: {
+          type: Sequelize.DECIMAL(10, 4),
+          allowNull: true,
+          comment: 'Percent of net amount (PERCENTAGE) or EUR per kg (PER_KG)',
+        },
+        tiers: {
+          type: Sequelize.JSONB,
+          allowNull: true,
+          comment: 'Marginal percentage bands on the monthly net EUR amount (TIERED)',
+        },
+        effective_from: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          comment: 'Start of the agreement (inclusive)',
+        },
+        effective_to: {
+          type: Sequelize.DATE,
+          allowNull: true,
+          comment: 'End of the agreement (exclusive) - null while open-ended',
+        },
+        note: {
+          type: Sequelize.TEXT,
+          allowNull: true,
+        },
+        created_by: {
+          type: Sequelize.STRING,
+          allowNull: false,
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      });
+    }
+
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_partner_agreements_partner_effective" ON "partner_agreements" ("partner_id", "effective_from");`
+    );
+
+    if (!(await tableExists('partner_invoices'))) {
+      await queryInterface.createTable('partner_invoices', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        invoice_number: {
+          type: Sequelize.STRING(20),
+          allowNull: false,
+          unique: true,
+        },
+        partner_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'partners',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'RESTRICT',
+        },
+        period_start: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        period_end: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        status: {
+          type: Sequelize.ENUM('DRAFT', 'ISSUED', 'PAID'),
+          allowNull: false,
+          defaultValue: 'DRAFT',
+        },
+        currency: {
+          type: Sequelize.STRING(3),
+          allowNull: false,
+          defaultValue: 'EUR',
+        },
+        transaction_count: {
+          type: Sequelize.INTEGER,
+          allowNull: false,
+        },
+        amount_total: {
+          type: Sequelize.DECIMAL(12, 2),
+          allowNull: false,
+          comment: 'Net EUR amount of the invoiced transactions',
+        },
+        impact_grams: {
+          type: Sequelize.DECIMAL(15, 2),
+          allowNull: false,
+        },
+        royalty_total: {
+          type: Sequelize.DECIMAL(12, 2),
+          allowNull: false,
+        },
+        lines: {
+          type: Sequelize.JSONB,
+          allowNull: false,
+          defaultValue: [],
+          comment: 'Royalty per agreement in force during the month',
+        },
+        billing_details: {
+          type: Sequelize.JSONB,
+          allowNull: false,
+        },
+        created_by: {
+          type: Sequelize.STRING,
+          allowNull: false,
+        },
+        calculated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        issued_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        issued_by: {
+          type: Sequelize.STRING,
+          allowNull: true,
+        },
+        due_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        paid_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        payment_reference: {
+          type: Sequelize.STRING,
+          allowNull: true,
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      });
+    }
+
+    // One invoice per partner and month
+    await queryInterface.sequelize.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "idx_partner_invoices_partner_period" ON "partner_invoices" ("partner_id", "period_start");`
+    );
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_partner_invoices_status" ON "partner_invoices" ("status", "period_start");`
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('partner_invoices');
+    await queryInterface.dropTable('partner_agreements');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_partner_invoices_status";');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_partner_agreements_royalty_type";');
+  },
+};
@@ -0,0 +1,134 @@
+'use strict';
+
+/**
+ * Partner Portal Authentication Migration
+ * Partner portal logins, same passwordless flow as merchant portal users
+ *
+ * Purpose:
+ * - partner_users: portal users bound to one partner, logging in via magic link
+ * - partner_magic_links: one-time login links for partner users (15 minutes)
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const tableExists = async (tableName) => {
+      const result = await queryInterface.sequelize.query(
+        `SELECT EXISTS (SELECT FROM information_schema.tables WHERE table_schema = 'public' AND table_name = '${tableName}');`,
+        { type: Sequelize.QueryTypes.SELECT }
+      );
+      return result[0].exists;
+    };
+
+    if (!(await tableExists('partner_users'))) {
+      await queryInterface.createTable('partner_users', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        partner_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'partners',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+          comment: 'Partner this user can access - every partner portal route is restricted to it',
+        },
+        email: {
+          type: Sequelize.STRING,
+          allowNull: false,
+          unique: true,
+        },
+        name: {
+          type: Sequelize.STRING,
+          allowNull: true,
+        },
+        is_active: {
+          type: Sequelize.BOOLEAN,
+          allowNull: false,
+          defaultValue: true,
+        },
+        last_login_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        created_by: {
+          type: Sequelize.STRING,
+          allowNull: true,
+          comment: 'Admin who invited the user (email)',
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      });
+    }
+
+    if (!(await tableExists('partner_magic_links'))) {
+      await queryInterface.createTable('partner_magic_links', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        partner_user_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'partner_users',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+        },
+        email: {
+          type: Sequelize.STRING,
+          allowNull: false,
+        },
+        token: {
+          type: Sequelize.STRING(64),
+          allowNull: false,
+          unique: true,
+        },
+        expires_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        used_at: {
+          type: Sequelize.DATE,
+          allowNull: true,
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      });
+    }
+
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_partner_users_partner_id" ON "partner_users" ("partner_id");`
+    );
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_partner_magic_links_partner_user_id" ON "partner_magic_links" ("partner_user_id");`
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('partner_magic_links');
+    await queryInterface.dropTable('partner_users');
+  },
+};
@@ -0,0 +1,96 @@
+'use strict';
+
+/**
+ * Partner-Merchant Assignments Migration
+ *
+ * Purpose: Persist which partner onboarded a merchant, instead of relying only on the partner
+ * URL param, WooCommerce meta or checkout metadata of each purchase.
+ * - partner_merchant_assignments: effective-dated link between a merchant and its partner;
+ *   assignments of one merchant never overlap, and transactions without an explicit
+ *   partnerId default to the partner assigned when they are created
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const tableExists = async (tableName) => {
+      const result = await queryInterface.sequelize.query(
+        `SELECT EXISTS (SELECT FROM information_schema.tables WHERE table_schema = 'public' AND table_name = '${tableName}');`,
+        { type: Sequelize.QueryTypes.SELECT }
+      );
+      return result[0].exists;
+    };
+
+    if (!(await tableExists('partner_merchant_assignments'))) {
+      await queryInterface.createTable('partner_merchant_assignments', {
+        id: {
+          type: Sequelize.UUID,
+          defaultValue: Sequelize.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        partner_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'partners',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+        },
+        merchant_id: {
+          type: Sequelize.UUID,
+          allowNull: false,
+          references: {
+            model: 'merchants',
+            key: 'id',
+          },
+          onUpdate: 'CASCADE',
+          onDelete: 'CASCADE',
+        },
+        start_date: {
+          type: Sequelize.DATE,
+          allowNull: false,
+          comment: 'Start of the assignment (inclusive)',
+        },
+        end_date: {
+          type: Sequelize.DATE,
+          allowNull: true,
+          comment: 'End of the assignment (exclusive) - null while open-ended',
+        },
+        note: {
+          type: Sequelize.TEXT,
+          allowNull: true,
+        },
+        created_by: {
+          type: Sequelize.STRING,
+          allowNull: false,
+        },
+        ended_by: {
+          type: Sequelize.STRING,
+          allowNull: true,
+        },
+        created_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+        updated_at: {
+          type: Sequelize.DATE,
+          allowNull: false,
+        },
+      });
+    }
+
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_partner_merchant_assignments_merchant_start" ON "partner_merchant_assignments" ("merchant_id", "start_date");`
+    );
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS "idx_partner_merchant_assignments_partner" ON "partner_merchant_assignments" ("partner_id");`
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('partner_merchant_assignments');
+  },
+};
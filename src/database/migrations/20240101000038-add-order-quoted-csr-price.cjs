@@ -0,0 +1,46 @@
+'use strict';
+
+/**
+ * Order Quoted CSR Price Migration
+ *
+ * Purpose: Keep the CSR price of the impact quote on the checkout order, so the line
+ * transactions recorded when the payment succeeds use the price the customer was charged for,
+ * even if the price period changed in between.
+ * - csr_price_per_kg: price per kg quoted by calculate-fee
+ * - csr_price_period_id: price period in force when the quote was verified
+ * - Platform orders and orders saved before this migration stay NULL and use the price in force
+ *
+ * @type {import('sequelize-cli').Migration}
+ */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const columns = await queryInterface.describeTable('orders');
+
+    if (!columns.csr_price_per_kg) {
+      await queryInterface.addColumn('orders', 'csr_price_per_kg', {
+        type: Sequelize.DECIMAL(10, 4),
+        allowNull: true,
+        comment: 'CSR price per kg quoted at checkout - NULL for platform orders and orders saved before it was stored',
+      });
+    }
+
+    if (!columns.csr_price_period_id) {
+      await queryInterface.addColumn('orders', 'csr_price_period_id', {
+        type: Sequelize.UUID,
+        allowNull: true,
+        references: {
+          model: 'csr_price_periods',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'RESTRICT',
+        comment: 'CSR price period of the quoted price',
+      });
+    }
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('orders', 'csr_price_period_id');
+    await queryInterface.removeColumn('orders', 'csr_price_per_kg');
+  },
+};
@@ -0,0 +1,194 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+
+// Admin roles - each maps to a fixed set of permissions below
+export enum AdminRole {
+  SUPER_ADMIN = 'super_admin', // Everything, including managing other admins
+  FINANCE = 'finance', // Money and impact: transactions, refunds, wallets, CSR price, exports
+  SUPPORT = 'support', // Customer care: users, gift cards, SKUs and localizations
+  READ_ONLY = 'read_only', // View admin data only
+}
+
+// Permissions checked per route by requirePermission()
+export type AdminPermission =
+  | 'admin:read' // View admin panel data
+  | 'exports:read' // Download exports and reports (contain PII)
+  | 'config:write' // Change global config and CSR price periods
+  | 'transactions:write' // Manual transactions, refunds, transaction tokens
+  | 'wallets:write' // Wallet adjustments and ledger rebuilds
+  | 'users:write' // Edit and delete users
+  | 'catalog:write' // SKUs and SKU localizations
+  | 'gift_cards:write' // Generate, import and invalidate gift card codes
+  | 'merchants:write' // Merchant management and Stripe Connect
+  | 'partners:write' // Partner management
+  | 'admins:manage'; // Create and manage admin accounts
+
+export const ADMIN_ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  [AdminRole.SUPER_ADMIN]: [
+    'admin:read',
+    'exports:read',
+    'config:write',
+    'transactions:write',
+    'wallets:write',
+    'users:write',
+    'catalog:write',
+    'gift_cards:write',
+    'merchants:write',
+    'partners:write',
+    'admins:manage',
+  ],
+  [AdminRole.FINANCE]: [
+    'admin:read',
+    'exports:read',
+    'config:write',
+    'transactions:write',
+    'wallets:write',
+    'merchants:write',
+    'partners:write',
+  ],
+  [AdminRole.SUPPORT]: [
+    'admin:read',
+    'users:write',
+    'catalog:write',
+    'gift_cards:write',
+  ],
+  [AdminRole.READ_ONLY]: [
+    'admin:read',
+  ],
+};
+
+// AdminUser attributes interface
+interface AdminUserAttributes {
+  id: string;
+  email: string;
+  name: string;
+  passwordHash: string; // scrypt - "salt:hash" (hex)
+  role: AdminRole;
+  isActive: boolean;
+  totpEnabled: boolean; // Second factor verified - required before an admin JWT is issued
+  totpSecret?: string | null; // AES-256-GCM encrypted base32 TOTP secret
+  totpLastUsedStep?: number | null; // Last accepted TOTP time step - a code cannot be used twice
+  recoveryCodeHashes: string[]; // SHA-256 of unused one-time recovery codes
+  lastLoginAt?: Date | null;
+  createdBy?: string | null; // Admin who created the account (email), null for the bootstrap admin
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// AdminUser creation attributes
+interface AdminUserCreationAttributes extends Optional<AdminUserAttributes,
+  'id' | 'createdAt' | 'updatedAt' | 'isActive' | 'lastLoginAt' | 'createdBy'
+  | 'totpEnabled' | 'totpSecret' | 'totpLastUsedStep' | 'recoveryCodeHashes'
+> {}
+
+// AdminUser model class
+class AdminUser extends Model<AdminUserAttributes, AdminUserCreationAttributes>
+  implements AdminUserAttributes {
+  declare id: string;
+  declare email: string;
+  declare name: string;
+  declare passwordHash: string;
+  declare role: AdminRole;
+  declare isActive: boolean;
+  declare totpEnabled: boolean;
+  declare totpSecret: string | null;
+  declare totpLastUsedStep: number | null;
+  declare recoveryCodeHashes: string[];
+  declare lastLoginAt: Date | null;
+  declare createdBy: string | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  // Check if the admin's role grants a permission
+  hasPermission(permission: AdminPermission): boolean {
+    return ADMIN_ROLE_PERMISSIONS[this.role]?.includes(permission) ?? false;
+  }
+
+  // Never expose the password hash or second-factor secrets
+  toJSON() {
+    const values = { ...this.get() } as Partial<AdminUserAttributes> & { recoveryCodesRemaining?: number };
+    delete values.passwordHash;
+    delete values.totpSecret;
+    delete values.totpLastUsedStep;
+    values.recoveryCodesRemaining = (values.recoveryCodeHashes || []).length;
+    delete values.recoveryCodeHashes;
+    return values;
+  }
+}
+
+// Initialize AdminUser model
+AdminUser.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    email: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true,
+      validate: {
+        isEmail: true,
+      },
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    passwordHash: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      comment: 'scrypt password hash as salt:hash (hex)',
+    },
+    role: {
+      type: DataTypes.ENUM(...Object.values(AdminRole)),
+      allowNull: false,
+      defaultValue: AdminRole.READ_ONLY,
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+      comment: 'Deactivated admins cannot log in and their tokens stop working',
+    },
+    totpEnabled: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+      comment: 'Second factor verified - required before an admin JWT is issued',
+    },
+    totpSecret: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      comment: 'AES-256-GCM encrypted base32 TOTP secret',
+    },
+    totpLastUsedStep: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      comment: 'Last accepted TOTP time step - rejects replay of the same code',
+    },
+    recoveryCodeHashes: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+      comment: 'SHA-256 hashes of unused one-time recovery codes',
+    },
+    lastLoginAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    createdBy: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      comment: 'Admin who created the account (email), null for the bootstrap admin',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'admin_users',
+    underscored: true,
+  }
+);
+
+export default AdminUser;
@@ -0,0 +1,81 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+
+// CSRPricePeriod attributes interface
+// Effective-dated CURRENT_CSR_PRICE: periods form a contiguous timeline without overlaps
+interface CSRPricePeriodAttributes {
+  id: string;
+  price: number; // Price per kg of plastic removal in EUR
+  effectiveFrom: Date; // Inclusive
+  effectiveTo?: Date | null; // Exclusive - null while open-ended
+  createdBy: string; // Admin who created or scheduled the period
+  note?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// CSRPricePeriod creation attributes
+interface CSRPricePeriodCreationAttributes extends Optional<CSRPricePeriodAttributes,
+  'id' | 'createdAt' | 'updatedAt' | 'effectiveTo' | 'note'
+> {}
+
+// CSRPricePeriod model class
+class CSRPricePeriod extends Model<CSRPricePeriodAttributes, CSRPricePeriodCreationAttributes>
+  implements CSRPricePeriodAttributes {
+  declare id: string;
+  declare price: number;
+  declare effectiveFrom: Date;
+  declare effectiveTo: Date | null;
+  declare createdBy: string;
+  declare note: string | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  // Check if this period is in force at the given time
+  isActiveAt(date: Date = new Date()): boolean {
+    return this.effectiveFrom <= date && (!this.effectiveTo || this.effectiveTo > date);
+  }
+}
+
+// Initialize CSRPricePeriod model
+CSRPricePeriod.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    price: {
+      type: DataTypes.DECIMAL(10, 4),
+      allowNull: false,
+      comment: 'CSR price per kg of plastic removal in EUR',
+    },
+    effectiveFrom: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      comment: 'Start of the period (inclusive)',
+    },
+    effectiveTo: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'End of the period (exclusive), null while open-ended',
+    },
+    createdBy: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      comment: 'Admin who created or scheduled the period (email or ID)',
+    },
+    note: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      comment: 'Optional admin note explaining the price change',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'csr_price_periods',
+    underscored: true,
+  }
+);
+
+export default CSRPricePeriod;
@@ -0,0 +1,78 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+
+// ExchangeRate attributes interface
+// Admin-managed FX rates, effective-dated: the rate in force for a currency is the latest
+// one whose effectiveFrom has passed. Quoted like ECB reference rates - units of the
+// currency per 1 EUR (e.g. USD 1.0850), so amountEur = amount / rate
+interface ExchangeRateAttributes {
+  id: string;
+  currency: string; // ISO 4217 code, uppercase (USD, GBP, CHF ...)
+  rate: number;
+  effectiveFrom: Date;
+  createdBy: string; // Admin who entered the rate
+  note?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// ExchangeRate creation attributes
+interface ExchangeRateCreationAttributes extends Optional<ExchangeRateAttributes,
+  'id' | 'createdAt' | 'updatedAt' | 'note'
+> {}
+
+// ExchangeRate model class
+class ExchangeRate extends Model<ExchangeRateAttributes, ExchangeRateCreationAttributes>
+  implements ExchangeRateAttributes {
+  declare id: string;
+  declare currency: string;
+  declare rate: number;
+  declare effectiveFrom: Date;
+  declare createdBy: string;
+  declare note: string | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+// Initialize ExchangeRate model
+ExchangeRate.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+      comment: 'ISO 4217 currency code',
+    },
+    rate: {
+      type: DataTypes.DECIMAL(18, 8),
+      allowNull: false,
+      comment: 'Units of the currency per 1 EUR',
+    },
+    effectiveFrom: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      comment: 'Rate applies from this time until a later rate takes over',
+    },
+    createdBy: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      comment: 'Admin who entered the rate (email or ID)',
+    },
+    note: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      comment: 'Optional source or reason, e.g. "ECB reference rate"',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'exchange_rates',
+    underscored: true,
+  }
+);
+
+export default ExchangeRate;
@@ -0,0 +1,98 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+
+// Idempotency key processing status
+export type IdempotencyKeyStatus = 'in_progress' | 'completed';
+
+// IdempotencyKey attributes interface
+interface IdempotencyKeyAttributes {
+  id: string;
+  key: string; // Value of the Idempotency-Key header
+  scope: string; // Method + route the key was used on (e.g. "POST /api/transactions")
+  requestHash: string; // SHA-256 of the request body - reuse with another body is rejected
+  status: IdempotencyKeyStatus;
+  responseStatus?: number | null;
+  responseBody?: object | null;
+  expiresAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// IdempotencyKey creation attributes
+interface IdempotencyKeyCreationAttributes extends Optional<IdempotencyKeyAttributes,
+  'id' | 'createdAt' | 'updatedAt' | 'status' | 'responseStatus' | 'responseBody'
+> {}
+
+// IdempotencyKey model class
+class IdempotencyKey extends Model<IdempotencyKeyAttributes, IdempotencyKeyCreationAttributes>
+  implements IdempotencyKeyAttributes {
+  declare id: string;
+  declare key: string;
+  declare scope: string;
+  declare requestHash: string;
+  declare status: IdempotencyKeyStatus;
+  declare responseStatus: number | null;
+  declare responseBody: object | null;
+  declare expiresAt: Date;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  // Check if the stored response is past its retention window
+  isExpired(): boolean {
+    return new Date() > this.expiresAt;
+  }
+}
+
+// Initialize IdempotencyKey model
+IdempotencyKey.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    key: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      comment: 'Client supplied Idempotency-Key header value',
+    },
+    scope: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      comment: 'HTTP method and route the key was used on',
+    },
+    requestHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      comment: 'SHA-256 of the request body (hex)',
+    },
+    status: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      defaultValue: 'in_progress',
+      comment: 'in_progress while the first request runs, completed once the response is stored',
+    },
+    responseStatus: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      comment: 'HTTP status code of the stored response',
+    },
+    responseBody: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+      comment: 'JSON body of the stored response, replayed for retries',
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      comment: '24 hours after first use - after that the key can be reused',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'idempotency_keys',
+    underscored: true,
+  }
+);
+
+export default IdempotencyKey;
@@ -0,0 +1,149 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+
+// Webhook providers - Stripe plus the e-commerce platforms (see WebhookPlatform)
+export type InboundWebhookProvider = 'STRIPE' | 'WOOCOMMERCE' | 'SHOPIFY' | 'CUSTOM';
+
+// Processing status of a received webhook
+export type InboundWebhookStatus = 'received' | 'processing' | 'processed' | 'failed';
+
+// InboundWebhookEvent attributes interface
+interface InboundWebhookEventAttributes {
+  id: string;
+  provider: InboundWebhookProvider;
+  merchantId?: string | null; // E-commerce webhooks only
+  externalId?: string | null; // Stripe event id or e-commerce order id
+  dedupeKey?: string | null; // provider + merchant + externalId - unique
+  eventType?: string | null; // Stripe event type or platform topic header
+  rawBody: string;
+  headers: Record<string, string>;
+  status: InboundWebhookStatus;
+  attempts: number;
+  lastError?: string | null;
+  result?: object | null;
+  processingStartedAt?: Date | null;
+  processedAt?: Date | null;
+  lastReprocessedBy?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// InboundWebhookEvent creation attributes
+interface InboundWebhookEventCreationAttributes extends Optional<InboundWebhookEventAttributes,
+  'id' | 'createdAt' | 'updatedAt' | 'merchantId' | 'externalId' | 'dedupeKey' | 'eventType' | 'status' |
+  'attempts' | 'lastError' | 'result' | 'processingStartedAt' | 'processedAt' | 'lastReprocessedBy'
+> {}
+
+// InboundWebhookEvent model class
+class InboundWebhookEvent extends Model<InboundWebhookEventAttributes, InboundWebhookEventCreationAttributes>
+  implements InboundWebhookEventAttributes {
+  declare id: string;
+  declare provider: InboundWebhookProvider;
+  declare merchantId: string | null;
+  declare externalId: string | null;
+  declare dedupeKey: string | null;
+  declare eventType: string | null;
+  declare rawBody: string;
+  declare headers: Record<string, string>;
+  declare status: InboundWebhookStatus;
+  declare attempts: number;
+  declare lastError: string | null;
+  declare result: object | null;
+  declare processingStartedAt: Date | null;
+  declare processedAt: Date | null;
+  declare lastReprocessedBy: string | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  // Parsed JSON payload
+  getPayload(): any {
+    return JSON.parse(this.rawBody);
+  }
+}
+
+// Initialize InboundWebhookEvent model
+InboundWebhookEvent.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    provider: {
+      type: DataTypes.ENUM('STRIPE', 'WOOCOMMERCE', 'SHOPIFY', 'CUSTOM'),
+      allowNull: false,
+    },
+    merchantId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'merchants',
+        key: 'id',
+      },
+    },
+    externalId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      comment: 'Stripe event id or e-commerce order id',
+    },
+    dedupeKey: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      unique: true,
+      comment: 'provider:merchant:externalId - repeated deliveries of the same event map to one row',
+    },
+    eventType: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    rawBody: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+      comment: 'Body exactly as received - replayed on reprocess',
+    },
+    headers: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: {},
+    },
+    status: {
+      type: DataTypes.ENUM('received', 'processing', 'processed', 'failed'),
+      allowNull: false,
+      defaultValue: 'received',
+    },
+    attempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    lastError: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    result: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+      comment: 'Processing outcome, e.g. created transaction ids',
+    },
+    processingStartedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    processedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    lastReprocessedBy: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      comment: 'Admin who last triggered a manual reprocess (email)',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'inbound_webhook_events',
+    underscored: true,
+  }
+);
+
+export default InboundWebhookEvent;
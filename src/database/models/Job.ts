@@ -0,0 +1,109 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+
+// Job lifecycle - failed jobs are retried until maxAttempts, then dead-lettered
+export type JobStatus = 'pending' | 'running' | 'completed' | 'dead';
+
+// Job attributes interface
+interface JobAttributes {
+  id: string;
+  type: string; // Handler name, e.g. "email.transaction_confirmation"
+  payload: Record<string, any>;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date; // Not picked up before this time - pushed back on each retry
+  lockedAt?: Date | null;
+  lockedBy?: string | null;
+  lastError?: string | null;
+  completedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// Job creation attributes
+interface JobCreationAttributes extends Optional<JobAttributes,
+  'id' | 'createdAt' | 'updatedAt' | 'status' | 'attempts' | 'maxAttempts' | 'runAt' |
+  'lockedAt' | 'lockedBy' | 'lastError' | 'completedAt'
+> {}
+
+// Job model class
+class Job extends Model<JobAttributes, JobCreationAttributes> implements JobAttributes {
+  declare id: string;
+  declare type: string;
+  declare payload: Record<string, any>;
+  declare status: JobStatus;
+  declare attempts: number;
+  declare maxAttempts: number;
+  declare runAt: Date;
+  declare lockedAt: Date | null;
+  declare lockedBy: string | null;
+  declare lastError: string | null;
+  declare completedAt: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+// Initialize Job model
+Job.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    type: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    payload: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: {},
+    },
+    status: {
+      type: DataTypes.ENUM('pending', 'running', 'completed', 'dead'),
+      allowNull: false,
+      defaultValue: 'pending',
+    },
+    attempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    maxAttempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 5,
+    },
+    runAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    lockedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    lockedBy: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      comment: 'Worker id (hostname:pid) holding the job',
+    },
+    lastError: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    completedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'jobs',
+    underscored: true,
+  }
+);
+
+export default Job;
@@ -18,6 +18,11 @@ interface MerchantAttributes {
   stripePayoutsEnabled: boolean;
   stripeOnboardingComplete: boolean;
   webhookSecret?: string;
+  webhookSecretLastUsedAt?: Date | null;
+  webhookSecretRotatedAt?: Date | null;
+  previousWebhookSecret?: string | null;
+  previousWebhookSecretExpiresAt?: Date | null;
+  previousWebhookSecretLastUsedAt?: Date | null;
   webhookPlatform?: WebhookPlatform;
   webhookEndpointUrl?: string;
   isActive: boolean;
@@ -26,7 +31,7 @@ interface MerchantAttributes {
 }
 
 // Merchant creation attributes
-interface MerchantCreationAttributes extends Optional<MerchantAttributes, 'id' | 'createdAt' | 'updatedAt' | 'stripeAccountId' | 'stripeAccountStatus' | 'stripeChargesEnabled' | 'stripePayoutsEnabled' | 'stripeOnboardingComplete' | 'webhookSecret' | 'webhookPlatform' | 'webhookEndpointUrl' | 'isActive'> {}
+interface MerchantCreationAttributes extends Optional<MerchantAttributes, 'id' | 'createdAt' | 'updatedAt' | 'stripeAccountId' | 'stripeAccountStatus' | 'stripeChargesEnabled' | 'stripePayoutsEnabled' | 'stripeOnboardingComplete' | 'webhookSecret' | 'webhookSecretLastUsedAt' | 'webhookSecretRotatedAt' | 'previousWebhookSecret' | 'previousWebhookSecretExpiresAt' | 'previousWebhookSecretLastUsedAt' | 'webhookPlatform' | 'webhookEndpointUrl' | 'isActive'> {}
 
 // Merchant model class
 class Merchant extends Model<MerchantAttributes, MerchantCreationAttributes> implements MerchantAttributes {
@@ -39,6 +44,11 @@ class Merchant extends Model<MerchantAttributes, MerchantCreationAttributes> imp
   declare stripePayoutsEnabled: boolean;
   declare stripeOnboardingComplete: boolean;
   declare webhookSecret?: string;
+  declare webhookSecretLastUsedAt?: Date | null;
+  declare webhookSecretRotatedAt?: Date | null;
+  declare previousWebhookSecret?: string | null;
+  declare previousWebhookSecretExpiresAt?: Date | null;
+  declare previousWebhookSecretLastUsedAt?: Date | null;
   declare webhookPlatform?: WebhookPlatform;
   declare webhookEndpointUrl?: string;
   declare isActive: boolean;
@@ -53,6 +63,22 @@ class Merchant extends Model<MerchantAttributes, MerchantCreationAttributes> imp
       this.stripeOnboardingComplete
     );
   }
+
+  // Previous webhook secret is still accepted during the rotation grace window
+  isPreviousWebhookSecretValid(): boolean {
+    return !!(
+      this.previousWebhookSecret &&
+      this.previousWebhookSecretExpiresAt &&
+      this.previousWebhookSecretExpiresAt > new Date()
+    );
+  }
+
+  // Never expose the previous webhook secret in API responses
+  toJSON() {
+    const values = { ...this.get() } as Partial<MerchantAttributes>;
+    delete values.previousWebhookSecret;
+    return values;
+  }
 }
 
 // Initialize Merchant model
@@ -108,6 +134,29 @@ Merchant.init(
       allowNull: true,
       comment: 'Secret key for verifying webhook signatures from merchant platform',
     },
+    webhookSecretLastUsedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'Last time a webhook signed with the current secret was accepted',
+    },
+    webhookSecretRotatedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    previousWebhookSecret: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      comment: 'Secret replaced by the last rotation - accepted until previousWebhookSecretExpiresAt',
+    },
+    previousWebhookSecretExpiresAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    previousWebhookSecretLastUsedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'Last time a webhook signed with the previous secret was accepted',
+    },
     webhookPlatform: {
       type: DataTypes.ENUM('WOOCOMMERCE', 'SHOPIFY', 'CUSTOM'),
       allowNull: true,
@@ -0,0 +1,140 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+
+// Scopes an API key can be issued with - checked per route by requireMerchant(scope)
+export const MERCHANT_API_KEY_SCOPES = [
+  'checkout:write', // Create checkout sessions and payment intents, complete checkouts
+  'reports:read', // Download ESG reports
+  'transactions:read', // List the merchant's transactions
+  'wallet:read', // Read the merchant wallet
+] as const;
+
+export type MerchantApiKeyScope = typeof MERCHANT_API_KEY_SCOPES[number];
+
+// MerchantApiKey attributes interface
+// Only the SHA-256 hash of the key is stored - the plain key is shown once at creation
+interface MerchantApiKeyAttributes {
+  id: string;
+  merchantId: string;
+  name: string; // Label chosen when issuing, e.g. "Shopify production"
+  keyPrefix: string; // First characters of the key, to recognize it in listings
+  keyHash: string; // SHA-256 (hex) of the full key
+  scopes: MerchantApiKeyScope[];
+  createdBy: string; // Admin or merchant user email
+  lastUsedAt?: Date | null;
+  expiresAt?: Date | null; // Set on rotation - the old key keeps working until then
+  revokedAt?: Date | null;
+  rotatedToId?: string | null; // Key that replaced this one
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// MerchantApiKey creation attributes
+interface MerchantApiKeyCreationAttributes extends Optional<MerchantApiKeyAttributes,
+  'id' | 'createdAt' | 'updatedAt' | 'lastUsedAt' | 'expiresAt' | 'revokedAt' | 'rotatedToId'
+> {}
+
+// MerchantApiKey model class
+class MerchantApiKey extends Model<MerchantApiKeyAttributes, MerchantApiKeyCreationAttributes>
+  implements MerchantApiKeyAttributes {
+  declare id: string;
+  declare merchantId: string;
+  declare name: string;
+  declare keyPrefix: string;
+  declare keyHash: string;
+  declare scopes: MerchantApiKeyScope[];
+  declare createdBy: string;
+  declare lastUsedAt: Date | null;
+  declare expiresAt: Date | null;
+  declare revokedAt: Date | null;
+  declare rotatedToId: string | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  // Check if the key can still authenticate (not revoked, not past its rotation grace period)
+  isUsable(now: Date = new Date()): boolean {
+    if (this.revokedAt) {
+      return false;
+    }
+    if (this.expiresAt && this.expiresAt <= now) {
+      return false;
+    }
+    return true;
+  }
+
+  hasScope(scope: MerchantApiKeyScope): boolean {
+    return this.scopes.includes(scope);
+  }
+
+  // Never expose the key hash
+  toJSON() {
+    const values = { ...this.get() } as Partial<MerchantApiKeyAttributes>;
+    delete values.keyHash;
+    return values;
+  }
+}
+
+// Initialize MerchantApiKey model
+MerchantApiKey.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    merchantId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    keyPrefix: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      comment: 'First characters of the key, shown in listings',
+    },
+    keyHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+      comment: 'SHA-256 (hex) of the full key - the plain key is never stored',
+    },
+    scopes: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+    },
+    createdBy: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      comment: 'Admin or merchant user who issued the key (email)',
+    },
+    lastUsedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'Set on rotation - the old key keeps working until then',
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    rotatedToId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      comment: 'Key that replaced this one on rotation',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'merchant_api_keys',
+    underscored: true,
+  }
+);
+
+export default MerchantApiKey;
@@ -0,0 +1,96 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+import crypto from 'crypto';
+
+// MerchantMagicLink attributes interface
+// Same one-time login link flow as MagicLink, for merchant portal users
+interface MerchantMagicLinkAttributes {
+  id: string;
+  merchantUserId: string;
+  email: string;
+  token: string;
+  expiresAt: Date;
+  usedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// MerchantMagicLink creation attributes (optional fields)
+interface MerchantMagicLinkCreationAttributes extends Optional<MerchantMagicLinkAttributes,
+  'id' | 'createdAt' | 'updatedAt' | 'usedAt'
+> {}
+
+// MerchantMagicLink model class
+class MerchantMagicLink extends Model<MerchantMagicLinkAttributes, MerchantMagicLinkCreationAttributes>
+  implements MerchantMagicLinkAttributes {
+  declare id: string;
+  declare merchantUserId: string;
+  declare email: string;
+  declare token: string;
+  declare expiresAt: Date;
+  declare usedAt: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  // Generate secure random token
+  static generateToken(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  // Check if token is valid (not expired and not used)
+  isValid(): boolean {
+    if (this.usedAt) {
+      return false; // Already used
+    }
+    if (this.expiresAt < new Date()) {
+      return false; // Expired
+    }
+    return true;
+  }
+
+  // Mark token as used
+  async markAsUsed(): Promise<void> {
+    this.usedAt = new Date();
+    await this.save();
+  }
+}
+
+// Initialize MerchantMagicLink model
+MerchantMagicLink.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    merchantUserId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+    },
+    email: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    token: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    usedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      defaultValue: null,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'merchant_magic_links',
+    underscored: true,
+  }
+);
+
+export default MerchantMagicLink;
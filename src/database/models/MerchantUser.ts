@@ -0,0 +1,85 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+
+// MerchantUser attributes interface
+// Merchant portal login - passwordless via magic link, scoped to exactly one merchant
+interface MerchantUserAttributes {
+  id: string;
+  merchantId: string;
+  email: string;
+  name?: string | null;
+  isActive: boolean;
+  lastLoginAt?: Date | null;
+  createdBy?: string | null; // Admin who invited the user (email)
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// MerchantUser creation attributes
+interface MerchantUserCreationAttributes extends Optional<MerchantUserAttributes,
+  'id' | 'createdAt' | 'updatedAt' | 'name' | 'isActive' | 'lastLoginAt' | 'createdBy'
+> {}
+
+// MerchantUser model class
+class MerchantUser extends Model<MerchantUserAttributes, MerchantUserCreationAttributes>
+  implements MerchantUserAttributes {
+  declare id: string;
+  declare merchantId: string;
+  declare email: string;
+  declare name: string | null;
+  declare isActive: boolean;
+  declare lastLoginAt: Date | null;
+  declare createdBy: string | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+// Initialize MerchantUser model
+MerchantUser.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    merchantId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      comment: 'Merchant this user can access - every merchant route is restricted to it',
+    },
+    email: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true,
+      validate: {
+        isEmail: true,
+      },
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+      comment: 'Deactivated users cannot log in and their sessions stop working',
+    },
+    lastLoginAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    createdBy: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      comment: 'Admin who invited the user (email)',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'merchant_users',
+    underscored: true,
+  }
+);
+
+export default MerchantUser;
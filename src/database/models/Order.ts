@@ -0,0 +1,213 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+
+// Order status - an order is pending until its payment is recorded
+export enum OrderStatus {
+  PENDING = 'pending',
+  COMPLETED = 'completed',
+}
+
+// Where an order came from - CSR26 checkout or a merchant platform webhook
+export enum OrderPlatform {
+  CHECKOUT = 'CHECKOUT',
+  WOOCOMMERCE = 'WOOCOMMERCE',
+  SHOPIFY = 'SHOPIFY',
+  CUSTOM = 'CUSTOM',
+}
+
+// Order line - amounts in the order currency
+export interface OrderItem {
+  sku: string;
+  name?: string;
+  quantity: number;
+  price: number; // Per item
+  plasticFee: number; // Amount the line's impact is computed on - the quoted plastic fee at checkout, the line total for webhooks
+  transactionId?: string; // Line transaction - set when the order is recorded (none for skipped lines)
+}
+
+// Order attributes interface
+// One e-commerce purchase: each line becomes its own transaction linked to the real SKU,
+// so SKU reports see e-commerce sales and the landing page can show the whole order
+interface OrderAttributes {
+  id: string;
+  merchantId: string;
+  externalOrderId: string; // Merchant's order reference (Transaction.orderId)
+  platform: OrderPlatform;
+  userId?: string | null; // Customer - set when the payment is recorded
+  partnerId?: string | null;
+  customerEmail?: string | null; // Customer snapshot as received with the order
+  customerFirstName?: string | null;
+  customerLastName?: string | null;
+  customerCountry?: string | null;
+  stripeCheckoutSessionId?: string | null;
+  stripePaymentIntentId?: string | null;
+  currency: string;
+  items: OrderItem[];
+  productTotal: number; // In `currency`
+  plasticFee: number; // In `currency` - sum of the lines' plasticFee
+  plasticFeeEur: number;
+  csrPricePerKg?: number | null; // CSR price quoted at checkout - the lines' impact is computed with it
+  csrPricePeriodId?: string | null; // CSR price period of the quoted price
+  totalImpactGrams: number; // Sum of the line transactions once recorded
+  status: OrderStatus;
+  completedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// Order creation attributes
+interface OrderCreationAttributes extends Optional<OrderAttributes,
+  'id' | 'createdAt' | 'updatedAt' | 'platform' | 'userId' | 'partnerId' | 'customerEmail' |
+  'customerFirstName' | 'customerLastName' | 'customerCountry' | 'stripeCheckoutSessionId' |
+  'stripePaymentIntentId' | 'csrPricePerKg' | 'csrPricePeriodId' | 'totalImpactGrams' | 'status' | 'completedAt'
+> {}
+
+// Order model class
+class Order extends Model<OrderAttributes, OrderCreationAttributes> implements OrderAttributes {
+  declare id: string;
+  declare merchantId: string;
+  declare externalOrderId: string;
+  declare platform: OrderPlatform;
+  declare userId: string | null;
+  declare partnerId: string | null;
+  declare customerEmail: string | null;
+  declare customerFirstName: string | null;
+  declare customerLastName: string | null;
+  declare customerCountry: string | null;
+  declare stripeCheckoutSessionId: string | null;
+  declare stripePaymentIntentId: string | null;
+  declare currency: string;
+  declare items: OrderItem[];
+  declare productTotal: number;
+  declare plasticFee: number;
+  declare plasticFeeEur: number;
+  declare csrPricePerKg: number | null;
+  declare csrPricePeriodId: string | null;
+  declare totalImpactGrams: number;
+  declare status: OrderStatus;
+  declare completedAt: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+// Initialize Order model
+Order.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    merchantId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'merchants',
+        key: 'id',
+      },
+    },
+    externalOrderId: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      comment: 'Order reference in the merchant platform - unique per merchant',
+    },
+    platform: {
+      type: DataTypes.ENUM(...Object.values(OrderPlatform)),
+      allowNull: false,
+      defaultValue: OrderPlatform.CHECKOUT,
+    },
+    userId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    partnerId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+    },
+    customerEmail: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    customerFirstName: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    customerLastName: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    customerCountry: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    stripeCheckoutSessionId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    stripePaymentIntentId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+      defaultValue: 'EUR',
+    },
+    items: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+      comment: 'Quoted cart lines: sku, name, quantity, price, plasticFee, transactionId',
+    },
+    productTotal: {
+      type: DataTypes.DECIMAL(10, 4),
+      allowNull: false,
+    },
+    plasticFee: {
+      type: DataTypes.DECIMAL(10, 4),
+      allowNull: false,
+    },
+    plasticFeeEur: {
+      type: DataTypes.DECIMAL(10, 4),
+      allowNull: false,
+    },
+    csrPricePerKg: {
+      type: DataTypes.DECIMAL(10, 4),
+      allowNull: true,
+      comment: 'CSR price per kg quoted at checkout - NULL for platform orders and orders saved before it was stored',
+    },
+    csrPricePeriodId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'csr_price_periods',
+        key: 'id',
+      },
+    },
+    totalImpactGrams: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    status: {
+      type: DataTypes.ENUM(...Object.values(OrderStatus)),
+      allowNull: false,
+      defaultValue: OrderStatus.PENDING,
+    },
+    completedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'orders',
+    underscored: true,
+  }
+);
+
+export default Order;
@@ -0,0 +1,116 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+
+// How a partner's royalty is computed from its attributed transactions
+export enum RoyaltyType {
+  PERCENTAGE = 'PERCENTAGE', // rate = percent of the net EUR amount (5 = 5%)
+  PER_KG = 'PER_KG', // rate = EUR per kg of net plastic impact
+  TIERED = 'TIERED', // tiers = percentage bands on the month's net EUR amount
+}
+
+// Volume band of a TIERED agreement - each band's share of the monthly amount is charged at its
+// own percentage (marginal, like tax brackets); the last band is open-ended
+export interface RoyaltyTier {
+  upToAmount: number | null; // EUR of monthly volume the band reaches - null for the last band
+  percentage: number;
+}
+
+// PartnerAgreement attributes interface
+// Effective-dated commercial terms of a partner - agreements of one partner never overlap
+interface PartnerAgreementAttributes {
+  id: string;
+  partnerId: string;
+  royaltyType: RoyaltyType;
+  rate?: number | null; // PERCENTAGE and PER_KG
+  tiers?: RoyaltyTier[] | null; // TIERED
+  effectiveFrom: Date; // Inclusive
+  effectiveTo?: Date | null; // Exclusive - null while open-ended
+  note?: string | null;
+  createdBy: string; // Admin email
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// PartnerAgreement creation attributes
+interface PartnerAgreementCreationAttributes extends Optional<PartnerAgreementAttributes,
+  'id' | 'createdAt' | 'updatedAt' | 'rate' | 'tiers' | 'effectiveTo' | 'note'
+> {}
+
+// PartnerAgreement model class
+class PartnerAgreement extends Model<PartnerAgreementAttributes, PartnerAgreementCreationAttributes>
+  implements PartnerAgreementAttributes {
+  declare id: string;
+  declare partnerId: string;
+  declare royaltyType: RoyaltyType;
+  declare rate: number | null;
+  declare tiers: RoyaltyTier[] | null;
+  declare effectiveFrom: Date;
+  declare effectiveTo: Date | null;
+  declare note: string | null;
+  declare createdBy: string;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  // Check if this agreement is in force at the given time
+  isActiveAt(date: Date = new Date()): boolean {
+    return this.effectiveFrom <= date && (!this.effectiveTo || this.effectiveTo > date);
+  }
+}
+
+// Initialize PartnerAgreement model
+PartnerAgreement.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    partnerId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'partners',
+        key: 'id',
+      },
+    },
+    royaltyType: {
+      type: DataTypes.ENUM(...Object.values(RoyaltyType)),
+      allowNull: false,
+    },
+    rate: {
+      type: DataTypes.DECIMAL(10, 4),
+      allowNull: true,
+      comment: 'Percent of net amount (PERCENTAGE) or EUR per kg (PER_KG)',
+    },
+    tiers: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+      comment: 'Marginal percentage bands on the monthly net EUR amount (TIERED)',
+    },
+    effectiveFrom: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      comment: 'Start of the agreement (inclusive)',
+    },
+    effectiveTo: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'End of the agreement (exclusive) - null while open-ended',
+    },
+    note: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    createdBy: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'partner_agreements',
+    underscored: true,
+  }
+);
+
+export default PartnerAgreement;
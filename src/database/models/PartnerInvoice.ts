@@ -0,0 +1,199 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+import { RoyaltyTier, RoyaltyType } from './PartnerAgreement.js';
+
+// Invoice lifecycle - drafts are recomputed by the monthly close, issued invoices are frozen
+export enum PartnerInvoiceStatus {
+  DRAFT = 'DRAFT',
+  ISSUED = 'ISSUED',
+  PAID = 'PAID',
+}
+
+// Royalty of the transactions covered by one agreement in the invoiced month
+// agreementId is null for transactions no agreement covered (royalty 0, listed for completeness)
+export interface PartnerInvoiceLine {
+  agreementId: string | null;
+  royaltyType: RoyaltyType | null;
+  rate: number | null;
+  tiers: RoyaltyTier[] | null;
+  from: string; // ISO - part of the month the agreement was in force
+  to: string;
+  transactionCount: number;
+  amount: number; // Net EUR amount (refunds deducted)
+  impactGrams: number; // Net impact
+  royalty: number; // EUR
+}
+
+// Partner details as invoiced - frozen when the invoice is issued
+export interface PartnerBillingDetails {
+  name: string;
+  contactPerson: string;
+  email: string;
+  billingAddress?: string | null;
+}
+
+// PartnerInvoice attributes interface
+// Monthly royalty invoice of a partner - one per partner and month, amounts in EUR
+interface PartnerInvoiceAttributes {
+  id: string;
+  invoiceNumber: string; // PRT-YYYY-NNNN, sequential per year
+  partnerId: string;
+  periodStart: Date; // First day of the month (inclusive, UTC)
+  periodEnd: Date; // First day of the next month (exclusive)
+  status: PartnerInvoiceStatus;
+  currency: string;
+  transactionCount: number;
+  amountTotal: number;
+  impactGrams: number;
+  royaltyTotal: number;
+  lines: PartnerInvoiceLine[];
+  billingDetails: PartnerBillingDetails;
+  createdBy: string; // Admin email or 'scheduler'
+  calculatedAt: Date;
+  issuedAt?: Date | null;
+  issuedBy?: string | null;
+  dueAt?: Date | null;
+  paidAt?: Date | null;
+  paymentReference?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// PartnerInvoice creation attributes
+interface PartnerInvoiceCreationAttributes extends Optional<PartnerInvoiceAttributes,
+  'id' | 'createdAt' | 'updatedAt' | 'status' | 'currency' | 'issuedAt' | 'issuedBy' | 'dueAt' | 'paidAt' | 'paymentReference'
+> {}
+
+// PartnerInvoice model class
+class PartnerInvoice extends Model<PartnerInvoiceAttributes, PartnerInvoiceCreationAttributes>
+  implements PartnerInvoiceAttributes {
+  declare id: string;
+  declare invoiceNumber: string;
+  declare partnerId: string;
+  declare periodStart: Date;
+  declare periodEnd: Date;
+  declare status: PartnerInvoiceStatus;
+  declare currency: string;
+  declare transactionCount: number;
+  declare amountTotal: number;
+  declare impactGrams: number;
+  declare royaltyTotal: number;
+  declare lines: PartnerInvoiceLine[];
+  declare billingDetails: PartnerBillingDetails;
+  declare createdBy: string;
+  declare calculatedAt: Date;
+  declare issuedAt: Date | null;
+  declare issuedBy: string | null;
+  declare dueAt: Date | null;
+  declare paidAt: Date | null;
+  declare paymentReference: string | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  // Associations
+  declare readonly partner?: any;
+}
+
+// Initialize PartnerInvoice model
+PartnerInvoice.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    invoiceNumber: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      unique: true,
+    },
+    partnerId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'partners',
+        key: 'id',
+      },
+    },
+    periodStart: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    periodEnd: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM(...Object.values(PartnerInvoiceStatus)),
+      allowNull: false,
+      defaultValue: PartnerInvoiceStatus.DRAFT,
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+      defaultValue: 'EUR',
+    },
+    transactionCount: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    amountTotal: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      comment: 'Net EUR amount of the invoiced transactions',
+    },
+    impactGrams: {
+      type: DataTypes.DECIMAL(15, 2),
+      allowNull: false,
+    },
+    royaltyTotal: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+    },
+    lines: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+      comment: 'Royalty per agreement in force during the month',
+    },
+    billingDetails: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    createdBy: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    calculatedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    issuedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    issuedBy: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    dueAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    paidAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    paymentReference: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'partner_invoices',
+    underscored: true,
+  }
+);
+
+export default PartnerInvoice;
@@ -0,0 +1,96 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+import crypto from 'crypto';
+
+// PartnerMagicLink attributes interface
+// Same one-time login link flow as MagicLink, for partner portal users
+interface PartnerMagicLinkAttributes {
+  id: string;
+  partnerUserId: string;
+  email: string;
+  token: string;
+  expiresAt: Date;
+  usedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// PartnerMagicLink creation attributes (optional fields)
+interface PartnerMagicLinkCreationAttributes extends Optional<PartnerMagicLinkAttributes,
+  'id' | 'createdAt' | 'updatedAt' | 'usedAt'
+> {}
+
+// PartnerMagicLink model class
+class PartnerMagicLink extends Model<PartnerMagicLinkAttributes, PartnerMagicLinkCreationAttributes>
+  implements PartnerMagicLinkAttributes {
+  declare id: string;
+  declare partnerUserId: string;
+  declare email: string;
+  declare token: string;
+  declare expiresAt: Date;
+  declare usedAt: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  // Generate secure random token
+  static generateToken(): string {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  // Check if token is valid (not expired and not used)
+  isValid(): boolean {
+    if (this.usedAt) {
+      return false; // Already used
+    }
+    if (this.expiresAt < new Date()) {
+      return false; // Expired
+    }
+    return true;
+  }
+
+  // Mark token as used
+  async markAsUsed(): Promise<void> {
+    this.usedAt = new Date();
+    await this.save();
+  }
+}
+
+// Initialize PartnerMagicLink model
+PartnerMagicLink.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    partnerUserId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+    },
+    email: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    token: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    usedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      defaultValue: null,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'partner_magic_links',
+    underscored: true,
+  }
+);
+
+export default PartnerMagicLink;
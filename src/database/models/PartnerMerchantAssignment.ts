@@ -0,0 +1,103 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+
+// PartnerMerchantAssignment attributes interface
+// "Merchant X was onboarded by partner Y" - a merchant has at most one assigned partner at a time,
+// and its transactions default to that partner when no partnerId is supplied
+interface PartnerMerchantAssignmentAttributes {
+  id: string;
+  partnerId: string;
+  merchantId: string;
+  startDate: Date; // Inclusive
+  endDate?: Date | null; // Exclusive - null while open-ended
+  note?: string | null;
+  createdBy: string; // Admin email
+  endedBy?: string | null; // Admin who ended the assignment (email)
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// PartnerMerchantAssignment creation attributes
+interface PartnerMerchantAssignmentCreationAttributes extends Optional<PartnerMerchantAssignmentAttributes,
+  'id' | 'createdAt' | 'updatedAt' | 'endDate' | 'note' | 'endedBy'
+> {}
+
+// PartnerMerchantAssignment model class
+class PartnerMerchantAssignment extends Model<PartnerMerchantAssignmentAttributes, PartnerMerchantAssignmentCreationAttributes>
+  implements PartnerMerchantAssignmentAttributes {
+  declare id: string;
+  declare partnerId: string;
+  declare merchantId: string;
+  declare startDate: Date;
+  declare endDate: Date | null;
+  declare note: string | null;
+  declare createdBy: string;
+  declare endedBy: string | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  // Associations
+  declare readonly partner?: any;
+  declare readonly merchant?: any;
+
+  // Check if this assignment is in force at the given time
+  isActiveAt(date: Date = new Date()): boolean {
+    return this.startDate <= date && (!this.endDate || this.endDate > date);
+  }
+}
+
+// Initialize PartnerMerchantAssignment model
+PartnerMerchantAssignment.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    partnerId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'partners',
+        key: 'id',
+      },
+    },
+    merchantId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'merchants',
+        key: 'id',
+      },
+    },
+    startDate: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      comment: 'Start of the assignment (inclusive)',
+    },
+    endDate: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'End of the assignment (exclusive) - null while open-ended',
+    },
+    note: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    createdBy: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    endedBy: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'partner_merchant_assignments',
+    underscored: true,
+  }
+);
+
+export default PartnerMerchantAssignment;
@@ -0,0 +1,85 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+
+// PartnerUser attributes interface
+// Partner portal login - passwordless via magic link, scoped to exactly one partner
+interface PartnerUserAttributes {
+  id: string;
+  partnerId: string;
+  email: string;
+  name?: string | null;
+  isActive: boolean;
+  lastLoginAt?: Date | null;
+  createdBy?: string | null; // Admin who invited the user (email)
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// PartnerUser creation attributes
+interface PartnerUserCreationAttributes extends Optional<PartnerUserAttributes,
+  'id' | 'createdAt' | 'updatedAt' | 'name' | 'isActive' | 'lastLoginAt' | 'createdBy'
+> {}
+
+// PartnerUser model class
+class PartnerUser extends Model<PartnerUserAttributes, PartnerUserCreationAttributes>
+  implements PartnerUserAttributes {
+  declare id: string;
+  declare partnerId: string;
+  declare email: string;
+  declare name: string | null;
+  declare isActive: boolean;
+  declare lastLoginAt: Date | null;
+  declare createdBy: string | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+// Initialize PartnerUser model
+PartnerUser.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    partnerId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      comment: 'Partner this user can access - every partner portal route is restricted to it',
+    },
+    email: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true,
+      validate: {
+        isEmail: true,
+      },
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+      comment: 'Deactivated users cannot log in and their sessions stop working',
+    },
+    lastLoginAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    createdBy: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      comment: 'Admin who invited the user (email)',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'partner_users',
+    underscored: true,
+  }
+);
+
+export default PartnerUser;
@@ -0,0 +1,141 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+
+// What a rule applies to - the most specific active rule wins (SKU > CATEGORY > MERCHANT)
+export enum PricingRuleScope {
+  SKU = 'SKU',
+  CATEGORY = 'CATEGORY',
+  MERCHANT = 'MERCHANT', // Merchant-wide default
+}
+
+// How the plastic fee of a cart line is computed
+export enum PricingFeeType {
+  PERCENTAGE = 'PERCENTAGE', // value = percent of line price (1 = 1%)
+  FIXED_PER_ITEM = 'FIXED_PER_ITEM', // value = EUR per unit
+  PER_GRAM = 'PER_GRAM', // value = EUR per gram of productWeight
+}
+
+// Rounding of the line fee to cents
+export enum PricingRoundingMode {
+  NEAREST = 'NEAREST',
+  UP = 'UP',
+  DOWN = 'DOWN',
+}
+
+// PricingRule attributes interface
+// Per-merchant plastic fee pricing used by checkout calculate-fee
+// All amounts (fixed fee, per-gram fee, caps) are in EUR
+interface PricingRuleAttributes {
+  id: string;
+  merchantId: string;
+  scope: PricingRuleScope;
+  skuCode?: string | null; // Required for SKU scope
+  category?: string | null; // Required for CATEGORY scope
+  feeType: PricingFeeType;
+  value: number;
+  minFee?: number | null; // Per line, EUR
+  maxFee?: number | null; // Per line, EUR
+  roundingMode: PricingRoundingMode;
+  isActive: boolean;
+  createdBy: string; // Admin email
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// PricingRule creation attributes
+interface PricingRuleCreationAttributes extends Optional<PricingRuleAttributes,
+  'id' | 'createdAt' | 'updatedAt' | 'skuCode' | 'category' | 'minFee' | 'maxFee' | 'roundingMode' | 'isActive'
+> {}
+
+// PricingRule model class
+class PricingRule extends Model<PricingRuleAttributes, PricingRuleCreationAttributes>
+  implements PricingRuleAttributes {
+  declare id: string;
+  declare merchantId: string;
+  declare scope: PricingRuleScope;
+  declare skuCode: string | null;
+  declare category: string | null;
+  declare feeType: PricingFeeType;
+  declare value: number;
+  declare minFee: number | null;
+  declare maxFee: number | null;
+  declare roundingMode: PricingRoundingMode;
+  declare isActive: boolean;
+  declare createdBy: string;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+// Initialize PricingRule model
+PricingRule.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    merchantId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'merchants',
+        key: 'id',
+      },
+    },
+    scope: {
+      type: DataTypes.ENUM(...Object.values(PricingRuleScope)),
+      allowNull: false,
+    },
+    skuCode: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      comment: 'SKU code for SKU-scoped rules',
+    },
+    category: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      comment: 'Product category for CATEGORY-scoped rules',
+    },
+    feeType: {
+      type: DataTypes.ENUM(...Object.values(PricingFeeType)),
+      allowNull: false,
+    },
+    value: {
+      type: DataTypes.DECIMAL(12, 6),
+      allowNull: false,
+      comment: 'Percent of price, EUR per item or EUR per gram depending on fee_type',
+    },
+    minFee: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: true,
+      comment: 'Minimum fee per cart line in EUR',
+    },
+    maxFee: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: true,
+      comment: 'Maximum fee per cart line in EUR',
+    },
+    roundingMode: {
+      type: DataTypes.ENUM(...Object.values(PricingRoundingMode)),
+      allowNull: false,
+      defaultValue: PricingRoundingMode.NEAREST,
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    createdBy: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      comment: 'Admin who created the rule (email)',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'pricing_rules',
+    underscored: true,
+  }
+);
+
+export default PricingRule;
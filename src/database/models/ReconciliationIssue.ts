@@ -0,0 +1,131 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+
+// Discrepancies found between local transactions and Stripe
+export enum ReconciliationIssueType {
+  MISSING_IN_STRIPE = 'MISSING_IN_STRIPE', // Paid transaction without a Stripe charge
+  ORPHAN_IN_STRIPE = 'ORPHAN_IN_STRIPE', // Stripe charge, fee or transfer without a local transaction
+  AMOUNT_MISMATCH = 'AMOUNT_MISMATCH', // Charged amount differs from the transaction amount
+  FEE_MISMATCH = 'FEE_MISMATCH', // Application fee differs from the plastic fee (or is missing)
+  TRANSFER_MISMATCH = 'TRANSFER_MISMATCH', // Merchant transfer is not the charge minus the application fee
+}
+
+// ReconciliationIssue attributes interface - amounts in `currency`
+interface ReconciliationIssueAttributes {
+  id: string;
+  runId: string;
+  issueType: ReconciliationIssueType;
+  stripePaymentIntentId?: string | null;
+  transactionIds: string[];
+  ledgerEntryId?: string | null; // Stripe record the issue was found on, if any
+  currency?: string | null;
+  expectedAmount?: number | null;
+  actualAmount?: number | null;
+  details: string;
+  resolvedAt?: Date | null;
+  resolvedBy?: string | null;
+  resolutionNote?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// ReconciliationIssue creation attributes
+interface ReconciliationIssueCreationAttributes extends Optional<ReconciliationIssueAttributes,
+  'id' | 'createdAt' | 'updatedAt' | 'stripePaymentIntentId' | 'transactionIds' | 'ledgerEntryId' | 'currency' |
+  'expectedAmount' | 'actualAmount' | 'resolvedAt' | 'resolvedBy' | 'resolutionNote'
+> {}
+
+// ReconciliationIssue model class
+class ReconciliationIssue extends Model<ReconciliationIssueAttributes, ReconciliationIssueCreationAttributes>
+  implements ReconciliationIssueAttributes {
+  declare id: string;
+  declare runId: string;
+  declare issueType: ReconciliationIssueType;
+  declare stripePaymentIntentId: string | null;
+  declare transactionIds: string[];
+  declare ledgerEntryId: string | null;
+  declare currency: string | null;
+  declare expectedAmount: number | null;
+  declare actualAmount: number | null;
+  declare details: string;
+  declare resolvedAt: Date | null;
+  declare resolvedBy: string | null;
+  declare resolutionNote: string | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+// Initialize ReconciliationIssue model
+ReconciliationIssue.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    runId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'reconciliation_runs',
+        key: 'id',
+      },
+    },
+    issueType: {
+      type: DataTypes.ENUM(...Object.values(ReconciliationIssueType)),
+      allowNull: false,
+    },
+    stripePaymentIntentId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    transactionIds: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+    },
+    ledgerEntryId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'stripe_ledger_entries',
+        key: 'id',
+      },
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: true,
+    },
+    expectedAmount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: true,
+    },
+    actualAmount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: true,
+    },
+    details: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    resolvedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    resolvedBy: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    resolutionNote: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'reconciliation_issues',
+    underscored: true,
+  }
+);
+
+export default ReconciliationIssue;
@@ -0,0 +1,109 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+
+export type ReconciliationRunStatus = 'running' | 'completed' | 'failed';
+
+// Where the Stripe data came from - the live API or a local fixture file
+export type ReconciliationSource = 'stripe' | 'fixture';
+
+// ReconciliationRun attributes interface - one import + match of a period
+interface ReconciliationRunAttributes {
+  id: string;
+  periodStart: Date;
+  periodEnd: Date;
+  status: ReconciliationRunStatus;
+  source: ReconciliationSource;
+  imported?: { balanceTransactions: number; applicationFees: number; transfers: number } | null;
+  matchedPayments: number; // Payment intents whose Stripe records match the local transactions
+  issueCount: number;
+  startedBy: string; // Admin email or 'scheduler'
+  completedAt?: Date | null;
+  error?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// ReconciliationRun creation attributes
+interface ReconciliationRunCreationAttributes extends Optional<ReconciliationRunAttributes,
+  'id' | 'createdAt' | 'updatedAt' | 'status' | 'imported' | 'matchedPayments' | 'issueCount' | 'completedAt' | 'error'
+> {}
+
+// ReconciliationRun model class
+class ReconciliationRun extends Model<ReconciliationRunAttributes, ReconciliationRunCreationAttributes>
+  implements ReconciliationRunAttributes {
+  declare id: string;
+  declare periodStart: Date;
+  declare periodEnd: Date;
+  declare status: ReconciliationRunStatus;
+  declare source: ReconciliationSource;
+  declare imported: { balanceTransactions: number; applicationFees: number; transfers: number } | null;
+  declare matchedPayments: number;
+  declare issueCount: number;
+  declare startedBy: string;
+  declare completedAt: Date | null;
+  declare error: string | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+// Initialize ReconciliationRun model
+ReconciliationRun.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    periodStart: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    periodEnd: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM('running', 'completed', 'failed'),
+      allowNull: false,
+      defaultValue: 'running',
+    },
+    source: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+    },
+    imported: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+      comment: 'Number of Stripe objects imported per type',
+    },
+    matchedPayments: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    issueCount: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    startedBy: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    completedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    error: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'reconciliation_runs',
+    underscored: true,
+  }
+);
+
+export default ReconciliationRun;
@@ -24,6 +24,7 @@ interface SKUAttributes {
   impactMultiplier: number;
   productWeight?: number; // Section 5.1: Actual grams for physical products (e.g., 17g for pasta)
   description?: string; // Section 5.1: Merchant-facing description
+  category?: string | null; // Product category - selects CATEGORY-scoped pricing rules
   partnerId?: string;
   merchantId?: string;
   isActive: boolean;
@@ -46,6 +47,7 @@ class SKU extends Model<SKUAttributes, SKUCreationAttributes> implements SKUAttr
   declare impactMultiplier: number;
   declare productWeight?: number;
   declare description?: string;
+  declare category?: string | null;
   declare partnerId?: string;
   declare merchantId?: string;
   declare isActive: boolean;
@@ -109,6 +111,11 @@ SKU.init(
       allowNull: true,
       comment: 'Section 5.1: Merchant-facing description of the SKU',
     },
+    category: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      comment: 'Product category (e.g. food, cosmetics) used by merchant pricing rules',
+    },
     partnerId: {
       type: DataTypes.UUID,
       allowNull: true,
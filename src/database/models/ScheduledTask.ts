@@ -0,0 +1,98 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+
+// Outcome of a scheduled task run
+export type ScheduledTaskRunStatus = 'succeeded' | 'failed';
+
+// ScheduledTask attributes interface - one row per task, doubles as the cross-instance lock
+interface ScheduledTaskAttributes {
+  name: string;
+  schedule: string; // Cron expression (UTC)
+  nextRunAt: Date;
+  lockedUntil?: Date | null; // Lease - another instance may take over once it passes
+  lockedBy?: string | null;
+  lastRunAt?: Date | null;
+  lastStatus?: ScheduledTaskRunStatus | null;
+  lastDurationMs?: number | null;
+  lastResult?: object | null;
+  lastError?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// ScheduledTask creation attributes
+interface ScheduledTaskCreationAttributes extends Optional<ScheduledTaskAttributes,
+  'createdAt' | 'updatedAt' | 'lockedUntil' | 'lockedBy' | 'lastRunAt' | 'lastStatus' | 'lastDurationMs' | 'lastResult' | 'lastError'
+> {}
+
+// ScheduledTask model class
+class ScheduledTask extends Model<ScheduledTaskAttributes, ScheduledTaskCreationAttributes> implements ScheduledTaskAttributes {
+  declare name: string;
+  declare schedule: string;
+  declare nextRunAt: Date;
+  declare lockedUntil: Date | null;
+  declare lockedBy: string | null;
+  declare lastRunAt: Date | null;
+  declare lastStatus: ScheduledTaskRunStatus | null;
+  declare lastDurationMs: number | null;
+  declare lastResult: object | null;
+  declare lastError: string | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+// Initialize ScheduledTask model
+ScheduledTask.init(
+  {
+    name: {
+      type: DataTypes.STRING(100),
+      primaryKey: true,
+    },
+    schedule: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      comment: 'Cron expression (UTC)',
+    },
+    nextRunAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    lockedUntil: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'Lock lease - set while an instance runs the task',
+    },
+    lockedBy: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      comment: 'Instance id (hostname:pid) holding the lock',
+    },
+    lastRunAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    lastStatus: {
+      type: DataTypes.STRING(20),
+      allowNull: true,
+    },
+    lastDurationMs: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    lastResult: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    lastError: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'scheduled_tasks',
+    underscored: true,
+  }
+);
+
+export default ScheduledTask;
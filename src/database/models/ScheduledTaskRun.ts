@@ -0,0 +1,87 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+import { ScheduledTaskRunStatus } from './ScheduledTask.js';
+
+// ScheduledTaskRun attributes interface - history of every scheduled task run
+interface ScheduledTaskRunAttributes {
+  id: string;
+  taskName: string;
+  status: ScheduledTaskRunStatus;
+  startedAt: Date;
+  finishedAt: Date;
+  durationMs: number;
+  result?: object | null;
+  error?: string | null;
+  instanceId: string;
+  createdAt?: Date;
+}
+
+// ScheduledTaskRun creation attributes
+interface ScheduledTaskRunCreationAttributes extends Optional<ScheduledTaskRunAttributes, 'id' | 'createdAt' | 'result' | 'error'> {}
+
+// ScheduledTaskRun model class
+class ScheduledTaskRun extends Model<ScheduledTaskRunAttributes, ScheduledTaskRunCreationAttributes>
+  implements ScheduledTaskRunAttributes {
+  declare id: string;
+  declare taskName: string;
+  declare status: ScheduledTaskRunStatus;
+  declare startedAt: Date;
+  declare finishedAt: Date;
+  declare durationMs: number;
+  declare result: object | null;
+  declare error: string | null;
+  declare instanceId: string;
+  declare readonly createdAt: Date;
+}
+
+// Initialize ScheduledTaskRun model
+ScheduledTaskRun.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    taskName: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+    },
+    startedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    finishedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    durationMs: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    result: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+      comment: 'Task output, e.g. number of rows cleaned up',
+    },
+    error: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    instanceId: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'scheduled_task_runs',
+    underscored: true,
+    updatedAt: false, // Runs are immutable
+  }
+);
+
+export default ScheduledTaskRun;
@@ -0,0 +1,156 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+
+// Stripe objects imported for reconciliation
+export enum StripeObjectType {
+  BALANCE_TRANSACTION = 'balance_transaction',
+  APPLICATION_FEE = 'application_fee',
+  TRANSFER = 'transfer',
+}
+
+// StripeLedgerEntry attributes interface
+// Local copy of what Stripe actually charged, kept and paid out - re-imports update the row
+// Amounts are in major units of `currency`
+interface StripeLedgerEntryAttributes {
+  id: string;
+  objectType: StripeObjectType;
+  stripeId: string; // txn_..., fee_..., tr_...
+  type: string; // Balance transaction type (charge, payment, refund, payout, ...), or the object type
+  stripeChargeId?: string | null;
+  stripePaymentIntentId?: string | null; // Resolved through the charge - matched to Transaction.stripePaymentIntentId
+  stripeAccountId?: string | null; // Connected account - application fee payer or transfer destination
+  amount: number;
+  fee: number; // Stripe processing fee (balance transactions only)
+  net: number;
+  currency: string;
+  sourceAmount?: number | null; // Charge amount in the charge currency (balance transactions are settled in the platform currency)
+  sourceCurrency?: string | null;
+  amountRefunded: number; // Application fee refunded or transfer reversed
+  status?: string | null;
+  stripeCreatedAt: Date;
+  raw: object;
+  lastImportedAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// StripeLedgerEntry creation attributes
+interface StripeLedgerEntryCreationAttributes extends Optional<StripeLedgerEntryAttributes,
+  'id' | 'createdAt' | 'updatedAt' | 'stripeChargeId' | 'stripePaymentIntentId' | 'stripeAccountId' |
+  'fee' | 'sourceAmount' | 'sourceCurrency' | 'amountRefunded' | 'status'
+> {}
+
+// StripeLedgerEntry model class
+class StripeLedgerEntry extends Model<StripeLedgerEntryAttributes, StripeLedgerEntryCreationAttributes>
+  implements StripeLedgerEntryAttributes {
+  declare id: string;
+  declare objectType: StripeObjectType;
+  declare stripeId: string;
+  declare type: string;
+  declare stripeChargeId: string | null;
+  declare stripePaymentIntentId: string | null;
+  declare stripeAccountId: string | null;
+  declare amount: number;
+  declare fee: number;
+  declare net: number;
+  declare currency: string;
+  declare sourceAmount: number | null;
+  declare sourceCurrency: string | null;
+  declare amountRefunded: number;
+  declare status: string | null;
+  declare stripeCreatedAt: Date;
+  declare raw: object;
+  declare lastImportedAt: Date;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+// Initialize StripeLedgerEntry model
+StripeLedgerEntry.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    objectType: {
+      type: DataTypes.ENUM(...Object.values(StripeObjectType)),
+      allowNull: false,
+    },
+    stripeId: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true,
+    },
+    type: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+    },
+    stripeChargeId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    stripePaymentIntentId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    stripeAccountId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    amount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+    },
+    fee: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    net: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+    },
+    sourceAmount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: true,
+    },
+    sourceCurrency: {
+      type: DataTypes.STRING(3),
+      allowNull: true,
+    },
+    amountRefunded: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    status: {
+      type: DataTypes.STRING(50),
+      allowNull: true,
+    },
+    stripeCreatedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    raw: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      comment: 'Stripe object as imported',
+    },
+    lastImportedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'stripe_ledger_entries',
+    underscored: true,
+  }
+);
+
+export default StripeLedgerEntry;
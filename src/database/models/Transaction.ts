@@ -7,6 +7,9 @@ export enum PaymentStatus {
   COMPLETED = 'completed',
   FAILED = 'failed',
   NA = 'n/a', // For CLAIM and ALLOCATION types
+  REFUNDED = 'refunded', // Fully refunded - impact reversed from wallets
+  REVERSED = 'reversed', // Charged back (dispute) - impact reversed from wallets
+  EXPIRED = 'expired', // Abandoned PENDING payment - PaymentIntent cancelled after the timeout
 }
 
 // Transaction attributes interface
@@ -18,18 +21,37 @@ interface TransactionAttributes {
   merchantId?: string;
   partnerId?: string;
   orderId?: string;
-  amount: number;
+  parentOrderId?: string | null; // Order entity grouping the line items of one purchase
+  amount: number; // EUR - normalized from originalAmount at fxRate; impact and wallets use this
+  currency: string; // ISO 4217 currency the customer paid in
+  originalAmount: number; // Amount in `currency`
+  fxRate: number; // Units of `currency` per 1 EUR applied (1 for EUR)
   calculatedImpact: number;
+  csrPricePeriodId?: string | null; // CSR price period applied when impact was calculated
   paymentStatus: PaymentStatus;
   stripePaymentIntentId?: string;
   giftCardCodeId?: string;
   corsairConnectFlag: boolean;
+  refundedAmount: number; // Euros of `amount` refunded so far (partial refunds accumulate)
+  refundedImpact: number; // Grams of `calculatedImpact` reversed so far
+  refundedAt?: Date | null;
+  refundReason?: string | null;
+  // Actual split of the confirmed Stripe payment, in `currency` - a payment paying several line
+  // transactions is allocated across them, so the lines add up to the payment's totals
+  grossAmount?: number | null; // Charged to the customer (products + plastic fee)
+  merchantAmount?: number | null; // Transferred to the merchant
+  plasticFeeAmount?: number | null; // Kept by CSR26 - the application fee, or the whole charge without a split
+  stripeFeeAmount?: number | null; // Stripe processing fee, in stripeFeeCurrency
+  stripeFeeCurrency?: string | null; // Stripe settlement currency
   createdAt?: Date;
   updatedAt?: Date;
 }
 
 // Transaction creation attributes
-interface TransactionCreationAttributes extends Optional<TransactionAttributes, 'id' | 'createdAt' | 'updatedAt' | 'corsairConnectFlag'> {}
+interface TransactionCreationAttributes extends Optional<TransactionAttributes, 'id' | 'createdAt' | 'updatedAt' | 'corsairConnectFlag' | 'csrPricePeriodId' |
+  'parentOrderId' | 'currency' | 'fxRate' | 'refundedAmount' | 'refundedImpact' | 'refundedAt' | 'refundReason' |
+  'grossAmount' | 'merchantAmount' | 'plasticFeeAmount' | 'stripeFeeAmount' | 'stripeFeeCurrency'
+> {}
 
 // Transaction model class
 class Transaction extends Model<TransactionAttributes, TransactionCreationAttributes> implements TransactionAttributes {
@@ -40,12 +62,26 @@ class Transaction extends Model<TransactionAttributes, TransactionCreationAttrib
   declare merchantId?: string;
   declare partnerId?: string;
   declare orderId?: string;
+  declare parentOrderId: string | null;
   declare amount: number;
+  declare currency: string;
+  declare originalAmount: number;
+  declare fxRate: number;
   declare calculatedImpact: number;
+  declare csrPricePeriodId: string | null;
   declare paymentStatus: PaymentStatus;
   declare stripePaymentIntentId?: string;
   declare giftCardCodeId?: string;
   declare corsairConnectFlag: boolean;
+  declare refundedAmount: number;
+  declare refundedImpact: number;
+  declare refundedAt: Date | null;
+  declare refundReason: string | null;
+  declare grossAmount: number | null;
+  declare merchantAmount: number | null;
+  declare plasticFeeAmount: number | null;
+  declare stripeFeeAmount: number | null;
+  declare stripeFeeCurrency: string | null;
   declare readonly createdAt: Date;
   declare readonly updatedAt: Date;
 
@@ -53,6 +89,8 @@ class Transaction extends Model<TransactionAttributes, TransactionCreationAttrib
   declare readonly user?: any;
   declare readonly sku?: any;
   declare readonly merchant?: any;
+  declare readonly csrPricePeriod?: any;
+  declare readonly parentOrder?: any;
 }
 
 // Initialize Transaction model
@@ -93,16 +131,47 @@ Transaction.init(
       allowNull: true,
       comment: 'External order reference from partner systems',
     },
+    parentOrderId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'orders',
+        key: 'id',
+      },
+      comment: 'Order this line-item transaction belongs to (e-commerce checkout)',
+    },
     amount: {
       type: DataTypes.DECIMAL(10, 4),
       allowNull: false,
-      comment: 'Transaction amount in euros (4 decimals for precision)',
+      comment: 'Transaction amount in euros (4 decimals for precision) - EUR-normalized original amount',
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+      defaultValue: 'EUR',
+      comment: 'ISO 4217 currency the customer paid in',
+    },
+    originalAmount: {
+      type: DataTypes.DECIMAL(10, 4),
+      allowNull: false,
+      comment: 'Amount in the original currency',
+    },
+    fxRate: {
+      type: DataTypes.DECIMAL(18, 8),
+      allowNull: false,
+      defaultValue: 1,
+      comment: 'Units of the original currency per 1 EUR used to normalize amount',
     },
     calculatedImpact: {
       type: DataTypes.DECIMAL(15, 2),
       allowNull: false,
       comment: 'Calculated plastic impact in grams (amount / CURRENT_CSR_PRICE * 1000)',
     },
+    csrPricePeriodId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      comment: 'CSR price period applied when the impact was calculated',
+    },
     paymentStatus: {
       type: DataTypes.ENUM(...Object.values(PaymentStatus)),
       allowNull: false,
@@ -124,6 +193,53 @@ Transaction.init(
       defaultValue: false,
       comment: 'True if transaction amount >= corsairThreshold (triggers Corsair Connect account)',
     },
+    refundedAmount: {
+      type: DataTypes.DECIMAL(10, 4),
+      allowNull: false,
+      defaultValue: 0,
+      comment: 'Euros of amount refunded or charged back so far (partial refunds accumulate)',
+    },
+    refundedImpact: {
+      type: DataTypes.DECIMAL(15, 2),
+      allowNull: false,
+      defaultValue: 0,
+      comment: 'Grams of calculated impact reversed from wallets so far',
+    },
+    refundedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      comment: 'Timestamp of the latest refund or reversal',
+    },
+    refundReason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      comment: 'Reason of the latest refund or reversal (Stripe refund, dispute, admin notes)',
+    },
+    grossAmount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: true,
+      comment: 'Charged to the customer in currency (share of the payment for order lines)',
+    },
+    merchantAmount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: true,
+      comment: 'Transferred to the merchant in currency',
+    },
+    plasticFeeAmount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: true,
+      comment: 'Kept by CSR26 in currency - application fee, or the whole charge without a split',
+    },
+    stripeFeeAmount: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: true,
+      comment: 'Stripe processing fee in stripeFeeCurrency',
+    },
+    stripeFeeCurrency: {
+      type: DataTypes.STRING(3),
+      allowNull: true,
+      comment: 'Stripe settlement currency of the processing fee',
+    },
   },
   {
     sequelize,
@@ -0,0 +1,152 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+
+// Ledger entry types - one entry pair is posted for every wallet movement
+export enum LedgerEntryType {
+  OPENING_BALANCE = 'OPENING_BALANCE', // Balance carried over from before the ledger existed
+  CREDIT = 'CREDIT', // Impact credited by a transaction
+  REDEMPTION = 'REDEMPTION', // Impact redeemed from the wallet
+  ADJUSTMENT = 'ADJUSTMENT', // Manual admin adjustment (Section 9.4)
+  REVERSAL = 'REVERSAL', // Impact taken back (refund, chargeback)
+}
+
+// Contra accounts - the other side of every wallet posting
+// Each journal sums to zero across its lines, so the ledger as a whole always balances
+export enum LedgerAccount {
+  WALLET = 'wallet',
+  IMPACT_ISSUANCE = 'system:impact_issuance',
+  IMPACT_REDEMPTION = 'system:impact_redemption',
+  MANUAL_ADJUSTMENT = 'system:manual_adjustment',
+  IMPACT_REVERSAL = 'system:impact_reversal',
+}
+
+// WalletLedgerEntry attributes interface
+interface WalletLedgerEntryAttributes {
+  id: string;
+  journalId: string; // Groups the wallet line with its contra line
+  account: LedgerAccount;
+  walletId?: string | null; // Set on wallet lines only
+  entryType: LedgerEntryType;
+  impactGrams: number; // Signed delta on totalAccumulated
+  redeemedGrams: number; // Signed delta on totalRedeemed
+  amountEur: number; // Signed delta on totalAmountSpent
+  transactionId?: string | null;
+  walletAdjustmentId?: string | null;
+  redemptionReference?: string | null;
+  balanceAfter?: number | null; // Wallet currentBalance after posting (wallet lines only)
+  description?: string | null;
+  createdAt?: Date;
+}
+
+// WalletLedgerEntry creation attributes
+interface WalletLedgerEntryCreationAttributes extends Optional<WalletLedgerEntryAttributes,
+  'id' | 'createdAt' | 'walletId' | 'impactGrams' | 'redeemedGrams' | 'amountEur' |
+  'transactionId' | 'walletAdjustmentId' | 'redemptionReference' | 'balanceAfter' | 'description'
+> {}
+
+// WalletLedgerEntry model class
+// Append-only: rows are never updated or deleted, wallet totals are derived from them
+class WalletLedgerEntry extends Model<WalletLedgerEntryAttributes, WalletLedgerEntryCreationAttributes>
+  implements WalletLedgerEntryAttributes {
+  declare id: string;
+  declare journalId: string;
+  declare account: LedgerAccount;
+  declare walletId: string | null;
+  declare entryType: LedgerEntryType;
+  declare impactGrams: number;
+  declare redeemedGrams: number;
+  declare amountEur: number;
+  declare transactionId: string | null;
+  declare walletAdjustmentId: string | null;
+  declare redemptionReference: string | null;
+  declare balanceAfter: number | null;
+  declare description: string | null;
+  declare readonly createdAt: Date;
+}
+
+// Initialize WalletLedgerEntry model
+WalletLedgerEntry.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    journalId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      comment: 'Journal grouping the wallet line and its contra line (lines sum to zero)',
+    },
+    account: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      comment: 'Ledger account: wallet or a system contra account',
+    },
+    walletId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      comment: 'Wallet this line belongs to (null for system contra lines)',
+    },
+    entryType: {
+      type: DataTypes.ENUM(...Object.values(LedgerEntryType)),
+      allowNull: false,
+      comment: 'OPENING_BALANCE, CREDIT, REDEMPTION, ADJUSTMENT or REVERSAL',
+    },
+    impactGrams: {
+      type: DataTypes.DECIMAL(15, 2),
+      allowNull: false,
+      defaultValue: 0,
+      comment: 'Signed change to total accumulated grams',
+    },
+    redeemedGrams: {
+      type: DataTypes.DECIMAL(15, 2),
+      allowNull: false,
+      defaultValue: 0,
+      comment: 'Signed change to total redeemed grams',
+    },
+    amountEur: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      defaultValue: 0,
+      comment: 'Section 6.1: Signed change to total euros spent (threshold tracking)',
+    },
+    transactionId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      comment: 'Transaction that caused this posting (credits and reversals)',
+    },
+    walletAdjustmentId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      comment: 'Section 9.4: Admin adjustment that caused this posting',
+    },
+    redemptionReference: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      comment: 'External reference of the redemption that caused this posting',
+    },
+    balanceAfter: {
+      type: DataTypes.DECIMAL(15, 2),
+      allowNull: true,
+      comment: 'Wallet current balance after this posting (wallet lines only)',
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+      comment: 'Human readable description of the movement',
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'wallet_ledger_entries',
+    underscored: true,
+    updatedAt: false, // Append-only ledger
+  }
+);
+
+export default WalletLedgerEntry;
@@ -0,0 +1,133 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+import { OutboundWebhookEvent } from './WebhookEndpoint.js';
+
+// pending = queued or waiting for a retry, failed = gave up after the last attempt
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+// WebhookDelivery attributes interface
+// One event sent to one endpoint - attempts are retried by the job queue
+interface WebhookDeliveryAttributes {
+  id: string;
+  endpointId: string;
+  merchantId: string;
+  eventId: string; // Shared by the deliveries of one event - receivers dedupe on it
+  eventType: OutboundWebhookEvent;
+  payload: Record<string, any>; // Event body sent as JSON - identical on every attempt
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number | null; // HTTP status of the latest attempt
+  responseBody?: string | null; // Truncated response body of the latest attempt
+  durationMs?: number | null;
+  lastError?: string | null;
+  lastAttemptAt?: Date | null;
+  deliveredAt?: Date | null;
+  lastResentBy?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// WebhookDelivery creation attributes
+interface WebhookDeliveryCreationAttributes extends Optional<WebhookDeliveryAttributes,
+  'id' | 'createdAt' | 'updatedAt' | 'status' | 'attempts' | 'responseStatus' | 'responseBody' |
+  'durationMs' | 'lastError' | 'lastAttemptAt' | 'deliveredAt' | 'lastResentBy'
+> {}
+
+// WebhookDelivery model class
+class WebhookDelivery extends Model<WebhookDeliveryAttributes, WebhookDeliveryCreationAttributes>
+  implements WebhookDeliveryAttributes {
+  declare id: string;
+  declare endpointId: string;
+  declare merchantId: string;
+  declare eventId: string;
+  declare eventType: OutboundWebhookEvent;
+  declare payload: Record<string, any>;
+  declare status: WebhookDeliveryStatus;
+  declare attempts: number;
+  declare responseStatus: number | null;
+  declare responseBody: string | null;
+  declare durationMs: number | null;
+  declare lastError: string | null;
+  declare lastAttemptAt: Date | null;
+  declare deliveredAt: Date | null;
+  declare lastResentBy: string | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+// Initialize WebhookDelivery model
+WebhookDelivery.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    endpointId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+    },
+    merchantId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+    },
+    eventId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+    },
+    eventType: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    payload: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM('pending', 'succeeded', 'failed'),
+      allowNull: false,
+      defaultValue: 'pending',
+    },
+    attempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    responseStatus: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    responseBody: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    durationMs: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    lastError: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    lastAttemptAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    deliveredAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    lastResentBy: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      comment: 'Admin or merchant user who last triggered a manual resend',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'webhook_deliveries',
+    underscored: true,
+  }
+);
+
+export default WebhookDelivery;
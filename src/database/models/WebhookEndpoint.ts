@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+import { DataTypes, Model, Optional } from 'sequelize';
+import { sequelize } from './sequelize.js';
+
+// Events a merchant can subscribe an outbound endpoint to
+export const OUTBOUND_WEBHOOK_EVENTS = [
+  'transaction.completed', // Payment finished (or CLAIM/ALLOCATION recorded) - impact credited
+  'transaction.refunded', // Full or partial refund / chargeback - impact reversed
+  'certificate.issued', // Completed transaction at or above CORSAIR_THRESHOLD - certificate available
+  'wallet.threshold_reached', // The customer's transaction took them past the Corsair Connect threshold
+] as const;
+
+export type OutboundWebhookEvent = typeof OUTBOUND_WEBHOOK_EVENTS[number];
+
+// WebhookEndpoint attributes interface
+// URL on the merchant side that receives signed event deliveries
+interface WebhookEndpointAttributes {
+  id: string;
+  merchantId: string;
+  url: string;
+  description?: string | null;
+  secret: string; // HMAC signing secret (whsec_...) - shown on creation and rotation only
+  events: OutboundWebhookEvent[];
+  isActive: boolean;
+  createdBy: string; // Admin or merchant user email
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// WebhookEndpoint creation attributes
+interface WebhookEndpointCreationAttributes extends Optional<WebhookEndpointAttributes,
+  'id' | 'createdAt' | 'updatedAt' | 'description' | 'isActive'
+> {}
+
+// WebhookEndpoint model class
+class WebhookEndpoint extends Model<WebhookEndpointAttributes, WebhookEndpointCreationAttributes>
+  implements WebhookEndpointAttributes {
+  declare id: string;
+  declare merchantId: string;
+  declare url: string;
+  declare description: string | null;
+  declare secret: string;
+  declare events: OutboundWebhookEvent[];
+  declare isActive: boolean;
+  declare createdBy: string;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  static generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  }
+
+  isSubscribedTo(event: OutboundWebhookEvent): boolean {
+    return this.events.includes(event);
+  }
+
+  // Never expose the signing secret in listings
+  toJSON() {
+    const values = { ...this.get() } as Partial<WebhookEndpointAttributes>;
+    delete values.secret;
+    return values;
+  }
+}
+
+// Initialize WebhookEndpoint model
+WebhookEndpoint.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    merchantId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+    },
+    url: {
+      type: DataTypes.STRING(2048),
+      allowNull: false,
+      validate: {
+        isUrl: true,
+      },
+    },
+    description: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    secret: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      comment: 'HMAC-SHA256 signing secret for the X-CSR26-Signature header',
+    },
+    events: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: [],
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    createdBy: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      comment: 'Admin or merchant user who registered the endpoint (email)',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'webhook_endpoints',
+    underscored: true,
+  }
+);
+
+export default WebhookEndpoint;
@@ -16,6 +16,30 @@ import MagicLink from './MagicLink.js';
 import ConfigAuditLog from './ConfigAuditLog.js';
 import WalletAdjustment from './WalletAdjustment.js';
 import TransactionToken from './TransactionToken.js';
+import WalletLedgerEntry, { LedgerEntryType, LedgerAccount } from './WalletLedgerEntry.js';
+import IdempotencyKey from './IdempotencyKey.js';
+import CSRPricePeriod from './CSRPricePeriod.js';
+import AdminUser, { AdminRole } from './AdminUser.js';
+import MerchantUser from './MerchantUser.js';
+import MerchantMagicLink from './MerchantMagicLink.js';
+import MerchantApiKey from './MerchantApiKey.js';
+import InboundWebhookEvent from './InboundWebhookEvent.js';
+import Job from './Job.js';
+import ScheduledTask from './ScheduledTask.js';
+import ScheduledTaskRun from './ScheduledTaskRun.js';
+import WebhookEndpoint from './WebhookEndpoint.js';
+import WebhookDelivery from './WebhookDelivery.js';
+import ExchangeRate from './ExchangeRate.js';
+import PricingRule from './PricingRule.js';
+import Order from './Order.js';
+import StripeLedgerEntry from './StripeLedgerEntry.js';
+import ReconciliationRun from './ReconciliationRun.js';
+import ReconciliationIssue from './ReconciliationIssue.js';
+import PartnerAgreement from './PartnerAgreement.js';
+import PartnerInvoice from './PartnerInvoice.js';
+import PartnerUser from './PartnerUser.js';
+import PartnerMagicLink from './PartnerMagicLink.js';
+import PartnerMerchantAssignment from './PartnerMerchantAssignment.js';
 
 // Define associations
 User.hasMany(Transaction, { foreignKey: 'userId', as: 'transactions' });
@@ -34,26 +58,69 @@ MagicLink.belongsTo(User, { foreignKey: 'userId', as: 'user' });
 
 Merchant.hasMany(Transaction, { foreignKey: 'merchantId', as: 'transactions' });
 Merchant.hasOne(Wallet, { foreignKey: 'merchantId', as: 'wallet' });
+Merchant.hasMany(MerchantUser, { foreignKey: 'merchantId', as: 'users' });
+Merchant.hasMany(MerchantApiKey, { foreignKey: 'merchantId', as: 'apiKeys' });
+
+MerchantUser.belongsTo(Merchant, { foreignKey: 'merchantId', as: 'merchant' });
+MerchantUser.hasMany(MerchantMagicLink, { foreignKey: 'merchantUserId', as: 'magicLinks' });
+MerchantMagicLink.belongsTo(MerchantUser, { foreignKey: 'merchantUserId', as: 'merchantUser' });
+MerchantApiKey.belongsTo(Merchant, { foreignKey: 'merchantId', as: 'merchant' });
+InboundWebhookEvent.belongsTo(Merchant, { foreignKey: 'merchantId', as: 'merchant' });
+Merchant.hasMany(WebhookEndpoint, { foreignKey: 'merchantId', as: 'webhookEndpoints' });
+WebhookEndpoint.belongsTo(Merchant, { foreignKey: 'merchantId', as: 'merchant' });
+WebhookEndpoint.hasMany(WebhookDelivery, { foreignKey: 'endpointId', as: 'deliveries' });
+WebhookDelivery.belongsTo(WebhookEndpoint, { foreignKey: 'endpointId', as: 'endpoint' });
+Merchant.hasMany(PricingRule, { foreignKey: 'merchantId', as: 'pricingRules' });
+PricingRule.belongsTo(Merchant, { foreignKey: 'merchantId', as: 'merchant' });
+Merchant.hasMany(Order, { foreignKey: 'merchantId', as: 'orders' });
+Order.belongsTo(Merchant, { foreignKey: 'merchantId', as: 'merchant' });
+Order.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+Order.hasMany(Transaction, { foreignKey: 'parentOrderId', as: 'transactions' });
+Transaction.belongsTo(Order, { foreignKey: 'parentOrderId', as: 'parentOrder' });
+ReconciliationRun.hasMany(ReconciliationIssue, { foreignKey: 'runId', as: 'issues' });
+ReconciliationIssue.belongsTo(ReconciliationRun, { foreignKey: 'runId', as: 'run' });
+ReconciliationIssue.belongsTo(StripeLedgerEntry, { foreignKey: 'ledgerEntryId', as: 'ledgerEntry' });
 
 Partner.hasMany(Transaction, { foreignKey: 'partnerId', as: 'transactions' });
+Partner.hasMany(PartnerAgreement, { foreignKey: 'partnerId', as: 'agreements' });
+Partner.hasMany(PartnerInvoice, { foreignKey: 'partnerId', as: 'invoices' });
+PartnerAgreement.belongsTo(Partner, { foreignKey: 'partnerId', as: 'partner' });
+PartnerInvoice.belongsTo(Partner, { foreignKey: 'partnerId', as: 'partner' });
+Partner.hasMany(PartnerUser, { foreignKey: 'partnerId', as: 'users' });
+PartnerUser.belongsTo(Partner, { foreignKey: 'partnerId', as: 'partner' });
+PartnerUser.hasMany(PartnerMagicLink, { foreignKey: 'partnerUserId', as: 'magicLinks' });
+PartnerMagicLink.belongsTo(PartnerUser, { foreignKey: 'partnerUserId', as: 'partnerUser' });
+Partner.hasMany(PartnerMerchantAssignment, { foreignKey: 'partnerId', as: 'merchantAssignments' });
+Merchant.hasMany(PartnerMerchantAssignment, { foreignKey: 'merchantId', as: 'partnerAssignments' });
+PartnerMerchantAssignment.belongsTo(Partner, { foreignKey: 'partnerId', as: 'partner' });
+PartnerMerchantAssignment.belongsTo(Merchant, { foreignKey: 'merchantId', as: 'merchant' });
 
 Transaction.belongsTo(User, { foreignKey: 'userId', as: 'user' });
 Transaction.belongsTo(SKU, { foreignKey: 'skuId', as: 'sku' });
 Transaction.belongsTo(Merchant, { foreignKey: 'merchantId', as: 'merchant' });
 Transaction.belongsTo(Partner, { foreignKey: 'partnerId', as: 'partner' });
 Transaction.belongsTo(GiftCardCode, { foreignKey: 'giftCardCodeId', as: 'giftCardCode' });
+Transaction.belongsTo(CSRPricePeriod, { foreignKey: 'csrPricePeriodId', as: 'csrPricePeriod' });
 Transaction.hasMany(TransactionToken, { foreignKey: 'transactionId', as: 'tokens' });
+Transaction.hasMany(WalletLedgerEntry, { foreignKey: 'transactionId', as: 'ledgerEntries' });
 
 TransactionToken.belongsTo(Transaction, { foreignKey: 'transactionId', as: 'transaction' });
 
 Wallet.belongsTo(User, { foreignKey: 'userId', as: 'user' });
 Wallet.belongsTo(Merchant, { foreignKey: 'merchantId', as: 'merchant' });
+Wallet.hasMany(WalletLedgerEntry, { foreignKey: 'walletId', as: 'ledgerEntries' });
 
 GiftCardCode.belongsTo(SKU, { foreignKey: 'skuId', as: 'sku' });
 GiftCardCode.belongsTo(User, { foreignKey: 'redeemedBy', as: 'redeemer' });
 
 WalletAdjustment.belongsTo(User, { foreignKey: 'userId', as: 'user' });
 
+CSRPricePeriod.hasMany(Transaction, { foreignKey: 'csrPricePeriodId', as: 'transactions' });
+
+WalletLedgerEntry.belongsTo(Wallet, { foreignKey: 'walletId', as: 'wallet' });
+WalletLedgerEntry.belongsTo(Transaction, { foreignKey: 'transactionId', as: 'transaction' });
+WalletLedgerEntry.belongsTo(WalletAdjustment, { foreignKey: 'walletAdjustmentId', as: 'walletAdjustment' });
+
 // Export
 export {
   sequelize,
@@ -71,8 +138,35 @@ export {
   ConfigAuditLog,
   WalletAdjustment,
   TransactionToken,
+  WalletLedgerEntry,
+  IdempotencyKey,
+  CSRPricePeriod,
+  AdminUser,
+  MerchantUser,
+  MerchantMagicLink,
+  MerchantApiKey,
+  InboundWebhookEvent,
+  Job,
+  ScheduledTask,
+  ScheduledTaskRun,
+  WebhookEndpoint,
+  WebhookDelivery,
+  ExchangeRate,
+  PricingRule,
+  Order,
+  StripeLedgerEntry,
+  ReconciliationRun,
+  ReconciliationIssue,
+  PartnerAgreement,
+  PartnerInvoice,
+  PartnerUser,
+  PartnerMagicLink,
+  PartnerMerchantAssignment,
   PaymentMode,
   PaymentStatus,
+  LedgerEntryType,
+  LedgerAccount,
+  AdminRole,
 };
 
 export default {
@@ -91,4 +185,28 @@ export default {
   ConfigAuditLog,
   WalletAdjustment,
   TransactionToken,
+  WalletLedgerEntry,
+  IdempotencyKey,
+  CSRPricePeriod,
+  AdminUser,
+  MerchantUser,
+  MerchantMagicLink,
+  MerchantApiKey,
+  InboundWebhookEvent,
+  Job,
+  ScheduledTask,
+  ScheduledTaskRun,
+  WebhookEndpoint,
+  WebhookDelivery,
+  ExchangeRate,
+  PricingRule,
+  Order,
+  StripeLedgerEntry,
+  ReconciliationRun,
+  ReconciliationIssue,
+  PartnerAgreement,
+  PartnerInvoice,
+  PartnerUser,
+  PartnerMagicLink,
+  PartnerMerchantAssignment,
 };
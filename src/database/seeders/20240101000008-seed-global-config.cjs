@@ -48,6 +48,14 @@ module.exports = {
         created_at: now,
         updated_at: now,
       },
+      {
+        id: uuidv4(),
+        key: 'PENDING_TRANSACTION_TIMEOUT_MINUTES',
+        value: '1440',
+        description: 'Minutes a PAY transaction may stay PENDING before it is marked EXPIRED and its Stripe PaymentIntent is cancelled',
+        created_at: now,
+        updated_at: now,
+      },
     ], {});
 
     console.log('✅ Global configuration seeded successfully');
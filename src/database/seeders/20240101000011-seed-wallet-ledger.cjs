@@ -0,0 +1,68 @@
+'use strict';
+
+const { v4: uuidv4 } = require('uuid');
+
+// Seeded wallets are inserted after the ledger migration has run,
+// so they need their own OPENING_BALANCE journals to verify cleanly.
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const wallets = await queryInterface.sequelize.query(
+      `SELECT w.id, w.total_accumulated, w.total_redeemed, w.current_balance, w.total_amount_spent
+       FROM wallets w
+       WHERE NOT EXISTS (SELECT 1 FROM wallet_ledger_entries e WHERE e.wallet_id = w.id);`,
+      { type: Sequelize.QueryTypes.SELECT }
+    );
+
+    const now = new Date();
+    const entries = [];
+
+    for (const wallet of wallets) {
+      const journalId = uuidv4();
+      const base = {
+        journal_id: journalId,
+        entry_type: 'OPENING_BALANCE',
+        transaction_id: null,
+        wallet_adjustment_id: null,
+        redemption_reference: null,
+        description: 'Opening balance carried over from wallet totals',
+        created_at: now,
+      };
+
+      // Wallet line
+      entries.push({
+        ...base,
+        id: uuidv4(),
+        account: 'wallet',
+        wallet_id: wallet.id,
+        impact_grams: wallet.total_accumulated,
+        redeemed_grams: wallet.total_redeemed,
+        amount_eur: wallet.total_amount_spent,
+        balance_after: wallet.current_balance,
+      });
+
+      // Contra line
+      entries.push({
+        ...base,
+        id: uuidv4(),
+        account: 'system:impact_issuance',
+        wallet_id: null,
+        impact_grams: -Number(wallet.total_accumulated),
+        redeemed_grams: -Number(wallet.total_redeemed),
+        amount_eur: -Number(wallet.total_amount_spent),
+        balance_after: null,
+      });
+    }
+
+    if (entries.length > 0) {
+      await queryInterface.bulkInsert('wallet_ledger_entries', entries);
+    }
+
+    console.log(`✓ Wallet ledger seeded (${wallets.length} opening balances)`);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.bulkDelete('wallet_ledger_entries', null, {});
+  },
+};
@@ -0,0 +1,52 @@
+'use strict';
+
+const { v4: uuidv4 } = require('uuid');
+
+// Initial CSR price period from the seeded CURRENT_CSR_PRICE,
+// open-ended from the epoch so seeded transactions fall inside it.
+
+/** @type {import('sequelize-cli').Migration} */
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    const [{ count }] = await queryInterface.sequelize.query(
+      `SELECT COUNT(*)::int AS count FROM csr_price_periods;`,
+      { type: Sequelize.QueryTypes.SELECT }
+    );
+    if (count > 0) {
+      console.log('✓ CSR price periods already present');
+      return;
+    }
+
+    const config = await queryInterface.sequelize.query(
+      `SELECT value FROM global_config WHERE key = 'CURRENT_CSR_PRICE';`,
+      { type: Sequelize.QueryTypes.SELECT }
+    );
+    const now = new Date();
+
+    await queryInterface.bulkInsert('csr_price_periods', [
+      {
+        id: uuidv4(),
+        price: config.length > 0 ? config[0].value : '0.11',
+        effective_from: new Date(0),
+        effective_to: null,
+        created_by: 'system',
+        note: 'Initial CSR price',
+        created_at: now,
+        updated_at: now,
+      },
+    ]);
+
+    // Link seeded transactions to the initial period
+    await queryInterface.sequelize.query(
+      `UPDATE transactions SET csr_price_period_id = (SELECT id FROM csr_price_periods LIMIT 1)
+       WHERE csr_price_period_id IS NULL;`
+    );
+
+    console.log('✓ CSR price periods seeded');
+  },
+
+  async down(queryInterface) {
+    await queryInterface.sequelize.query(`UPDATE transactions SET csr_price_period_id = NULL;`);
+    await queryInterface.bulkDelete('csr_price_periods', null, {});
+  },
+};
@@ -1,52 +1,87 @@
 import { Request, Response, NextFunction } from 'express';
 import adminService from '../services/admin.service.js';
+import { AdminUser } from '../database/models/index.js';
+import { AdminPermission } from '../database/models/AdminUser.js';
 
-// Extend Express Request type to include admin flag
+// Extend Express Request type to include the authenticated admin
 declare global {
   namespace Express {
     interface Request {
       isAdmin?: boolean;
+      admin?: AdminUser;
     }
   }
 }
 
-// Middleware to verify admin authentication
-export const requireAdmin = (req: Request, res: Response, next: NextFunction): void => {
-  try {
-    // Get token from Authorization header
-    const authHeader = req.headers.authorization;
+// Verify the Bearer token and attach the admin to the request
+// Responds and returns null when the request is not from an active admin
+const authenticateAdmin = async (req: Request, res: Response): Promise<AdminUser | null> => {
+  // Get token from Authorization header
+  const authHeader = req.headers.authorization;
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      res.status(401).json({
-        success: false,
-        error: 'No authorization token provided',
-      });
-      return;
-    }
-
-    // Extract token
-    const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-
-    // Verify token
-    const isValid = adminService.verifyAdminToken(token);
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    res.status(401).json({
+      success: false,
+      error: 'No authorization token provided',
+    });
+    return null;
+  }
 
-    if (!isValid) {
-      res.status(403).json({
-        success: false,
-        error: 'Invalid or expired admin token',
-      });
-      return;
-    }
+  // Extract token
+  const token = authHeader.substring(7); // Remove 'Bearer ' prefix
 
-    // Add admin flag to request
-    req.isAdmin = true;
+  // Verify token
+  const admin = await adminService.verifyAdminToken(token);
 
-    // Proceed to next middleware/route handler
-    next();
-  } catch (error) {
-    res.status(500).json({
+  if (!admin) {
+    res.status(403).json({
       success: false,
-      error: 'Authentication error',
+      error: 'Invalid or expired admin token',
     });
+    return null;
   }
+
+  // Add admin to request - audit fields are filled from req.admin.email
+  req.isAdmin = true;
+  req.admin = admin;
+
+  return admin;
+};
+
+/**
+ * Middleware to verify admin authentication and check role permissions
+ * The admin's role must grant every listed permission (see ADMIN_ROLE_PERMISSIONS)
+ *
+ * @example router.put('/:key', requirePermission('config:write'), configController.setValue);
+ */
+export const requirePermission = (...permissions: AdminPermission[]) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const admin = await authenticateAdmin(req, res);
+      if (!admin) {
+        return;
+      }
+
+      const missing = permissions.filter((permission) => !admin.hasPermission(permission));
+      if (missing.length > 0) {
+        res.status(403).json({
+          success: false,
+          error: `Your role (${admin.role}) does not allow this action`,
+          missingPermissions: missing,
+        });
+        return;
+      }
+
+      // Proceed to next middleware/route handler
+      next();
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Authentication error',
+      });
+    }
+  };
 };
+
+// Middleware to verify admin authentication - any active admin may read admin data
+export const requireAdmin = requirePermission('admin:read');
@@ -0,0 +1,132 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { UniqueConstraintError } from 'sequelize';
+import { IdempotencyKey } from '../database/models/index.js';
+
+// Stored responses are replayed for 24 hours, after which the key can be reused
+const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Serialize a value with object keys sorted, so the same body hashes the same
+ * regardless of the property order the client sent
+ */
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).sort();
+    return `{${keys.map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+/**
+ * Idempotency middleware for POST endpoints that create transactions or payments
+ *
+ * Clients send an `Idempotency-Key` header (a UUID is recommended). The header is optional;
+ * requests without it are processed normally.
+ * - First request: processed, response (status < 500) stored for 24h
+ * - Retry with same key and body: original response replayed (Idempotent-Replayed: true)
+ * - Retry with same key and different body: 422
+ * - Retry while the first request is still running: 409
+ * Server errors (5xx) are not stored so the client can retry them.
+ */
+export const idempotency = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const key = req.get('Idempotency-Key');
+
+  if (!key) {
+    return next();
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    res.status(400).json({
+      success: false,
+      error: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+    });
+    return;
+  }
+
+  try {
+    // Keys are per route and, for authenticated merchants, per merchant
+    const scope = `${req.method} ${req.baseUrl}${req.path}${req.merchantId ? ` merchant:${req.merchantId}` : ''}`;
+    const requestHash = crypto.createHash('sha256').update(stableStringify(req.body ?? {})).digest('hex');
+    const expiresAt = new Date(Date.now() + IDEMPOTENCY_KEY_TTL_MS);
+
+    let record = await IdempotencyKey.findOne({ where: { scope, key } });
+
+    // Expired keys are forgotten - the request is treated as a new one
+    if (record && record.isExpired()) {
+      await record.destroy();
+      record = null;
+    }
+
+    if (record) {
+      if (record.requestHash !== requestHash) {
+        res.status(422).json({
+          success: false,
+          error: 'Idempotency-Key was already used with a different request body',
+        });
+        return;
+      }
+
+      if (record.status !== 'completed') {
+        res.status(409).json({
+          success: false,
+          error: 'A request with this Idempotency-Key is still being processed',
+        });
+        return;
+      }
+
+      // Replay the original response
+      res.set('Idempotent-Replayed', 'true');
+      res.status(record.responseStatus || 200).json(record.responseBody);
+      return;
+    }
+
+    // Claim the key - the unique index on (scope, key) lets only one concurrent request win
+    try {
+      record = await IdempotencyKey.create({ key, scope, requestHash, expiresAt });
+    } catch (error) {
+      if (error instanceof UniqueConstraintError) {
+        res.status(409).json({
+          success: false,
+          error: 'A request with this Idempotency-Key is still being processed',
+        });
+        return;
+      }
+      throw error;
+    }
+
+    const claimed = record;
+    let finalized = false;
+
+    // Store the response before sending it, so an immediate retry already sees it
+    const originalJson = res.json.bind(res);
+    res.json = ((body: any) => {
+      finalized = true;
+      const statusCode = res.statusCode;
+      const store = statusCode >= 500
+        ? claimed.destroy()
+        : claimed.update({ status: 'completed', responseStatus: statusCode, responseBody: body });
+
+      store
+        .catch((error) => console.error(`❌ Failed to store idempotent response for key ${key}:`, error))
+        .finally(() => originalJson(body));
+
+      return res;
+    }) as Response['json'];
+
+    // Release the key if the request ends without a JSON response
+    res.on('close', () => {
+      if (!finalized) {
+        claimed.destroy().catch((error) => console.error(`❌ Failed to release idempotency key ${key}:`, error));
+      }
+    });
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,121 @@
+import { Request, Response, NextFunction } from 'express';
+import merchantAuthService from '../services/merchant-auth.service.js';
+import { MerchantApiKeyScope } from '../database/models/MerchantApiKey.js';
+
+// How the merchant caller authenticated
+interface MerchantAuthContext {
+  type: 'session' | 'api_key';
+  merchantUserId?: string;
+  apiKeyId?: string;
+  actor: string; // Merchant user email or "api_key:<prefix>" - for audit fields
+}
+
+// Extend Express Request type to include the authenticated merchant
+declare global {
+  namespace Express {
+    interface Request {
+      merchantId?: string;
+      merchantAuth?: MerchantAuthContext;
+    }
+  }
+}
+
+// Merchant the request targets - route param, body or query
+const getRequestedMerchantId = (req: Request): string | undefined => {
+  return req.params.merchantId || req.body?.merchantId || (req.query.merchantId as string | undefined);
+};
+
+/**
+ * Middleware to authenticate a merchant and restrict the route to the caller's own merchant
+ *
+ * Accepts either:
+ * - `x-api-key: csr26_sk_...` - the key must carry the given scope
+ * - `Authorization: Bearer <merchant portal session>` - portal users have every scope
+ *
+ * A merchantId in the route, body or query must match the authenticated merchant.
+ * Controllers read the merchant from req.merchantId.
+ */
+export const requireMerchant = (scope?: MerchantApiKeyScope) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const apiKeyHeader = req.headers['x-api-key'] as string | undefined;
+      const authHeader = req.headers.authorization;
+
+      if (apiKeyHeader) {
+        const apiKey = await merchantAuthService.authenticateApiKey(apiKeyHeader);
+
+        if (!apiKey) {
+          res.status(401).json({
+            success: false,
+            error: 'Invalid API key',
+          });
+          return;
+        }
+
+        if (scope && !apiKey.hasScope(scope)) {
+          res.status(403).json({
+            success: false,
+            error: `API key is missing the required scope: ${scope}`,
+          });
+          return;
+        }
+
+        req.merchantId = apiKey.merchantId;
+        req.merchantAuth = { type: 'api_key', apiKeyId: apiKey.id, actor: `api_key:${apiKey.keyPrefix}` };
+      } else if (authHeader && authHeader.startsWith('Bearer ')) {
+        const merchantUser = await merchantAuthService.verifySessionToken(authHeader.substring(7));
+
+        if (!merchantUser) {
+          res.status(403).json({
+            success: false,
+            error: 'Invalid or expired merchant session',
+          });
+          return;
+        }
+
+        req.merchantId = merchantUser.merchantId;
+        req.merchantAuth = { type: 'session', merchantUserId: merchantUser.id, actor: merchantUser.email };
+      } else {
+        res.status(401).json({
+          success: false,
+          error: 'Merchant authentication required. Include an x-api-key header or a merchant session token.',
+        });
+        return;
+      }
+
+      // Restrict to the caller's own merchant
+      const requestedMerchantId = getRequestedMerchantId(req);
+      if (requestedMerchantId && requestedMerchantId !== req.merchantId) {
+        res.status(403).json({
+          success: false,
+          error: 'Access to this merchant is not allowed',
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      console.error('❌ Merchant authentication error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Authentication error',
+      });
+    }
+  };
+};
+
+/**
+ * Middleware for portal-only routes (e.g. API key management)
+ * Requires a merchant portal session - API keys cannot manage API keys
+ */
+export const requireMerchantUser = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (req.headers['x-api-key']) {
+    res.status(403).json({
+      success: false,
+      error: 'This endpoint requires a merchant portal session',
+    });
+    return;
+  }
+
+  return requireMerchant()(req, res, next);
+};
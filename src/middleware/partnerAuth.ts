@@ -0,0 +1,72 @@
+import { Request, Response, NextFunction } from 'express';
+import partnerAuthService from '../services/partner-auth.service.js';
+
+// Extend Express Request type to include the authenticated partner
+declare global {
+  namespace Express {
+    interface Request {
+      partnerId?: string;
+      partnerUser?: {
+        id: string;
+        email: string;
+      };
+    }
+  }
+}
+
+// Partner the request targets - route param, body or query
+const getRequestedPartnerId = (req: Request): string | undefined => {
+  return req.params.partnerId || req.body?.partnerId || (req.query.partnerId as string | undefined);
+};
+
+/**
+ * Middleware to authenticate a partner portal user and restrict the route to the caller's own partner
+ *
+ * Requires `Authorization: Bearer <partner portal session>`.
+ * A partnerId in the route, body or query must match the authenticated partner.
+ * Controllers read the partner from req.partnerId.
+ */
+export const requirePartner = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const authHeader = req.headers.authorization;
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      res.status(401).json({
+        success: false,
+        error: 'Partner authentication required. Include a partner session token.',
+      });
+      return;
+    }
+
+    const partnerUser = await partnerAuthService.verifySessionToken(authHeader.substring(7));
+
+    if (!partnerUser) {
+      res.status(403).json({
+        success: false,
+        error: 'Invalid or expired partner session',
+      });
+      return;
+    }
+
+    req.partnerId = partnerUser.partnerId;
+    req.partnerUser = { id: partnerUser.id, email: partnerUser.email };
+
+    // Restrict to the caller's own partner
+    const requestedPartnerId = getRequestedPartnerId(req);
+    if (requestedPartnerId && requestedPartnerId !== req.partnerId) {
+      res.status(403).json({
+        success: false,
+        error: 'Access to this partner is not allowed',
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    console.error('❌ Partner authentication error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Authentication error',
+    });
+  }
+};
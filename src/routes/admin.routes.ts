@@ -1,11 +1,31 @@
 import express from 'express';
 import adminController from '../controllers/admin.controller.js';
+import { requireAdmin, requirePermission } from '../middleware/adminAuth.js';
+import { validateRequiredFields, validateEmail } from '../middleware/validation.js';
 
 const router = express.Router();
 
 // Admin authentication routes
 router.post('/login', adminController.login);
+router.post('/login/2fa', adminController.verifySecondFactor);
+router.post('/login/2fa/enroll', adminController.beginTotpEnrollment);
+router.post('/login/2fa/enroll/confirm', adminController.completeTotpEnrollment);
 router.get('/verify', adminController.verify);
 router.get('/sku', adminController.getSKU);
+router.put('/me/password', requireAdmin, adminController.changeOwnPassword);
+router.post('/me/2fa/recovery-codes', requireAdmin, adminController.regenerateRecoveryCodes);
+
+// Admin account management (super_admin only)
+router.get('/users', requirePermission('admins:manage'), adminController.getAllAdmins);
+router.post(
+  '/users',
+  requirePermission('admins:manage'),
+  validateRequiredFields(['email', 'name', 'password', 'role']),
+  validateEmail,
+  adminController.createAdmin
+);
+router.put('/users/:id', requirePermission('admins:manage'), adminController.updateAdmin);
+router.put('/users/:id/password', requirePermission('admins:manage'), adminController.resetPassword);
+router.delete('/users/:id/2fa', requirePermission('admins:manage'), adminController.resetTwoFactor);
 
 export default router;
@@ -2,12 +2,14 @@
 // Section 1.2: Stripe Split Payment Flow
 //
 // These routes are for merchant integration with their e-commerce platforms.
-// Authentication is done via merchantId validation (merchant must exist and be active).
+// Payment endpoints require a merchant API key with the checkout:write scope (x-api-key header);
+// the merchantId in the request must belong to the key's merchant.
 
 import { Router, Request, Response, NextFunction } from 'express';
 import checkoutController from '../controllers/checkout.controller.js';
 import { Merchant } from '../database/models/index.js';
-import { env } from '../config/env.js';
+import { requireMerchant } from '../middleware/merchantAuth.js';
+import { idempotency } from '../middleware/idempotency.js';
 
 const router = Router();
 
@@ -50,45 +52,6 @@ const validateMerchant = async (req: Request, res: Response, next: NextFunction)
   }
 };
 
-/**
- * API Key authentication for checkout endpoints
- * Merchants use their webhookSecret as an API key
- * SECURITY: Required in production, optional in development
- */
-const validateApiKey = async (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const apiKey = req.headers['x-api-key'] as string;
-    const merchantId = req.body.merchantId || req.query.merchantId;
-    const isProduction = env.nodeEnv === 'production';
-
-    if (!apiKey) {
-      // In production, API key is REQUIRED for secure endpoints
-      if (isProduction) {
-        return res.status(401).json({
-          success: false,
-          error: 'API key required. Include x-api-key header with your webhookSecret.',
-        });
-      }
-      // In development, allow requests without API key for testing
-      console.warn('⚠️ Development mode: Checkout request without API key validation');
-      return next();
-    }
-
-    const merchant = await Merchant.findByPk(merchantId);
-
-    if (!merchant || merchant.webhookSecret !== apiKey) {
-      return res.status(401).json({
-        success: false,
-        error: 'Invalid API key',
-      });
-    }
-
-    next();
-  } catch (error) {
-    next(error);
-  }
-};
-
 // ==========================================
 // CHECKOUT ENDPOINTS
 // ==========================================
@@ -104,15 +67,16 @@ router.post('/calculate-fee', validateMerchant, checkoutController.calculateFee)
  * POST /api/checkout/create-session
  * Create Stripe Checkout Session with split payment
  * Customer is redirected to Stripe to complete payment
+ * Supports Idempotency-Key header - retries replay the original session
  */
-router.post('/create-session', validateMerchant, validateApiKey, checkoutController.createSession);
+router.post('/create-session', requireMerchant('checkout:write'), validateMerchant, idempotency, checkoutController.createSession);
 
 /**
  * POST /api/checkout/complete
  * Complete checkout after successful payment
  * Returns impact URL for customer's thank you page (Point B)
  */
-router.post('/complete', validateMerchant, validateApiKey, checkoutController.completeCheckout);
+router.post('/complete', requireMerchant('checkout:write'), validateMerchant, idempotency, checkoutController.completeCheckout);
 
 /**
  * GET /api/checkout/status/:sessionId
@@ -125,7 +89,15 @@ router.get('/status/:sessionId', checkoutController.getStatus);
  * POST /api/checkout/create-payment-intent
  * Create payment intent for direct Stripe.js integration
  * Alternative to Checkout Session for custom payment forms
+ * Supports Idempotency-Key header - retries replay the original payment intent
+ */
+router.post('/create-payment-intent', requireMerchant('checkout:write'), validateMerchant, idempotency, checkoutController.createPaymentIntent);
+
+/**
+ * POST /api/checkout/payment-intent/:id/complete
+ * Complete a payment intent after the customer paid (client-side confirmation)
+ * Returns impact URL for Point B - same result as the payment_intent.succeeded webhook
  */
-router.post('/create-payment-intent', validateMerchant, validateApiKey, checkoutController.createPaymentIntent);
+router.post('/payment-intent/:id/complete', requireMerchant('checkout:write'), checkoutController.completePaymentIntent);
 
 export default router;
@@ -1,7 +1,7 @@
 // Config Routes - Endpoints for global configuration management
 import { Router } from 'express';
 import configController from '../controllers/config.controller.js';
-import { requireAdmin } from '../middleware/adminAuth.js';
+import { requireAdmin, requirePermission } from '../middleware/adminAuth.js';
 
 const router = Router();
 
@@ -11,6 +11,18 @@ const router = Router();
 // Must be defined BEFORE /:key to avoid being caught by parameter route
 router.get('/', requireAdmin, configController.getAll);
 
+// CSR price periods - effective-dated CURRENT_CSR_PRICE (admin only)
+// Must be defined BEFORE /:key routes to avoid being caught by parameter routes
+router.get('/csr-price/periods', requireAdmin, configController.getCSRPricePeriods);
+router.post('/csr-price/periods', requirePermission('config:write'), configController.scheduleCSRPrice);
+router.delete('/csr-price/periods/:id', requirePermission('config:write'), configController.cancelCSRPricePeriod);
+
+// Exchange rates - effective-dated FX rates used to normalize non-EUR amounts (admin only)
+// Must be defined BEFORE /:key routes to avoid being caught by parameter routes
+router.get('/fx-rates', requireAdmin, configController.getExchangeRates);
+router.get('/fx-rates/:currency/history', requireAdmin, configController.getExchangeRateHistory);
+router.post('/fx-rates', requirePermission('config:write'), configController.setExchangeRate);
+
 // GET /api/config/:key/history - Get configuration change history (admin only)
 // Must be defined BEFORE /:key to avoid being caught by parameter route
 router.get('/:key/history', requireAdmin, configController.getHistory);
@@ -20,9 +32,9 @@ router.get('/:key/history', requireAdmin, configController.getHistory);
 router.get('/:key', configController.getValue);
 
 // PUT /api/config/:key - Update configuration value (admin only)
-router.put('/:key', requireAdmin, configController.setValue);
+router.put('/:key', requirePermission('config:write'), configController.setValue);
 
 // DELETE /api/config/:key - Delete configuration (admin only, use with caution)
-router.delete('/:key', requireAdmin, configController.deleteConfig);
+router.delete('/:key', requirePermission('config:write'), configController.deleteConfig);
 
 export default router;
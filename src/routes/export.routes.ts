@@ -1,26 +1,26 @@
 // Export Routes
 import { Router } from 'express';
 import exportController from '../controllers/export.controller.js';
-import { requireAdmin } from '../middleware/adminAuth.js';
+import { requirePermission } from '../middleware/adminAuth.js';
 
 const router = Router();
 
 // GET /api/admin/export - Export data (Excel/CSV) with filters (Step 12 requirement - protected)
-router.get('/admin/export', requireAdmin, exportController.exportCorsairConnect);
+router.get('/admin/export', requirePermission('exports:read'), exportController.exportCorsairConnect);
 
 // GET /api/admin/export/partner/:partnerId - Export partner report (protected)
-router.get('/admin/export/partner/:partnerId', requireAdmin, exportController.exportPartnerReport);
+router.get('/admin/export/partner/:partnerId', requirePermission('exports:read'), exportController.exportPartnerReport);
 
 // GET /api/admin/export/reconciliation - Export Stripe reconciliation report (protected)
-router.get('/admin/export/reconciliation', requireAdmin, exportController.exportStripeReconciliation);
+router.get('/admin/export/reconciliation', requirePermission('exports:read'), exportController.exportStripeReconciliation);
 
 // GET /api/admin/export/impact - Export aggregate impact report (protected)
-router.get('/admin/export/impact', requireAdmin, exportController.exportImpactReport);
+router.get('/admin/export/impact', requirePermission('exports:read'), exportController.exportImpactReport);
 
 // GET /api/admin/export/trends - Export trend analysis report (monthly breakdown) (protected)
-router.get('/admin/export/trends', requireAdmin, exportController.exportTrendAnalysis);
+router.get('/admin/export/trends', requirePermission('exports:read'), exportController.exportTrendAnalysis);
 
 // GET /api/admin/export/sku-performance - Export per-SKU performance report (protected)
-router.get('/admin/export/sku-performance', requireAdmin, exportController.exportSKUPerformance);
+router.get('/admin/export/sku-performance', requirePermission('exports:read'), exportController.exportSKUPerformance);
 
 export default router;
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import giftCardController from '../controllers/giftCard.controller.js';
-import { requireAdmin } from '../middleware/adminAuth.js';
+import { requireAdmin, requirePermission } from '../middleware/adminAuth.js';
 
 const router = Router();
 
@@ -8,14 +8,14 @@ const router = Router();
 router.post('/validate-code', giftCardController.validate);
 
 // Admin gift card management routes (protected)
-router.post('/gift-cards/generate', requireAdmin, giftCardController.generateBulk);
-router.post('/gift-cards/bulk', requireAdmin, giftCardController.createBulk);
+router.post('/gift-cards/generate', requirePermission('gift_cards:write'), giftCardController.generateBulk);
+router.post('/gift-cards/bulk', requirePermission('gift_cards:write'), giftCardController.createBulk);
 router.get('/gift-cards', requireAdmin, giftCardController.getAll);
 router.get('/gift-cards/sku/:skuId', requireAdmin, giftCardController.getBySKU);
 
 // Invalidation routes (admin only) - placed before :code param route to avoid conflicts
-router.post('/gift-cards/invalidate-bulk', requireAdmin, giftCardController.invalidateBulk);
-router.delete('/gift-cards/:code', requireAdmin, giftCardController.invalidate);
+router.post('/gift-cards/invalidate-bulk', requirePermission('gift_cards:write'), giftCardController.invalidateBulk);
+router.delete('/gift-cards/:code', requirePermission('gift_cards:write'), giftCardController.invalidate);
 
 // Get single code by code - placed last due to :code param
 router.get('/gift-cards/:code', requireAdmin, giftCardController.getByCode);
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import jobController from '../controllers/job.controller.js';
+import { requireAdmin, requirePermission } from '../middleware/adminAuth.js';
+
+const router = Router();
+
+// ==========================================
+// BACKGROUND JOB QUEUE (Admin only)
+// ==========================================
+
+router.get('/admin/jobs', requireAdmin, jobController.getAll);
+router.get('/admin/jobs/stats', requireAdmin, jobController.getStats);
+router.get('/admin/jobs/:id', requireAdmin, jobController.getById);
+
+// Requeue a dead-lettered job
+router.post('/admin/jobs/:id/retry', requirePermission('transactions:write'), jobController.retry);
+
+export default router;
@@ -1,8 +1,16 @@
 import { Router } from 'express';
 import merchantController from '../controllers/merchant.controller.js';
 import merchantExportController from '../controllers/merchant-export.controller.js';
+import merchantAuthController from '../controllers/merchant-auth.controller.js';
+import webhookController from '../controllers/webhook.controller.js';
+import outboundWebhookController from '../controllers/outbound-webhook.controller.js';
+import pricingRuleController from '../controllers/pricing-rule.controller.js';
+import orderController from '../controllers/order.controller.js';
+import partnerAssignmentController from '../controllers/partner-assignment.controller.js';
 import { validateRequiredFields } from '../middleware/validation.js';
-import { requireAdmin } from '../middleware/adminAuth.js';
+import { requireAdmin, requirePermission } from '../middleware/adminAuth.js';
+import { requireMerchant, requireMerchantUser } from '../middleware/merchantAuth.js';
+import { authRateLimiter } from '../middleware/security.js';
 
 const router = Router();
 
@@ -12,13 +20,13 @@ const router = Router();
 
 router.post(
   '/admin/merchants',
-  requireAdmin,
+  requirePermission('merchants:write'),
   validateRequiredFields(['name', 'email']),
   merchantController.create
 );
 router.get('/admin/merchants', requireAdmin, merchantController.getAll);
-router.put('/admin/merchants/:id', requireAdmin, merchantController.update);
-router.delete('/admin/merchants/:id', requireAdmin, merchantController.delete);
+router.put('/admin/merchants/:id', requirePermission('merchants:write'), merchantController.update);
+router.delete('/admin/merchants/:id', requirePermission('merchants:write'), merchantController.delete);
 
 // ==========================================
 // STRIPE CONNECT MANAGEMENT (Admin only)
@@ -29,7 +37,7 @@ router.delete('/admin/merchants/:id', requireAdmin, merchantController.delete);
 router.get('/admin/merchants/stripe-status', requireAdmin, merchantController.getAllWithStripeStatus);
 
 // Start Stripe Connect onboarding for a merchant
-router.post('/admin/merchants/:id/stripe/onboard', requireAdmin, merchantController.startStripeOnboarding);
+router.post('/admin/merchants/:id/stripe/onboard', requirePermission('merchants:write'), merchantController.startStripeOnboarding);
 
 // Get fresh onboarding link (if previous expired)
 router.get('/admin/merchants/:id/stripe/onboarding-link', requireAdmin, merchantController.refreshOnboardingLink);
@@ -38,13 +46,123 @@ router.get('/admin/merchants/:id/stripe/onboarding-link', requireAdmin, merchant
 router.get('/admin/merchants/:id/stripe/dashboard', requireAdmin, merchantController.getStripeDashboard);
 
 // Sync merchant's Stripe status
-router.post('/admin/merchants/:id/stripe/sync', requireAdmin, merchantController.syncStripeStatus);
+router.post('/admin/merchants/:id/stripe/sync', requirePermission('merchants:write'), merchantController.syncStripeStatus);
 
 // Manually set Stripe account ID (for existing accounts)
-router.put('/admin/merchants/:id/stripe/account-id', requireAdmin, merchantController.setStripeAccountId);
+router.put('/admin/merchants/:id/stripe/account-id', requirePermission('merchants:write'), merchantController.setStripeAccountId);
 
 // Disconnect merchant from Stripe
-router.delete('/admin/merchants/:id/stripe', requireAdmin, merchantController.disconnectStripe);
+router.delete('/admin/merchants/:id/stripe', requirePermission('merchants:write'), merchantController.disconnectStripe);
+
+// Rotate the merchant's e-commerce webhook secret (previous secret valid for a grace window)
+router.post('/admin/merchants/:id/webhook-secret/rotate', requirePermission('merchants:write'), webhookController.rotateWebhookSecret);
+
+// ==========================================
+// MERCHANT PORTAL USERS & API KEYS (Admin only)
+// ==========================================
+
+router.get('/admin/merchants/:id/users', requireAdmin, merchantAuthController.getMerchantUsers);
+router.post(
+  '/admin/merchants/:id/users',
+  requirePermission('merchants:write'),
+  validateRequiredFields(['email']),
+  merchantAuthController.createMerchantUser
+);
+router.delete('/admin/merchants/:id/users/:userId', requirePermission('merchants:write'), merchantAuthController.deactivateMerchantUser);
+
+router.get('/admin/merchants/:id/api-keys', requireAdmin, merchantAuthController.getApiKeys);
+router.post('/admin/merchants/:id/api-keys', requirePermission('merchants:write'), merchantAuthController.issueApiKey);
+router.post('/admin/merchants/:id/api-keys/:keyId/rotate', requirePermission('merchants:write'), merchantAuthController.rotateApiKey);
+router.delete('/admin/merchants/:id/api-keys/:keyId', requirePermission('merchants:write'), merchantAuthController.revokeApiKey);
+
+// ==========================================
+// OUTBOUND WEBHOOKS (Admin only)
+// ==========================================
+
+router.get('/admin/merchants/:id/webhook-endpoints', requireAdmin, outboundWebhookController.getEndpoints);
+router.post('/admin/merchants/:id/webhook-endpoints', requirePermission('merchants:write'), outboundWebhookController.createEndpoint);
+router.put('/admin/merchants/:id/webhook-endpoints/:endpointId', requirePermission('merchants:write'), outboundWebhookController.updateEndpoint);
+router.post(
+  '/admin/merchants/:id/webhook-endpoints/:endpointId/rotate-secret',
+  requirePermission('merchants:write'),
+  outboundWebhookController.rotateEndpointSecret
+);
+router.delete('/admin/merchants/:id/webhook-endpoints/:endpointId', requirePermission('merchants:write'), outboundWebhookController.deleteEndpoint);
+
+router.get('/admin/merchants/:id/webhook-deliveries', requireAdmin, outboundWebhookController.listDeliveries);
+router.get('/admin/merchants/:id/webhook-deliveries/:deliveryId', requireAdmin, outboundWebhookController.getDelivery);
+router.post(
+  '/admin/merchants/:id/webhook-deliveries/:deliveryId/resend',
+  requirePermission('merchants:write'),
+  outboundWebhookController.resendDelivery
+);
+
+// ==========================================
+// PLASTIC FEE PRICING RULES (Admin only)
+// ==========================================
+
+router.get('/admin/merchants/:id/pricing-rules', requireAdmin, pricingRuleController.getRules);
+router.post('/admin/merchants/:id/pricing-rules', requirePermission('merchants:write'), pricingRuleController.createRule);
+router.put('/admin/merchants/:id/pricing-rules/:ruleId', requirePermission('merchants:write'), pricingRuleController.updateRule);
+router.delete('/admin/merchants/:id/pricing-rules/:ruleId', requirePermission('merchants:write'), pricingRuleController.deleteRule);
+
+// ==========================================
+// E-COMMERCE ORDERS (Admin only)
+// ==========================================
+
+router.get('/admin/merchants/:id/orders', requireAdmin, orderController.listOrders);
+router.get('/admin/merchants/:id/orders/:orderId', requireAdmin, orderController.getOrder);
+
+// ==========================================
+// PARTNER ASSIGNMENTS (Admin only)
+// ==========================================
+
+// Transactions without an explicit partnerId default to the partner assigned at creation time
+router.get('/admin/merchants/:id/partner-assignments', requireAdmin, partnerAssignmentController.getMerchantAttributionHistory);
+router.post(
+  '/admin/merchants/:id/partner-assignments',
+  requirePermission('partners:write'),
+  validateRequiredFields(['partnerId']),
+  partnerAssignmentController.createAssignment
+);
+router.put('/admin/merchants/:id/partner-assignments/:assignmentId', requirePermission('partners:write'), partnerAssignmentController.updateAssignment);
+router.post('/admin/merchants/:id/partner-assignments/:assignmentId/end', requirePermission('partners:write'), partnerAssignmentController.endAssignment);
+
+// ==========================================
+// MERCHANT PORTAL (merchant session or API key, own merchant only)
+// ==========================================
+
+// Magic link login for merchant users
+router.post('/merchant/auth/request-magic-link', authRateLimiter, merchantAuthController.requestMagicLink);
+router.post('/merchant/auth/verify-magic-link', authRateLimiter, merchantAuthController.verifyMagicLink);
+
+router.get('/merchant/me', requireMerchant(), merchantAuthController.getMe);
+
+// API key management - portal session required
+router.get('/merchant/api-keys', requireMerchantUser, merchantAuthController.getApiKeys);
+router.post('/merchant/api-keys', requireMerchantUser, merchantAuthController.issueApiKey);
+router.post('/merchant/api-keys/:keyId/rotate', requireMerchantUser, merchantAuthController.rotateApiKey);
+router.delete('/merchant/api-keys/:keyId', requireMerchantUser, merchantAuthController.revokeApiKey);
+
+// Outbound webhook endpoints and delivery log - portal session required
+router.get('/merchant/webhook-endpoints', requireMerchantUser, outboundWebhookController.getEndpoints);
+router.post('/merchant/webhook-endpoints', requireMerchantUser, outboundWebhookController.createEndpoint);
+router.put('/merchant/webhook-endpoints/:endpointId', requireMerchantUser, outboundWebhookController.updateEndpoint);
+router.post('/merchant/webhook-endpoints/:endpointId/rotate-secret', requireMerchantUser, outboundWebhookController.rotateEndpointSecret);
+router.delete('/merchant/webhook-endpoints/:endpointId', requireMerchantUser, outboundWebhookController.deleteEndpoint);
+router.get('/merchant/webhook-deliveries', requireMerchantUser, outboundWebhookController.listDeliveries);
+router.get('/merchant/webhook-deliveries/:deliveryId', requireMerchantUser, outboundWebhookController.getDelivery);
+router.post('/merchant/webhook-deliveries/:deliveryId/resend', requireMerchantUser, outboundWebhookController.resendDelivery);
+
+// Plastic fee pricing rules - read-only, managed by CSR26
+router.get('/merchant/pricing-rules', requireMerchantUser, pricingRuleController.getRules);
+
+// E-commerce orders with their line transactions and impact URLs
+router.get('/merchant/orders', requireMerchant('transactions:read'), orderController.listOrders);
+router.get('/merchant/orders/:orderId', requireMerchant('transactions:read'), orderController.getOrder);
+
+// Merchant ESG report export
+router.get('/merchants/:merchantId/export/esg', requireMerchant('reports:read'), merchantExportController.exportESGReport);
 
 // ==========================================
 // PUBLIC ROUTES
@@ -53,7 +171,4 @@ router.delete('/admin/merchants/:id/stripe', requireAdmin, merchantController.di
 // Public route for payment flow - Get merchant by ID
 router.get('/merchants/:id', merchantController.getById);
 
-// Merchant ESG report export
-router.get('/merchants/:merchantId/export/esg', merchantExportController.exportESGReport);
-
 export default router;
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import partnerRoyaltyController from '../controllers/partner-royalty.controller.js';
+import { validateRequiredFields } from '../middleware/validation.js';
+import { requireAdmin, requirePermission } from '../middleware/adminAuth.js';
+
+const router = Router();
+
+// ==========================================
+// PARTNER ROYALTY INVOICES (Admin only)
+// ==========================================
+
+router.get('/admin/partner-invoices', requireAdmin, partnerRoyaltyController.listInvoices);
+router.get('/admin/partner-invoices/:id', requireAdmin, partnerRoyaltyController.getInvoice);
+router.get('/admin/partner-invoices/:id/pdf', requirePermission('exports:read'), partnerRoyaltyController.downloadInvoicePDF);
+
+// Monthly close - also run by the scheduler for the previous month
+router.post(
+  '/admin/partner-invoices/close',
+  requirePermission('partners:write'),
+  validateRequiredFields(['month']),
+  partnerRoyaltyController.closeMonth
+);
+router.post('/admin/partner-invoices/:id/issue', requirePermission('partners:write'), partnerRoyaltyController.issueInvoice);
+router.post('/admin/partner-invoices/:id/mark-paid', requirePermission('partners:write'), partnerRoyaltyController.markInvoicePaid);
+
+export default router;
@@ -0,0 +1,44 @@
+import { Router } from 'express';
+import partnerAuthController from '../controllers/partner-auth.controller.js';
+import partnerPortalController from '../controllers/partner-portal.controller.js';
+import { validateRequiredFields } from '../middleware/validation.js';
+import { requirePartner } from '../middleware/partnerAuth.js';
+import { authRateLimiter } from '../middleware/security.js';
+
+const router = Router();
+
+// ==========================================
+// PARTNER PORTAL (partner session, own partner only)
+// ==========================================
+
+// Magic link login for partner users
+router.post('/partner/auth/request-magic-link', authRateLimiter, partnerAuthController.requestMagicLink);
+router.post('/partner/auth/verify-magic-link', authRateLimiter, partnerAuthController.verifyMagicLink);
+
+router.get('/partner/me', requirePartner, partnerAuthController.getMe);
+
+// Assigned and attributed merchants, attributed transactions and impact
+router.get('/partner/merchants', requirePartner, partnerPortalController.getMerchants);
+router.get('/partner/transactions', requirePartner, partnerPortalController.listTransactions);
+router.get('/partner/impact', requirePartner, partnerPortalController.getImpactSummary);
+
+// Royalty invoices - drafts are not visible to partners
+router.get('/partner/invoices', requirePartner, partnerPortalController.listInvoices);
+router.get('/partner/invoices/:invoiceId', requirePartner, partnerPortalController.getInvoice);
+router.get('/partner/invoices/:invoiceId/pdf', requirePartner, partnerPortalController.downloadInvoicePDF);
+
+// QR codes attributed to the partner - merchantId limited to the partner's merchants
+router.post(
+  '/partner/qrcodes',
+  requirePartner,
+  validateRequiredFields(['skuCode']),
+  partnerPortalController.generateQRCode
+);
+router.post(
+  '/partner/qrcodes/bulk',
+  requirePartner,
+  validateRequiredFields(['skuCodes']),
+  partnerPortalController.generateBulkQRCodes
+);
+
+export default router;
@@ -1,20 +1,47 @@
 import { Router } from 'express';
 import partnerController from '../controllers/partner.controller.js';
+import partnerRoyaltyController from '../controllers/partner-royalty.controller.js';
+import partnerAuthController from '../controllers/partner-auth.controller.js';
+import partnerAssignmentController from '../controllers/partner-assignment.controller.js';
 import { validateRequiredFields } from '../middleware/validation.js';
-import { requireAdmin } from '../middleware/adminAuth.js';
+import { requireAdmin, requirePermission } from '../middleware/adminAuth.js';
 
 const router = Router();
 
 // Admin partner management routes (protected)
 router.post(
   '/',
-  requireAdmin,
+  requirePermission('partners:write'),
   validateRequiredFields(['name', 'email', 'contactPerson']),
   partnerController.create
 );
 router.get('/', requireAdmin, partnerController.getAll);
 router.get('/:id', requireAdmin, partnerController.getById);
-router.put('/:id', requireAdmin, partnerController.update);
-router.delete('/:id', requireAdmin, partnerController.deactivate);
+router.put('/:id', requirePermission('partners:write'), partnerController.update);
+router.delete('/:id', requirePermission('partners:write'), partnerController.deactivate);
+
+// Royalty agreements (effective-dated, non-overlapping per partner)
+router.get('/:id/agreements', requireAdmin, partnerRoyaltyController.getAgreements);
+router.post(
+  '/:id/agreements',
+  requirePermission('partners:write'),
+  validateRequiredFields(['royaltyType', 'effectiveFrom']),
+  partnerRoyaltyController.createAgreement
+);
+router.put('/:id/agreements/:agreementId', requirePermission('partners:write'), partnerRoyaltyController.updateAgreement);
+router.delete('/:id/agreements/:agreementId', requirePermission('partners:write'), partnerRoyaltyController.deleteAgreement);
+
+// Merchants assigned to the partner (managed under /api/admin/merchants/:id/partner-assignments)
+router.get('/:id/merchant-assignments', requireAdmin, partnerAssignmentController.getPartnerAssignments);
+
+// Partner portal users (magic link login)
+router.get('/:id/users', requireAdmin, partnerAuthController.getPartnerUsers);
+router.post(
+  '/:id/users',
+  requirePermission('partners:write'),
+  validateRequiredFields(['email']),
+  partnerAuthController.createPartnerUser
+);
+router.delete('/:id/users/:userId', requirePermission('partners:write'), partnerAuthController.deactivatePartnerUser);
 
 export default router;
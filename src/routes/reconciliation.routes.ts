@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import stripeReconciliationController from '../controllers/stripe-reconciliation.controller.js';
+import { requirePermission } from '../middleware/adminAuth.js';
+
+const router = Router();
+
+// ==========================================
+// STRIPE RECONCILIATION (Admin only)
+// ==========================================
+
+router.get('/admin/reconciliation/runs', requirePermission('exports:read'), stripeReconciliationController.listRuns);
+router.get('/admin/reconciliation/runs/:id', requirePermission('exports:read'), stripeReconciliationController.getRun);
+router.get('/admin/reconciliation/issues', requirePermission('exports:read'), stripeReconciliationController.listIssues);
+
+// Import the period from Stripe (or the configured fixture) and match it
+router.post('/admin/reconciliation/runs', requirePermission('transactions:write'), stripeReconciliationController.startRun);
+router.post('/admin/reconciliation/issues/:id/resolve', requirePermission('transactions:write'), stripeReconciliationController.resolveIssue);
+
+export default router;
@@ -2,31 +2,31 @@ import { Router } from 'express';
 import skuController from '../controllers/sku.controller.js';
 import skuLocalizationController from '../controllers/sku-localization.controller.js';
 import { validateRequiredFields, validatePaymentMode } from '../middleware/validation.js';
-import { requireAdmin } from '../middleware/adminAuth.js';
+import { requireAdmin, requirePermission } from '../middleware/adminAuth.js';
 
 const router = Router();
 
 // Admin SKU management routes (protected)
 router.post(
   '/admin/skus',
-  requireAdmin,
+  requirePermission('catalog:write'),
   validateRequiredFields(['code', 'name', 'price', 'paymentMode', 'requiresValidation']),
   validatePaymentMode,
   skuController.create
 );
-router.post('/admin/skus/bulk-import', requireAdmin, skuController.bulkImport); // Section 9.3: Bulk CSV import
+router.post('/admin/skus/bulk-import', requirePermission('catalog:write'), skuController.bulkImport); // Section 9.3: Bulk CSV import
 router.get('/admin/skus', requireAdmin, skuController.getAll);
 router.get('/admin/skus/:id', requireAdmin, skuController.getById);
-router.put('/admin/skus/:id', requireAdmin, skuController.update);
-router.put('/admin/skus/:id/toggle-active', requireAdmin, skuController.toggleActive); // Section 9.3: Toggle active status
-router.delete('/admin/skus/:id', requireAdmin, skuController.delete);
+router.put('/admin/skus/:id', requirePermission('catalog:write'), skuController.update);
+router.put('/admin/skus/:id/toggle-active', requirePermission('catalog:write'), skuController.toggleActive); // Section 9.3: Toggle active status
+router.delete('/admin/skus/:id', requirePermission('catalog:write'), skuController.delete);
 
 // SKU Localization routes (protected) - for multi-market support
-router.post('/admin/skus/:skuId/localizations', requireAdmin, skuLocalizationController.createLocalization);
+router.post('/admin/skus/:skuId/localizations', requirePermission('catalog:write'), skuLocalizationController.createLocalization);
 router.get('/admin/skus/:skuId/localizations', requireAdmin, skuLocalizationController.getLocalizations);
-router.post('/admin/skus/:skuId/localizations/bulk', requireAdmin, skuLocalizationController.bulkCreateLocalizations);
-router.put('/admin/localizations/:id', requireAdmin, skuLocalizationController.updateLocalization);
-router.delete('/admin/localizations/:id', requireAdmin, skuLocalizationController.deleteLocalization);
+router.post('/admin/skus/:skuId/localizations/bulk', requirePermission('catalog:write'), skuLocalizationController.bulkCreateLocalizations);
+router.put('/admin/localizations/:id', requirePermission('catalog:write'), skuLocalizationController.updateLocalization);
+router.delete('/admin/localizations/:id', requirePermission('catalog:write'), skuLocalizationController.deleteLocalization);
 router.get('/admin/locales', requireAdmin, skuLocalizationController.getAvailableLocales);
 
 // Public SKU endpoints - for landing page
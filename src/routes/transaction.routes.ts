@@ -1,18 +1,20 @@
 import { Router } from 'express';
 import transactionController from '../controllers/transaction.controller.js';
 import transactionTokenController from '../controllers/transactionToken.controller.js';
-import { requireAdmin } from '../middleware/adminAuth.js';
+import { requireAdmin, requirePermission } from '../middleware/adminAuth.js';
+import { requireMerchant } from '../middleware/merchantAuth.js';
 import { tokenValidationRateLimiter } from '../middleware/security.js';
+import { idempotency } from '../middleware/idempotency.js';
 
 const router = Router();
 
 // Transaction routes
-router.post('/', transactionController.create); // Public - for customer transactions
-router.post('/manual', requireAdmin, transactionController.createManual); // Section 9.5: Admin only - manual transaction creation
+router.post('/', idempotency, transactionController.create); // Public - for customer transactions (Idempotency-Key supported)
+router.post('/manual', requirePermission('transactions:write'), transactionController.createManual); // Section 9.5: Admin only - manual transaction creation
 router.get('/', requireAdmin, transactionController.getAll); // Admin only - view all transactions
 router.get('/user/:userId', transactionController.getByUserId); // User dashboard transactions
 router.get('/user/:userId/total-impact', transactionController.getUserTotalImpact); // User total impact
-router.get('/merchant/:merchantId', transactionController.getByMerchantId); // Merchant dashboard transactions
+router.get('/merchant/:merchantId', requireMerchant('transactions:read'), transactionController.getByMerchantId); // Merchant dashboard transactions (own merchant only)
 
 // Section 20.4: E-commerce token-based access (PUBLIC - token IS the auth)
 // Used by e-commerce landing page: /landing?txn={transactionId}&token={token}
@@ -20,9 +22,10 @@ router.get('/merchant/:merchantId', transactionController.getByMerchantId); // M
 router.get('/token/:transactionId/:token', tokenValidationRateLimiter, transactionTokenController.getTransactionByToken);
 
 // Token generation (admin/webhook use)
-router.post('/:transactionId/generate-token', requireAdmin, transactionTokenController.generateToken);
+router.post('/:transactionId/generate-token', requirePermission('transactions:write'), transactionTokenController.generateToken);
 
+router.post('/:id/refund', requirePermission('transactions:write'), transactionController.refund); // Admin only - full or partial refund / reversal
 router.get('/:id', transactionController.getById); // Public - view single transaction (customer dashboard)
-router.put('/:id/payment-status', transactionController.updatePaymentStatus); // Webhook/internal use
+router.put('/:id/payment-status', requirePermission('transactions:write'), transactionController.updatePaymentStatus); // Admin only - settle a pending payment
 
 export default router;
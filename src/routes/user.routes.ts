@@ -2,7 +2,7 @@ import { Router } from 'express';
 import userController from '../controllers/user.controller.js';
 import shareableLinkController from '../controllers/shareable-link.controller.js';
 import walletController from '../controllers/wallet.controller.js';
-import { requireAdmin } from '../middleware/adminAuth.js';
+import { requireAdmin, requirePermission } from '../middleware/adminAuth.js';
 import {
   validateRequiredFields,
   validateEmail,
@@ -67,12 +67,12 @@ router.get('/users/email/:email', requireAdmin, userController.getByEmail);
 // Note: GET /users/:id is placed AFTER /users/email/:email to avoid route conflict
 router.get('/users/:id', userController.getById);
 router.put('/users/:id/self', userController.updateSelf); // User self-update (no auth required)
-router.put('/users/:id', requireAdmin, userController.update); // Admin only - edit user profile
-router.delete('/users/:id', requireAdmin, userController.delete); // Admin only - delete user
+router.put('/users/:id', requirePermission('users:write'), userController.update); // Admin only - edit user profile
+router.delete('/users/:id', requirePermission('users:write'), userController.delete); // Admin only - delete user
 router.get('/users/:id/export', userController.exportData);
 
 // Wallet adjustment routes - Section 9.4 (admin only)
-router.post('/users/:userId/wallet/adjust', requireAdmin, walletController.adjustWallet);
+router.post('/users/:userId/wallet/adjust', requirePermission('wallets:write'), walletController.adjustWallet);
 router.get('/users/:userId/wallet/adjustments', requireAdmin, walletController.getAdjustmentHistory);
 
 // Shareable link routes - for customer engagement
@@ -1,18 +1,25 @@
 import { Router } from 'express';
 import walletController from '../controllers/wallet.controller.js';
 import { requireAuth } from '../middleware/userAuth.js';
-import { requireAdmin } from '../middleware/adminAuth.js';
+import { requireAdmin, requirePermission } from '../middleware/adminAuth.js';
+import { requireMerchant } from '../middleware/merchantAuth.js';
 
 const router = Router();
 
 // User wallet routes - PROTECTED: Requires JWT authentication
 router.get('/user/wallet', requireAuth, walletController.getUserWallet);
 
-// Merchant wallet routes - For now, not protected (TODO: implement merchant auth)
-router.get('/merchant/wallet', walletController.getMerchantWallet);
+// Merchant wallet routes - PROTECTED: merchant session or API key with wallet:read
+router.get('/merchant/wallet', requireMerchant('wallet:read'), walletController.getMerchantWallet);
 
 // Admin-only routes with ID parameters (for admin panel)
 router.get('/user/:userId', requireAdmin, walletController.getUserWalletById);
-router.get('/merchant/:merchantId', requireAdmin, walletController.getMerchantWalletById);
+// UUID-only so /api/merchant/me and /api/merchant/api-keys (merchant portal) are not shadowed
+router.get('/merchant/:merchantId([0-9a-fA-F-]{36})', requireAdmin, walletController.getMerchantWalletById);
+
+// Admin-only ledger routes - inspect, verify and rebuild wallet totals from the ledger
+router.get('/admin/wallets/:walletId/ledger', requireAdmin, walletController.getWalletLedger);
+router.get('/admin/wallets/:walletId/verify', requireAdmin, walletController.verifyWallet);
+router.post('/admin/wallets/:walletId/rebuild', requirePermission('wallets:write'), walletController.rebuildWallet);
 
 export default router;
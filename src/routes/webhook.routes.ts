@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import webhookController from '../controllers/webhook.controller.js';
-import { requireAdmin } from '../middleware/adminAuth.js';
+import { requireMerchant, requireMerchantUser } from '../middleware/merchantAuth.js';
+import { requireAdmin, requirePermission } from '../middleware/adminAuth.js';
 
 const router = Router();
 
@@ -8,10 +9,18 @@ const router = Router();
 // directly in server.ts BEFORE express.json() middleware to preserve raw body
 // for signature verification (similar to Stripe webhook)
 
-// Get webhook configuration for a merchant (admin or merchant themselves)
-router.get('/config/:merchantId', webhookController.getWebhookConfig);
+// Get webhook configuration for a merchant (merchant themselves)
+router.get('/config/:merchantId', requireMerchant(), webhookController.getWebhookConfig);
+
+// Rotate the webhook secret - previous secret stays valid for a grace window
+router.post('/config/:merchantId/rotate-secret', requireMerchantUser, webhookController.rotateWebhookSecret);
 
 // Test webhook endpoint (development only - no signature verification)
 router.post('/test/:merchantId', webhookController.testWebhook);
 
+// Stored inbound webhook events (Stripe and e-commerce) - list, inspect and reprocess failed ones
+router.get('/admin/events', requireAdmin, webhookController.listInboundEvents);
+router.get('/admin/events/:id', requireAdmin, webhookController.getInboundEvent);
+router.post('/admin/events/:id/reprocess', requirePermission('transactions:write'), webhookController.reprocessInboundEvent);
+
 export default router;
@@ -32,6 +32,16 @@ import qrcodeRoutes from './routes/qrcode.routes.js';
 import configRoutes from './routes/config.routes.js';
 import webhookRoutes from './routes/webhook.routes.js';
 import checkoutRoutes from './routes/checkout.routes.js';
+import jobRoutes from './routes/job.routes.js';
+import reconciliationRoutes from './routes/reconciliation.routes.js';
+import partnerInvoiceRoutes from './routes/partner-invoice.routes.js';
+import partnerPortalRoutes from './routes/partner-portal.routes.js';
+import adminService from './services/admin.service.js';
+import jobQueueService from './services/job-queue.service.js';
+import notificationService from './services/notification.service.js';
+import outboundWebhookService from './services/outbound-webhook.service.js';
+import schedulerService from './services/scheduler.service.js';
+import maintenanceService from './services/maintenance.service.js';
 
 const app = express();
 
@@ -86,6 +96,33 @@ app.get('/health/detailed', async (req, res) => {
       dbStatus = 'disconnected';
     }
 
+    // Background job queue
+    let jobs: any = null;
+    if (dbStatus === 'connected') {
+      try {
+        const stats = await jobQueueService.getStats();
+        jobs = {
+          workerRunning: stats.workerRunning,
+          pending: stats.byStatus.pending,
+          running: stats.byStatus.running,
+          dead: stats.byStatus.dead,
+          oldestDueJobAgeSeconds: stats.oldestDueJobAgeSeconds,
+        };
+      } catch {
+        jobs = { status: 'unavailable' };
+      }
+    }
+
+    // Maintenance scheduler - last result of each task
+    let scheduler: any = null;
+    if (dbStatus === 'connected') {
+      try {
+        scheduler = await schedulerService.getStatus();
+      } catch {
+        scheduler = { status: 'unavailable' };
+      }
+    }
+
     // System info
     const memoryUsage = process.memoryUsage();
     const uptimeSeconds = process.uptime();
@@ -103,6 +140,8 @@ app.get('/health/detailed', async (req, res) => {
         status: dbStatus,
         latencyMs: dbLatency,
       },
+      jobs,
+      scheduler,
       memory: {
         heapUsedMB: Math.round(memoryUsage.heapUsed / 1024 / 1024),
         heapTotalMB: Math.round(memoryUsage.heapTotal / 1024 / 1024),
@@ -146,6 +185,10 @@ app.use('/api', qrcodeRoutes); // QR code generation routes for merchants
 app.use('/api/config', configRoutes); // Global configuration management routes
 app.use('/api/webhooks', webhookRoutes); // E-commerce webhook configuration routes (test, config)
 app.use('/api/checkout', paymentRateLimiter, checkoutRoutes); // Section 1.2: E-commerce checkout with split payments
+app.use('/api', jobRoutes); // Contains /admin/jobs routes (background job queue)
+app.use('/api', reconciliationRoutes); // Contains /admin/reconciliation routes (Stripe ledger matching)
+app.use('/api', partnerInvoiceRoutes); // Contains /admin/partner-invoices routes (partner royalties)
+app.use('/api', partnerPortalRoutes); // Contains /partner routes (partner portal)
 
 // 404 handler - must be after all routes
 app.use(notFoundHandler);
@@ -160,6 +203,29 @@ const startServer = async () => {
     await sequelize.authenticate();
     console.log('✅ Database connection established');
 
+    // Create the first super_admin when no admin accounts exist yet
+    await adminService.ensureBootstrapAdmin();
+
+    // Background job worker (emails, certificate PDFs, merchant webhook deliveries)
+    jobQueueService.registerHandlers(notificationService.getJobHandlers());
+    jobQueueService.registerHandlers(outboundWebhookService.getJobHandlers());
+    if (env.jobs.workerEnabled) {
+      jobQueueService.start(env.jobs.pollIntervalMs);
+    }
+
+    // Maintenance scheduler (cleanups and expiry)
+    schedulerService.register(maintenanceService.getScheduledTasks());
+    if (env.scheduler.enabled) {
+      await schedulerService.start(env.scheduler.tickIntervalMs);
+    }
+
+    // Let the job in progress finish before the process exits
+    process.once('SIGTERM', async () => {
+      schedulerService.stop();
+      await jobQueueService.stop();
+      process.exit(0);
+    });
+
     // Start Express server
     app.listen(env.port, () => {
       console.log(`🚀 Server running on port ${env.port}`);
@@ -1,18 +1,78 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
 import jwt from 'jsonwebtoken';
+import QRCode from 'qrcode';
 import { env } from '../config/env.js';
+import { sequelize, AdminUser, AdminRole } from '../database/models/index.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { generateTotpSecret, verifyTotpCode, buildOtpauthUrl } from '../utils/totp.js';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const PASSWORD_KEY_LENGTH = 64;
+const MIN_PASSWORD_LENGTH = 12;
+const TOTP_ISSUER = 'CSR26 Admin';
+const RECOVERY_CODE_COUNT = 10;
+
+// Admin JWT payload - role stays 'admin' so admin tokens are never accepted as user sessions
+interface AdminTokenPayload {
+  role: 'admin';
+  adminId: string;
+  sku: string;
+}
+
+// Short-lived token between password check and second factor - carries no admin role
+interface AdminChallengePayload {
+  purpose: 'admin_2fa';
+  adminId: string;
+  sku: string;
+}
+
+// Result of a successful second factor - the only place admin JWTs are minted
+interface AdminSessionResult {
+  token: string;
+  admin: AdminUser;
+}
+
+interface AdminUpdateData {
+  name?: string;
+  role?: AdminRole;
+  isActive?: boolean;
+}
 
 class AdminService {
-  // Validate admin secret code
-  validateAdminCode(code: string): boolean {
-    return code === env.admin.secretCode;
+  // Hash a password with scrypt and a random salt - stored as "salt:hash" (hex)
+  async hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = await scrypt(password, salt, PASSWORD_KEY_LENGTH);
+    return `${salt}:${hash.toString('hex')}`;
+  }
+
+  // Compare a password against a stored "salt:hash" in constant time
+  async verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+    const [salt, storedHex] = passwordHash.split(':');
+    if (!salt || !storedHex) {
+      return false;
+    }
+
+    const stored = Buffer.from(storedHex, 'hex');
+    const hash = await scrypt(password, salt, stored.length);
+    return stored.length === hash.length && crypto.timingSafeEqual(stored, hash);
+  }
+
+  // Reject passwords that are too short
+  validatePassword(password: string): void {
+    if (!password || password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
   }
 
   // Generate JWT token for admin
-  generateAdminToken(): string {
-    const payload = {
+  generateAdminToken(admin: AdminUser): string {
+    const payload: AdminTokenPayload = {
       role: 'admin',
+      adminId: admin.id,
       sku: env.admin.sku,
-      timestamp: Date.now(),
     };
 
     const token = jwt.sign(payload, env.jwt.secret, {
@@ -23,38 +83,350 @@ class AdminService {
   }
 
   // Verify admin JWT token
-  verifyAdminToken(token: string): boolean {
+  // Loads the admin on every request so deactivation and role changes apply immediately
+  async verifyAdminToken(token: string): Promise<AdminUser | null> {
     try {
-      const decoded = jwt.verify(token, env.jwt.secret) as {
-        role: string;
-        sku: string;
-      };
+      const decoded = jwt.verify(token, env.jwt.secret) as Partial<AdminTokenPayload>;
 
       // Check if token has admin role
-      return decoded.role === 'admin' && decoded.sku === env.admin.sku;
+      if (decoded.role !== 'admin' || decoded.sku !== env.admin.sku || !decoded.adminId) {
+        return null;
+      }
+
+      const admin = await AdminUser.findByPk(decoded.adminId);
+      if (!admin || !admin.isActive || !admin.totpEnabled) {
+        return null;
+      }
+
+      return admin;
     } catch (error) {
-      return false;
+      return null;
+    }
+  }
+
+  // Generate the 10-minute challenge token returned after a correct password
+  generateChallengeToken(admin: AdminUser): string {
+    const payload: AdminChallengePayload = {
+      purpose: 'admin_2fa',
+      adminId: admin.id,
+      sku: env.admin.sku,
+    };
+
+    return jwt.sign(payload, env.jwt.secret, { expiresIn: '10m' });
+  }
+
+  // Verify a challenge token and load its admin
+  async verifyChallengeToken(challengeToken: string): Promise<AdminUser> {
+    let decoded: Partial<AdminChallengePayload>;
+    try {
+      decoded = jwt.verify(challengeToken, env.jwt.secret) as Partial<AdminChallengePayload>;
+    } catch (error) {
+      throw new AppError('Login challenge expired - please sign in again', 401);
+    }
+
+    if (decoded.purpose !== 'admin_2fa' || decoded.sku !== env.admin.sku || !decoded.adminId) {
+      throw new AppError('Invalid login challenge', 401);
+    }
+
+    const admin = await AdminUser.findByPk(decoded.adminId);
+    if (!admin || !admin.isActive) {
+      throw new AppError('Invalid login challenge', 401);
     }
+
+    return admin;
   }
 
-  // Login admin with secret code
-  async loginAdmin(code: string): Promise<{ success: boolean; token?: string; error?: string }> {
-    // Validate the secret code
-    if (!this.validateAdminCode(code)) {
+  // Login admin with email and password (first factor)
+  // Never returns an admin JWT - only a challenge token for the TOTP step or, for admins
+  // without 2FA yet, for mandatory enrollment
+  async loginAdmin(email: string, password: string): Promise<{ success: boolean; challengeToken?: string; enrollmentRequired?: boolean; error?: string }> {
+    const admin = await AdminUser.findOne({ where: { email: email.toLowerCase().trim() } });
+
+    // Always run scrypt so unknown emails take as long as wrong passwords
+    const passwordValid = admin
+      ? await this.verifyPassword(password, admin.passwordHash)
+      : await this.hashPassword(password).then(() => false);
+
+    if (!admin || !passwordValid || !admin.isActive) {
       return {
         success: false,
-        error: 'Invalid admin code',
+        error: 'Invalid email or password',
       };
     }
 
-    // Generate JWT token
-    const token = this.generateAdminToken();
-
     return {
       success: true,
-      token,
+      challengeToken: this.generateChallengeToken(admin),
+      enrollmentRequired: !admin.totpEnabled,
     };
   }
+
+  // Start TOTP enrollment - new secret, returned once as otpauth URL and QR code
+  // Calling it again before confirming replaces the pending secret
+  async beginTotpEnrollment(challengeToken: string): Promise<{ secret: string; otpauthUrl: string; qrCode: string }> {
+    const admin = await this.verifyChallengeToken(challengeToken);
+    if (admin.totpEnabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    const otpauthUrl = buildOtpauthUrl(secret, admin.email, TOTP_ISSUER);
+    const qrCode = await QRCode.toDataURL(otpauthUrl, { errorCorrectionLevel: 'M', width: 256 });
+
+    await admin.update({ totpSecret: this.encryptSecret(secret), totpLastUsedStep: null });
+
+    return { secret, otpauthUrl, qrCode };
+  }
+
+  // Confirm TOTP enrollment with a first code - enables 2FA, issues recovery codes and the admin JWT
+  async completeTotpEnrollment(challengeToken: string, code: string): Promise<AdminSessionResult & { recoveryCodes: string[] }> {
+    const challenged = await this.verifyChallengeToken(challengeToken);
+
+    return sequelize.transaction(async (t) => {
+      const admin = await AdminUser.findByPk(challenged.id, { transaction: t, lock: t.LOCK.UPDATE });
+      if (!admin || admin.totpEnabled) {
+        throw new Error('Two-factor authentication is already enabled');
+      }
+      if (!admin.totpSecret) {
+        throw new Error('Start two-factor enrollment first');
+      }
+
+      const step = verifyTotpCode(this.decryptSecret(admin.totpSecret), code);
+      if (step === null) {
+        throw new AppError('Invalid authentication code', 401);
+      }
+
+      const recoveryCodes = this.generateRecoveryCodes();
+      await admin.update({
+        totpEnabled: true,
+        totpLastUsedStep: step,
+        recoveryCodeHashes: recoveryCodes.map((recoveryCode) => this.hashRecoveryCode(recoveryCode)),
+        lastLoginAt: new Date(),
+      }, { transaction: t });
+
+      console.log(`🔐 Two-factor authentication enabled for admin ${admin.email}`);
+
+      return { token: this.generateAdminToken(admin), admin, recoveryCodes };
+    });
+  }
+
+  // Second factor of login - TOTP code or one-time recovery code, then the admin JWT
+  async verifySecondFactor(challengeToken: string, factor: { code?: string; recoveryCode?: string }): Promise<AdminSessionResult> {
+    const challenged = await this.verifyChallengeToken(challengeToken);
+
+    return sequelize.transaction(async (t) => {
+      // Lock the admin row so a code or recovery code is only accepted once
+      const admin = await AdminUser.findByPk(challenged.id, { transaction: t, lock: t.LOCK.UPDATE });
+      if (!admin || !admin.totpEnabled || !admin.totpSecret) {
+        throw new Error('Two-factor authentication is not set up for this account');
+      }
+
+      if (factor.recoveryCode) {
+        const hash = this.hashRecoveryCode(factor.recoveryCode);
+        if (!admin.recoveryCodeHashes.includes(hash)) {
+          throw new AppError('Invalid recovery code', 401);
+        }
+
+        await admin.update({
+          recoveryCodeHashes: admin.recoveryCodeHashes.filter((existing) => existing !== hash),
+          lastLoginAt: new Date(),
+        }, { transaction: t });
+
+        console.log(`⚠️  Admin ${admin.email} signed in with a recovery code (${admin.recoveryCodeHashes.length} left)`);
+      } else {
+        const step = verifyTotpCode(this.decryptSecret(admin.totpSecret), factor.code || '');
+        if (step === null || (admin.totpLastUsedStep !== null && step <= admin.totpLastUsedStep)) {
+          throw new AppError('Invalid authentication code', 401);
+        }
+
+        await admin.update({ totpLastUsedStep: step, lastLoginAt: new Date() }, { transaction: t });
+      }
+
+      return { token: this.generateAdminToken(admin), admin };
+    });
+  }
+
+  // Replace all recovery codes - requires a current TOTP code
+  async regenerateRecoveryCodes(admin: AdminUser, code: string): Promise<string[]> {
+    return sequelize.transaction(async (t) => {
+      const locked = await AdminUser.findByPk(admin.id, { transaction: t, lock: t.LOCK.UPDATE });
+      if (!locked || !locked.totpEnabled || !locked.totpSecret) {
+        throw new Error('Two-factor authentication is not set up for this account');
+      }
+
+      const step = verifyTotpCode(this.decryptSecret(locked.totpSecret), code);
+      if (step === null || (locked.totpLastUsedStep !== null && step <= locked.totpLastUsedStep)) {
+        throw new AppError('Invalid authentication code', 401);
+      }
+
+      const recoveryCodes = this.generateRecoveryCodes();
+      await locked.update({
+        totpLastUsedStep: step,
+        recoveryCodeHashes: recoveryCodes.map((recoveryCode) => this.hashRecoveryCode(recoveryCode)),
+      }, { transaction: t });
+
+      return recoveryCodes;
+    });
+  }
+
+  // Clear an admin's second factor (super_admin) - existing tokens stop working and
+  // the admin enrolls again at next login
+  async resetTwoFactor(id: string): Promise<AdminUser> {
+    const admin = await this.getAdminById(id);
+
+    await admin.update({
+      totpEnabled: false,
+      totpSecret: null,
+      totpLastUsedStep: null,
+      recoveryCodeHashes: [],
+    });
+
+    return admin;
+  }
+
+  // Generate one-time recovery codes (shown once, stored hashed)
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = crypto.randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+  }
+
+  // Recovery codes are compared case- and dash-insensitively
+  private hashRecoveryCode(recoveryCode: string): string {
+    const normalized = recoveryCode.toLowerCase().replace(/[^a-f0-9]/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  // TOTP secrets are encrypted at rest with a key derived from JWT_SECRET - "iv:tag:ciphertext" (hex)
+  private encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.secretKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return `${iv.toString('hex')}:${cipher.getAuthTag().toString('hex')}:${ciphertext.toString('hex')}`;
+  }
+
+  private decryptSecret(encrypted: string): string {
+    const [ivHex, tagHex, ciphertextHex] = encrypted.split(':');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.secretKey(), Buffer.from(ivHex, 'hex'));
+    decipher.setAuthTag(Buffer.from(tagHex, 'hex'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertextHex, 'hex')), decipher.final()]).toString('utf8');
+  }
+
+  private secretKey(): Buffer {
+    return crypto.createHash('sha256').update(`admin-totp:${env.jwt.secret}`).digest();
+  }
+
+  // Create the first super_admin from ADMIN_BOOTSTRAP_EMAIL / ADMIN_BOOTSTRAP_PASSWORD
+  // Runs at startup and does nothing once any admin account exists
+  async ensureBootstrapAdmin(): Promise<void> {
+    const count = await AdminUser.count();
+    if (count > 0) {
+      return;
+    }
+
+    const { bootstrapEmail, bootstrapPassword } = env.admin;
+    if (!bootstrapEmail || !bootstrapPassword) {
+      console.warn('⚠️  No admin users exist - set ADMIN_BOOTSTRAP_EMAIL and ADMIN_BOOTSTRAP_PASSWORD to create the first super_admin');
+      return;
+    }
+
+    this.validatePassword(bootstrapPassword);
+
+    await AdminUser.create({
+      email: bootstrapEmail.toLowerCase().trim(),
+      name: 'Super Admin',
+      passwordHash: await this.hashPassword(bootstrapPassword),
+      role: AdminRole.SUPER_ADMIN,
+    });
+
+    console.log(`✅ Bootstrap super_admin created: ${bootstrapEmail}`);
+  }
+
+  // Get all admin accounts
+  async getAllAdmins(): Promise<AdminUser[]> {
+    return AdminUser.findAll({ order: [['createdAt', 'ASC']] });
+  }
+
+  // Get admin account by ID
+  async getAdminById(id: string): Promise<AdminUser> {
+    const admin = await AdminUser.findByPk(id);
+    if (!admin) {
+      throw new Error('Admin user not found');
+    }
+    return admin;
+  }
+
+  // Create a new admin account
+  async createAdmin(data: { email: string; name: string; password: string; role: AdminRole }, createdBy: string): Promise<AdminUser> {
+    if (!Object.values(AdminRole).includes(data.role)) {
+      throw new Error(`Invalid role. Must be one of: ${Object.values(AdminRole).join(', ')}`);
+    }
+    this.validatePassword(data.password);
+
+    const email = data.email.toLowerCase().trim();
+    const existing = await AdminUser.findOne({ where: { email } });
+    if (existing) {
+      throw new Error('An admin with this email already exists');
+    }
+
+    return AdminUser.create({
+      email,
+      name: data.name,
+      passwordHash: await this.hashPassword(data.password),
+      role: data.role,
+      createdBy,
+    });
+  }
+
+  // Update name, role or active status of an admin account
+  async updateAdmin(id: string, data: AdminUpdateData, actor: AdminUser): Promise<AdminUser> {
+    const admin = await this.getAdminById(id);
+
+    if (data.role !== undefined && !Object.values(AdminRole).includes(data.role)) {
+      throw new Error(`Invalid role. Must be one of: ${Object.values(AdminRole).join(', ')}`);
+    }
+
+    const losesSuperAdmin = admin.role === AdminRole.SUPER_ADMIN && admin.isActive
+      && ((data.role !== undefined && data.role !== AdminRole.SUPER_ADMIN) || data.isActive === false);
+
+    if (losesSuperAdmin) {
+      if (admin.id === actor.id) {
+        throw new Error('You cannot demote or deactivate your own super_admin account');
+      }
+
+      const activeSuperAdmins = await AdminUser.count({ where: { role: AdminRole.SUPER_ADMIN, isActive: true } });
+      if (activeSuperAdmins <= 1) {
+        throw new Error('At least one active super_admin is required');
+      }
+    }
+
+    await admin.update({
+      ...(data.name !== undefined && { name: data.name }),
+      ...(data.role !== undefined && { role: data.role }),
+      ...(data.isActive !== undefined && { isActive: data.isActive }),
+    });
+
+    return admin;
+  }
+
+  // Set a new password for an admin account (super_admin reset)
+  async resetPassword(id: string, newPassword: string): Promise<void> {
+    const admin = await this.getAdminById(id);
+    this.validatePassword(newPassword);
+    await admin.update({ passwordHash: await this.hashPassword(newPassword) });
+  }
+
+  // Change the authenticated admin's own password
+  async changeOwnPassword(admin: AdminUser, currentPassword: string, newPassword: string): Promise<void> {
+    const valid = await this.verifyPassword(currentPassword, admin.passwordHash);
+    if (!valid) {
+      throw new Error('Current password is incorrect');
+    }
+
+    this.validatePassword(newPassword);
+    await admin.update({ passwordHash: await this.hashPassword(newPassword) });
+  }
 }
 
 export default new AdminService();
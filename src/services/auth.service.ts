@@ -1,4 +1,5 @@
 // Auth Service - Handles magic link authentication logic
+import { Op } from 'sequelize';
 import { User, MagicLink } from '../database/models/index.js';
 import emailService from './email.service.js';
 import jwt from 'jsonwebtoken';
@@ -253,13 +254,13 @@ class AuthService {
   }
 
   /**
-   * Clean up expired magic links (can be run periodically)
+   * Clean up expired magic links (run by the maintenance scheduler)
    */
   async cleanupExpiredLinks(): Promise<number> {
     const result = await MagicLink.destroy({
       where: {
         expiresAt: {
-          $lt: new Date() as any,
+          [Op.lt]: new Date(),
         },
       },
     });
@@ -5,7 +5,7 @@
 // - Contains: Transaction details, impact amount, user info, verification QR code
 import PDFDocument from 'pdfkit';
 import QRCode from 'qrcode';
-import { Transaction, User, SKU } from '../database/models/index.js';
+import { Transaction, User, SKU, PaymentStatus } from '../database/models/index.js';
 import { env } from '../config/env.js';
 
 class CertificateService {
@@ -263,14 +263,24 @@ class CertificateService {
       return null;
     }
 
+    // Refunded or charged back transactions no longer back a valid certificate
+    const isRevoked = transaction.paymentStatus === PaymentStatus.REFUNDED
+      || transaction.paymentStatus === PaymentStatus.REVERSED;
+
+    // Partial refunds keep the certificate valid for the remaining impact
+    const netImpactGrams = Number(transaction.calculatedImpact) - Number(transaction.refundedImpact);
+
     // Return verification data (limited fields for privacy)
     return {
       transactionId: transaction.id,
-      isValid: true,
+      isValid: !isRevoked,
+      status: transaction.paymentStatus,
+      revokedAt: isRevoked ? transaction.refundedAt : null,
       verifiedAt: new Date().toISOString(),
       details: {
-        impactGrams: Number(transaction.calculatedImpact),
-        impactKg: (Number(transaction.calculatedImpact) / 1000).toFixed(3),
+        impactGrams: netImpactGrams,
+        impactKg: (netImpactGrams / 1000).toFixed(3),
+        refundedImpactGrams: Number(transaction.refundedImpact),
         date: transaction.createdAt.toISOString().split('T')[0],
         sku: {
           code: transaction.sku.code,
@@ -283,9 +293,9 @@ class CertificateService {
               : 'Anonymous User',
         },
         equivalents: {
-          plasticBottles: Math.floor(Number(transaction.calculatedImpact) / 25),
-          trees: (Number(transaction.calculatedImpact) / 21000).toFixed(2),
-          oceanCleanup: (Number(transaction.calculatedImpact) / 500).toFixed(1),
+          plasticBottles: Math.floor(netImpactGrams / 25),
+          trees: (netImpactGrams / 21000).toFixed(2),
+          oceanCleanup: (netImpactGrams / 500).toFixed(1),
         },
       },
     };
@@ -20,8 +20,13 @@
 import Stripe from 'stripe';
 import { env } from '../config/env.js';
 import { Merchant, SKU, User, Transaction } from '../database/models/index.js';
-import { PaymentMode } from '../database/models/SKU.js';
+import { OrderItem, OrderStatus } from '../database/models/Order.js';
+import { PricingRoundingMode } from '../database/models/PricingRule.js';
 import configService from './config.service.js';
+import exchangeRateService from './exchange-rate.service.js';
+import pricingRuleService, { AppliedPricing } from './pricing-rule.service.js';
+import impactQuoteService, { ImpactQuotePayload } from './impact-quote.service.js';
+import orderService from './order.service.js';
 import transactionService from './transaction.service.js';
 import transactionTokenService from './transactionToken.service.js';
 import userService from './user.service.js';
@@ -35,24 +40,35 @@ const stripe = new Stripe(env.stripe.secretKey, {
 // Request data for calculating plastic fee
 interface CalculatePlasticFeeRequest {
   merchantId: string;
+  currency?: string; // ISO 4217 currency of item prices (default EUR)
   items: Array<{
     sku: string;
     quantity: number;
-    price: number; // Price per item in EUR
+    price: number; // Price per item in `currency`
+    category?: string; // Used for CATEGORY pricing rules when the SKU is not registered with CSR26
+    weightGrams?: number; // Used for PER_GRAM pricing rules when the SKU has no productWeight
   }>;
 }
 
 // Response for plastic fee calculation
+// Impact is always computed on EUR - plasticFee is the same fee in the cart currency
 interface PlasticFeeResult {
+  currency: string;
+  plasticFee: number; // Fee to charge, in `currency`
   plasticFeeEur: number;
+  fxRate: number; // Units of `currency` per 1 EUR
   plasticFeePerItem: Array<{
     sku: string;
     quantity: number;
     impactGrams: number;
     feeEur: number;
+    plasticFee: number; // Line fee in `currency` - lines sum to plasticFee
+    pricing: AppliedPricing; // Rule that priced this line
   }>;
   totalImpactGrams: number;
   csrPricePerKg: number;
+  quoteId: string; // Signed quote - required by create-session and create-payment-intent
+  quoteExpiresAt: Date;
 }
 
 // Request for creating checkout session with split payment
@@ -73,9 +89,11 @@ interface CreateCheckoutRequest {
     sku: string;
     name: string;
     quantity: number;
-    priceEur: number; // Price per item
+    priceEur: number; // Price per item - in `currency` when given
   }>;
-  plasticFeeEur: number; // Pre-calculated plastic fee
+  plasticFeeEur: number; // Pre-calculated plastic fee - in `currency` when given
+  currency?: string; // ISO 4217 currency to charge in (default EUR)
+  quoteId: string; // From calculate-fee - items and fee must match it
   successUrl: string; // Merchant's success URL (we'll append session_id)
   cancelUrl: string; // Merchant's cancel URL
   partnerId?: string;
@@ -88,6 +106,7 @@ interface CheckoutResult {
   checkoutUrl: string;
   expiresAt: Date;
   splitDetails: {
+    currency: string;
     totalAmount: number;
     merchantReceives: number;
     plasticFee: number;
@@ -105,8 +124,10 @@ interface CompleteCheckoutRequest {
 // Response from checkout completion (Point B data)
 interface CheckoutCompletionResult {
   success: boolean;
-  transactionId: string;
-  impactGrams: number;
+  transactionId: string; // Primary transaction - the impact URL points to it
+  orderId?: string; // CSR26 order when the cart was recorded line by line
+  transactionIds?: string[]; // One per cart line
+  impactGrams: number; // Whole order
   impactKg: number;
   impactUrl: string; // URL for customer to see their impact (Point B)
   qrCodeData?: string; // QR code for impact URL
@@ -126,6 +147,9 @@ class CheckoutService {
    *
    * For SKUs with weight-based pricing (like CLAIM products):
    * Plastic Fee = (productWeight * impactMultiplier / 1000) * CURRENT_CSR_PRICE
+   *
+   * Other lines are priced by the merchant's pricing rules (SKU > category > merchant-wide),
+   * falling back to 1% of the line price. Each line reports the rule that applied.
    */
   async calculatePlasticFee(request: CalculatePlasticFeeRequest): Promise<PlasticFeeResult> {
     const merchant = await Merchant.findByPk(request.merchantId);
@@ -134,6 +158,10 @@ class CheckoutService {
     }
 
     const csrPrice = await configService.getCurrentCSRPrice();
+    // Prices may be in the shop's currency - fees and impact are computed in EUR
+    const currency = exchangeRateService.normalizeCurrency(request.currency);
+    const fxRate = await exchangeRateService.getRateAt(currency);
+    const rules = await pricingRuleService.getRules(merchant.id);
     let totalFee = 0;
     let totalImpactGrams = 0;
     const itemResults: PlasticFeeResult['plasticFeePerItem'] = [];
@@ -143,27 +171,35 @@ class CheckoutService {
 
       let itemImpactGrams: number;
       let itemFee: number;
-
-      if (sku) {
-        // SKU found - use its weight and multiplier for CLAIM products
-        if (sku.paymentMode === 'CLAIM') {
-          // For CLAIM: fee based on product weight
-          const productWeight = Number(sku.productWeight) || 0;
-          const multiplier = Number(sku.impactMultiplier) || 1;
-          itemImpactGrams = productWeight * multiplier * item.quantity;
-          itemFee = (itemImpactGrams / 1000) * csrPrice;
-        } else {
-          // For PAY/ALLOCATION: fee is a percentage of item price
-          // Use standard formula: amount / CSR_PRICE = kg
-          const itemTotal = item.price * item.quantity;
-          // Default: 1% of product price as plastic fee (configurable per merchant)
-          itemFee = itemTotal * 0.01; // 1% default
-          itemImpactGrams = (itemFee / csrPrice) * 1000;
-        }
+      let pricing: AppliedPricing;
+
+      if (sku?.paymentMode === 'CLAIM') {
+        // For CLAIM: fee based on product weight and multiplier - not priced by rules
+        const productWeight = Number(sku.productWeight) || 0;
+        const multiplier = Number(sku.impactMultiplier) || 1;
+        itemImpactGrams = productWeight * multiplier * item.quantity;
+        itemFee = Math.round((itemImpactGrams / 1000) * csrPrice * 100) / 100;
+        pricing = {
+          source: 'CLAIM_WEIGHT',
+          ruleId: null,
+          scope: null,
+          feeType: null,
+          value: null,
+          roundingMode: PricingRoundingMode.NEAREST,
+          capApplied: null,
+        };
       } else {
-        // SKU not found - use default 1% of price as plastic fee
-        const itemTotal = item.price * item.quantity;
-        itemFee = itemTotal * 0.01;
+        // PAY/ALLOCATION and unknown SKUs: merchant pricing rule (1% of price when none)
+        // Impact uses standard formula: amount / CSR_PRICE = kg
+        const lineFee = pricingRuleService.calculateLineFee(rules, {
+          skuCode: item.sku,
+          category: sku?.category || item.category,
+          quantity: item.quantity,
+          lineTotalEur: (item.price * item.quantity) / fxRate,
+          weightGrams: sku?.productWeight ? Number(sku.productWeight) : item.weightGrams,
+        });
+        itemFee = lineFee.feeEur;
+        pricing = lineFee.pricing;
         itemImpactGrams = (itemFee / csrPrice) * 1000;
       }
 
@@ -174,15 +210,50 @@ class CheckoutService {
         sku: item.sku,
         quantity: item.quantity,
         impactGrams: Math.round(itemImpactGrams),
-        feeEur: Math.round(itemFee * 100) / 100, // Round to 2 decimal places
+        feeEur: itemFee, // Rounded to cents per line
+        plasticFee: Math.round(itemFee * fxRate * 100) / 100,
+        pricing,
       });
     }
 
+    const plasticFee = Math.round(totalFee * fxRate * 100) / 100;
+    const plasticFeeEur = Math.round(totalFee * 100) / 100;
+
+    // Converted line fees may be a cent off the converted total - the largest line absorbs it,
+    // so each line transaction of the order records exactly its share of the charged fee
+    if (itemResults.length > 0) {
+      const remainder = Math.round((plasticFee - itemResults.reduce((sum, r) => sum + r.plasticFee, 0)) * 100) / 100;
+      const largest = itemResults.reduce((max, r) => (r.plasticFee > max.plasticFee ? r : max), itemResults[0]);
+      largest.plasticFee = Math.round((largest.plasticFee + remainder) * 100) / 100;
+    }
+
+    // Lock items, CSR price and fee - checkout must charge exactly this
+    const quote = impactQuoteService.issueQuote({
+      merchantId: merchant.id,
+      currency,
+      csrPricePerKg: csrPrice,
+      items: request.items.map((item, index) => ({
+        sku: item.sku,
+        quantity: item.quantity,
+        price: item.price,
+        plasticFee: itemResults[index].plasticFee,
+      })),
+      productTotal: Math.round(request.items.reduce((sum, item) => sum + item.price * item.quantity, 0) * 100) / 100,
+      plasticFee,
+      plasticFeeEur,
+      totalImpactGrams: Math.round(totalImpactGrams),
+    });
+
     return {
-      plasticFeeEur: Math.round(totalFee * 100) / 100,
+      currency,
+      plasticFee,
+      plasticFeeEur,
+      fxRate,
       plasticFeePerItem: itemResults,
       totalImpactGrams: Math.round(totalImpactGrams),
       csrPricePerKg: csrPrice,
+      quoteId: quote.quoteId,
+      quoteExpiresAt: quote.expiresAt,
     };
   }
 
@@ -213,13 +284,25 @@ class CheckoutService {
       throw new Error('Merchant Stripe account cannot accept charges. Complete onboarding or check account status.');
     }
 
-    // Calculate totals
+    // Calculate totals (in the checkout currency)
+    const currency = exchangeRateService.normalizeCurrency(request.currency);
+
+    // The fee must be the one quoted by calculate-fee for exactly these items
+    const quote = await impactQuoteService.verifyQuote(request.quoteId, request.merchantId);
+    impactQuoteService.assertMatchesCart(quote, {
+      currency,
+      items: request.items.map(item => ({ sku: item.sku, quantity: item.quantity, price: item.priceEur })),
+      plasticFee: request.plasticFeeEur,
+    });
+    await orderService.assertOrderOpen(request.merchantId, request.orderId);
     const productTotal = request.items.reduce((sum, item) => sum + (item.priceEur * item.quantity), 0);
     const totalAmount = productTotal + request.plasticFeeEur;
 
-    // Convert to cents for Stripe
-    const totalAmountCents = Math.round(totalAmount * 100);
-    const plasticFeeCents = Math.round(request.plasticFeeEur * 100);
+    // Fail before creating the session if the currency has no rate - completion must be able to normalize it
+    await exchangeRateService.getRateAt(currency);
+
+    // Convert to minor units for Stripe
+    const plasticFeeCents = exchangeRateService.toMinorUnits(request.plasticFeeEur, currency);
 
     // Build line items for Stripe Checkout
     const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [];
@@ -228,12 +311,12 @@ class CheckoutService {
     for (const item of request.items) {
       lineItems.push({
         price_data: {
-          currency: 'eur',
+          currency: currency.toLowerCase(),
           product_data: {
             name: item.name,
             metadata: { sku: item.sku },
           },
-          unit_amount: Math.round(item.priceEur * 100),
+          unit_amount: exchangeRateService.toMinorUnits(item.priceEur, currency),
         },
         quantity: item.quantity,
       });
@@ -242,7 +325,7 @@ class CheckoutService {
     // Add plastic neutralization fee as separate line item
     lineItems.push({
       price_data: {
-        currency: 'eur',
+        currency: currency.toLowerCase(),
         product_data: {
           name: 'Plastic Neutralization Fee',
           description: 'Environmental impact offset - certified plastic removal',
@@ -266,11 +349,15 @@ class CheckoutService {
         },
         application_fee_amount: plasticFeeCents, // CSR26 keeps the plastic fee
         metadata: {
+          // Merchant metadata first - it must not override the quoted amounts
+          ...request.metadata,
           orderId: request.orderId,
           merchantId: request.merchantId,
-          plasticFeeEur: request.plasticFeeEur.toFixed(2),
+          currency,
+          plasticFee: request.plasticFeeEur.toFixed(2),
+          quoteRef: quote.jti || '',
           partnerId: request.partnerId || '',
-          ...request.metadata,
+          checkoutFlow: 'checkout_session', // Completed by checkout.session.completed, not payment_intent.succeeded
         },
       },
       success_url: `${request.successUrl}${request.successUrl.includes('?') ? '&' : '?'}session_id={CHECKOUT_SESSION_ID}`,
@@ -281,17 +368,35 @@ class CheckoutService {
         customerEmail: request.customer.email,
         customerFirstName: request.customer.firstName,
         customerLastName: request.customer.lastName,
-        plasticFeeEur: request.plasticFeeEur.toFixed(2),
+        currency,
+        plasticFee: request.plasticFeeEur.toFixed(2),
+        quoteRef: quote.jti || '',
         partnerId: request.partnerId || '',
       },
       expires_at: Math.floor(Date.now() / 1000) + (30 * 60), // 30 minutes expiry
     });
 
+    // Quoted cart lines become one transaction each once the session is paid
+    await this.savePendingOrder(quote, {
+      merchantId: request.merchantId,
+      orderId: request.orderId,
+      partnerId: request.partnerId,
+      customer: {
+        email: request.customer.email,
+        firstName: request.customer.firstName,
+        lastName: request.customer.lastName,
+        country: request.customer.country,
+      },
+      itemNames: Object.fromEntries(request.items.map(item => [item.sku, item.name])),
+      stripeCheckoutSessionId: session.id,
+    });
+
     return {
       checkoutSessionId: session.id,
       checkoutUrl: session.url!,
       expiresAt: new Date(session.expires_at * 1000),
       splitDetails: {
+        currency,
         totalAmount,
         merchantReceives: productTotal,
         plasticFee: request.plasticFeeEur,
@@ -320,112 +425,250 @@ class CheckoutService {
       throw new Error(`Payment not completed. Status: ${session.payment_status}`);
     }
 
-    // Check if this checkout session was already completed (idempotency check)
-    const stripePaymentIntentId = (session.payment_intent as Stripe.PaymentIntent)?.id;
-    if (stripePaymentIntentId) {
+    // Extract data from session metadata
+    const metadata = session.metadata!;
+
+    return this.recordEcommercePayment({
+      merchantId: request.merchantId,
+      orderId: request.orderId,
+      checkoutSessionId: session.id,
+      paymentIntentId: (session.payment_intent as Stripe.PaymentIntent)?.id,
+      // Sessions created before multi-currency only carry plasticFeeEur
+      currency: metadata.currency || 'EUR',
+      plasticFee: parseFloat(metadata.plasticFee || metadata.plasticFeeEur),
+      partnerId: metadata.partnerId || undefined,
+      customer: {
+        email: metadata.customerEmail,
+        firstName: metadata.customerFirstName,
+        lastName: metadata.customerLastName,
+      },
+    });
+  }
+
+  /**
+   * Complete a direct PaymentIntent (create-payment-intent) after it succeeded
+   * Called by the payment_intent.succeeded webhook OR by merchants confirming client-side
+   * Same pipeline as checkout sessions: user, transaction, token and impact URL
+   */
+  async completePaymentIntent(request: { merchantId: string; paymentIntentId: string }): Promise<CheckoutCompletionResult> {
+    const paymentIntent = await stripe.paymentIntents.retrieve(request.paymentIntentId);
+    const metadata = paymentIntent.metadata;
+
+    if (metadata.merchantId !== request.merchantId) {
+      throw new Error('Payment intent not found');
+    }
+
+    // PAY-SKU payment intents carry a transactionId and are completed by payment status updates
+    if (metadata.transactionId || !metadata.orderId) {
+      throw new Error('Payment intent was not created by create-payment-intent');
+    }
+
+    if (paymentIntent.status !== 'succeeded') {
+      throw new Error(`Payment not completed. Status: ${paymentIntent.status}`);
+    }
+
+    const customerEmail = paymentIntent.receipt_email || metadata.customerEmail;
+    if (!customerEmail) {
+      throw new Error('Payment intent has no customer email');
+    }
+
+    return this.recordEcommercePayment({
+      merchantId: request.merchantId,
+      orderId: metadata.orderId,
+      paymentIntentId: paymentIntent.id,
+      currency: metadata.currency || paymentIntent.currency.toUpperCase(),
+      plasticFee: parseFloat(metadata.plasticFee || metadata.plasticFeeEur),
+      partnerId: metadata.partnerId || undefined,
+      customer: {
+        email: customerEmail,
+        firstName: metadata.customerFirstName || undefined,
+        lastName: metadata.customerLastName || undefined,
+      },
+    });
+  }
+
+  /**
+   * Record a paid e-commerce split payment - shared by checkout sessions and direct payment intents
+   * Carts saved as an order are recorded as one transaction per line; older checkouts as a single
+   * ECOM-SPLIT-01 transaction. Idempotent per Stripe payment intent: repeated calls (webhook and
+   * merchant) return the same transactions
+   */
+  private async recordEcommercePayment(data: {
+    merchantId: string;
+    orderId: string;
+    checkoutSessionId?: string;
+    paymentIntentId?: string;
+    currency: string;
+    plasticFee: number;
+    partnerId?: string;
+    customer: { email: string; firstName?: string; lastName?: string };
+  }): Promise<CheckoutCompletionResult> {
+    const order = await orderService.findOrderForPayment({
+      merchantId: data.merchantId,
+      externalOrderId: data.orderId,
+      stripeCheckoutSessionId: data.checkoutSessionId,
+      stripePaymentIntentId: data.paymentIntentId,
+    });
+
+    // Check if this payment was already recorded (idempotency check)
+    if (order?.status === OrderStatus.COMPLETED) {
+      return this.buildCompletionResult(await orderService.getOrderTransactions(order));
+    }
+    if (!order && data.paymentIntentId) {
       const existingTransaction = await Transaction.findOne({
-        where: { stripePaymentIntentId },
+        where: { stripePaymentIntentId: data.paymentIntentId },
       });
       if (existingTransaction) {
-        // Already processed - return existing data
-        const existingToken = await transactionTokenService.getTokenByTransactionId(existingTransaction.id);
-        const impactUrl = existingToken
-          ? transactionTokenService.generateImpactUrl(existingTransaction.id, existingToken.token, env.frontend.url)
-          : `${env.frontend.url}/landing?txn=${existingTransaction.id}`;
-
-        const user = await User.findByPk(existingTransaction.userId);
-        return {
-          success: true,
-          transactionId: existingTransaction.id,
-          impactGrams: Number(existingTransaction.calculatedImpact),
-          impactKg: Math.round(Number(existingTransaction.calculatedImpact) / 10) / 100,
-          impactUrl,
-          customer: {
-            firstName: user?.firstName || '',
-            email: user?.email || '',
-          },
-        };
+        return this.buildCompletionResult([existingTransaction]);
       }
     }
 
-    // Extract data from session metadata
-    const metadata = session.metadata!;
-    const plasticFeeEur = parseFloat(metadata.plasticFeeEur);
-    const customerEmail = metadata.customerEmail;
-    const customerFirstName = metadata.customerFirstName;
-    const customerLastName = metadata.customerLastName;
-    const partnerId = metadata.partnerId || undefined;
-
-    // Find or create user - use standard registration (name + email)
+    // Find or create user - use standard registration (name + email) when the name is known
     // E-commerce checkout doesn't always have full address data
-    const user = await userService.findOrCreateStandardUser({
-      firstName: customerFirstName,
-      lastName: customerLastName,
-      email: customerEmail,
-      termsAccepted: true, // Implied by purchase
-    });
-
-    // Get CSR price for impact calculation
-    const csrPrice = await configService.getCurrentCSRPrice();
-    const impactKg = plasticFeeEur / csrPrice;
-    const impactGrams = Math.round(impactKg * 1000);
+    const user = data.customer.firstName && data.customer.lastName
+      ? await userService.findOrCreateStandardUser({
+        firstName: data.customer.firstName,
+        lastName: data.customer.lastName,
+        email: data.customer.email,
+        termsAccepted: true, // Implied by purchase
+      })
+      : await userService.findOrCreateMinimalUser({ email: data.customer.email });
+
+    if (order) {
+      // One transaction per cart line - a concurrent completion waits on the order and gets the same lines
+      const { transactions } = await orderService.recordOrderPayment(order.id, {
+        userId: user.id,
+        stripePaymentIntentId: data.paymentIntentId,
+      });
+      await this.recordPaymentSplit(data.paymentIntentId);
+      return this.buildCompletionResult(transactions);
+    }
 
     // Create transaction record
     // Use a generic ALLOCATION SKU for e-commerce transactions
-    let ecommerceSku = await SKU.findOne({ where: { code: 'ECOM-SPLIT-01' } });
-    if (!ecommerceSku) {
-      // Create default e-commerce SKU if it doesn't exist
-      ecommerceSku = await SKU.create({
-        code: 'ECOM-SPLIT-01',
-        name: 'E-commerce Plastic Neutral',
-        description: 'Plastic neutralization from e-commerce checkout',
-        paymentMode: PaymentMode.ALLOCATION,
-        price: 0,
-        productWeight: 0,
-        impactMultiplier: 1,
-        requiresValidation: false,
-        corsairThreshold: 10,
-        isActive: true,
+    const ecommerceSku = await orderService.getEcommerceSku();
+
+    // Create transaction using the transaction service
+    let transaction: Transaction;
+    try {
+      transaction = await transactionService.createTransaction({
+        skuCode: ecommerceSku.code,
+        userId: user.id,
+        merchantId: data.merchantId,
+        partnerId: data.partnerId,
+        orderId: data.orderId,
+        amount: data.plasticFee,
+        currency: data.currency, // Normalized to EUR by the transaction service - impact uses the EUR amount
+        stripePaymentIntentId: data.paymentIntentId,
       });
+    } catch (error: any) {
+      // Webhook and merchant completed the same payment concurrently - the other call recorded it
+      if (data.paymentIntentId && error.message?.includes('already recorded')) {
+        const existingTransaction = await Transaction.findOne({
+          where: { stripePaymentIntentId: data.paymentIntentId },
+        });
+        if (existingTransaction) {
+          return this.buildCompletionResult([existingTransaction]);
+        }
+      }
+      throw error;
     }
 
-    // Create transaction using the transaction service
-    const transaction = await transactionService.createTransaction({
-      skuCode: ecommerceSku.code,
-      userId: user.id,
-      merchantId: request.merchantId,
-      partnerId,
-      orderId: request.orderId,
-      amount: plasticFeeEur,
-    });
+    await this.recordPaymentSplit(data.paymentIntentId);
+    return this.buildCompletionResult([transaction]);
+  }
 
-    // Update transaction with Stripe payment intent ID
-    const paymentIntentId = (session.payment_intent as Stripe.PaymentIntent)?.id;
-    if (paymentIntentId) {
-      await transaction.update({ stripePaymentIntentId: paymentIntentId });
+  /**
+   * Store the confirmed payment's gross, merchant share, plastic fee and Stripe fee on its transactions
+   * Never fails the completion - figures missing here are filled in by the record-payment-splits task
+   */
+  private async recordPaymentSplit(paymentIntentId?: string): Promise<void> {
+    if (!paymentIntentId) {
+      return;
     }
 
+    try {
+      await paymentService.recordPaymentSplit(paymentIntentId);
+    } catch (error: any) {
+      console.error(`Failed to record split for payment intent ${paymentIntentId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Point B data for a recorded payment
+   * The impact URL points to the first transaction; for an order its landing page shows every line
+   */
+  private async buildCompletionResult(transactions: Transaction[]): Promise<CheckoutCompletionResult> {
+    const transaction = transactions[0];
+
     // Generate token for Point B landing page
-    const token = await transactionTokenService.createToken(transaction.id);
-    const impactUrl = transactionTokenService.generateImpactUrl(
-      transaction.id,
-      token.token,
-      env.frontend.url
-    );
+    const token = await transactionTokenService.getOrCreateToken(transaction.id);
+    const impactUrl = transactionTokenService.generateImpactUrl(transaction.id, token.token, env.frontend.url);
+
+    const impactGrams = transactions.reduce((sum, tx) => sum + Number(tx.calculatedImpact), 0);
 
+    const user = await User.findByPk(transaction.userId);
     return {
       success: true,
       transactionId: transaction.id,
+      ...(transaction.parentOrderId
+        ? { orderId: transaction.parentOrderId, transactionIds: transactions.map(tx => tx.id) }
+        : {}),
       impactGrams,
-      impactKg: Math.round(impactKg * 100) / 100,
+      impactKg: Math.round(impactGrams / 10) / 100,
       impactUrl,
       customer: {
-        firstName: customerFirstName,
-        email: customerEmail,
+        firstName: user?.firstName || '',
+        email: user?.email || '',
       },
     };
   }
 
+  /**
+   * Save the quoted cart as a pending order - lines carry their share of the fee
+   * Quotes issued before per-line fees have no order; their payment is recorded as one transaction
+   */
+  private async savePendingOrder(
+    quote: ImpactQuotePayload,
+    data: {
+      merchantId: string;
+      orderId: string;
+      partnerId?: string;
+      customer?: { email?: string; firstName?: string; lastName?: string; country?: string };
+      itemNames?: Record<string, string>;
+      stripeCheckoutSessionId?: string;
+      stripePaymentIntentId?: string;
+    }
+  ): Promise<void> {
+    if (quote.items.some(item => item.plasticFee === undefined)) {
+      return;
+    }
+
+    const items: OrderItem[] = quote.items.map(item => ({
+      sku: item.sku,
+      name: data.itemNames?.[item.sku],
+      quantity: Number(item.quantity),
+      price: Number(item.price),
+      plasticFee: Number(item.plasticFee),
+    }));
+
+    await orderService.savePendingOrder({
+      merchantId: data.merchantId,
+      externalOrderId: data.orderId,
+      partnerId: data.partnerId,
+      customer: data.customer,
+      currency: quote.currency,
+      items,
+      productTotal: quote.productTotal,
+      plasticFee: quote.plasticFee,
+      plasticFeeEur: quote.plasticFeeEur,
+      csrPricePerKg: quote.csrPricePerKg,
+      csrPricePeriodId: quote.csrPricePeriodId ?? null,
+      stripeCheckoutSessionId: data.stripeCheckoutSessionId,
+      stripePaymentIntentId: data.stripePaymentIntentId,
+    });
+  }
+
   /**
    * Get checkout session status
    * Merchants can call this to check if payment was successful
@@ -437,7 +680,9 @@ class CheckoutService {
       sessionId: session.id,
       paymentStatus: session.payment_status,
       status: session.status,
-      amountTotal: session.amount_total ? session.amount_total / 100 : 0,
+      amountTotal: session.amount_total
+        ? session.amount_total / exchangeRateService.toMinorUnits(1, session.currency)
+        : 0,
       currency: session.currency,
       customerEmail: session.customer_email,
       metadata: session.metadata,
@@ -449,13 +694,19 @@ class CheckoutService {
    * Alternative to Checkout Session - for merchants who handle their own UI
    *
    * Returns a client secret that merchant can use with Stripe.js
+   * Once paid, the transaction is recorded by the payment_intent.succeeded webhook
+   * (or completePaymentIntent when the merchant confirms client-side)
    */
   async createPaymentIntent(request: {
     merchantId: string;
     orderId: string;
-    totalAmountEur: number;
-    plasticFeeEur: number;
+    totalAmountEur: number; // In `currency` when given
+    plasticFeeEur: number; // In `currency` when given
+    currency?: string; // ISO 4217 currency to charge in (default EUR)
+    quoteId: string; // From calculate-fee - total and fee must match it
     customerEmail: string;
+    customerFirstName?: string;
+    customerLastName?: string;
     partnerId?: string;
     metadata?: Record<string, string>;
   }) {
@@ -468,30 +719,63 @@ class CheckoutService {
       throw new Error('Merchant cannot accept split payments. Complete Stripe Connect onboarding.');
     }
 
-    const totalCents = Math.round(request.totalAmountEur * 100);
-    const plasticFeeCents = Math.round(request.plasticFeeEur * 100);
+    const currency = exchangeRateService.normalizeCurrency(request.currency);
+    await exchangeRateService.getRateAt(currency);
+
+    const quote = await impactQuoteService.verifyQuote(request.quoteId, request.merchantId);
+    impactQuoteService.assertMatchesTotals(quote, {
+      currency,
+      totalAmount: request.totalAmountEur,
+      plasticFee: request.plasticFeeEur,
+    });
+    await orderService.assertOrderOpen(request.merchantId, request.orderId);
+
+    const totalCents = exchangeRateService.toMinorUnits(request.totalAmountEur, currency);
+    const plasticFeeCents = exchangeRateService.toMinorUnits(request.plasticFeeEur, currency);
 
     const paymentIntent = await stripe.paymentIntents.create({
       amount: totalCents,
-      currency: 'eur',
+      currency: currency.toLowerCase(),
       receipt_email: request.customerEmail,
       transfer_data: {
         destination: merchant.stripeAccountId,
       },
       application_fee_amount: plasticFeeCents,
       metadata: {
+        // Merchant metadata first - it must not override the quoted amounts
+        ...request.metadata,
         orderId: request.orderId,
         merchantId: request.merchantId,
-        plasticFeeEur: request.plasticFeeEur.toFixed(2),
+        currency,
+        plasticFee: request.plasticFeeEur.toFixed(2),
+        quoteRef: quote.jti || '',
         partnerId: request.partnerId || '',
-        ...request.metadata,
+        // Used when the payment succeeds to record the transaction and impact
+        checkoutFlow: 'payment_intent',
+        customerEmail: request.customerEmail,
+        customerFirstName: request.customerFirstName || '',
+        customerLastName: request.customerLastName || '',
+      },
+    });
+
+    // Quoted cart lines become one transaction each once the payment succeeds
+    await this.savePendingOrder(quote, {
+      merchantId: request.merchantId,
+      orderId: request.orderId,
+      partnerId: request.partnerId,
+      customer: {
+        email: request.customerEmail,
+        firstName: request.customerFirstName,
+        lastName: request.customerLastName,
       },
+      stripePaymentIntentId: paymentIntent.id,
     });
 
     return {
       paymentIntentId: paymentIntent.id,
       clientSecret: paymentIntent.client_secret,
       splitDetails: {
+        currency,
         totalAmount: request.totalAmountEur,
         merchantReceives: request.totalAmountEur - request.plasticFeeEur,
         plasticFee: request.plasticFeeEur,
@@ -1,20 +1,32 @@
 // Config Service - Manage global configuration (CURRENT_CSR_PRICE, etc.)
-import { GlobalConfig, ConfigAuditLog } from '../database/models/index.js';
+// CURRENT_CSR_PRICE is effective-dated: the price in force comes from CSRPricePeriod
+import { Op } from 'sequelize';
+import { sequelize, GlobalConfig, ConfigAuditLog, CSRPricePeriod } from '../database/models/index.js';
+
+// CSR price resolved for a point in time
+export interface CSRPriceResolution {
+  periodId: string | null; // null only before any period exists (fresh install)
+  price: number;
+}
+
+// Used until an admin sets PENDING_TRANSACTION_TIMEOUT_MINUTES
+const DEFAULT_PENDING_TRANSACTION_TIMEOUT_MINUTES = 1440;
 
 class ConfigService {
   /**
    * Get configuration value by key
+   * CURRENT_CSR_PRICE returns the price of the period in force, so scheduled changes
+   * show up as soon as they activate
    * @param key - Configuration key (e.g., 'CURRENT_CSR_PRICE')
    * @returns Configuration value as string
    */
   async getValue(key: string): Promise<string> {
-    const config = await GlobalConfig.findOne({ where: { key } });
-
-    if (!config) {
-      throw new Error(`Configuration key '${key}' not found`);
+    if (key === 'CURRENT_CSR_PRICE') {
+      const { price } = await this.getCSRPriceAt();
+      return String(price);
     }
 
-    return config.value;
+    return await this.getStoredValue(key);
   }
 
   /**
@@ -23,14 +35,167 @@ class ConfigService {
    * @returns Current price per kg in EUR (e.g., 0.11)
    */
   async getCurrentCSRPrice(): Promise<number> {
-    const value = await this.getValue('CURRENT_CSR_PRICE');
+    const { price } = await this.getCSRPriceAt();
+    return price;
+  }
+
+  /**
+   * Get the CSR price in force at a given time, with the period it comes from
+   * Transactions store the returned periodId so reports can show the applied price
+   * @param date - Point in time (defaults to now)
+   */
+  async getCSRPriceAt(date: Date = new Date()): Promise<CSRPriceResolution> {
+    const period = await CSRPricePeriod.findOne({
+      where: {
+        effectiveFrom: { [Op.lte]: date },
+        [Op.or]: [{ effectiveTo: null }, { effectiveTo: { [Op.gt]: date } }],
+      },
+      order: [['effectiveFrom', 'DESC']],
+    });
+
+    if (period) {
+      return { periodId: period.id, price: Number(period.price) };
+    }
+
+    // No periods yet - fall back to the stored config row
+    const value = await this.getStoredValue('CURRENT_CSR_PRICE');
     const price = parseFloat(value);
 
     if (isNaN(price) || price <= 0) {
       throw new Error(`Invalid CURRENT_CSR_PRICE value: ${value}`);
     }
 
-    return price;
+    return { periodId: null, price };
+  }
+
+  /**
+   * List all CSR price periods, newest first, with their status relative to now
+   */
+  async getCSRPricePeriods() {
+    const now = new Date();
+    const periods = await CSRPricePeriod.findAll({
+      order: [['effectiveFrom', 'DESC']],
+    });
+
+    return periods.map((period) => ({
+      ...period.toJSON(),
+      status: period.isActiveAt(now) ? 'active' : period.effectiveFrom > now ? 'scheduled' : 'past',
+    }));
+  }
+
+  /**
+   * Schedule a CSR price change (admin only)
+   * The period in force at effectiveFrom is closed there, and the new period runs until the
+   * next already-scheduled period (or open-ended). It activates automatically at effectiveFrom.
+   * @param price - New price per kg in EUR
+   * @param effectiveFrom - Activation time (now or in the future)
+   * @param createdBy - Admin who scheduled the change
+   * @param note - Optional explanation
+   */
+  async scheduleCSRPrice(price: number, effectiveFrom: Date, createdBy: string, note?: string): Promise<CSRPricePeriod> {
+    if (isNaN(price) || price <= 0) {
+      throw new Error('CSR price must be a positive number');
+    }
+    if (isNaN(effectiveFrom.getTime())) {
+      throw new Error('Invalid effective date');
+    }
+    // Small tolerance for "now" requests - history is never rewritten
+    if (effectiveFrom.getTime() < Date.now() - 60 * 1000) {
+      throw new Error('CSR price changes cannot be scheduled in the past');
+    }
+
+    return await sequelize.transaction(async (transaction) => {
+      // Serialize schedule changes - periods must stay contiguous
+      await sequelize.query('LOCK TABLE "csr_price_periods" IN SHARE ROW EXCLUSIVE MODE', { transaction });
+
+      const clash = await CSRPricePeriod.findOne({ where: { effectiveFrom }, transaction });
+      if (clash) {
+        throw new Error('A CSR price period already starts at that time');
+      }
+
+      const previous = await CSRPricePeriod.findOne({
+        where: { effectiveFrom: { [Op.lt]: effectiveFrom } },
+        order: [['effectiveFrom', 'DESC']],
+        transaction,
+      });
+      const next = await CSRPricePeriod.findOne({
+        where: { effectiveFrom: { [Op.gt]: effectiveFrom } },
+        order: [['effectiveFrom', 'ASC']],
+        transaction,
+      });
+
+      if (previous) {
+        await previous.update({ effectiveTo: effectiveFrom }, { transaction });
+      } else {
+        // First period ever - keep the price used so far as the period before this one
+        const storedValue = await GlobalConfig.findOne({ where: { key: 'CURRENT_CSR_PRICE' }, transaction });
+        if (storedValue) {
+          await CSRPricePeriod.create({
+            price: parseFloat(storedValue.value),
+            effectiveFrom: new Date(0),
+            effectiveTo: effectiveFrom,
+            createdBy: 'system',
+            note: 'Price in force before price periods were introduced',
+          }, { transaction });
+        }
+      }
+
+      const period = await CSRPricePeriod.create({
+        price,
+        effectiveFrom,
+        effectiveTo: next ? next.effectiveFrom : null,
+        createdBy,
+        note: note || null,
+      }, { transaction });
+
+      console.log(`💶 CSR price €${price}/kg scheduled from ${effectiveFrom.toISOString()} by ${createdBy}`);
+
+      return period;
+    });
+  }
+
+  /**
+   * Cancel a scheduled (not yet active) CSR price period (admin only)
+   * The previous period is extended to cover the cancelled range
+   * @param id - Period ID
+   */
+  async cancelCSRPricePeriod(id: string): Promise<void> {
+    await sequelize.transaction(async (transaction) => {
+      await sequelize.query('LOCK TABLE "csr_price_periods" IN SHARE ROW EXCLUSIVE MODE', { transaction });
+
+      const period = await CSRPricePeriod.findByPk(id, { transaction });
+      if (!period) {
+        throw new Error('CSR price period not found');
+      }
+      if (period.effectiveFrom <= new Date()) {
+        throw new Error('Only scheduled CSR price periods can be cancelled - active and past periods are history');
+      }
+
+      const previous = await CSRPricePeriod.findOne({
+        where: { effectiveFrom: { [Op.lt]: period.effectiveFrom } },
+        order: [['effectiveFrom', 'DESC']],
+        transaction,
+      });
+
+      await period.destroy({ transaction });
+      if (previous) {
+        await previous.update({ effectiveTo: period.effectiveTo }, { transaction });
+      }
+    });
+  }
+
+  /**
+   * Get configuration value as stored in GlobalConfig (no effective-dating)
+   * @param key - Configuration key
+   */
+  private async getStoredValue(key: string): Promise<string> {
+    const config = await GlobalConfig.findOne({ where: { key } });
+
+    if (!config) {
+      throw new Error(`Configuration key '${key}' not found`);
+    }
+
+    return config.value;
   }
 
   /**
@@ -104,6 +269,26 @@ class ConfigService {
     return threshold;
   }
 
+  /**
+   * Get PENDING_TRANSACTION_TIMEOUT_MINUTES - How long a PAY transaction may stay PENDING
+   * Older PENDING transactions are expired and their PaymentIntent cancelled by the maintenance scheduler.
+   * Optional key - falls back to 24 hours when not configured
+   * @returns Timeout in minutes (e.g., 1440)
+   */
+  async getPendingTransactionTimeoutMinutes(): Promise<number> {
+    const config = await GlobalConfig.findOne({ where: { key: 'PENDING_TRANSACTION_TIMEOUT_MINUTES' } });
+    if (!config) {
+      return DEFAULT_PENDING_TRANSACTION_TIMEOUT_MINUTES;
+    }
+
+    const minutes = parseInt(config.value, 10);
+    if (isNaN(minutes) || minutes <= 0) {
+      throw new Error(`Invalid PENDING_TRANSACTION_TIMEOUT_MINUTES value: ${config.value}`);
+    }
+
+    return minutes;
+  }
+
   /**
    * Set configuration value by key (admin only)
    * @param key - Configuration key
@@ -112,6 +297,11 @@ class ConfigService {
    * @param changedBy - Admin who made the change (email or ID)
    */
   async setValue(key: string, value: string, description?: string, changedBy?: string): Promise<GlobalConfig> {
+    // Direct CSR price edits take effect immediately as a new price period
+    if (key === 'CURRENT_CSR_PRICE') {
+      await this.scheduleCSRPrice(parseFloat(value), new Date(), changedBy || 'admin');
+    }
+
     // Get old value for audit log
     const existingConfig = await GlobalConfig.findOne({ where: { key } });
     const oldValue = existingConfig ? existingConfig.value : null;
@@ -160,9 +350,18 @@ class ConfigService {
    * @returns Array of all config entries
    */
   async getAllConfig(): Promise<GlobalConfig[]> {
-    return await GlobalConfig.findAll({
+    const configs = await GlobalConfig.findAll({
       order: [['key', 'ASC']],
     });
+
+    // Show the CSR price in force (a scheduled period may have activated since the last edit)
+    const csrPrice = configs.find((config) => config.key === 'CURRENT_CSR_PRICE');
+    if (csrPrice) {
+      const { price } = await this.getCSRPriceAt();
+      csrPrice.setDataValue('value', String(price));
+    }
+
+    return configs;
   }
 
   /**
@@ -114,6 +114,156 @@ class EmailService {
     }
   }
 
+  /**
+   * Send magic link email for merchant portal login
+   */
+  async sendMerchantMagicLink(email: string, token: string, merchantName: string, userName?: string): Promise<void> {
+    const magicLink = `${this.frontendUrl}/merchant/auth/verify?token=${token}`;
+
+    if (!this.resend) {
+      console.log('📧 Email disabled - Merchant magic link would be sent to:', email);
+      console.log('🔗 Merchant magic link URL:', magicLink);
+      return;
+    }
+
+    const greeting = userName ? `Hello ${userName}` : 'Hello';
+
+    try {
+      const { data, error } = await this.resend.emails.send({
+        from: this.fromEmail,
+        to: email,
+        subject: `Your CSR26 Merchant Portal Login Link - ${merchantName}`,
+        html: `
+          <!DOCTYPE html>
+          <html>
+            <head>
+              <meta charset="utf-8">
+              <meta name="viewport" content="width=device-width, initial-scale=1.0">
+              <title>Access the Merchant Portal</title>
+            </head>
+            <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f3f4f6;">
+              <table width="100%" cellpadding="0" cellspacing="0" style="max-width: 600px; margin: 40px auto; background-color: #ffffff; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+                <tr>
+                  <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #10b981 0%, #059669 100%);">
+                    <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 600;">CSR26</h1>
+                    <p style="margin: 8px 0 0; color: #d1fae5; font-size: 14px;">Merchant Portal</p>
+                  </td>
+                </tr>
+                <tr>
+                  <td style="padding: 40px;">
+                    <h2 style="margin: 0 0 16px; color: #1f2937; font-size: 24px; font-weight: 600;">${greeting},</h2>
+                    <p style="margin: 0 0 24px; color: #4b5563; font-size: 16px; line-height: 1.6;">
+                      Click the button below to sign in to the CSR26 merchant portal for <strong>${merchantName}</strong>.
+                    </p>
+                    <table width="100%" cellpadding="0" cellspacing="0">
+                      <tr>
+                        <td align="center" style="padding: 12px 0;">
+                          <a href="${magicLink}" style="display: inline-block; padding: 16px 32px; background: linear-gradient(135deg, #10b981 0%, #059669 100%); color: #ffffff; text-decoration: none; border-radius: 8px; font-size: 16px; font-weight: 600; box-shadow: 0 4px 6px rgba(16, 185, 129, 0.3);">
+                            Sign In
+                          </a>
+                        </td>
+                      </tr>
+                    </table>
+                    <p style="margin: 24px 0 0; color: #6b7280; font-size: 14px; line-height: 1.6;">
+                      <strong>Security note:</strong> This link will expire in 15 minutes and can only be used once.
+                    </p>
+                    <p style="margin: 16px 0 0; color: #6b7280; font-size: 14px; line-height: 1.6;">
+                      If you didn't request this link, you can safely ignore this email.
+                    </p>
+                  </td>
+                </tr>
+              </table>
+            </body>
+          </html>
+        `,
+      });
+
+      if (error) {
+        console.error('❌ Failed to send merchant magic link email:', error);
+        return;
+      }
+
+      console.log('✅ Merchant magic link email sent successfully to:', email, '- ID:', data?.id);
+    } catch (error: any) {
+      console.error('❌ Email service error:', error);
+    }
+  }
+
+  /**
+   * Send magic link email for partner portal login
+   */
+  async sendPartnerMagicLink(email: string, token: string, partnerName: string, userName?: string): Promise<void> {
+    const magicLink = `${this.frontendUrl}/partner/auth/verify?token=${token}`;
+
+    if (!this.resend) {
+      console.log('📧 Email disabled - Partner magic link would be sent to:', email);
+      console.log('🔗 Partner magic link URL:', magicLink);
+      return;
+    }
+
+    const greeting = userName ? `Hello ${userName}` : 'Hello';
+
+    try {
+      const { data, error } = await this.resend.emails.send({
+        from: this.fromEmail,
+        to: email,
+        subject: `Your CSR26 Partner Portal Login Link - ${partnerName}`,
+        html: `
+          <!DOCTYPE html>
+          <html>
+            <head>
+              <meta charset="utf-8">
+              <meta name="viewport" content="width=device-width, initial-scale=1.0">
+              <title>Access the Partner Portal</title>
+            </head>
+            <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f3f4f6;">
+              <table width="100%" cellpadding="0" cellspacing="0" style="max-width: 600px; margin: 40px auto; background-color: #ffffff; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+                <tr>
+                  <td style="padding: 40px 40px 20px; text-align: center; background: linear-gradient(135deg, #10b981 0%, #059669 100%);">
+                    <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: 600;">CSR26</h1>
+                    <p style="margin: 8px 0 0; color: #d1fae5; font-size: 14px;">Partner Portal</p>
+                  </td>
+                </tr>
+                <tr>
+                  <td style="padding: 40px;">
+                    <h2 style="margin: 0 0 16px; color: #1f2937; font-size: 24px; font-weight: 600;">${greeting},</h2>
+                    <p style="margin: 0 0 24px; color: #4b5563; font-size: 16px; line-height: 1.6;">
+                      Click the button below to sign in to the CSR26 partner portal for <strong>${partnerName}</strong>.
+                    </p>
+                    <table width="100%" cellpadding="0" cellspacing="0">
+                      <tr>
+                        <td align="center" style="padding: 12px 0;">
+                          <a href="${magicLink}" style="display: inline-block; padding: 16px 32px; background: linear-gradient(135deg, #10b981 0%, #059669 100%); color: #ffffff; text-decoration: none; border-radius: 8px; font-size: 16px; font-weight: 600; box-shadow: 0 4px 6px rgba(16, 185, 129, 0.3);">
+                            Sign In
+                          </a>
+                        </td>
+                      </tr>
+                    </table>
+                    <p style="margin: 24px 0 0; color: #6b7280; font-size: 14px; line-height: 1.6;">
+                      <strong>Security note:</strong> This link will expire in 15 minutes and can only be used once.
+                    </p>
+                    <p style="margin: 16px 0 0; color: #6b7280; font-size: 14px; line-height: 1.6;">
+                      If you didn't request this link, you can safely ignore this email.
+                    </p>
+                  </td>
+                </tr>
+              </table>
+            </body>
+          </html>
+        `,
+      });
+
+      if (error) {
+        console.error('❌ Failed to send partner magic link email:', error);
+        return;
+      }
+
+      console.log('✅ Partner magic link email sent successfully to:', email, '- ID:', data?.id);
+    } catch (error: any) {
+      console.error('❌ Email service error:', error);
+    }
+  }
+
   /**
    * Send registration confirmation email
    */
@@ -202,7 +352,8 @@ class EmailService {
     },
     userId: string,
     certificateUrl?: string,
-    impactUrl?: string // Section 20.4: Tokenized URL for e-commerce landing page
+    impactUrl?: string, // Section 20.4: Tokenized URL for e-commerce landing page
+    qrCodeAttachment?: { filename: string; content: Buffer } // QR code of impactUrl
   ): Promise<void> {
     if (!this.resend) {
       console.log('📧 Email disabled - Transaction confirmation would be sent to:', email);
@@ -216,7 +367,7 @@ class EmailService {
       : `${transaction.impactGrams} grams`;
 
     try {
-      await this.resend.emails.send({
+      const { error: sendError } = await this.resend.emails.send({
         from: this.fromEmail,
         to: email,
         subject: 'Your Environmental Impact Confirmed',
@@ -297,7 +448,7 @@ class EmailService {
                         <td style="padding: 20px; text-align: center;">
                           <p style="margin: 0 0 12px; color: #047857; font-size: 14px; font-weight: 600;">🌊 View Your Environmental Impact</p>
                           <p style="margin: 0 0 16px; color: #065f46; font-size: 13px; line-height: 1.5;">
-                            Click below to see the real impact your purchase has made on plastic removal.
+                            Click below to see the real impact your purchase has made on plastic removal.${qrCodeAttachment ? ' The attached QR code opens the same page.' : ''}
                           </p>
                           <a href="${impactUrl}" style="display: inline-block; padding: 14px 28px; background: linear-gradient(135deg, #10b981 0%, #059669 100%); color: #ffffff; text-decoration: none; border-radius: 8px; font-size: 16px; font-weight: 600; box-shadow: 0 4px 6px rgba(16, 185, 129, 0.3);">
                             View My Impact
@@ -357,12 +508,18 @@ class EmailService {
             </body>
           </html>
         `,
+        attachments: qrCodeAttachment ? [qrCodeAttachment] : undefined,
       });
 
+      if (sendError) {
+        throw new Error(sendError.message);
+      }
+
       console.log('✅ Transaction confirmation email sent to:', email, '- Transaction ID:', transaction.id.substring(0, 8));
     } catch (error: any) {
       console.error('❌ Failed to send transaction confirmation email:', error);
-      // Don't throw - transaction should complete even if email fails
+      // Rethrow - sent from a background job, which retries with backoff
+      throw error;
     }
   }
 
@@ -376,7 +533,8 @@ class EmailService {
     totalImpactKg: number,
     totalAmountSpent: number,
     userId: string,
-    certificateUrl?: string
+    certificateUrl?: string,
+    certificateAttachment?: { filename: string; content: Buffer }
   ): Promise<void> {
     if (!this.resend) {
       console.log('📧 Email disabled - Threshold achievement would be sent to:', email);
@@ -387,10 +545,11 @@ class EmailService {
     const greeting = userName !== 'Guest' ? userName : 'Valued Customer';
 
     try {
-      await this.resend.emails.send({
+      const { error: sendError } = await this.resend.emails.send({
         from: this.fromEmail,
         to: email,
         subject: 'Congratulations! You\'ve Unlocked Certified Environmental Assets',
+        attachments: certificateAttachment ? [certificateAttachment] : undefined,
         html: `
           <!DOCTYPE html>
           <html>
@@ -529,10 +688,15 @@ class EmailService {
         `,
       });
 
+      if (sendError) {
+        throw new Error(sendError.message);
+      }
+
       console.log('✅ Threshold achievement email sent to:', email, '- Total impact:', totalImpactKg.toFixed(2), 'kg');
     } catch (error: any) {
       console.error('❌ Failed to send threshold achievement email:', error);
-      // Don't throw - threshold update should complete even if email fails
+      // Rethrow - sent from a background job, which retries with backoff
+      throw error;
     }
   }
 }
@@ -0,0 +1,178 @@
+// Exchange Rate Service - Admin-managed FX rates and EUR normalization
+// All impact, wallet and report figures are in EUR. Amounts in other currencies are
+// normalized with the rate in force when the transaction is created, and the original
+// currency, amount and rate are stored alongside on the transaction.
+import { Op } from 'sequelize';
+import { ExchangeRate } from '../database/models/index.js';
+
+export const BASE_CURRENCY = 'EUR';
+
+// Result of normalizing an amount to EUR
+export interface NormalizedAmount {
+  currency: string; // Original ISO 4217 currency (uppercase)
+  originalAmount: number;
+  amountEur: number; // Rounded to 4 decimals like Transaction.amount
+  fxRate: number; // Units of currency per 1 EUR (1 for EUR)
+}
+
+// Stripe charges these currencies in whole units rather than cents
+const ZERO_DECIMAL_CURRENCIES = [
+  'BIF', 'CLP', 'DJF', 'GNF', 'JPY', 'KMF', 'KRW', 'MGA', 'PYG', 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF',
+];
+
+const roundTo4 = (value: number) => Math.round(value * 10000) / 10000;
+
+class ExchangeRateService {
+  /**
+   * Normalize a currency code - uppercase ISO 4217, EUR when omitted
+   */
+  normalizeCurrency(currency?: string | null): string {
+    const code = (currency || BASE_CURRENCY).trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(code)) {
+      throw new Error(`Invalid currency code: ${currency}`);
+    }
+    return code;
+  }
+
+  /**
+   * Rate in force for a currency at a given time (units of currency per 1 EUR)
+   * Throws when no rate has been entered - amounts are never converted with a guessed rate
+   */
+  async getRateAt(currency: string, date: Date = new Date()): Promise<number> {
+    const code = this.normalizeCurrency(currency);
+    if (code === BASE_CURRENCY) {
+      return 1;
+    }
+
+    const rate = await ExchangeRate.findOne({
+      where: { currency: code, effectiveFrom: { [Op.lte]: date } },
+      order: [['effectiveFrom', 'DESC']],
+    });
+
+    if (!rate) {
+      throw new Error(`No exchange rate configured for ${code}`);
+    }
+
+    return Number(rate.rate);
+  }
+
+  /**
+   * Convert an amount in any configured currency to EUR
+   */
+  async normalizeToEur(amount: number, currency?: string | null, date: Date = new Date()): Promise<NormalizedAmount> {
+    const code = this.normalizeCurrency(currency);
+    const fxRate = await this.getRateAt(code, date);
+
+    return {
+      currency: code,
+      originalAmount: roundTo4(amount),
+      amountEur: roundTo4(amount / fxRate),
+      fxRate,
+    };
+  }
+
+  /**
+   * Convert a EUR amount into another currency (e.g. to quote a fee in the shopper's currency)
+   */
+  async convertFromEur(amountEur: number, currency?: string | null, date: Date = new Date()): Promise<number> {
+    const fxRate = await this.getRateAt(this.normalizeCurrency(currency), date);
+    return roundTo4(amountEur * fxRate);
+  }
+
+  /**
+   * EUR value of an amount stored in a transaction's currency, at the transaction's fxRate
+   */
+  toEur(amount: number, fxRate?: number | null): number {
+    return roundTo4(amount / (Number(fxRate) || 1));
+  }
+
+  /**
+   * Amount in the currency's smallest unit, as Stripe expects it (cents for EUR, yen for JPY)
+   */
+  toMinorUnits(amount: number, currency?: string | null): number {
+    const code = this.normalizeCurrency(currency);
+    return ZERO_DECIMAL_CURRENCIES.includes(code) ? Math.round(amount) : Math.round(amount * 100);
+  }
+
+  /**
+   * Major-unit amount from a Stripe amount in the currency's smallest unit
+   */
+  fromMinorUnits(amount: number, currency?: string | null): number {
+    const code = this.normalizeCurrency(currency);
+    return ZERO_DECIMAL_CURRENCIES.includes(code) ? amount : amount / 100;
+  }
+
+  /**
+   * Rates currently in force, one per currency, with the latest scheduled change if any
+   */
+  async getCurrentRates() {
+    const now = new Date();
+    const rates = await ExchangeRate.findAll({ order: [['currency', 'ASC'], ['effectiveFrom', 'DESC']] });
+
+    const byCurrency = new Map<string, { current: ExchangeRate | null; scheduled: ExchangeRate | null }>();
+    for (const rate of rates) {
+      const entry = byCurrency.get(rate.currency) || { current: null, scheduled: null };
+      if (rate.effectiveFrom > now) {
+        // Ordered newest first - keep the earliest upcoming change
+        entry.scheduled = rate;
+      } else if (!entry.current) {
+        entry.current = rate;
+      }
+      byCurrency.set(rate.currency, entry);
+    }
+
+    return [...byCurrency.entries()].map(([currency, entry]) => ({ currency, ...entry }));
+  }
+
+  /**
+   * All rates entered for a currency, newest first
+   */
+  async getRateHistory(currency: string): Promise<ExchangeRate[]> {
+    return ExchangeRate.findAll({
+      where: { currency: this.normalizeCurrency(currency) },
+      order: [['effectiveFrom', 'DESC']],
+    });
+  }
+
+  /**
+   * Enter a rate (admin only) - applies from effectiveFrom until a later rate takes over
+   * @param rate - Units of the currency per 1 EUR
+   */
+  async setRate(
+    currency: string,
+    rate: number,
+    createdBy: string,
+    options: { effectiveFrom?: Date; note?: string } = {}
+  ): Promise<ExchangeRate> {
+    const code = this.normalizeCurrency(currency);
+    if (code === BASE_CURRENCY) {
+      throw new Error(`${BASE_CURRENCY} is the base currency - its rate is always 1`);
+    }
+    if (isNaN(rate) || rate <= 0) {
+      throw new Error('Exchange rate must be a positive number');
+    }
+
+    const effectiveFrom = options.effectiveFrom || new Date();
+    if (isNaN(effectiveFrom.getTime())) {
+      throw new Error('Invalid effective date');
+    }
+    // Small tolerance for "now" requests - history is never rewritten
+    if (effectiveFrom.getTime() < Date.now() - 60 * 1000) {
+      throw new Error('Exchange rates cannot be entered in the past');
+    }
+
+    const exchangeRate = await ExchangeRate.create({
+      currency: code,
+      rate,
+      effectiveFrom,
+      createdBy,
+      note: options.note || null,
+    });
+
+    console.log(`💱 Exchange rate ${code} ${rate} per EUR from ${effectiveFrom.toISOString()} set by ${createdBy}`);
+
+    return exchangeRate;
+  }
+}
+
+export default new ExchangeRateService();
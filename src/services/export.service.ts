@@ -1,9 +1,11 @@
 // Export Service - Generate Excel/CSV files for Corsair Connect submission, reconciliation, and impact reports
-// CRITICAL: Platform fee percentage comes from GlobalConfig (configurable)
+// Stripe reconciliation figures come from the imported Stripe ledger, not from the configured platform fee
 import * as XLSX from 'xlsx';
-import { Transaction, User, SKU, Merchant, Partner } from '../database/models/index.js';
+import { Transaction, User, SKU, Merchant, Partner, CSRPricePeriod, PaymentStatus } from '../database/models/index.js';
 import { Op } from 'sequelize';
-import configService from './config.service.js';
+import exchangeRateService from './exchange-rate.service.js';
+import stripeReconciliationService, { isChargeEntry } from './stripe-reconciliation.service.js';
+import { StripeObjectType } from '../database/models/StripeLedgerEntry.js';
 
 interface ExportFilters {
   startDate?: Date;
@@ -69,6 +71,11 @@ class ExportService {
           as: 'merchant',
           attributes: ['name', 'email'],
         },
+        {
+          model: CSRPricePeriod,
+          as: 'csrPricePeriod',
+          attributes: ['price'],
+        },
       ],
       order: [['createdAt', 'DESC']],
     });
@@ -90,7 +97,11 @@ class ExportService {
       'SKU Name': transaction.sku.name,
       'Payment Mode': transaction.sku.paymentMode,
       'Amount (EUR)': Number(transaction.amount).toFixed(2),
+      'Currency': transaction.currency,
+      'Original Amount': Number(transaction.originalAmount).toFixed(2),
+      'FX Rate': Number(transaction.fxRate).toFixed(6),
       'Impact (kg)': (Number(transaction.calculatedImpact) / 1000).toFixed(2),
+      'CSR Price (EUR/kg)': transaction.csrPricePeriod ? Number(transaction.csrPricePeriod.price).toFixed(4) : 'N/A',
       'Master ID': transaction.masterId,
       'Merchant ID': transaction.merchantId || 'N/A',
       'Merchant Name': transaction.merchant?.name || 'N/A',
@@ -112,6 +123,32 @@ class ExportService {
     }
   }
 
+  // Stored split amount in EUR at the transaction's rate - blank when not recorded
+  private formatEur(amount: number | null, fxRate: number) {
+    return amount !== null ? exchangeRateService.toEur(Number(amount), fxRate).toFixed(2) : '';
+  }
+
+  // Totals of the stored split figures - Stripe fees per settlement currency
+  private sumPaymentSplits(transactions: Transaction[]) {
+    const totals = { gross: 0, merchant: 0, plasticFee: 0 };
+    const stripeFees = new Map<string, number>();
+
+    for (const t of transactions) {
+      if (t.grossAmount === null) continue;
+      totals.gross += exchangeRateService.toEur(Number(t.grossAmount), t.fxRate);
+      totals.merchant += exchangeRateService.toEur(Number(t.merchantAmount), t.fxRate);
+      totals.plasticFee += exchangeRateService.toEur(Number(t.plasticFeeAmount), t.fxRate);
+      if (t.stripeFeeAmount !== null && t.stripeFeeCurrency) {
+        stripeFees.set(t.stripeFeeCurrency, (stripeFees.get(t.stripeFeeCurrency) || 0) + Number(t.stripeFeeAmount));
+      }
+    }
+
+    return {
+      ...totals,
+      stripeFees: [...stripeFees.entries()].map(([currency, fee]) => `${fee.toFixed(2)} ${currency}`).join(', '),
+    };
+  }
+
   // Generate Excel file
   private generateExcel(data: any[]) {
     const worksheet = XLSX.utils.json_to_sheet(data);
@@ -134,6 +171,9 @@ class ExportService {
       { wch: 30 }, // SKU Name
       { wch: 15 }, // Payment Mode
       { wch: 12 }, // Amount
+      { wch: 10 }, // Currency
+      { wch: 15 }, // Original Amount
+      { wch: 12 }, // FX Rate
       { wch: 15 }, // Impact
       { wch: 36 }, // Master ID
       { wch: 36 }, // Merchant ID
@@ -181,14 +221,19 @@ class ExportService {
     const totalTransactions = transactions.length;
     const totalAmount = transactions.reduce((sum, t) => sum + Number(t.amount), 0);
     const totalImpact = transactions.reduce((sum, t) => sum + Number(t.calculatedImpact), 0);
+    const split = this.sumPaymentSplits(transactions);
 
-    // Format data
+    // Format data - split figures are stored from the confirmed Stripe payment (blank when not paid through Stripe)
     const exportData = transactions.map(t => ({
       'Transaction ID': t.id,
       'Date': t.createdAt.toISOString().split('T')[0],
       'User Email': t.user.email,
       'SKU Code': t.sku.code,
       'Amount (EUR)': Number(t.amount).toFixed(2),
+      'Gross Paid (EUR)': this.formatEur(t.grossAmount, t.fxRate),
+      'Merchant Share (EUR)': this.formatEur(t.merchantAmount, t.fxRate),
+      'Plastic Fee (EUR)': this.formatEur(t.plasticFeeAmount, t.fxRate),
+      'Stripe Fee': t.stripeFeeAmount !== null ? `${Number(t.stripeFeeAmount).toFixed(2)} ${t.stripeFeeCurrency}` : '',
       'Impact (kg)': (Number(t.calculatedImpact) / 1000).toFixed(2),
       'Payment Status': t.paymentStatus,
     }));
@@ -200,6 +245,10 @@ class ExportService {
       'User Email': `${totalTransactions} transactions`,
       'SKU Code': '',
       'Amount (EUR)': totalAmount.toFixed(2),
+      'Gross Paid (EUR)': split.gross.toFixed(2),
+      'Merchant Share (EUR)': split.merchant.toFixed(2),
+      'Plastic Fee (EUR)': split.plasticFee.toFixed(2),
+      'Stripe Fee': split.stripeFees,
       'Impact (kg)': (totalImpact / 1000).toFixed(2),
       'Payment Status': 'n/a' as any,
     });
@@ -218,10 +267,6 @@ class ExportService {
   async generateStripeReconciliationReport(startDate: Date, endDate: Date, format: 'xlsx' | 'csv' = 'xlsx') {
     console.log(`📊 Stripe reconciliation report initiated - Period: ${startDate.toISOString().split('T')[0]} to ${endDate.toISOString().split('T')[0]}`);
 
-    // Get platform fee percentage from GlobalConfig (configurable)
-    const platformFeePercentage = await configService.getPlatformFeePercentage();
-    const platformFeeDisplay = `${(platformFeePercentage * 100).toFixed(0)}%`;
-
     // Fetch all transactions with Stripe payments in the period
     const transactions = await Transaction.findAll({
       where: {
@@ -240,85 +285,106 @@ class ExportService {
       order: [['createdAt', 'DESC']],
     });
 
-    const exportData = transactions.map(t => {
-      const amount = Number(t.amount);
-      const platformFee = t.merchant?.stripeAccountId ? amount * platformFeePercentage : 0;
-      const merchantPayout = t.merchant?.stripeAccountId ? amount - platformFee : 0;
+    // One row per payment intent - checkout orders are charged once for all their lines
+    const payments = new Map<string, Transaction[]>();
+    for (const t of transactions) {
+      const group = payments.get(t.stripePaymentIntentId!) || [];
+      group.push(t);
+      payments.set(t.stripePaymentIntentId!, group);
+    }
+
+    // Fee and payout figures come from the imported Stripe ledger (see reconciliation runs),
+    // not from the platform fee percentage configured today
+    const { entries, openIssues } = await stripeReconciliationService.getPaymentLedger([...payments.keys()]);
+    const totals = { gross: 0, applicationFees: 0, stripeFees: 0, transfers: 0, notImported: 0, withIssues: 0 };
+    const currencies = new Set<string>();
+    const stripeFeeCurrencies = new Set<string>();
+
+    const exportData = [...payments.entries()].map(([paymentIntentId, group]) => {
+      const first = group[0];
+      const ledger = entries.filter(e => e.stripePaymentIntentId === paymentIntentId);
+      const charges = ledger.filter(isChargeEntry);
+      const applicationFees = ledger.filter(e => e.objectType === StripeObjectType.APPLICATION_FEE);
+      const transfers = ledger.filter(e => e.objectType === StripeObjectType.TRANSFER);
+
+      // Issues of the latest run that flagged this payment
+      const paymentIssues = openIssues.filter(i => i.stripePaymentIntentId === paymentIntentId);
+      const latestIssues = paymentIssues.filter(i => i.runId === paymentIssues[0]?.runId);
+
+      const sumOf = (list: typeof ledger, field: 'amount' | 'fee' | 'sourceAmount') =>
+        list.reduce((sum, e) => sum + Number(e[field] ?? e.amount), 0);
+      const gross = sumOf(charges, 'sourceAmount');
+      const applicationFee = sumOf(applicationFees, 'amount');
+      const stripeFee = sumOf(charges, 'fee');
+      const transferred = sumOf(transfers, 'amount');
+      const chargeCurrency = charges[0]?.sourceCurrency || charges[0]?.currency || '';
+      const recorded = group.every(t => t.grossAmount !== null);
+      const recordedSum = (field: 'grossAmount' | 'merchantAmount' | 'plasticFeeAmount' | 'stripeFeeAmount') =>
+        recorded ? group.reduce((sum, t) => sum + Number(t[field] ?? 0), 0).toFixed(2) : '';
+
+      let status = 'OK';
+      if (!charges.length) {
+        status = 'Not imported';
+        totals.notImported++;
+      } else if (latestIssues.length) {
+        status = [...new Set(latestIssues.map(i => i.issueType))].join(', ');
+        totals.withIssues++;
+      }
+
+      if (charges.length) {
+        totals.gross += gross;
+        totals.applicationFees += applicationFee;
+        totals.stripeFees += stripeFee;
+        totals.transfers += transferred;
+        currencies.add(chargeCurrency);
+        stripeFeeCurrencies.add(charges[0].currency);
+      }
 
       return {
-        'Transaction ID': t.id,
-        'Date': t.createdAt.toISOString().split('T')[0],
-        'Stripe Payment Intent': t.stripePaymentIntentId,
-        'Payment Status': t.paymentStatus,
-        'SKU Code': t.sku.code,
-        'Payment Mode': t.sku.paymentMode,
-        'Gross Amount (EUR)': amount.toFixed(2),
-        [`Platform Fee (${platformFeeDisplay})`]: platformFee.toFixed(2),
-        'Merchant Payout': merchantPayout.toFixed(2),
-        'Merchant Name': t.merchant?.name || 'N/A (Direct)',
-        'Merchant Stripe Account': t.merchant?.stripeAccountId || 'N/A',
-        'Split Payment': t.merchant?.stripeAccountId ? 'YES' : 'NO',
+        'Stripe Payment Intent': paymentIntentId,
+        'Date': first.createdAt.toISOString().split('T')[0],
+        'Transaction IDs': group.map(t => t.id).join(', '),
+        'Transactions': group.length,
+        'Payment Status': first.paymentStatus as string,
+        'SKU Codes': [...new Set(group.map(t => t.sku.code))].join(', '),
+        'Payment Mode': first.parentOrderId ? 'ORDER' : first.sku.paymentMode,
+        'Currency': first.currency,
+        'Local Amount': group.reduce((sum, t) => sum + Number(t.originalAmount ?? t.amount), 0).toFixed(2),
+        'Recorded Gross': recordedSum('grossAmount'),
+        'Recorded Merchant Share': recordedSum('merchantAmount'),
+        'Recorded Plastic Fee': recordedSum('plasticFeeAmount'),
+        'Recorded Stripe Fee': recorded && first.stripeFeeCurrency ? `${recordedSum('stripeFeeAmount')} ${first.stripeFeeCurrency}` : '',
+        'Charged (Stripe)': charges.length ? gross.toFixed(2) : '',
+        'Charge Currency': chargeCurrency,
+        'Application Fee (Stripe)': applicationFees.length ? applicationFee.toFixed(2) : '',
+        'Merchant Transfer (Stripe)': transfers.length ? transferred.toFixed(2) : '',
+        'Stripe Processing Fee': charges.length ? `${stripeFee.toFixed(2)} ${charges[0].currency}` : '',
+        'Merchant Name': first.merchant?.name || 'N/A (Direct)',
+        'Merchant Stripe Account': first.merchant?.stripeAccountId || 'N/A',
+        'Split Payment': applicationFees.length || transfers.length ? 'YES' : 'NO',
+        'Reconciliation': status,
       };
     });
 
-    // Calculate totals
-    const totalGross = transactions.reduce((sum, t) => sum + Number(t.amount), 0);
-    const totalPlatformFees = transactions
-      .filter(t => t.merchant?.stripeAccountId)
-      .reduce((sum, t) => sum + Number(t.amount) * platformFeePercentage, 0);
-    const totalMerchantPayouts = transactions
-      .filter(t => t.merchant?.stripeAccountId)
-      .reduce((sum, t) => sum + Number(t.amount) * (1 - platformFeePercentage), 0);
-    const totalDirectPayments = transactions
-      .filter(t => !t.merchant?.stripeAccountId)
-      .reduce((sum, t) => sum + Number(t.amount), 0);
-
-    // Add summary rows (use dynamic platform fee column name)
-    const platformFeeColumn = `Platform Fee (${platformFeeDisplay})`;
-    exportData.push({
-      'Transaction ID': '',
-      'Date': '',
-      'Stripe Payment Intent': '',
-      'Payment Status': '' as any,
-      'SKU Code': '',
-      'Payment Mode': '',
-      'Gross Amount (EUR)': '',
-      [platformFeeColumn]: '',
-      'Merchant Payout': '',
-      'Merchant Name': '',
-      'Merchant Stripe Account': '',
-      'Split Payment': '',
-    });
+    // Totals are only meaningful per currency
+    const totalsCurrency = currencies.size === 1 ? [...currencies][0] : 'MIXED';
+    const emptyRow = Object.fromEntries(Object.keys(exportData[0] || { 'Stripe Payment Intent': '' }).map(key => [key, ''])) as any;
+    exportData.push({ ...emptyRow });
     exportData.push({
-      'Transaction ID': 'SUMMARY',
+      ...emptyRow,
+      'Stripe Payment Intent': 'SUMMARY',
       'Date': `${startDate.toISOString().split('T')[0]} to ${endDate.toISOString().split('T')[0]}`,
-      'Stripe Payment Intent': `${transactions.length} transactions`,
-      'Payment Status': '' as any,
-      'SKU Code': '',
-      'Payment Mode': '',
-      'Gross Amount (EUR)': totalGross.toFixed(2),
-      [platformFeeColumn]: totalPlatformFees.toFixed(2),
-      'Merchant Payout': totalMerchantPayouts.toFixed(2),
-      'Merchant Name': '',
-      'Merchant Stripe Account': '',
-      'Split Payment': '',
-    });
-    exportData.push({
-      'Transaction ID': 'DIRECT PAYMENTS',
-      'Date': '(No split)',
-      'Stripe Payment Intent': '',
-      'Payment Status': '' as any,
-      'SKU Code': '',
-      'Payment Mode': '',
-      'Gross Amount (EUR)': totalDirectPayments.toFixed(2),
-      [platformFeeColumn]: 'N/A',
-      'Merchant Payout': 'N/A',
-      'Merchant Name': '',
-      'Merchant Stripe Account': '',
-      'Split Payment': '',
+      'Transactions': transactions.length,
+      'Payment Status': `${payments.size} payments`,
+      'Charged (Stripe)': totals.gross.toFixed(2),
+      'Charge Currency': totalsCurrency,
+      'Application Fee (Stripe)': totals.applicationFees.toFixed(2),
+      'Merchant Transfer (Stripe)': totals.transfers.toFixed(2),
+      'Stripe Processing Fee': `${totals.stripeFees.toFixed(2)} ${stripeFeeCurrencies.size === 1 ? [...stripeFeeCurrencies][0] : 'MIXED'}`,
+      'Reconciliation': `${totals.withIssues} with issues, ${totals.notImported} not imported`,
     });
 
-    console.log(`✅ Stripe reconciliation completed - ${transactions.length} transactions, Gross: €${totalGross.toFixed(2)}, Platform Fees: €${totalPlatformFees.toFixed(2)}`);
+    console.log(`✅ Stripe reconciliation completed - ${payments.size} payments, Charged: ${totals.gross.toFixed(2)} ${totalsCurrency}, Application fees: ${totals.applicationFees.toFixed(2)}, ${totals.withIssues} with issues`);
 
     if (format === 'xlsx') {
       return this.generateExcel(exportData);
@@ -338,12 +404,13 @@ class ExportService {
           [Op.gte]: startDate,
           [Op.lte]: endDate,
         },
-        paymentStatus: 'COMPLETED',
+        paymentStatus: { [Op.in]: [PaymentStatus.COMPLETED, PaymentStatus.NA] },
       },
       include: [
         { model: Merchant, as: 'merchant', attributes: ['id', 'name'] },
         { model: Partner, as: 'partner', attributes: ['id', 'name'] },
         { model: SKU, as: 'sku', attributes: ['code', 'name', 'paymentMode'] },
+        { model: CSRPricePeriod, as: 'csrPricePeriod', attributes: ['id', 'price', 'effectiveFrom', 'effectiveTo'] },
       ],
     });
 
@@ -353,6 +420,8 @@ class ExportService {
     const partnerStats = new Map<string, { name: string; transactions: number; amount: number; impact: number }>();
     // Aggregate by SKU type
     const skuTypeStats = new Map<string, { transactions: number; amount: number; impact: number }>();
+    // Aggregate by CSR price period applied at calculation time
+    const csrPriceStats = new Map<string, { name: string; effectiveFrom: number; transactions: number; amount: number; impact: number }>();
 
     let totalTransactions = 0;
     let totalAmount = 0;
@@ -397,6 +466,20 @@ class ExportService {
       sStat.transactions++;
       sStat.amount += amount;
       sStat.impact += impact;
+
+      // CSR price aggregation
+      const period = t.csrPricePeriod;
+      const periodKey = period?.id || 'NO_PERIOD';
+      if (!csrPriceStats.has(periodKey)) {
+        const name = period
+          ? `€${Number(period.price).toFixed(4)}/kg (${new Date(period.effectiveFrom).toISOString().split('T')[0]} - ${period.effectiveTo ? new Date(period.effectiveTo).toISOString().split('T')[0] : 'open'})`
+          : 'Unknown price period';
+        csrPriceStats.set(periodKey, { name, effectiveFrom: period ? new Date(period.effectiveFrom).getTime() : 0, transactions: 0, amount: 0, impact: 0 });
+      }
+      const cStat = csrPriceStats.get(periodKey)!;
+      cStat.transactions++;
+      cStat.amount += amount;
+      cStat.impact += impact;
     });
 
     // Build export data with multiple sections
@@ -459,6 +542,22 @@ class ExportService {
           'Impact (kg)': (stat.impact / 1000).toFixed(2),
         });
       });
+    exportData.push({ 'Section': '', 'Name': '', 'Transactions': '', 'Amount (EUR)': '', 'Impact (grams)': '', 'Impact (kg)': '' });
+
+    // By CSR Price Section - impact is reported at the price in force when each transaction was calculated
+    exportData.push({ 'Section': 'BY CSR PRICE', 'Name': '', 'Transactions': '', 'Amount (EUR)': '', 'Impact (grams)': '', 'Impact (kg)': '' });
+    Array.from(csrPriceStats.values())
+      .sort((a, b) => a.effectiveFrom - b.effectiveFrom)
+      .forEach(stat => {
+        exportData.push({
+          'Section': '',
+          'Name': stat.name,
+          'Transactions': stat.transactions,
+          'Amount (EUR)': stat.amount.toFixed(2),
+          'Impact (grams)': stat.impact.toFixed(2),
+          'Impact (kg)': (stat.impact / 1000).toFixed(2),
+        });
+      });
 
     console.log(`✅ Impact report completed - Total: ${totalTransactions} transactions, €${totalAmount.toFixed(2)}, ${(totalImpact / 1000).toFixed(2)}kg impact`);
 
@@ -1,6 +1,8 @@
 // Gift Card Service - Business logic for gift card code management
 
+import { Transaction as DbTransaction } from 'sequelize';
 import { GiftCardCode, SKU } from '../database/models/index.js';
+import { runInTransaction } from '../utils/dbTransaction.js';
 
 interface CreateGiftCardCodesData {
   codes: string[];
@@ -43,27 +45,35 @@ class GiftCardService {
 
   // Validate and redeem gift card code (one-time use enforcement)
   // This is called during transaction creation - we actually mark the code as used
-  async validateAndRedeemCode(code: string, userId: string) {
-    const giftCard = await GiftCardCode.findOne({ where: { code } });
-
-    // Check if code exists
-    if (!giftCard) {
-      throw new Error('Invalid gift card code');
-    }
-
-    // Check if already redeemed (one-time use enforcement)
-    if (giftCard.isRedeemed) {
-      throw new Error('This gift card code has already been used');
-    }
-
-    // Mark as redeemed with the actual user ID
-    await giftCard.update({
-      isRedeemed: true,
-      redeemedAt: new Date(),
-      redeemedBy: userId,
+  // The code row is locked FOR UPDATE, so concurrent redemptions of the same code serialize:
+  // the second one waits for the first to commit, then sees isRedeemed and fails
+  async validateAndRedeemCode(code: string, userId: string, options: { transaction?: DbTransaction } = {}) {
+    return runInTransaction(options.transaction, async (transaction) => {
+      const giftCard = await GiftCardCode.findOne({
+        where: { code },
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+
+      // Check if code exists
+      if (!giftCard) {
+        throw new Error('Invalid gift card code');
+      }
+
+      // Check if already redeemed (one-time use enforcement)
+      if (giftCard.isRedeemed) {
+        throw new Error('This gift card code has already been used');
+      }
+
+      // Mark as redeemed with the actual user ID
+      await giftCard.update({
+        isRedeemed: true,
+        redeemedAt: new Date(),
+        redeemedBy: userId,
+      }, { transaction });
+
+      return giftCard;
     });
-
-    return giftCard;
   }
 
   // Generate unique gift card code
@@ -0,0 +1,146 @@
+// Impact Quote Service - Signed, short-lived quotes binding checkout amounts to calculate-fee
+// calculate-fee returns a quote locking the cart items, CSR price and plastic fee. Checkout
+// sessions and payment intents must present it, so a merchant cannot charge a lower fee
+// than the impact they claim. Quotes are stateless JWTs signed with the server secret.
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { env } from '../config/env.js';
+import { AppError } from '../middleware/errorHandler.js';
+import configService from './config.service.js';
+
+// Same window as a Stripe Checkout Session
+const QUOTE_TTL_MINUTES = 30;
+
+// Half a cent - amounts are compared after the merchant rounds them for display
+const AMOUNT_TOLERANCE = 0.005;
+
+interface QuotedItem {
+  sku: string;
+  quantity: number;
+  price: number; // Per item, in the quote currency
+  plasticFee?: number; // Line fee in the quote currency - lines sum to the quoted plasticFee
+}
+
+export interface ImpactQuotePayload {
+  purpose: 'impact_quote';
+  merchantId: string;
+  currency: string;
+  csrPricePerKg: number;
+  items: QuotedItem[];
+  productTotal: number; // In the quote currency
+  plasticFee: number; // In the quote currency
+  plasticFeeEur: number;
+  totalImpactGrams: number;
+  jti?: string; // Quote reference, set on signing
+  csrPricePeriodId?: string | null; // CSR price period of csrPricePerKg, set on verification
+}
+
+const amountsDiffer = (a: number, b: number) => Math.abs(Number(a) - Number(b)) > AMOUNT_TOLERANCE;
+
+// Order-independent comparison key for cart items
+const itemsKey = (items: QuotedItem[]) =>
+  items
+    .map(item => `${item.sku}|${Number(item.quantity)}|${Number(item.price).toFixed(2)}`)
+    .sort()
+    .join(',');
+
+class ImpactQuoteService {
+  /**
+   * Sign a quote for a calculate-fee result
+   */
+  issueQuote(payload: Omit<ImpactQuotePayload, 'purpose' | 'jti'>): { quoteId: string; expiresAt: Date } {
+    const quoteId = jwt.sign({ purpose: 'impact_quote', ...payload }, env.jwt.secret, {
+      expiresIn: `${QUOTE_TTL_MINUTES}m`,
+      jwtid: crypto.randomUUID(),
+    });
+
+    return {
+      quoteId,
+      expiresAt: new Date(Date.now() + QUOTE_TTL_MINUTES * 60 * 1000),
+    };
+  }
+
+  /**
+   * Verify a quote's signature and expiry, and that it still holds for this merchant
+   * Rejected when the CSR price has changed since it was issued - the fee would no longer match the impact.
+   * The returned quote carries the price period in force, stored with the order it is paid for.
+   */
+  async verifyQuote(quoteId: string | undefined, merchantId: string): Promise<ImpactQuotePayload> {
+    if (!quoteId) {
+      throw new AppError('quoteId from calculate-fee is required', 400);
+    }
+
+    let quote: Partial<ImpactQuotePayload>;
+    try {
+      quote = jwt.verify(quoteId, env.jwt.secret) as Partial<ImpactQuotePayload>;
+    } catch (error) {
+      throw new AppError('Impact quote is invalid or has expired - calculate the fee again', 400);
+    }
+
+    if (quote.purpose !== 'impact_quote' || !quote.items || !quote.currency) {
+      throw new AppError('Impact quote is invalid or has expired - calculate the fee again', 400);
+    }
+
+    if (quote.merchantId !== merchantId) {
+      throw new AppError('Impact quote was issued for another merchant', 400);
+    }
+
+    const { periodId, price } = await configService.getCSRPriceAt();
+    if (Number(price) !== Number(quote.csrPricePerKg)) {
+      throw new AppError('CSR price has changed since the quote was issued - calculate the fee again', 409);
+    }
+
+    return { ...quote, csrPricePeriodId: periodId } as ImpactQuotePayload;
+  }
+
+  /**
+   * Checkout Session: items, prices, currency and fee must be exactly what was quoted
+   */
+  assertMatchesCart(
+    quote: ImpactQuotePayload,
+    cart: { currency: string; items: QuotedItem[]; plasticFee: number }
+  ): void {
+    this.assertCurrency(quote, cart.currency);
+
+    if (itemsKey(quote.items) !== itemsKey(cart.items)) {
+      throw new AppError('Items, quantities or prices do not match the impact quote', 400);
+    }
+
+    this.assertPlasticFee(quote, cart.plasticFee);
+  }
+
+  /**
+   * Payment Intent: no line items are sent, so the total must be the quoted products plus the quoted fee
+   */
+  assertMatchesTotals(
+    quote: ImpactQuotePayload,
+    totals: { currency: string; totalAmount: number; plasticFee: number }
+  ): void {
+    this.assertCurrency(quote, totals.currency);
+    this.assertPlasticFee(quote, totals.plasticFee);
+
+    if (amountsDiffer(totals.totalAmount, quote.productTotal + quote.plasticFee)) {
+      throw new AppError(
+        `Total amount does not match the impact quote (expected ${(quote.productTotal + quote.plasticFee).toFixed(2)} ${quote.currency})`,
+        400
+      );
+    }
+  }
+
+  private assertCurrency(quote: ImpactQuotePayload, currency: string): void {
+    if (quote.currency !== currency) {
+      throw new AppError(`Currency does not match the impact quote (${quote.currency})`, 400);
+    }
+  }
+
+  private assertPlasticFee(quote: ImpactQuotePayload, plasticFee: number): void {
+    if (amountsDiffer(plasticFee, quote.plasticFee)) {
+      throw new AppError(
+        `Plastic fee does not match the impact quote (expected ${quote.plasticFee.toFixed(2)} ${quote.currency})`,
+        400
+      );
+    }
+  }
+}
+
+export default new ImpactQuoteService();
@@ -0,0 +1,215 @@
+// Inbound Webhook Service - Durable store for Stripe and e-commerce webhooks
+// Events are saved before processing so a crash never loses them, deduplicated by
+// provider event/order id, and failed events can be reprocessed by admins
+import { IncomingHttpHeaders } from 'http';
+import { Op, UniqueConstraintError } from 'sequelize';
+import { InboundWebhookEvent } from '../database/models/index.js';
+import { InboundWebhookProvider, InboundWebhookStatus } from '../database/models/InboundWebhookEvent.js';
+import { WebhookPlatform } from '../database/models/Merchant.js';
+
+// An event left in 'processing' longer than this is assumed to belong to a crashed worker
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+// Credentials are never persisted with the event
+const EXCLUDED_HEADERS = ['authorization', 'cookie', 'x-api-key'];
+
+interface RecordEventData {
+  provider: InboundWebhookProvider;
+  merchantId?: string;
+  externalId?: string | null;
+  eventType?: string | null;
+  rawBody: string | Buffer;
+  headers: IncomingHttpHeaders;
+}
+
+interface EventFilters {
+  status?: InboundWebhookStatus;
+  provider?: InboundWebhookProvider;
+  merchantId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+class InboundWebhookService {
+  /**
+   * Persist a verified webhook, then process it
+   *
+   * Repeated deliveries of an already processed (or currently processing) event are
+   * acknowledged without running the handler again. A delivery of a failed event is
+   * processed again, so provider retries recover from transient errors.
+   * Handler errors are recorded on the event and rethrown.
+   */
+  async receive<T>(
+    data: RecordEventData,
+    handler: () => Promise<T>,
+    toResult?: (value: T) => object
+  ): Promise<{ event: InboundWebhookEvent; duplicate: boolean; value?: T }> {
+    const event = await this.recordEvent(data);
+
+    if (!(await this.claimEvent(event))) {
+      console.log(`↩️ Duplicate ${event.provider} webhook ${event.externalId || event.id} (status: ${event.status}) - skipped`);
+      return { event, duplicate: true };
+    }
+
+    const value = await this.runHandler(event, handler, toResult);
+    return { event, duplicate: false, value };
+  }
+
+  /**
+   * Save the event - or return the existing row for the same dedupe key
+   */
+  async recordEvent(data: RecordEventData): Promise<InboundWebhookEvent> {
+    const dedupeKey = data.externalId
+      ? [data.provider, data.merchantId, data.externalId].filter(Boolean).join(':')
+      : null;
+
+    try {
+      return await InboundWebhookEvent.create({
+        provider: data.provider,
+        merchantId: data.merchantId || null,
+        externalId: data.externalId || null,
+        dedupeKey,
+        eventType: data.eventType || null,
+        rawBody: typeof data.rawBody === 'string' ? data.rawBody : data.rawBody.toString('utf8'),
+        headers: this.sanitizeHeaders(data.headers),
+      });
+    } catch (error) {
+      if (error instanceof UniqueConstraintError && dedupeKey) {
+        const existing = await InboundWebhookEvent.findOne({ where: { dedupeKey } });
+        if (existing) {
+          return existing;
+        }
+      }
+      throw error;
+    }
+  }
+
+  // ==========================================
+  // ADMIN
+  // ==========================================
+
+  async listEvents(filters: EventFilters = {}) {
+    const where: any = {};
+    if (filters.status) where.status = filters.status;
+    if (filters.provider) where.provider = filters.provider;
+    if (filters.merchantId) where.merchantId = filters.merchantId;
+
+    const { rows, count } = await InboundWebhookEvent.findAndCountAll({
+      where,
+      attributes: { exclude: ['rawBody', 'headers'] },
+      order: [['createdAt', 'DESC']],
+      limit: Math.min(filters.limit || 50, 200),
+      offset: filters.offset || 0,
+    });
+
+    return { events: rows, total: count };
+  }
+
+  async getEventById(id: string): Promise<InboundWebhookEvent> {
+    const event = await InboundWebhookEvent.findByPk(id);
+    if (!event) {
+      throw new Error('Webhook event not found');
+    }
+    return event;
+  }
+
+  /**
+   * Reprocess a stored event from its raw body
+   * Only failed, never-started or stuck events - processed events would create duplicates
+   */
+  async reprocessEvent(id: string, reprocessedBy: string): Promise<InboundWebhookEvent> {
+    const event = await this.getEventById(id);
+
+    if (event.status === 'processed') {
+      throw new Error('Webhook event was already processed successfully');
+    }
+
+    if (!(await this.claimEvent(event))) {
+      throw new Error('Webhook event is currently being processed');
+    }
+
+    await event.update({ lastReprocessedBy: reprocessedBy });
+    console.log(`🔁 Reprocessing ${event.provider} webhook ${event.externalId || event.id} (attempt ${event.attempts}) by ${reprocessedBy}`);
+
+    // Imported lazily - both services record their events through this one
+    if (event.provider === 'STRIPE') {
+      const paymentService = (await import('./payment.service.js')).default;
+      await this.runHandler(event, () => paymentService.processStripeEvent(event.getPayload()))
+        .catch(() => undefined);
+    } else {
+      const webhookService = (await import('./webhook.service.js')).default;
+      await this.runHandler(
+        event,
+        () => webhookService.processWebhook(event.merchantId!, event.getPayload(), event.provider as WebhookPlatform),
+        (result) => ({ transactionIds: result.transactionIds })
+      ).catch(() => undefined);
+    }
+
+    return event.reload({ attributes: { exclude: ['rawBody', 'headers'] } });
+  }
+
+  /**
+   * Atomically move an event to 'processing'
+   * Returns false when it is already processed or another worker holds it
+   */
+  private async claimEvent(event: InboundWebhookEvent): Promise<boolean> {
+    const now = new Date();
+    const [affected] = await InboundWebhookEvent.update(
+      {
+        status: 'processing',
+        processingStartedAt: now,
+        attempts: event.attempts + 1,
+      },
+      {
+        where: {
+          id: event.id,
+          attempts: event.attempts,
+          [Op.or]: [
+            { status: { [Op.in]: ['received', 'failed'] } },
+            { status: 'processing', processingStartedAt: { [Op.lt]: new Date(now.getTime() - STALE_PROCESSING_MS) } },
+          ],
+        },
+      }
+    );
+
+    if (affected === 0) {
+      return false;
+    }
+
+    event.set({ status: 'processing', processingStartedAt: now, attempts: event.attempts + 1 });
+    return true;
+  }
+
+  private async runHandler<T>(
+    event: InboundWebhookEvent,
+    handler: () => Promise<T>,
+    toResult?: (value: T) => object
+  ): Promise<T> {
+    try {
+      const value = await handler();
+      await event.update({
+        status: 'processed',
+        processedAt: new Date(),
+        lastError: null,
+        result: toResult ? toResult(value) : null,
+      });
+      return value;
+    } catch (error: any) {
+      await event.update({ status: 'failed', lastError: error.message || String(error) });
+      console.error(`❌ ${event.provider} webhook ${event.externalId || event.id} failed (attempt ${event.attempts}): ${error.message}`);
+      throw error;
+    }
+  }
+
+  private sanitizeHeaders(headers: IncomingHttpHeaders): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      if (value === undefined || EXCLUDED_HEADERS.includes(name.toLowerCase())) {
+        continue;
+      }
+      result[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : value;
+    }
+    return result;
+  }
+}
+
+export default new InboundWebhookService();
@@ -0,0 +1,273 @@
+// Job Queue Service - Postgres-backed background jobs
+// Slow work (emails, certificate PDFs) is enqueued by the request path and run by an in-process worker.
+// Workers claim jobs with FOR UPDATE SKIP LOCKED, so several API instances can share the queue.
+import os from 'os';
+import { Op, Transaction as DbTransaction } from 'sequelize';
+import { sequelize, Job } from '../database/models/index.js';
+import { JobStatus } from '../database/models/Job.js';
+
+export type JobHandler = (payload: Record<string, any>, job: Job) => Promise<void>;
+
+interface EnqueueOptions {
+  runAt?: Date;
+  maxAttempts?: number;
+  transaction?: DbTransaction; // Enqueue atomically with the caller's writes
+}
+
+interface JobFilters {
+  status?: JobStatus;
+  type?: string;
+  limit?: number;
+  offset?: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+// Retry delay: 30s, 1m, 2m, 4m ... capped at 1h
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+// A job running longer than this is assumed to belong to a crashed worker
+const STALE_LOCK_MS = 15 * 60 * 1000;
+const STALE_CHECK_INTERVAL_MS = 60 * 1000;
+// Jobs run back to back up to this many per poll before yielding
+const MAX_JOBS_PER_POLL = 20;
+
+class JobQueueService {
+  private handlers = new Map<string, JobHandler>();
+  private workerId = `${os.hostname()}:${process.pid}`;
+  private timer: NodeJS.Timeout | null = null;
+  private stopping = false;
+  private currentPoll: Promise<void> | null = null;
+  private lastStaleCheck = 0;
+
+  registerHandlers(handlers: Record<string, JobHandler>): void {
+    for (const [type, handler] of Object.entries(handlers)) {
+      this.handlers.set(type, handler);
+    }
+  }
+
+  /**
+   * Add a job to the queue
+   * Pass the caller's DB transaction so the job only exists if the surrounding work commits
+   */
+  async enqueue(type: string, payload: Record<string, any>, options: EnqueueOptions = {}): Promise<Job> {
+    return Job.create({
+      type,
+      payload,
+      runAt: options.runAt || new Date(),
+      maxAttempts: options.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+    }, { transaction: options.transaction });
+  }
+
+  // ==========================================
+  // WORKER
+  // ==========================================
+
+  /**
+   * Start polling for jobs
+   */
+  start(pollIntervalMs: number): void {
+    if (this.timer || this.currentPoll) {
+      return;
+    }
+
+    this.stopping = false;
+    console.log(`⚙️ Job worker ${this.workerId} started (poll every ${pollIntervalMs}ms, handlers: ${[...this.handlers.keys()].join(', ')})`);
+
+    const loop = async () => {
+      this.timer = null;
+      this.currentPoll = this.poll();
+      await this.currentPoll;
+      this.currentPoll = null;
+
+      if (!this.stopping) {
+        this.timer = setTimeout(loop, pollIntervalMs);
+      }
+    };
+
+    this.timer = setTimeout(loop, pollIntervalMs);
+  }
+
+  /**
+   * Stop polling - waits for the job in progress to finish
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.currentPoll) {
+      await this.currentPoll;
+    }
+  }
+
+  /**
+   * Claim and run a single due job
+   * Returns false when the queue has nothing due
+   */
+  async runNext(): Promise<boolean> {
+    const job = await this.claimNext();
+    if (!job) {
+      return false;
+    }
+
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      await job.update({ status: 'dead', lockedAt: null, lockedBy: null, lastError: `No handler registered for job type "${job.type}"` });
+      console.error(`❌ Job ${job.id} dead-lettered - no handler for ${job.type}`);
+      return true;
+    }
+
+    try {
+      await handler(job.payload, job);
+      await job.update({ status: 'completed', completedAt: new Date(), lockedAt: null, lockedBy: null, lastError: null });
+    } catch (error: any) {
+      const message = error?.message || String(error);
+
+      if (job.attempts >= job.maxAttempts) {
+        await job.update({ status: 'dead', lockedAt: null, lockedBy: null, lastError: message });
+        console.error(`❌ Job ${job.type} ${job.id} dead-lettered after ${job.attempts} attempts: ${message}`);
+      } else {
+        const runAt = new Date(Date.now() + this.getBackoffMs(job.attempts));
+        await job.update({ status: 'pending', runAt, lockedAt: null, lockedBy: null, lastError: message });
+        console.warn(`⚠️ Job ${job.type} ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retry at ${runAt.toISOString()}: ${message}`);
+      }
+    }
+
+    return true;
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      if (Date.now() - this.lastStaleCheck > STALE_CHECK_INTERVAL_MS) {
+        this.lastStaleCheck = Date.now();
+        await this.releaseStaleJobs();
+      }
+
+      for (let i = 0; i < MAX_JOBS_PER_POLL && !this.stopping; i++) {
+        if (!(await this.runNext())) {
+          break;
+        }
+      }
+    } catch (error: any) {
+      // Keep polling - e.g. the database is briefly unavailable
+      console.error('❌ Job worker poll failed:', error.message);
+    }
+  }
+
+  private async claimNext(): Promise<Job | null> {
+    const [rows] = await sequelize.query(
+      `UPDATE "jobs"
+       SET "status" = 'running', "attempts" = "attempts" + 1, "locked_at" = NOW(), "locked_by" = :workerId, "updated_at" = NOW()
+       WHERE "id" = (
+         SELECT "id" FROM "jobs"
+         WHERE "status" = 'pending' AND "run_at" <= NOW()
+         ORDER BY "run_at" ASC
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING "id";`,
+      { replacements: { workerId: this.workerId } }
+    );
+
+    const claimed = (rows as Array<{ id: string }>)[0];
+    return claimed ? Job.findByPk(claimed.id) : null;
+  }
+
+  // Put jobs held by crashed workers back in the queue (the attempt stays counted)
+  private async releaseStaleJobs(): Promise<void> {
+    const [released] = await Job.update(
+      { status: 'pending', lockedAt: null, lockedBy: null, lastError: 'Worker lock expired' },
+      { where: { status: 'running', lockedAt: { [Op.lt]: new Date(Date.now() - STALE_LOCK_MS) } } }
+    );
+
+    if (released > 0) {
+      console.warn(`⚠️ Released ${released} stale job(s) back to the queue`);
+    }
+  }
+
+  private getBackoffMs(attempts: number): number {
+    return Math.min(BACKOFF_BASE_MS * Math.pow(2, attempts - 1), BACKOFF_MAX_MS);
+  }
+
+  // ==========================================
+  // ADMIN
+  // ==========================================
+
+  async listJobs(filters: JobFilters = {}) {
+    const where: any = {};
+    if (filters.status) where.status = filters.status;
+    if (filters.type) where.type = filters.type;
+
+    const { rows, count } = await Job.findAndCountAll({
+      where,
+      order: [['createdAt', 'DESC']],
+      limit: Math.min(filters.limit || 50, 200),
+      offset: filters.offset || 0,
+    });
+
+    return { jobs: rows, total: count };
+  }
+
+  async getJobById(id: string): Promise<Job> {
+    const job = await Job.findByPk(id);
+    if (!job) {
+      throw new Error('Job not found');
+    }
+    return job;
+  }
+
+  /**
+   * Queue counts by status and type, plus the age of the oldest due job
+   */
+  async getStats() {
+    const rows = await Job.findAll({
+      attributes: ['status', 'type', [sequelize.fn('COUNT', sequelize.col('id')), 'count']],
+      group: ['status', 'type'],
+      raw: true,
+    }) as unknown as Array<{ status: JobStatus; type: string; count: string }>;
+
+    const byStatus: Record<JobStatus, number> = { pending: 0, running: 0, completed: 0, dead: 0 };
+    const byType: Record<string, Partial<Record<JobStatus, number>>> = {};
+    for (const row of rows) {
+      const count = parseInt(row.count, 10);
+      byStatus[row.status] += count;
+      byType[row.type] = { ...byType[row.type], [row.status]: count };
+    }
+
+    const oldestDue = await Job.findOne({
+      where: { status: 'pending', runAt: { [Op.lte]: new Date() } },
+      order: [['runAt', 'ASC']],
+      attributes: ['runAt'],
+    });
+
+    return {
+      byStatus,
+      byType,
+      oldestDueJobAgeSeconds: oldestDue ? Math.floor((Date.now() - oldestDue.runAt.getTime()) / 1000) : 0,
+      workerRunning: !!(this.timer || this.currentPoll),
+    };
+  }
+
+  // Delete completed jobs older than the given date (run by the maintenance scheduler)
+  async pruneCompletedJobs(olderThan: Date): Promise<number> {
+    return Job.destroy({
+      where: { status: 'completed', completedAt: { [Op.lt]: olderThan } },
+    });
+  }
+
+  /**
+   * Requeue a dead-lettered job with a fresh set of attempts
+   */
+  async retryJob(id: string): Promise<Job> {
+    const job = await this.getJobById(id);
+    if (job.status !== 'dead') {
+      throw new Error('Only dead-lettered jobs can be retried');
+    }
+
+    await job.update({ status: 'pending', attempts: 0, runAt: new Date(), lastError: null });
+    return job;
+  }
+}
+
+export default new JobQueueService();
@@ -0,0 +1,129 @@
+// Maintenance Service - Scheduled cleanup, expiry and reconciliation tasks
+// Definitions are registered with the scheduler at startup; results show up in /health/detailed
+import { Op } from 'sequelize';
+import { IdempotencyKey, ScheduledTaskRun } from '../database/models/index.js';
+import { ScheduledTaskDefinition } from './scheduler.service.js';
+import authService from './auth.service.js';
+import merchantAuthService from './merchant-auth.service.js';
+import partnerAuthService from './partner-auth.service.js';
+import transactionTokenService from './transactionToken.service.js';
+import shareableLinkService from './shareable-link.service.js';
+import transactionService from './transaction.service.js';
+import configService from './config.service.js';
+import jobQueueService from './job-queue.service.js';
+import stripeReconciliationService from './stripe-reconciliation.service.js';
+import paymentService from './payment.service.js';
+import partnerRoyaltyService from './partner-royalty.service.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const COMPLETED_JOB_RETENTION_DAYS = 7;
+const TASK_RUN_RETENTION_DAYS = 30;
+
+class MaintenanceService {
+  getScheduledTasks(): ScheduledTaskDefinition[] {
+    return [
+      {
+        name: 'cleanup-magic-links',
+        schedule: '0 * * * *',
+        description: 'Delete expired user, merchant and partner magic links',
+        run: async () => ({
+          userMagicLinks: await authService.cleanupExpiredLinks(),
+          merchantMagicLinks: await merchantAuthService.cleanupExpiredLinks(),
+          partnerMagicLinks: await partnerAuthService.cleanupExpiredLinks(),
+        }),
+      },
+      {
+        name: 'cleanup-transaction-tokens',
+        schedule: '30 3 * * *',
+        description: 'Delete expired e-commerce impact page tokens',
+        run: async () => ({
+          deleted: await transactionTokenService.cleanupExpiredTokens(),
+        }),
+      },
+      {
+        name: 'cleanup-shareable-links',
+        schedule: '45 3 * * *',
+        description: 'Delete expired shareable dashboard links',
+        run: async () => ({
+          deleted: await shareableLinkService.cleanupExpiredLinks(),
+        }),
+      },
+      {
+        name: 'cleanup-idempotency-keys',
+        schedule: '0 4 * * *',
+        description: 'Delete idempotency keys past their 24h replay window',
+        run: async () => ({
+          deleted: await IdempotencyKey.destroy({ where: { expiresAt: { [Op.lt]: new Date() } } }),
+        }),
+      },
+      {
+        name: 'cleanup-history',
+        schedule: '15 4 * * *',
+        description: 'Prune completed background jobs and old scheduled task runs',
+        run: async () => ({
+          completedJobs: await jobQueueService.pruneCompletedJobs(new Date(Date.now() - COMPLETED_JOB_RETENTION_DAYS * DAY_MS)),
+          taskRuns: await ScheduledTaskRun.destroy({
+            where: { startedAt: { [Op.lt]: new Date(Date.now() - TASK_RUN_RETENTION_DAYS * DAY_MS) } },
+          }),
+        }),
+      },
+      {
+        name: 'expire-pending-transactions',
+        schedule: '*/15 * * * *',
+        description: 'Expire PENDING transactions older than PENDING_TRANSACTION_TIMEOUT_MINUTES and cancel their PaymentIntents',
+        run: async () => {
+          const timeoutMinutes = await configService.getPendingTransactionTimeoutMinutes();
+          return {
+            timeoutMinutes,
+            ...(await transactionService.expireStalePendingTransactions(new Date(Date.now() - timeoutMinutes * 60 * 1000))),
+          };
+        },
+      },
+      {
+        name: 'record-payment-splits',
+        schedule: '20 * * * *',
+        description: 'Record the Stripe split (gross, merchant share, plastic fee, Stripe fee) still missing on payments of the last 7 days',
+        run: async () => paymentService.recordMissingPaymentSplits(new Date(Date.now() - 7 * DAY_MS)),
+      },
+      {
+        name: 'stripe-reconciliation',
+        schedule: '0 5 * * *',
+        description: 'Import the previous UTC day from Stripe and reconcile it with local transactions',
+        lockTtlMs: 30 * 60 * 1000,
+        run: async () => {
+          const periodEnd = new Date();
+          periodEnd.setUTCHours(0, 0, 0, 0);
+          const run = await stripeReconciliationService.runReconciliation(
+            new Date(periodEnd.getTime() - DAY_MS),
+            new Date(periodEnd.getTime() - 1),
+            'scheduler'
+          );
+          return {
+            runId: run.id,
+            matchedPayments: run.matchedPayments,
+            issues: run.issueCount,
+          };
+        },
+      },
+      {
+        name: 'partner-monthly-close',
+        schedule: '0 2 1 * *',
+        description: 'Compute draft royalty invoices of the previous UTC month for partners with an agreement',
+        lockTtlMs: 30 * 60 * 1000,
+        run: async () => {
+          const result = await partnerRoyaltyService.closeMonth(partnerRoyaltyService.getPreviousMonth(), 'scheduler');
+          return {
+            month: result.month,
+            created: result.created,
+            updated: result.updated,
+            frozen: result.frozen,
+          };
+        },
+      },
+    ];
+  }
+}
+
+export default new MaintenanceService();
@@ -0,0 +1,341 @@
+// Merchant Auth Service - Merchant portal logins (magic link) and scoped API keys
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Op } from 'sequelize';
+import { env } from '../config/env.js';
+import { sequelize, Merchant, MerchantUser, MerchantMagicLink, MerchantApiKey } from '../database/models/index.js';
+import { MERCHANT_API_KEY_SCOPES, MerchantApiKeyScope } from '../database/models/MerchantApiKey.js';
+import emailService from './email.service.js';
+
+const API_KEY_PREFIX = 'csr26_sk_';
+const API_KEY_DISPLAY_LENGTH = 14;
+const DEFAULT_ROTATION_GRACE_HOURS = 24;
+// lastUsedAt is only written when older than this, to avoid a write per request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Merchant session JWT payload - role 'merchant' keeps it apart from user and admin tokens
+interface MerchantSessionPayload {
+  role: 'merchant';
+  merchantUserId: string;
+  merchantId: string;
+}
+
+class MerchantAuthService {
+  private magicLinkExpiryMinutes: number = 15;
+  private sessionExpiryDays: number = 7;
+
+  /**
+   * Request a magic link for a merchant portal user
+   * Always returns the same message so the endpoint does not reveal which emails exist
+   */
+  async requestMagicLink(email: string): Promise<{ success: boolean; message: string }> {
+    const message = 'If a merchant account exists with this email, you will receive a login link shortly.';
+
+    const merchantUser = await MerchantUser.findOne({
+      where: { email: email.toLowerCase(), isActive: true },
+      include: [{ model: Merchant, as: 'merchant', attributes: ['id', 'name', 'isActive'] }],
+    });
+    const merchant = (merchantUser as any)?.merchant as Merchant | undefined;
+
+    if (!merchantUser || !merchant?.isActive) {
+      return { success: true, message };
+    }
+
+    // Invalidate any existing unused magic links for this user
+    await MerchantMagicLink.update(
+      { usedAt: new Date() },
+      { where: { merchantUserId: merchantUser.id, usedAt: null } }
+    );
+
+    const token = MerchantMagicLink.generateToken();
+    const expiresAt = new Date();
+    expiresAt.setMinutes(expiresAt.getMinutes() + this.magicLinkExpiryMinutes);
+
+    await MerchantMagicLink.create({
+      merchantUserId: merchantUser.id,
+      email: merchantUser.email,
+      token,
+      expiresAt,
+    });
+
+    await emailService.sendMerchantMagicLink(merchantUser.email, token, merchant.name, merchantUser.name || undefined);
+
+    console.log(`✅ Merchant magic link created for ${merchantUser.email} (merchant ${merchant.id})`);
+
+    return { success: true, message };
+  }
+
+  /**
+   * Verify a merchant magic link token and create a portal session
+   */
+  async verifyMagicLink(token: string): Promise<{
+    success: boolean;
+    sessionToken?: string;
+    merchantUser?: MerchantUser;
+    merchant?: { id: string; name: string };
+    error?: string;
+  }> {
+    const magicLink = await MerchantMagicLink.findOne({ where: { token } });
+
+    if (!magicLink) {
+      return { success: false, error: 'Invalid or expired magic link' };
+    }
+
+    if (!magicLink.isValid()) {
+      return {
+        success: false,
+        error: magicLink.usedAt ? 'This magic link has already been used' : 'This magic link has expired',
+      };
+    }
+
+    await magicLink.markAsUsed();
+
+    const merchantUser = await MerchantUser.findByPk(magicLink.merchantUserId);
+    const merchant = merchantUser ? await Merchant.findByPk(merchantUser.merchantId) : null;
+
+    if (!merchantUser || !merchantUser.isActive || !merchant || !merchant.isActive) {
+      return { success: false, error: 'Merchant account is inactive' };
+    }
+
+    await merchantUser.update({ lastLoginAt: new Date() });
+
+    console.log(`✅ Merchant magic link verified for ${merchantUser.email} - Session created`);
+
+    return {
+      success: true,
+      sessionToken: this.generateSessionToken(merchantUser),
+      merchantUser,
+      merchant: { id: merchant.id, name: merchant.name },
+    };
+  }
+
+  /**
+   * Clean up expired merchant magic links (run by the maintenance scheduler)
+   */
+  async cleanupExpiredLinks(): Promise<number> {
+    const result = await MerchantMagicLink.destroy({
+      where: { expiresAt: { [Op.lt]: new Date() } },
+    });
+
+    console.log(`🧹 Cleaned up ${result} expired merchant magic links`);
+    return result;
+  }
+
+  // Generate merchant portal session JWT
+  generateSessionToken(merchantUser: MerchantUser): string {
+    const payload: MerchantSessionPayload = {
+      role: 'merchant',
+      merchantUserId: merchantUser.id,
+      merchantId: merchantUser.merchantId,
+    };
+
+    return jwt.sign(payload, env.jwt.secret, { expiresIn: `${this.sessionExpiryDays}d` });
+  }
+
+  /**
+   * Verify a merchant session token
+   * Loads the user on every request so deactivation applies immediately
+   */
+  async verifySessionToken(token: string): Promise<MerchantUser | null> {
+    try {
+      const decoded = jwt.verify(token, env.jwt.secret) as Partial<MerchantSessionPayload>;
+      if (decoded.role !== 'merchant' || !decoded.merchantUserId) {
+        return null;
+      }
+
+      const merchantUser = await MerchantUser.findByPk(decoded.merchantUserId);
+      if (!merchantUser || !merchantUser.isActive || merchantUser.merchantId !== decoded.merchantId) {
+        return null;
+      }
+
+      const merchant = await Merchant.findByPk(merchantUser.merchantId, { attributes: ['id', 'isActive'] });
+      if (!merchant || !merchant.isActive) {
+        return null;
+      }
+
+      return merchantUser;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Authenticate a request by API key
+   * Returns null for unknown, revoked or expired keys and for inactive merchants
+   */
+  async authenticateApiKey(key: string): Promise<MerchantApiKey | null> {
+    if (!key.startsWith(API_KEY_PREFIX)) {
+      return null;
+    }
+
+    const apiKey = await MerchantApiKey.findOne({ where: { keyHash: this.hashApiKey(key) } });
+    if (!apiKey || !apiKey.isUsable()) {
+      return null;
+    }
+
+    const merchant = await Merchant.findByPk(apiKey.merchantId, { attributes: ['id', 'isActive'] });
+    if (!merchant || !merchant.isActive) {
+      return null;
+    }
+
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await apiKey.update({ lastUsedAt: new Date() });
+    }
+
+    return apiKey;
+  }
+
+  // ==========================================
+  // MERCHANT USERS (admin managed)
+  // ==========================================
+
+  async getMerchantUsers(merchantId: string): Promise<MerchantUser[]> {
+    return MerchantUser.findAll({ where: { merchantId }, order: [['createdAt', 'ASC']] });
+  }
+
+  async createMerchantUser(merchantId: string, data: { email: string; name?: string }, createdBy: string): Promise<MerchantUser> {
+    const merchant = await Merchant.findByPk(merchantId);
+    if (!merchant) {
+      throw new Error('Merchant not found');
+    }
+
+    const email = data.email.toLowerCase().trim();
+    const existing = await MerchantUser.findOne({ where: { email } });
+    if (existing) {
+      throw new Error('A merchant user with this email already exists');
+    }
+
+    return MerchantUser.create({ merchantId, email, name: data.name || null, createdBy });
+  }
+
+  async deactivateMerchantUser(merchantId: string, merchantUserId: string): Promise<MerchantUser> {
+    const merchantUser = await MerchantUser.findOne({ where: { id: merchantUserId, merchantId } });
+    if (!merchantUser) {
+      throw new Error('Merchant user not found');
+    }
+
+    await merchantUser.update({ isActive: false });
+    return merchantUser;
+  }
+
+  // ==========================================
+  // API KEYS
+  // ==========================================
+
+  // List a merchant's keys (hashes are never returned)
+  async getApiKeys(merchantId: string): Promise<MerchantApiKey[]> {
+    return MerchantApiKey.findAll({ where: { merchantId }, order: [['createdAt', 'DESC']] });
+  }
+
+  /**
+   * Issue a new API key - the plain key is returned once and only its hash is stored
+   */
+  async issueApiKey(
+    merchantId: string,
+    data: { name: string; scopes: string[] },
+    createdBy: string
+  ): Promise<{ apiKey: MerchantApiKey; key: string }> {
+    const merchant = await Merchant.findByPk(merchantId);
+    if (!merchant) {
+      throw new Error('Merchant not found');
+    }
+
+    const scopes = this.validateScopes(data.scopes);
+    const key = this.generateApiKey();
+
+    const apiKey = await MerchantApiKey.create({
+      merchantId,
+      name: data.name,
+      keyPrefix: key.substring(0, API_KEY_DISPLAY_LENGTH),
+      keyHash: this.hashApiKey(key),
+      scopes,
+      createdBy,
+    });
+
+    console.log(`🔑 API key ${apiKey.keyPrefix}… issued for merchant ${merchantId} by ${createdBy} (scopes: ${scopes.join(', ')})`);
+
+    return { apiKey, key };
+  }
+
+  /**
+   * Rotate an API key - issues a replacement with the same name and scopes
+   * The old key keeps working for the grace period so integrations can switch without downtime
+   */
+  async rotateApiKey(
+    merchantId: string,
+    apiKeyId: string,
+    createdBy: string,
+    graceHours: number = DEFAULT_ROTATION_GRACE_HOURS
+  ): Promise<{ apiKey: MerchantApiKey; key: string; previousKeyExpiresAt: Date }> {
+    return sequelize.transaction(async (t) => {
+      const current = await MerchantApiKey.findOne({
+        where: { id: apiKeyId, merchantId },
+        transaction: t,
+        lock: t.LOCK.UPDATE,
+      });
+
+      if (!current || !current.isUsable()) {
+        throw new Error('API key not found or no longer active');
+      }
+      if (current.rotatedToId) {
+        throw new Error('API key has already been rotated');
+      }
+
+      const key = this.generateApiKey();
+      const apiKey = await MerchantApiKey.create({
+        merchantId,
+        name: current.name,
+        keyPrefix: key.substring(0, API_KEY_DISPLAY_LENGTH),
+        keyHash: this.hashApiKey(key),
+        scopes: current.scopes,
+        createdBy,
+      }, { transaction: t });
+
+      const previousKeyExpiresAt = new Date(Date.now() + Math.max(0, graceHours) * 60 * 60 * 1000);
+      await current.update({
+        rotatedToId: apiKey.id,
+        expiresAt: current.expiresAt && current.expiresAt < previousKeyExpiresAt ? current.expiresAt : previousKeyExpiresAt,
+      }, { transaction: t });
+
+      console.log(`🔑 API key ${current.keyPrefix}… rotated to ${apiKey.keyPrefix}… for merchant ${merchantId} by ${createdBy}`);
+
+      return { apiKey, key, previousKeyExpiresAt: current.expiresAt! };
+    });
+  }
+
+  // Revoke an API key immediately
+  async revokeApiKey(merchantId: string, apiKeyId: string): Promise<MerchantApiKey> {
+    const apiKey = await MerchantApiKey.findOne({
+      where: { id: apiKeyId, merchantId, revokedAt: null },
+    });
+    if (!apiKey) {
+      throw new Error('API key not found or already revoked');
+    }
+
+    await apiKey.update({ revokedAt: new Date() });
+    return apiKey;
+  }
+
+  private validateScopes(scopes: string[]): MerchantApiKeyScope[] {
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      throw new Error(`At least one scope is required: ${MERCHANT_API_KEY_SCOPES.join(', ')}`);
+    }
+
+    const invalid = scopes.filter((scope) => !(MERCHANT_API_KEY_SCOPES as readonly string[]).includes(scope));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid scopes: ${invalid.join(', ')}. Allowed: ${MERCHANT_API_KEY_SCOPES.join(', ')}`);
+    }
+
+    return Array.from(new Set(scopes)) as MerchantApiKeyScope[];
+  }
+
+  private generateApiKey(): string {
+    return `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  }
+
+  private hashApiKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+}
+
+export default new MerchantAuthService();
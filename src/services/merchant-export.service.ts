@@ -2,6 +2,7 @@
 import PDFDocument from 'pdfkit';
 import { Transaction, SKU, Merchant } from '../database/models/index.js';
 import { Op } from 'sequelize';
+import exchangeRateService from './exchange-rate.service.js';
 
 interface ESGReportFilters {
   merchantId: string;
@@ -36,7 +37,15 @@ class MerchantExportService {
 
     // Calculate metrics
     const totalTransactions = transactions.length;
-    const totalRevenue = transactions.reduce((sum, t) => sum + Number(t.amount), 0);
+    // Checkout carts are recorded one transaction per line - count each order once
+    const totalOrders = new Set(transactions.map(t => t.parentOrderId || t.orderId || t.id)).size;
+    // Stored Stripe split figures - transactions paid outside CSR26 checkout contribute their amount
+    const totalPlasticFees = transactions.reduce((sum, t) => sum + (t.plasticFeeAmount !== null
+      ? exchangeRateService.toEur(Number(t.plasticFeeAmount), t.fxRate)
+      : Number(t.amount)), 0);
+    const totalCheckoutSales = transactions.reduce((sum, t) => sum + (t.grossAmount !== null
+      ? exchangeRateService.toEur(Number(t.grossAmount), t.fxRate)
+      : 0), 0);
     const totalImpactGrams = transactions.reduce((sum, t) => sum + Number(t.calculatedImpact), 0);
     const totalImpactKg = totalImpactGrams / 1000;
 
@@ -106,6 +115,7 @@ class MerchantExportService {
         .fillColor('#374151')
         .text(
           `During the reporting period, ${merchant.name} facilitated ${totalTransactions} environmental impact transactions ` +
+          `across ${totalOrders} customer orders ` +
           `through the CSR26 Impact Processor platform. These transactions contributed to the removal of ${totalImpactKg.toFixed(3)} kilograms ` +
           `of plastic waste from our oceans and environment, representing a significant commitment to environmental sustainability.`,
           { align: 'justify', lineGap: 4 }
@@ -130,8 +140,10 @@ class MerchantExportService {
 
       const metrics = [
         { label: 'Total Plastic Waste Removed', value: `${totalImpactKg.toFixed(3)} kg` },
+        { label: 'Customer Orders', value: totalOrders.toString() },
         { label: 'Customer Transactions', value: totalTransactions.toString() },
-        { label: 'Revenue Generated', value: `€${totalRevenue.toFixed(2)}` },
+        { label: 'Plastic Fees Contributed', value: `€${totalPlasticFees.toFixed(2)}` },
+        { label: 'Sales Paid via CSR26', value: `€${totalCheckoutSales.toFixed(2)}` },
         { label: 'Plastic Bottles Equivalent', value: plasticBottles.toLocaleString() },
         { label: 'Trees Worth of Impact', value: treesEquivalent },
         { label: 'Ocean Cleanup Contributions', value: oceanCleanup },
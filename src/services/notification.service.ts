@@ -0,0 +1,130 @@
+// Notification Service - Customer emails sent from the background job queue
+// The transaction and webhook paths enqueue these jobs instead of sending inline;
+// handlers reload the transaction so the email reflects committed data.
+import { Transaction as DbTransaction } from 'sequelize';
+import { Transaction, User, SKU } from '../database/models/index.js';
+import jobQueueService, { JobHandler } from './job-queue.service.js';
+import emailService from './email.service.js';
+import walletService from './wallet.service.js';
+import certificateService from './certificate.service.js';
+import qrcodeService from './qrcode.service.js';
+import { env } from '../config/env.js';
+
+export const NOTIFICATION_JOB_TYPES = {
+  TRANSACTION_CONFIRMATION: 'email.transaction_confirmation',
+  THRESHOLD_ACHIEVEMENT: 'email.threshold_achievement',
+} as const;
+
+class NotificationService {
+  /**
+   * Queue the confirmation email for a completed transaction (Section 15.2)
+   * With an impactUrl (e-commerce order lines) the job also generates the line's QR code and attaches it.
+   * Pass the DB transaction so the email is only sent if the surrounding work commits
+   */
+  async queueTransactionConfirmation(
+    transactionId: string,
+    options: { impactUrl?: string; transaction?: DbTransaction } = {}
+  ): Promise<void> {
+    await jobQueueService.enqueue(
+      NOTIFICATION_JOB_TYPES.TRANSACTION_CONFIRMATION,
+      { transactionId, impactUrl: options.impactUrl },
+      { transaction: options.transaction }
+    );
+  }
+
+  /**
+   * Queue the threshold achievement email (Section 15.3) - the transaction that took the user past €10
+   */
+  async queueThresholdAchievement(transactionId: string, options: { transaction?: DbTransaction } = {}): Promise<void> {
+    await jobQueueService.enqueue(
+      NOTIFICATION_JOB_TYPES.THRESHOLD_ACHIEVEMENT,
+      { transactionId },
+      { transaction: options.transaction }
+    );
+  }
+
+  getJobHandlers(): Record<string, JobHandler> {
+    return {
+      [NOTIFICATION_JOB_TYPES.TRANSACTION_CONFIRMATION]: (payload) =>
+        this.sendTransactionConfirmation(payload.transactionId, payload.impactUrl),
+      [NOTIFICATION_JOB_TYPES.THRESHOLD_ACHIEVEMENT]: (payload) =>
+        this.sendThresholdAchievement(payload.transactionId),
+    };
+  }
+
+  private async sendTransactionConfirmation(transactionId: string, impactUrl?: string): Promise<void> {
+    const transaction = await this.loadTransaction(transactionId);
+    const user = (transaction as any).user as User;
+    const sku = (transaction as any).sku as SKU;
+
+    // Generate certificate URL if this is a certified asset (≥€10)
+    const certificateUrl = transaction.corsairConnectFlag ? this.getCertificateUrl(transaction.id) : undefined;
+
+    // Order lines carry a QR code of their impact URL - generated here rather than in the webhook request
+    const qrCode = impactUrl ? await qrcodeService.generateImpactQRCode(impactUrl, transaction.id) : undefined;
+
+    await emailService.sendTransactionConfirmation(
+      user.email,
+      user.firstName || 'Guest',
+      {
+        id: transaction.id,
+        impactGrams: Number(transaction.calculatedImpact),
+        impactKg: (Number(transaction.calculatedImpact) / 1000).toFixed(3),
+        date: transaction.createdAt.toISOString().split('T')[0],
+        sku: { code: sku.code, name: sku.name },
+        amount: Number(transaction.amount),
+      },
+      user.id,
+      certificateUrl,
+      impactUrl,
+      qrCode
+        ? {
+            filename: qrCode.downloadFileName,
+            content: Buffer.from(qrCode.qrCodeData.replace(/^data:image\/png;base64,/, ''), 'base64'),
+          }
+        : undefined
+    );
+  }
+
+  // Threshold email carries the certificate PDF - generated here rather than in the request
+  private async sendThresholdAchievement(transactionId: string): Promise<void> {
+    const transaction = await this.loadTransaction(transactionId);
+    const user = (transaction as any).user as User;
+
+    const wallet = await walletService.getUserWallet(user.id);
+    const totalImpactKg = Number(wallet.wallet.totalAccumulated) / 1000;
+    const totalAmountSpent = Number(wallet.wallet.totalAmountSpent);
+
+    const certificate = await certificateService.generateCertificateForEmail(transaction.id);
+
+    await emailService.sendThresholdAchievement(
+      user.email,
+      user.firstName || 'Guest',
+      totalImpactKg,
+      totalAmountSpent,
+      user.id,
+      this.getCertificateUrl(transaction.id),
+      certificate
+    );
+  }
+
+  private async loadTransaction(transactionId: string): Promise<Transaction> {
+    const transaction = await Transaction.findByPk(transactionId, {
+      include: [
+        { model: User, as: 'user' },
+        { model: SKU, as: 'sku' },
+      ],
+    });
+
+    if (!transaction) {
+      throw new Error(`Transaction not found: ${transactionId}`);
+    }
+    return transaction;
+  }
+
+  private getCertificateUrl(transactionId: string): string {
+    return `${env.frontend.url}/api/certificates/${transactionId}/download`;
+  }
+}
+
+export default new NotificationService();
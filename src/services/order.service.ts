@@ -0,0 +1,486 @@
+// Order Service - E-commerce orders recorded as one transaction per line
+// Checkout sessions and payment intents save the quoted cart as a pending order. When the
+// payment succeeds every line becomes its own transaction, linked to the real SKU when it is
+// registered with CSR26 (ECOM-SPLIT-01 otherwise), so SKU reports include e-commerce sales.
+// Platform webhooks (WooCommerce, Shopify, custom) are recorded as orders too - the order is
+// the dedupe key, so a repeated webhook never records an order twice.
+// The order aggregates its lines for the landing page and ESG reports.
+import { Op, Transaction as DbTransaction } from 'sequelize';
+import { env } from '../config/env.js';
+import { sequelize, Order, SKU, Transaction } from '../database/models/index.js';
+import { OrderItem, OrderPlatform, OrderStatus } from '../database/models/Order.js';
+import { PaymentMode } from '../database/models/SKU.js';
+import { AppError } from '../middleware/errorHandler.js';
+import exchangeRateService from './exchange-rate.service.js';
+import notificationService from './notification.service.js';
+import transactionService from './transaction.service.js';
+import transactionTokenService from './transactionToken.service.js';
+
+// Generic SKU for e-commerce lines whose product is not registered with CSR26
+const ECOMMERCE_SKU_CODE = 'ECOM-SPLIT-01';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Customer snapshot stored with the order
+interface OrderCustomer {
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  country?: string;
+}
+
+interface SavePendingOrderData {
+  merchantId: string;
+  externalOrderId: string;
+  partnerId?: string;
+  customer?: OrderCustomer;
+  currency: string;
+  items: OrderItem[];
+  productTotal: number;
+  plasticFee: number;
+  plasticFeeEur: number;
+  csrPricePerKg: number; // Quoted CSR price - the line transactions' impact is computed with it
+  csrPricePeriodId: string | null;
+  stripeCheckoutSessionId?: string;
+  stripePaymentIntentId?: string;
+}
+
+// Order received from a merchant platform webhook - line totals in `currency`
+interface PlatformOrderData {
+  merchantId: string;
+  externalOrderId: string;
+  platform: OrderPlatform;
+  userId: string;
+  partnerId?: string;
+  customer: OrderCustomer;
+  currency?: string;
+  items: Array<{ sku: string; name?: string; quantity: number; total: number }>;
+}
+
+interface OrderFilters {
+  status?: OrderStatus;
+  platform?: OrderPlatform;
+  limit?: number;
+  offset?: number;
+}
+
+// Order aggregate for the landing page (Point B)
+export interface OrderSummary {
+  id: string;
+  externalOrderId: string;
+  currency: string;
+  productTotal: number;
+  plasticFee: number;
+  totalImpactGrams: number;
+  totalImpactKg: number;
+  completedAt: Date | null;
+  items: Array<{
+    transactionId: string;
+    skuCode: string;
+    skuName: string;
+    quantity: number | null;
+    plasticFee: number;
+    impactGrams: number;
+  }>;
+}
+
+class OrderService {
+  /**
+   * Reject a new checkout for an order that was already paid
+   */
+  async assertOrderOpen(merchantId: string, externalOrderId: string): Promise<void> {
+    const order = await Order.findOne({ where: { merchantId, externalOrderId } });
+    if (order?.status === OrderStatus.COMPLETED) {
+      throw new AppError(`Order ${externalOrderId} has already been paid`, 409);
+    }
+  }
+
+  /**
+   * Save the quoted cart of a checkout as a pending order
+   * A new checkout for the same order (e.g. the customer returned to the cart) replaces the cart
+   */
+  async savePendingOrder(data: SavePendingOrderData): Promise<Order> {
+    const values = {
+      partnerId: data.partnerId || null,
+      ...this.customerSnapshot(data.customer),
+      currency: data.currency,
+      items: data.items,
+      productTotal: data.productTotal,
+      plasticFee: data.plasticFee,
+      plasticFeeEur: data.plasticFeeEur,
+      csrPricePerKg: data.csrPricePerKg,
+      csrPricePeriodId: data.csrPricePeriodId,
+      stripeCheckoutSessionId: data.stripeCheckoutSessionId || null,
+      stripePaymentIntentId: data.stripePaymentIntentId || null,
+    };
+
+    const [order, created] = await Order.findOrCreate({
+      where: { merchantId: data.merchantId, externalOrderId: data.externalOrderId },
+      defaults: {
+        merchantId: data.merchantId,
+        externalOrderId: data.externalOrderId,
+        platform: OrderPlatform.CHECKOUT,
+        ...values,
+      },
+    });
+
+    if (!created) {
+      if (order.status === OrderStatus.COMPLETED) {
+        throw new AppError(`Order ${data.externalOrderId} has already been paid`, 409);
+      }
+      await order.update(values);
+    }
+
+    return order;
+  }
+
+  /**
+   * Order of a paid checkout session or payment intent
+   * Null when the order was re-quoted by a newer checkout - that payment is not for its current cart
+   */
+  async findOrderForPayment(data: {
+    merchantId: string;
+    externalOrderId: string;
+    stripeCheckoutSessionId?: string;
+    stripePaymentIntentId?: string;
+  }): Promise<Order | null> {
+    const order = await Order.findOne({
+      where: { merchantId: data.merchantId, externalOrderId: data.externalOrderId },
+    });
+    if (!order) {
+      return null;
+    }
+
+    const matchesSession = !!data.stripeCheckoutSessionId && order.stripeCheckoutSessionId === data.stripeCheckoutSessionId;
+    const matchesPaymentIntent = !!data.stripePaymentIntentId && order.stripePaymentIntentId === data.stripePaymentIntentId;
+
+    return matchesSession || matchesPaymentIntent ? order : null;
+  }
+
+  /**
+   * Record the payment of an order - one transaction per cart line
+   * Impact is computed with the CSR price quoted for the order, even if the price changed before payment.
+   * Idempotent: the order row is locked, so concurrent completions (webhook and merchant) record it once
+   * @returns The line transactions, in cart order
+   */
+  async recordOrderPayment(
+    orderId: string,
+    data: { userId: string; stripePaymentIntentId?: string }
+  ): Promise<{ order: Order; transactions: Transaction[]; created: boolean }> {
+    const genericSku = await this.getEcommerceSku();
+
+    return sequelize.transaction(async (t) => {
+      const order = await Order.findByPk(orderId, { transaction: t, lock: t.LOCK.UPDATE });
+      if (!order) {
+        throw new Error('Order not found');
+      }
+
+      if (order.status === OrderStatus.COMPLETED) {
+        return { order, transactions: await this.getOrderTransactions(order, t), created: false };
+      }
+
+      // Orders saved before quoted prices were stored use the price in force
+      const csrPrice = order.csrPricePerKg !== null
+        ? { periodId: order.csrPricePeriodId, price: Number(order.csrPricePerKg) }
+        : undefined;
+
+      const transactions: Transaction[] = [];
+      const items: OrderItem[] = [];
+      for (const item of order.items) {
+        // Lines without a fee carry no impact
+        if (!(Number(item.plasticFee) > 0)) {
+          items.push(item);
+          continue;
+        }
+
+        const sku = await SKU.findOne({ where: { code: item.sku, isActive: true }, transaction: t });
+
+        const transaction = await transactionService.createTransaction({
+          skuCode: sku ? sku.code : genericSku.code,
+          userId: data.userId,
+          merchantId: order.merchantId,
+          partnerId: order.partnerId || undefined,
+          orderId: order.externalOrderId,
+          amount: Number(item.plasticFee),
+          currency: order.currency,
+          prepaidFee: true,
+          parentOrderId: order.id,
+          stripePaymentIntentId: data.stripePaymentIntentId,
+          // One confirmation per order - its impact URL shows the whole order
+          skipConfirmationEmail: transactions.length > 0,
+        }, { transaction: t, csrPrice });
+
+        transactions.push(transaction);
+        items.push({ ...item, transactionId: transaction.id });
+      }
+
+      if (transactions.length === 0) {
+        throw new Error(`Order ${order.externalOrderId} has no plastic fee to record`);
+      }
+
+      const totalImpactGrams = transactions.reduce((sum, tx) => sum + Number(tx.calculatedImpact), 0);
+
+      await order.update({
+        status: OrderStatus.COMPLETED,
+        completedAt: new Date(),
+        userId: data.userId,
+        items,
+        stripePaymentIntentId: data.stripePaymentIntentId || order.stripePaymentIntentId,
+        totalImpactGrams: Math.round(totalImpactGrams * 100) / 100,
+      }, { transaction: t });
+
+      console.log(`🧾 Order ${order.externalOrderId} recorded as ${transactions.length} line transactions for merchant ${order.merchantId}`);
+
+      return { order, transactions, created: true };
+    });
+  }
+
+  /**
+   * Record an order received by platform webhook - one transaction per line with a known SKU
+   * Idempotent per merchant and external order id: a repeated webhook (retry, another topic,
+   * reprocessed event) returns the transactions recorded the first time
+   */
+  async recordPlatformOrder(
+    data: PlatformOrderData
+  ): Promise<{ order: Order; transactions: Transaction[]; created: boolean }> {
+    const currency = exchangeRateService.normalizeCurrency(data.currency);
+
+    return sequelize.transaction(async (t) => {
+      const [created] = await Order.findOrCreate({
+        where: { merchantId: data.merchantId, externalOrderId: data.externalOrderId },
+        defaults: {
+          merchantId: data.merchantId,
+          externalOrderId: data.externalOrderId,
+          platform: data.platform,
+          partnerId: data.partnerId || null,
+          ...this.customerSnapshot(data.customer),
+          currency,
+          items: [],
+          productTotal: 0,
+          plasticFee: 0,
+          plasticFeeEur: 0,
+        },
+        transaction: t,
+      });
+
+      // Concurrent deliveries of the same order wait here for the first one to finish
+      const order = (await Order.findByPk(created.id, { transaction: t, lock: t.LOCK.UPDATE }))!;
+      if (order.status === OrderStatus.COMPLETED) {
+        return { order, transactions: await this.getOrderTransactions(order, t), created: false };
+      }
+
+      const transactions: Transaction[] = [];
+      const items: OrderItem[] = [];
+      for (const item of data.items) {
+        const line: OrderItem = {
+          sku: item.sku,
+          name: item.name,
+          quantity: Number(item.quantity),
+          price: item.quantity ? Math.round((item.total / item.quantity) * 100) / 100 : item.total,
+          plasticFee: 0,
+        };
+
+        // Find SKU by code
+        const sku = await SKU.findOne({ where: { code: item.sku }, transaction: t });
+        if (!sku) {
+          console.warn(`⚠️ SKU not found: ${item.sku} - skipping line item of order ${data.externalOrderId}`);
+          items.push(line);
+          continue;
+        }
+
+        const transaction = await transactionService.createTransaction({
+          userId: data.userId,
+          skuCode: sku.code,
+          merchantId: data.merchantId,
+          partnerId: data.partnerId,
+          orderId: data.externalOrderId,
+          amount: item.total,
+          currency,
+          parentOrderId: order.id,
+          skipConfirmationEmail: true,
+        }, { transaction: t });
+
+        // Section 20.4: confirmation email with the impact URL, queued in the order's DB transaction
+        // so it is only sent if the order commits - the job worker attaches the line's QR code
+        const token = await transactionTokenService.getOrCreateToken(transaction.id, { transaction: t });
+        await notificationService.queueTransactionConfirmation(transaction.id, {
+          impactUrl: transactionTokenService.generateImpactUrl(transaction.id, token.token, env.frontend.url),
+          transaction: t,
+        });
+
+        transactions.push(transaction);
+        items.push({ ...line, plasticFee: item.total, transactionId: transaction.id });
+      }
+
+      const sum = (values: number[]) => Math.round(values.reduce((total, value) => total + value, 0) * 10000) / 10000;
+
+      await order.update({
+        status: OrderStatus.COMPLETED,
+        completedAt: new Date(),
+        userId: data.userId,
+        currency,
+        items,
+        productTotal: sum(data.items.map(item => Number(item.total))),
+        plasticFee: sum(items.map(item => item.plasticFee)),
+        plasticFeeEur: sum(transactions.map(tx => Number(tx.amount))),
+        totalImpactGrams: Math.round(sum(transactions.map(tx => Number(tx.calculatedImpact))) * 100) / 100,
+      }, { transaction: t });
+
+      return { order, transactions, created: true };
+    });
+  }
+
+  /**
+   * Orders of a merchant, newest first
+   */
+  async listOrders(merchantId: string, filters: OrderFilters = {}) {
+    const where: any = { merchantId };
+    if (filters.status) where.status = filters.status;
+    if (filters.platform) where.platform = filters.platform;
+
+    const { rows, count } = await Order.findAndCountAll({
+      where,
+      order: [['createdAt', 'DESC']],
+      limit: Math.min(filters.limit || 50, 200),
+      offset: filters.offset || 0,
+    });
+
+    return { orders: rows, total: count };
+  }
+
+  /**
+   * Order with its line transactions, their landing page tokens and the order's impact URL
+   * @param orderRef - External order id (e.g. WC-1234) or CSR26 order id
+   */
+  async getOrderDetails(merchantId: string, orderRef: string) {
+    const order = await Order.findOne({
+      where: {
+        merchantId,
+        [Op.or]: [
+          { externalOrderId: orderRef },
+          ...(UUID_PATTERN.test(orderRef) ? [{ id: orderRef }] : []),
+        ],
+      },
+    });
+    if (!order) {
+      throw new AppError('Order not found', 404);
+    }
+
+    const transactions = await this.getOrderTransactions(order);
+    const skus = await SKU.findAll({
+      where: { id: [...new Set(transactions.map(tx => tx.skuId))] },
+      attributes: ['id', 'code', 'name'],
+    });
+
+    const lines = [];
+    for (const transaction of transactions) {
+      const token = await transactionTokenService.getOrCreateToken(transaction.id);
+      const sku = skus.find(s => s.id === transaction.skuId);
+      lines.push({
+        id: transaction.id,
+        skuCode: sku?.code || null,
+        skuName: sku?.name || null,
+        amount: Number(transaction.amount),
+        currency: transaction.currency,
+        originalAmount: Number(transaction.originalAmount ?? transaction.amount),
+        calculatedImpact: Number(transaction.calculatedImpact),
+        paymentStatus: transaction.paymentStatus,
+        createdAt: transaction.createdAt,
+        token: { token: token.token, expiresAt: token.expiresAt },
+        impactUrl: transactionTokenService.generateImpactUrl(transaction.id, token.token, env.frontend.url),
+      });
+    }
+
+    return {
+      order,
+      transactions: lines,
+      // The first line's landing page shows the whole order
+      impactUrl: lines[0]?.impactUrl || null,
+    };
+  }
+
+  /**
+   * Order aggregate with its line transactions - landing page and merchant views
+   */
+  async getOrderSummary(orderId: string): Promise<OrderSummary> {
+    const order = await Order.findByPk(orderId);
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    const transactions = await Transaction.findAll({
+      where: { parentOrderId: order.id },
+      include: [{ model: SKU, as: 'sku', attributes: ['code', 'name'] }],
+      order: [['createdAt', 'ASC']],
+    });
+
+    return {
+      id: order.id,
+      externalOrderId: order.externalOrderId,
+      currency: order.currency,
+      productTotal: Number(order.productTotal),
+      plasticFee: Number(order.plasticFee),
+      totalImpactGrams: Number(order.totalImpactGrams),
+      totalImpactKg: Math.round(Number(order.totalImpactGrams) / 10) / 100,
+      completedAt: order.completedAt,
+      items: transactions.map((transaction) => {
+        const item = order.items.find(line => line.transactionId === transaction.id);
+        return {
+          transactionId: transaction.id,
+          skuCode: transaction.sku?.code || '',
+          // Lines on the generic SKU keep the product name from the cart
+          skuName: transaction.sku?.code === ECOMMERCE_SKU_CODE && item?.name ? item.name : transaction.sku?.name || '',
+          quantity: item ? Number(item.quantity) : null,
+          plasticFee: Number(transaction.originalAmount ?? transaction.amount),
+          impactGrams: Number(transaction.calculatedImpact),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Generic ALLOCATION SKU for e-commerce payments - created on first use
+   */
+  async getEcommerceSku(): Promise<SKU> {
+    const [sku] = await SKU.findOrCreate({
+      where: { code: ECOMMERCE_SKU_CODE },
+      defaults: {
+        code: ECOMMERCE_SKU_CODE,
+        name: 'E-commerce Plastic Neutral',
+        description: 'Plastic neutralization from e-commerce checkout',
+        paymentMode: PaymentMode.ALLOCATION,
+        price: 0,
+        productWeight: 0,
+        impactMultiplier: 1,
+        requiresValidation: false,
+        corsairThreshold: 10,
+        isActive: true,
+      },
+    });
+    return sku;
+  }
+
+  private customerSnapshot(customer?: OrderCustomer) {
+    return {
+      customerEmail: customer?.email || null,
+      customerFirstName: customer?.firstName || null,
+      customerLastName: customer?.lastName || null,
+      customerCountry: customer?.country || null,
+    };
+  }
+
+  /**
+   * Line transactions of a recorded order, in cart order
+   */
+  async getOrderTransactions(order: Order, transaction?: DbTransaction): Promise<Transaction[]> {
+    const transactions = await Transaction.findAll({
+      where: { parentOrderId: order.id },
+      transaction,
+    });
+
+    const position = (tx: Transaction) => order.items.findIndex(item => item.transactionId === tx.id);
+    return transactions.sort((a, b) => position(a) - position(b));
+  }
+}
+
+export default new OrderService();
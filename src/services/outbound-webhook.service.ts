@@ -0,0 +1,498 @@
+// Outbound Webhook Service - Notify merchant endpoints of impact events
+// publish() records one delivery per subscribed endpoint in the caller's DB transaction;
+// the job queue sends it signed with the endpoint secret and retries failures with backoff.
+import crypto from 'crypto';
+import { LookupAddress } from 'dns';
+import dns from 'dns/promises';
+import net from 'net';
+import { Transaction as DbTransaction } from 'sequelize';
+import { Agent, fetch } from 'undici';
+import { env } from '../config/env.js';
+import { sequelize, Merchant, Transaction, WebhookEndpoint, WebhookDelivery, Job } from '../database/models/index.js';
+import { OUTBOUND_WEBHOOK_EVENTS, OutboundWebhookEvent } from '../database/models/WebhookEndpoint.js';
+import { WebhookDeliveryStatus } from '../database/models/WebhookDelivery.js';
+import { PaymentStatus } from '../database/models/Transaction.js';
+import jobQueueService, { JobHandler } from './job-queue.service.js';
+
+export const OUTBOUND_WEBHOOK_JOB_TYPE = 'webhook.deliver';
+
+// Attempts per delivery - with the queue's backoff the last one runs about an hour after the first
+const MAX_DELIVERY_ATTEMPTS = 8;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+const MAX_ENDPOINTS_PER_MERCHANT = 10;
+
+// Endpoints must resolve to public addresses - never loopback, private (RFC 1918), link-local
+// (incl. the cloud metadata address 169.254.169.254) or other internal ranges.
+// IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are matched against the IPv4 subnets.
+const NON_PUBLIC_ADDRESSES = new net.BlockList();
+NON_PUBLIC_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+NON_PUBLIC_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+NON_PUBLIC_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4'); // Carrier-grade NAT
+NON_PUBLIC_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+NON_PUBLIC_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+NON_PUBLIC_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+NON_PUBLIC_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+NON_PUBLIC_ADDRESSES.addSubnet('198.18.0.0', 15, 'ipv4'); // Benchmarking
+NON_PUBLIC_ADDRESSES.addSubnet('224.0.0.0', 4, 'ipv4'); // Multicast
+NON_PUBLIC_ADDRESSES.addSubnet('240.0.0.0', 4, 'ipv4'); // Reserved and broadcast
+NON_PUBLIC_ADDRESSES.addAddress('::', 'ipv6');
+NON_PUBLIC_ADDRESSES.addAddress('::1', 'ipv6');
+NON_PUBLIC_ADDRESSES.addSubnet('fc00::', 7, 'ipv6'); // Unique local
+NON_PUBLIC_ADDRESSES.addSubnet('fe80::', 10, 'ipv6'); // Link-local
+NON_PUBLIC_ADDRESSES.addSubnet('64:ff9b::', 96, 'ipv6'); // NAT64 - embeds an IPv4 address
+
+interface EndpointInput {
+  url?: string;
+  description?: string | null;
+  events?: string[];
+  isActive?: boolean;
+}
+
+interface DeliveryFilters {
+  endpointId?: string;
+  status?: WebhookDeliveryStatus;
+  eventType?: string;
+  limit?: number;
+  offset?: number;
+}
+
+class OutboundWebhookService {
+  /**
+   * Publish an event to the merchant's subscribed endpoints
+   * Pass the caller's DB transaction so nothing is sent unless the change commits
+   * @returns Number of deliveries queued
+   */
+  async publish(
+    merchantId: string,
+    eventType: OutboundWebhookEvent,
+    data: Record<string, any>,
+    options: { transaction?: DbTransaction } = {}
+  ): Promise<number> {
+    const endpoints = (await WebhookEndpoint.findAll({
+      where: { merchantId, isActive: true },
+      transaction: options.transaction,
+    })).filter((endpoint) => endpoint.isSubscribedTo(eventType));
+
+    if (endpoints.length === 0) {
+      return 0;
+    }
+
+    const eventId = crypto.randomUUID();
+    const payload = {
+      id: eventId,
+      type: eventType,
+      createdAt: new Date().toISOString(),
+      merchantId,
+      data,
+    };
+
+    for (const endpoint of endpoints) {
+      const delivery = await WebhookDelivery.create({
+        endpointId: endpoint.id,
+        merchantId,
+        eventId,
+        eventType,
+        payload,
+      }, { transaction: options.transaction });
+
+      await this.queueDelivery(delivery.id, options.transaction);
+    }
+
+    return endpoints.length;
+  }
+
+  /**
+   * Publish the events of a transaction that just completed
+   * transaction.completed always; certificate.issued at or above CORSAIR_THRESHOLD;
+   * wallet.threshold_reached when it took the customer past the threshold
+   */
+  async publishTransactionCompleted(
+    transaction: Transaction,
+    options: { thresholdReached?: boolean; transaction?: DbTransaction } = {}
+  ): Promise<void> {
+    if (!transaction.merchantId) {
+      return;
+    }
+
+    const publishOptions = { transaction: options.transaction };
+    await this.publish(transaction.merchantId, 'transaction.completed', this.getTransactionData(transaction), publishOptions);
+
+    if (transaction.corsairConnectFlag) {
+      await this.publish(transaction.merchantId, 'certificate.issued', {
+        transactionId: transaction.id,
+        orderId: transaction.orderId || null,
+        impactGrams: Number(transaction.calculatedImpact),
+        certificateUrl: `${env.backendUrl}/api/certificates/${transaction.id}`,
+        verificationUrl: `${env.backendUrl}/api/certificates/${transaction.id}/verify`,
+      }, publishOptions);
+    }
+
+    if (options.thresholdReached) {
+      await this.publish(transaction.merchantId, 'wallet.threshold_reached', {
+        transactionId: transaction.id,
+        orderId: transaction.orderId || null,
+        userId: transaction.userId,
+      }, publishOptions);
+    }
+  }
+
+  // transaction.refunded - sent for every partial refund, full refund and chargeback
+  async publishTransactionRefunded(transaction: Transaction, options: { transaction?: DbTransaction } = {}): Promise<void> {
+    if (!transaction.merchantId) {
+      return;
+    }
+
+    await this.publish(transaction.merchantId, 'transaction.refunded', {
+      ...this.getTransactionData(transaction),
+      refundedAmount: Number(transaction.refundedAmount),
+      refundedImpactGrams: Number(transaction.refundedImpact),
+      fullyRefunded: transaction.paymentStatus !== PaymentStatus.COMPLETED && transaction.paymentStatus !== PaymentStatus.NA,
+      reason: transaction.refundReason || null,
+    }, { transaction: options.transaction });
+  }
+
+  getJobHandlers(): Record<string, JobHandler> {
+    return {
+      [OUTBOUND_WEBHOOK_JOB_TYPE]: (payload, job) => this.deliver(payload.deliveryId, job),
+    };
+  }
+
+  /**
+   * Signature header value: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+   * Receivers recompute v1 with their endpoint secret and reject stale timestamps
+   */
+  sign(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+    const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+  }
+
+  // ==========================================
+  // DELIVERY
+  // ==========================================
+
+  /**
+   * Send one delivery attempt (job handler)
+   * Throws on failure so the job queue retries it; the delivery is marked failed on the last attempt
+   */
+  private async deliver(deliveryId: string, job: Job): Promise<void> {
+    const delivery = await WebhookDelivery.findByPk(deliveryId, {
+      include: [{ model: WebhookEndpoint, as: 'endpoint' }],
+    });
+    // Endpoint deleted (deliveries cascade) or already delivered by an earlier attempt
+    if (!delivery || delivery.status === 'succeeded') {
+      return;
+    }
+
+    const endpoint = (delivery as any).endpoint as WebhookEndpoint;
+    if (!endpoint.isActive) {
+      await delivery.update({ status: 'failed', lastError: 'Endpoint is disabled' });
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const startedAt = Date.now();
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    let dispatcher: Agent | null = null;
+    try {
+      // Checked again on every attempt - the host may resolve elsewhere than when the endpoint was saved.
+      // The request connects to the checked addresses, not to a second DNS answer (DNS rebinding)
+      dispatcher = this.pinnedAgent(await this.assertPublicHost(endpoint.url));
+
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'CSR26-Webhooks/1.0',
+          'X-CSR26-Event': delivery.eventType,
+          'X-CSR26-Event-Id': delivery.eventId,
+          'X-CSR26-Delivery': delivery.id,
+          'X-CSR26-Signature': this.sign(endpoint.secret, body),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+        dispatcher,
+      });
+
+      responseStatus = response.status;
+      responseBody = (await response.text()).substring(0, MAX_RESPONSE_BODY_LENGTH);
+      if (!response.ok) {
+        error = `Endpoint responded with HTTP ${response.status}`;
+      }
+    } catch (requestError: any) {
+      error = requestError?.name === 'TimeoutError'
+        ? `No response within ${DELIVERY_TIMEOUT_MS / 1000}s`
+        : requestError?.message || String(requestError);
+    } finally {
+      await dispatcher?.close();
+    }
+
+    const isLastAttempt = job.attempts >= job.maxAttempts;
+    await delivery.update({
+      status: error ? (isLastAttempt ? 'failed' : 'pending') : 'succeeded',
+      attempts: delivery.attempts + 1,
+      responseStatus,
+      responseBody,
+      durationMs: Date.now() - startedAt,
+      lastError: error,
+      lastAttemptAt: new Date(),
+      deliveredAt: error ? delivery.deliveredAt : new Date(),
+    });
+
+    if (error) {
+      throw new Error(`Webhook delivery ${delivery.id} to ${endpoint.url} failed: ${error}`);
+    }
+
+    console.log(`📤 Webhook ${delivery.eventType} delivered to ${endpoint.url} (HTTP ${responseStatus})`);
+  }
+
+  // Transaction fields shared by the transaction events - no customer PII
+  private getTransactionData(transaction: Transaction): Record<string, any> {
+    return {
+      transactionId: transaction.id,
+      orderId: transaction.orderId || null,
+      amount: Number(transaction.amount),
+      currency: 'EUR',
+      impactGrams: Number(transaction.calculatedImpact),
+      paymentStatus: transaction.paymentStatus,
+      corsairConnectFlag: transaction.corsairConnectFlag,
+      createdAt: transaction.createdAt,
+    };
+  }
+
+  private async queueDelivery(deliveryId: string, transaction?: DbTransaction): Promise<void> {
+    await jobQueueService.enqueue(
+      OUTBOUND_WEBHOOK_JOB_TYPE,
+      { deliveryId },
+      { maxAttempts: MAX_DELIVERY_ATTEMPTS, transaction }
+    );
+  }
+
+  // ==========================================
+  // ENDPOINTS (merchant portal and admin)
+  // ==========================================
+
+  async getEndpoints(merchantId: string): Promise<WebhookEndpoint[]> {
+    return WebhookEndpoint.findAll({ where: { merchantId }, order: [['createdAt', 'ASC']] });
+  }
+
+  /**
+   * Register an endpoint - the signing secret is returned once
+   */
+  async createEndpoint(
+    merchantId: string,
+    input: EndpointInput,
+    createdBy: string
+  ): Promise<{ endpoint: WebhookEndpoint; secret: string }> {
+    const merchant = await Merchant.findByPk(merchantId);
+    if (!merchant) {
+      throw new Error('Merchant not found');
+    }
+
+    const count = await WebhookEndpoint.count({ where: { merchantId } });
+    if (count >= MAX_ENDPOINTS_PER_MERCHANT) {
+      throw new Error(`A merchant can register at most ${MAX_ENDPOINTS_PER_MERCHANT} webhook endpoints`);
+    }
+
+    const url = await this.validateUrl(input.url);
+    const secret = WebhookEndpoint.generateSecret();
+    const endpoint = await WebhookEndpoint.create({
+      merchantId,
+      url,
+      description: input.description || null,
+      secret,
+      events: this.validateEvents(input.events),
+      createdBy,
+    });
+
+    console.log(`🔔 Webhook endpoint ${endpoint.url} registered for merchant ${merchantId} by ${createdBy}`);
+
+    return { endpoint, secret };
+  }
+
+  async updateEndpoint(merchantId: string, endpointId: string, input: EndpointInput): Promise<WebhookEndpoint> {
+    const endpoint = await this.getEndpoint(merchantId, endpointId);
+
+    await endpoint.update({
+      ...(input.url !== undefined && { url: await this.validateUrl(input.url) }),
+      ...(input.description !== undefined && { description: input.description || null }),
+      ...(input.events !== undefined && { events: this.validateEvents(input.events) }),
+      ...(input.isActive !== undefined && { isActive: Boolean(input.isActive) }),
+    });
+
+    return endpoint;
+  }
+
+  /**
+   * Replace the signing secret - takes effect for the next attempt, including retries
+   */
+  async rotateEndpointSecret(merchantId: string, endpointId: string): Promise<{ endpoint: WebhookEndpoint; secret: string }> {
+    const endpoint = await this.getEndpoint(merchantId, endpointId);
+    const secret = WebhookEndpoint.generateSecret();
+
+    await endpoint.update({ secret });
+
+    return { endpoint, secret };
+  }
+
+  // Deleting an endpoint also deletes its delivery log
+  async deleteEndpoint(merchantId: string, endpointId: string): Promise<void> {
+    const endpoint = await this.getEndpoint(merchantId, endpointId);
+    await endpoint.destroy();
+  }
+
+  // ==========================================
+  // DELIVERY LOG
+  // ==========================================
+
+  async listDeliveries(merchantId: string, filters: DeliveryFilters = {}) {
+    const where: any = { merchantId };
+    if (filters.endpointId) where.endpointId = filters.endpointId;
+    if (filters.status) where.status = filters.status;
+    if (filters.eventType) where.eventType = filters.eventType;
+
+    const { rows, count } = await WebhookDelivery.findAndCountAll({
+      where,
+      attributes: { exclude: ['payload', 'responseBody'] },
+      include: [{ model: WebhookEndpoint, as: 'endpoint', attributes: ['id', 'url'] }],
+      order: [['createdAt', 'DESC']],
+      limit: Math.min(filters.limit || 50, 200),
+      offset: filters.offset || 0,
+    });
+
+    return { deliveries: rows, total: count };
+  }
+
+  /**
+   * One delivery with its payload - the endpoint's response body only for admins
+   * (merchants could otherwise read whatever their endpoint url returns)
+   */
+  async getDelivery(
+    merchantId: string,
+    deliveryId: string,
+    options: { includeResponseBody?: boolean } = {}
+  ): Promise<WebhookDelivery> {
+    const delivery = await WebhookDelivery.findOne({
+      where: { id: deliveryId, merchantId },
+      attributes: options.includeResponseBody ? undefined : { exclude: ['responseBody'] },
+      include: [{ model: WebhookEndpoint, as: 'endpoint', attributes: ['id', 'url'] }],
+    });
+    if (!delivery) {
+      throw new Error('Webhook delivery not found');
+    }
+    return delivery;
+  }
+
+  /**
+   * Send a delivery again with the same event id and payload
+   * Works for failed and succeeded deliveries; pending ones are already queued
+   */
+  async resendDelivery(merchantId: string, deliveryId: string, resentBy: string): Promise<WebhookDelivery> {
+    await sequelize.transaction(async (t) => {
+      const delivery = await WebhookDelivery.findOne({
+        where: { id: deliveryId, merchantId },
+        transaction: t,
+        lock: t.LOCK.UPDATE,
+      });
+      if (!delivery) {
+        throw new Error('Webhook delivery not found');
+      }
+      if (delivery.status === 'pending') {
+        throw new Error('Webhook delivery is already queued');
+      }
+
+      await delivery.update({ status: 'pending', lastResentBy: resentBy }, { transaction: t });
+      await this.queueDelivery(delivery.id, t);
+    });
+
+    console.log(`🔁 Webhook delivery ${deliveryId} resent by ${resentBy}`);
+
+    return this.getDelivery(merchantId, deliveryId);
+  }
+
+  private async getEndpoint(merchantId: string, endpointId: string): Promise<WebhookEndpoint> {
+    const endpoint = await WebhookEndpoint.findOne({ where: { id: endpointId, merchantId } });
+    if (!endpoint) {
+      throw new Error('Webhook endpoint not found');
+    }
+    return endpoint;
+  }
+
+  // HTTPS only in production - plain HTTP is allowed outside production; the host must be public
+  private async validateUrl(url?: string): Promise<string> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url || '');
+    } catch {
+      throw new Error('A valid endpoint url is required');
+    }
+
+    const allowedProtocols = env.nodeEnv === 'production' ? ['https:'] : ['https:', 'http:'];
+    if (!allowedProtocols.includes(parsed.protocol)) {
+      throw new Error(`Endpoint url must use ${allowedProtocols.join(' or ').replace(/:/g, '')}`);
+    }
+
+    await this.assertPublicHost(parsed.toString());
+
+    return parsed.toString();
+  }
+
+  // Resolve the url's host and reject it unless every address is public - returns the checked addresses
+  private async assertPublicHost(url: string): Promise<LookupAddress[]> {
+    const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+
+    let addresses: LookupAddress[];
+    if (net.isIP(host)) {
+      addresses = [{ address: host, family: net.isIP(host) }];
+    } else {
+      try {
+        addresses = await dns.lookup(host, { all: true });
+      } catch {
+        throw new Error(`Endpoint host ${host} could not be resolved`);
+      }
+    }
+
+    const nonPublic = addresses.some(({ address, family }) =>
+      NON_PUBLIC_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4')
+    );
+    if (addresses.length === 0 || nonPublic) {
+      throw new Error('Endpoint url must point to a public host - loopback, private and link-local addresses are not allowed');
+    }
+
+    return addresses;
+  }
+
+  // HTTP agent whose DNS lookup only answers with the given addresses
+  private pinnedAgent(addresses: LookupAddress[]): Agent {
+    return new Agent({
+      connect: {
+        lookup: (_hostname, options, callback) => {
+          if (options.all) {
+            callback(null, addresses);
+          } else {
+            callback(null, addresses[0].address, addresses[0].family);
+          }
+        },
+      },
+    });
+  }
+
+  private validateEvents(events?: string[]): OutboundWebhookEvent[] {
+    if (!Array.isArray(events) || events.length === 0) {
+      throw new Error(`At least one event is required: ${OUTBOUND_WEBHOOK_EVENTS.join(', ')}`);
+    }
+
+    const invalid = events.filter((event) => !(OUTBOUND_WEBHOOK_EVENTS as readonly string[]).includes(event));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid events: ${invalid.join(', ')}. Allowed: ${OUTBOUND_WEBHOOK_EVENTS.join(', ')}`);
+    }
+
+    return Array.from(new Set(events)) as OutboundWebhookEvent[];
+  }
+}
+
+export default new OutboundWebhookService();
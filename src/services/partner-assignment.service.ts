@@ -0,0 +1,262 @@
+// Partner Assignment Service - Which partner onboarded a merchant, over time
+// A merchant has at most one assigned partner at a time. Transactions created without an explicit
+// partnerId (partner URL param, WooCommerce meta or checkout metadata) default to the partner
+// assigned when they are created. Explicit attribution always wins.
+import { Op, fn, col, Transaction as DbTransaction } from 'sequelize';
+import {
+  sequelize, Partner, Merchant, PartnerMerchantAssignment, Transaction,
+} from '../database/models/index.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+interface AssignmentInput {
+  partnerId?: string;
+  startDate?: Date | string;
+  endDate?: Date | string | null;
+  note?: string | null;
+}
+
+class PartnerAssignmentService {
+  /**
+   * Partner assigned to a merchant at a point in time, if any
+   */
+  async getAssignedPartnerId(
+    merchantId: string,
+    at: Date = new Date(),
+    options: { transaction?: DbTransaction } = {}
+  ): Promise<string | undefined> {
+    const assignment = await PartnerMerchantAssignment.findOne({
+      where: {
+        merchantId,
+        startDate: { [Op.lte]: at },
+        [Op.or]: [{ endDate: null }, { endDate: { [Op.gt]: at } }],
+      },
+      attributes: ['partnerId'],
+      transaction: options.transaction,
+    });
+    return assignment?.partnerId;
+  }
+
+  /**
+   * Attribution history of a merchant - its assignments (newest first) and how its
+   * transactions are actually attributed, per partner
+   */
+  async getMerchantAttributionHistory(merchantId: string) {
+    const merchant = await Merchant.findByPk(merchantId, { attributes: ['id', 'name'] });
+    if (!merchant) {
+      throw new AppError('Merchant not found', 404);
+    }
+
+    const assignments = await PartnerMerchantAssignment.findAll({
+      where: { merchantId },
+      include: [{ model: Partner, as: 'partner', attributes: ['id', 'name'] }],
+      order: [['startDate', 'DESC']],
+    });
+
+    const rows = await Transaction.findAll({
+      where: { merchantId },
+      attributes: [
+        'partnerId',
+        [fn('COUNT', col('id')), 'transactionCount'],
+        [fn('MIN', col('created_at')), 'firstTransactionAt'],
+        [fn('MAX', col('created_at')), 'lastTransactionAt'],
+      ],
+      group: ['partnerId'],
+      raw: true,
+    }) as unknown as Array<{
+      partnerId: string | null;
+      transactionCount: string;
+      firstTransactionAt: Date;
+      lastTransactionAt: Date;
+    }>;
+
+    const partnerIds = rows.map(row => row.partnerId).filter((id): id is string => !!id);
+    const partners = await Partner.findAll({ where: { id: partnerIds }, attributes: ['id', 'name'] });
+    const partnersById = new Map(partners.map(partner => [partner.id, partner]));
+
+    return {
+      merchant,
+      assignments,
+      currentPartnerId: assignments.find(assignment => assignment.isActiveAt())?.partnerId || null,
+      attribution: rows
+        .map(row => ({
+          partner: row.partnerId ? partnersById.get(row.partnerId) || { id: row.partnerId, name: null } : null,
+          transactionCount: Number(row.transactionCount),
+          firstTransactionAt: row.firstTransactionAt,
+          lastTransactionAt: row.lastTransactionAt,
+        }))
+        .sort((a, b) => new Date(a.firstTransactionAt).getTime() - new Date(b.firstTransactionAt).getTime()),
+    };
+  }
+
+  /**
+   * Merchant assignments of a partner, newest first
+   */
+  async getPartnerAssignments(partnerId: string): Promise<PartnerMerchantAssignment[]> {
+    return PartnerMerchantAssignment.findAll({
+      where: { partnerId },
+      include: [{ model: Merchant, as: 'merchant', attributes: ['id', 'name', 'isActive'] }],
+      order: [['startDate', 'DESC']],
+    });
+  }
+
+  /**
+   * Assign a merchant to a partner (admin only)
+   * An open-ended assignment starting earlier is ended at the new start date (reassignment);
+   * any other overlap is rejected.
+   */
+  async createAssignment(merchantId: string, input: AssignmentInput, createdBy: string): Promise<PartnerMerchantAssignment> {
+    const [merchant, partner] = await Promise.all([
+      Merchant.findByPk(merchantId, { attributes: ['id'] }),
+      input.partnerId ? Partner.findByPk(input.partnerId, { attributes: ['id', 'isActive'] }) : null,
+    ]);
+    if (!merchant) {
+      throw new AppError('Merchant not found', 404);
+    }
+    if (!partner) {
+      throw new AppError('Partner not found', 404);
+    }
+    if (!partner.isActive) {
+      throw new AppError('Partner is inactive', 400);
+    }
+
+    const { startDate, endDate } = this.validateDates(input.startDate ?? new Date(), input.endDate ?? null);
+
+    const assignment = await sequelize.transaction(async (t) => {
+      await this.lockMerchantAssignments(merchantId, t);
+
+      const previous = await PartnerMerchantAssignment.findOne({
+        where: { merchantId, endDate: null, startDate: { [Op.lt]: startDate } },
+        transaction: t,
+      });
+      if (previous) {
+        if (previous.partnerId === partner.id) {
+          throw new AppError(`Merchant is already assigned to this partner (assignment ${previous.id})`, 409);
+        }
+        await previous.update({ endDate: startDate, endedBy: createdBy }, { transaction: t });
+      }
+
+      await this.assertNoOverlap(merchantId, startDate, endDate, t);
+
+      return PartnerMerchantAssignment.create({
+        partnerId: partner.id,
+        merchantId,
+        startDate,
+        endDate,
+        note: input.note ? String(input.note).trim() : null,
+        createdBy,
+      }, { transaction: t });
+    });
+
+    console.log(`🤝 Merchant ${merchantId} assigned to partner ${partner.id} from ${startDate.toISOString()} by ${createdBy}`);
+
+    return assignment;
+  }
+
+  /**
+   * Change the dates or note of an assignment (admin only) - the partner cannot change,
+   * end the assignment and create a new one instead
+   * Transactions already created keep their attribution.
+   */
+  async updateAssignment(
+    merchantId: string,
+    assignmentId: string,
+    input: AssignmentInput,
+    updatedBy: string
+  ): Promise<PartnerMerchantAssignment> {
+    if (input.partnerId !== undefined) {
+      throw new AppError('partnerId cannot be changed - end the assignment and create a new one', 400);
+    }
+
+    return sequelize.transaction(async (t) => {
+      await this.lockMerchantAssignments(merchantId, t);
+
+      const assignment = await PartnerMerchantAssignment.findOne({
+        where: { id: assignmentId, merchantId },
+        transaction: t,
+      });
+      if (!assignment) {
+        throw new AppError('Partner assignment not found', 404);
+      }
+
+      const { startDate, endDate } = this.validateDates(
+        input.startDate ?? assignment.startDate,
+        input.endDate !== undefined ? input.endDate : assignment.endDate
+      );
+      await this.assertNoOverlap(merchantId, startDate, endDate, t, assignment.id);
+
+      const ending = endDate && endDate.getTime() !== assignment.endDate?.getTime();
+      await assignment.update({
+        startDate,
+        endDate,
+        note: input.note !== undefined ? (input.note ? String(input.note).trim() : null) : assignment.note,
+        endedBy: endDate ? (ending ? updatedBy : assignment.endedBy) : null,
+      }, { transaction: t });
+
+      return assignment;
+    });
+  }
+
+  /**
+   * End an assignment (admin only) - transactions from the end date on are no longer attributed by default
+   */
+  async endAssignment(
+    merchantId: string,
+    assignmentId: string,
+    endedBy: string,
+    endDate: Date | string = new Date()
+  ): Promise<PartnerMerchantAssignment> {
+    const assignment = await PartnerMerchantAssignment.findOne({ where: { id: assignmentId, merchantId } });
+    if (!assignment) {
+      throw new AppError('Partner assignment not found', 404);
+    }
+    if (assignment.endDate && assignment.endDate <= new Date()) {
+      throw new AppError('Partner assignment has already ended', 409);
+    }
+
+    return this.updateAssignment(merchantId, assignmentId, { endDate }, endedBy);
+  }
+
+  private validateDates(startInput: Date | string, endInput: Date | string | null) {
+    const startDate = new Date(startInput);
+    if (isNaN(startDate.getTime())) {
+      throw new AppError('startDate must be a valid date', 400);
+    }
+    const endDate = endInput ? new Date(endInput) : null;
+    if (endDate && (isNaN(endDate.getTime()) || endDate <= startDate)) {
+      throw new AppError('endDate must be a valid date after startDate', 400);
+    }
+    return { startDate, endDate };
+  }
+
+  // Serialize assignment changes of one merchant - overlap checks read then write
+  private async lockMerchantAssignments(merchantId: string, t: DbTransaction) {
+    await sequelize.query('SELECT pg_advisory_xact_lock(hashtext(:key))', {
+      replacements: { key: `partner_merchant_assignments:${merchantId}` },
+      transaction: t,
+    });
+  }
+
+  private async assertNoOverlap(
+    merchantId: string,
+    startDate: Date,
+    endDate: Date | null,
+    t: DbTransaction,
+    excludeId?: string
+  ): Promise<void> {
+    const overlapping = await PartnerMerchantAssignment.findOne({
+      where: {
+        merchantId,
+        ...(excludeId ? { id: { [Op.ne]: excludeId } } : {}),
+        ...(endDate ? { startDate: { [Op.lt]: endDate } } : {}),
+        [Op.or]: [{ endDate: null }, { endDate: { [Op.gt]: startDate } }],
+      },
+      transaction: t,
+    });
+
+    if (overlapping) {
+      throw new AppError(`Assignment overlaps assignment ${overlapping.id} of this merchant`, 409);
+    }
+  }
+}
+
+export default new PartnerAssignmentService();
@@ -0,0 +1,190 @@
+// Partner Auth Service - Partner portal logins (magic link)
+// Same passwordless flow as merchant portal users; a session is bound to exactly one partner
+import jwt from 'jsonwebtoken';
+import { Op } from 'sequelize';
+import { env } from '../config/env.js';
+import { Partner, PartnerUser, PartnerMagicLink } from '../database/models/index.js';
+import { AppError } from '../middleware/errorHandler.js';
+import emailService from './email.service.js';
+
+// Partner session JWT payload - role 'partner' keeps it apart from user, merchant and admin tokens
+interface PartnerSessionPayload {
+  role: 'partner';
+  partnerUserId: string;
+  partnerId: string;
+}
+
+class PartnerAuthService {
+  private magicLinkExpiryMinutes: number = 15;
+  private sessionExpiryDays: number = 7;
+
+  /**
+   * Request a magic link for a partner portal user
+   * Always returns the same message so the endpoint does not reveal which emails exist
+   */
+  async requestMagicLink(email: string): Promise<{ success: boolean; message: string }> {
+    const message = 'If a partner account exists with this email, you will receive a login link shortly.';
+
+    const partnerUser = await PartnerUser.findOne({
+      where: { email: email.toLowerCase(), isActive: true },
+      include: [{ model: Partner, as: 'partner', attributes: ['id', 'name', 'isActive'] }],
+    });
+    const partner = (partnerUser as any)?.partner as Partner | undefined;
+
+    if (!partnerUser || !partner?.isActive) {
+      return { success: true, message };
+    }
+
+    // Invalidate any existing unused magic links for this user
+    await PartnerMagicLink.update(
+      { usedAt: new Date() },
+      { where: { partnerUserId: partnerUser.id, usedAt: null } }
+    );
+
+    const token = PartnerMagicLink.generateToken();
+    const expiresAt = new Date();
+    expiresAt.setMinutes(expiresAt.getMinutes() + this.magicLinkExpiryMinutes);
+
+    await PartnerMagicLink.create({
+      partnerUserId: partnerUser.id,
+      email: partnerUser.email,
+      token,
+      expiresAt,
+    });
+
+    await emailService.sendPartnerMagicLink(partnerUser.email, token, partner.name, partnerUser.name || undefined);
+
+    console.log(`✅ Partner magic link created for ${partnerUser.email} (partner ${partner.id})`);
+
+    return { success: true, message };
+  }
+
+  /**
+   * Verify a partner magic link token and create a portal session
+   */
+  async verifyMagicLink(token: string): Promise<{
+    success: boolean;
+    sessionToken?: string;
+    partnerUser?: PartnerUser;
+    partner?: { id: string; name: string };
+    error?: string;
+  }> {
+    const magicLink = await PartnerMagicLink.findOne({ where: { token } });
+
+    if (!magicLink) {
+      return { success: false, error: 'Invalid or expired magic link' };
+    }
+
+    if (!magicLink.isValid()) {
+      return {
+        success: false,
+        error: magicLink.usedAt ? 'This magic link has already been used' : 'This magic link has expired',
+      };
+    }
+
+    await magicLink.markAsUsed();
+
+    const partnerUser = await PartnerUser.findByPk(magicLink.partnerUserId);
+    const partner = partnerUser ? await Partner.findByPk(partnerUser.partnerId) : null;
+
+    if (!partnerUser || !partnerUser.isActive || !partner || !partner.isActive) {
+      return { success: false, error: 'Partner account is inactive' };
+    }
+
+    await partnerUser.update({ lastLoginAt: new Date() });
+
+    console.log(`✅ Partner magic link verified for ${partnerUser.email} - Session created`);
+
+    return {
+      success: true,
+      sessionToken: this.generateSessionToken(partnerUser),
+      partnerUser,
+      partner: { id: partner.id, name: partner.name },
+    };
+  }
+
+  /**
+   * Clean up expired partner magic links (run by the maintenance scheduler)
+   */
+  async cleanupExpiredLinks(): Promise<number> {
+    const result = await PartnerMagicLink.destroy({
+      where: { expiresAt: { [Op.lt]: new Date() } },
+    });
+
+    console.log(`🧹 Cleaned up ${result} expired partner magic links`);
+    return result;
+  }
+
+  // Generate partner portal session JWT
+  generateSessionToken(partnerUser: PartnerUser): string {
+    const payload: PartnerSessionPayload = {
+      role: 'partner',
+      partnerUserId: partnerUser.id,
+      partnerId: partnerUser.partnerId,
+    };
+
+    return jwt.sign(payload, env.jwt.secret, { expiresIn: `${this.sessionExpiryDays}d` });
+  }
+
+  /**
+   * Verify a partner session token
+   * Loads the user on every request so deactivation applies immediately
+   */
+  async verifySessionToken(token: string): Promise<PartnerUser | null> {
+    try {
+      const decoded = jwt.verify(token, env.jwt.secret) as Partial<PartnerSessionPayload>;
+      if (decoded.role !== 'partner' || !decoded.partnerUserId) {
+        return null;
+      }
+
+      const partnerUser = await PartnerUser.findByPk(decoded.partnerUserId);
+      if (!partnerUser || !partnerUser.isActive || partnerUser.partnerId !== decoded.partnerId) {
+        return null;
+      }
+
+      const partner = await Partner.findByPk(partnerUser.partnerId, { attributes: ['id', 'isActive'] });
+      if (!partner || !partner.isActive) {
+        return null;
+      }
+
+      return partnerUser;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // ==========================================
+  // PARTNER USERS (admin managed)
+  // ==========================================
+
+  async getPartnerUsers(partnerId: string): Promise<PartnerUser[]> {
+    return PartnerUser.findAll({ where: { partnerId }, order: [['createdAt', 'ASC']] });
+  }
+
+  async createPartnerUser(partnerId: string, data: { email: string; name?: string }, createdBy: string): Promise<PartnerUser> {
+    const partner = await Partner.findByPk(partnerId);
+    if (!partner) {
+      throw new AppError('Partner not found', 404);
+    }
+
+    const email = data.email.toLowerCase().trim();
+    const existing = await PartnerUser.findOne({ where: { email } });
+    if (existing) {
+      throw new AppError('A partner user with this email already exists', 409);
+    }
+
+    return PartnerUser.create({ partnerId, email, name: data.name || null, createdBy });
+  }
+
+  async deactivatePartnerUser(partnerId: string, partnerUserId: string): Promise<PartnerUser> {
+    const partnerUser = await PartnerUser.findOne({ where: { id: partnerUserId, partnerId } });
+    if (!partnerUser) {
+      throw new AppError('Partner user not found', 404);
+    }
+
+    await partnerUser.update({ isActive: false });
+    return partnerUser;
+  }
+}
+
+export default new PartnerAuthService();
@@ -0,0 +1,276 @@
+// Partner Portal Service - Partner-scoped views of attributed merchants, transactions and impact, and partner QR codes
+// Every query is restricted to transactions carrying the partner's id (Transaction.partnerId).
+// Customer identities are never exposed to partners.
+import { Op, fn, col, literal } from 'sequelize';
+import {
+  Partner, Merchant, PartnerMerchantAssignment, SKU, Transaction, PaymentStatus,
+} from '../database/models/index.js';
+import { AppError } from '../middleware/errorHandler.js';
+import qrcodeService from './qrcode.service.js';
+import { env } from '../config/env.js';
+
+interface PartnerTransactionFilters {
+  merchantId?: string;
+  paymentStatus?: PaymentStatus;
+  startDate?: Date;
+  endDate?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+interface PartnerQRCodeInput {
+  merchantId?: string;
+  format?: unknown;
+  includeLogo?: boolean;
+}
+
+const roundTo2 = (value: number) => Math.round(value * 100) / 100;
+
+// Net figures of completed transactions - partial refunds deducted
+const NET_AMOUNT = literal('SUM("amount" - "refunded_amount")');
+const NET_IMPACT = literal('SUM("calculated_impact" - "refunded_impact")');
+
+class PartnerPortalService {
+  async getPartner(partnerId: string) {
+    const partner = await Partner.findByPk(partnerId, {
+      attributes: ['id', 'name', 'email', 'contactPerson', 'isActive'],
+    });
+    if (!partner) {
+      throw new AppError('Partner not found', 404);
+    }
+    return partner;
+  }
+
+  /**
+   * Merchants assigned to the partner or with transactions attributed to it, with their
+   * completed totals and latest assignment
+   */
+  async getMerchants(partnerId: string) {
+    const where: any = { partnerId, merchantId: { [Op.ne]: null }, paymentStatus: PaymentStatus.COMPLETED };
+    const rows = await Transaction.findAll({
+      where,
+      attributes: [
+        'merchantId',
+        [fn('COUNT', col('id')), 'transactionCount'],
+        [NET_AMOUNT, 'netAmount'],
+        [NET_IMPACT, 'impactGrams'],
+        [fn('MIN', col('created_at')), 'firstTransactionAt'],
+        [fn('MAX', col('created_at')), 'lastTransactionAt'],
+      ],
+      group: ['merchantId'],
+      raw: true,
+    }) as unknown as Array<{
+      merchantId: string;
+      transactionCount: string;
+      netAmount: string;
+      impactGrams: string;
+      firstTransactionAt: Date;
+      lastTransactionAt: Date;
+    }>;
+
+    const assignments = await PartnerMerchantAssignment.findAll({
+      where: { partnerId },
+      attributes: ['merchantId', 'startDate', 'endDate'],
+      order: [['startDate', 'DESC']],
+    });
+    const assignmentsByMerchant = new Map<string, PartnerMerchantAssignment>();
+    for (const assignment of assignments) {
+      if (!assignmentsByMerchant.has(assignment.merchantId)) {
+        assignmentsByMerchant.set(assignment.merchantId, assignment);
+      }
+    }
+
+    const totalsByMerchant = new Map(rows.map(row => [row.merchantId, row]));
+    const merchantIds = [...new Set([...totalsByMerchant.keys(), ...assignmentsByMerchant.keys()])];
+
+    const merchants = await Merchant.findAll({
+      where: { id: merchantIds },
+      attributes: ['id', 'name', 'isActive'],
+    });
+    const merchantsById = new Map(merchants.map(merchant => [merchant.id, merchant]));
+
+    return merchantIds
+      .map(merchantId => {
+        const totals = totalsByMerchant.get(merchantId);
+        const assignment = assignmentsByMerchant.get(merchantId);
+        return {
+          merchant: merchantsById.get(merchantId) || { id: merchantId, name: null, isActive: false },
+          assignment: assignment
+            ? { startDate: assignment.startDate, endDate: assignment.endDate, isActive: assignment.isActiveAt() }
+            : null,
+          transactionCount: totals ? Number(totals.transactionCount) : 0,
+          netAmount: totals ? roundTo2(Number(totals.netAmount)) : 0,
+          impactGrams: totals ? roundTo2(Number(totals.impactGrams)) : 0,
+          firstTransactionAt: totals?.firstTransactionAt || null,
+          lastTransactionAt: totals?.lastTransactionAt || null,
+        };
+      })
+      .sort((a, b) => b.netAmount - a.netAmount);
+  }
+
+  /**
+   * Merchant the partner may attribute QR codes to - active, and assigned to the partner
+   * or with completed transactions already attributed to it
+   */
+  async getPartnerMerchant(partnerId: string, merchantId: string): Promise<Merchant> {
+    const merchant = await Merchant.findOne({ where: { id: merchantId, isActive: true }, attributes: ['id', 'name'] });
+    if (!merchant) {
+      throw new AppError('Merchant not found', 404);
+    }
+
+    const [assignment, attributed] = await Promise.all([
+      PartnerMerchantAssignment.findOne({ where: { partnerId, merchantId }, attributes: ['id'] }),
+      Transaction.findOne({ where: { partnerId, merchantId, paymentStatus: PaymentStatus.COMPLETED }, attributes: ['id'] }),
+    ]);
+    if (!assignment && !attributed) {
+      throw new AppError('Merchant is not assigned to this partner', 403);
+    }
+
+    return merchant;
+  }
+
+  /**
+   * QR code attributed to the partner, optionally for one of its merchants
+   */
+  async generateQRCode(partnerId: string, input: PartnerQRCodeInput & { skuCode: string; amount?: string | number }) {
+    const format = qrcodeService.validateFormat(input.format ?? 'png');
+    const sku = await qrcodeService.getActiveSKU(input.skuCode);
+    const merchant = input.merchantId ? await this.getPartnerMerchant(partnerId, input.merchantId) : null;
+    const partner = await this.getPartner(partnerId);
+
+    const qrCode = await qrcodeService.generateQRCode({
+      skuCode: sku.code,
+      baseUrl: env.frontend.url,
+      merchantId: merchant?.id,
+      partnerId,
+      amount: input.amount ? parseFloat(String(input.amount)) : undefined,
+      format,
+      includeLogo: input.includeLogo ?? false,
+    });
+
+    return {
+      ...qrCode,
+      merchant: merchant ? { id: merchant.id, name: merchant.name } : null,
+      partner: { id: partner.id, name: partner.name },
+      sku: { code: sku.code, name: sku.name },
+    };
+  }
+
+  /**
+   * QR codes for several SKUs attributed to the partner, optionally for one of its merchants
+   */
+  async generateBulkQRCodes(partnerId: string, input: PartnerQRCodeInput & { skuCodes: unknown }) {
+    const format = qrcodeService.validateFormat(input.format ?? 'png');
+    const skus = await qrcodeService.getActiveSKUs(input.skuCodes);
+    const merchant = input.merchantId ? await this.getPartnerMerchant(partnerId, input.merchantId) : null;
+    const partner = await this.getPartner(partnerId);
+
+    const qrCodes = await qrcodeService.generateBulkQRCodes(
+      skus.map(sku => sku.code),
+      env.frontend.url,
+      {
+        merchantId: merchant?.id,
+        partnerId,
+        format,
+        includeLogo: input.includeLogo ?? false,
+      }
+    );
+
+    return {
+      merchant: merchant ? { id: merchant.id, name: merchant.name } : null,
+      partner: { id: partner.id, name: partner.name },
+      qrCodes: qrCodes.map((qrCode, index) => ({ ...qrCode, sku: skus[index] })),
+    };
+  }
+
+  /**
+   * Attributed transactions, newest first - abandoned payments are not shown (as for merchants)
+   */
+  async listTransactions(partnerId: string, filters: PartnerTransactionFilters = {}) {
+    const where: any = { partnerId, paymentStatus: { [Op.ne]: PaymentStatus.EXPIRED } };
+    if (filters.merchantId) where.merchantId = filters.merchantId;
+    if (filters.paymentStatus) where.paymentStatus = filters.paymentStatus;
+    if (filters.startDate || filters.endDate) {
+      where.createdAt = {};
+      if (filters.startDate) where.createdAt[Op.gte] = filters.startDate;
+      if (filters.endDate) where.createdAt[Op.lte] = filters.endDate;
+    }
+
+    const { rows, count } = await Transaction.findAndCountAll({
+      where,
+      attributes: [
+        'id', 'merchantId', 'parentOrderId', 'amount', 'currency', 'originalAmount', 'calculatedImpact',
+        'paymentStatus', 'refundedAmount', 'refundedImpact', 'refundedAt', 'createdAt',
+      ],
+      include: [
+        { model: Merchant, as: 'merchant', attributes: ['id', 'name'] },
+        { model: SKU, as: 'sku', attributes: ['code', 'name'] },
+      ],
+      order: [['createdAt', 'DESC']],
+      limit: Math.min(filters.limit || 50, 200),
+      offset: filters.offset || 0,
+    });
+
+    return { transactions: rows, total: count };
+  }
+
+  /**
+   * Completed totals of the partner, overall and per UTC month
+   */
+  async getImpactSummary(partnerId: string, range: { startDate?: Date; endDate?: Date } = {}) {
+    const where: any = { partnerId, paymentStatus: PaymentStatus.COMPLETED };
+    if (range.startDate || range.endDate) {
+      where.createdAt = {};
+      if (range.startDate) where.createdAt[Op.gte] = range.startDate;
+      if (range.endDate) where.createdAt[Op.lte] = range.endDate;
+    }
+
+    const month = literal(`to_char(date_trunc('month', "created_at" AT TIME ZONE 'UTC'), 'YYYY-MM')`);
+    const rows = await Transaction.findAll({
+      where,
+      attributes: [
+        [month, 'month'],
+        [fn('COUNT', col('id')), 'transactionCount'],
+        [fn('COUNT', fn('DISTINCT', col('merchant_id'))), 'merchantCount'],
+        [NET_AMOUNT, 'netAmount'],
+        [NET_IMPACT, 'impactGrams'],
+      ],
+      group: [month as any],
+      order: [[month, 'ASC']],
+      raw: true,
+    }) as unknown as Array<{
+      month: string;
+      transactionCount: string;
+      merchantCount: string;
+      netAmount: string;
+      impactGrams: string;
+    }>;
+
+    const byMonth = rows.map(row => ({
+      month: row.month,
+      transactionCount: Number(row.transactionCount),
+      merchantCount: Number(row.merchantCount),
+      netAmount: roundTo2(Number(row.netAmount)),
+      impactGrams: roundTo2(Number(row.impactGrams)),
+    }));
+
+    const merchantCount = await Transaction.count({
+      where: { ...where, merchantId: { [Op.ne]: null } },
+      distinct: true,
+      col: 'merchantId',
+    });
+
+    return {
+      totals: {
+        transactionCount: byMonth.reduce((sum, row) => sum + row.transactionCount, 0),
+        merchantCount,
+        netAmount: roundTo2(byMonth.reduce((sum, row) => sum + row.netAmount, 0)),
+        impactGrams: roundTo2(byMonth.reduce((sum, row) => sum + row.impactGrams, 0)),
+        impactKg: roundTo2(byMonth.reduce((sum, row) => sum + row.impactGrams, 0) / 1000),
+      },
+      byMonth,
+    };
+  }
+}
+
+export default new PartnerPortalService();
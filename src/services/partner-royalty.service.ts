@@ -0,0 +1,740 @@
+// Partner Royalty Service - Partner agreements, monthly close and royalty invoices
+// Transactions attributed to a partner (Transaction.partnerId) earn royalties under the partner's
+// agreement in force when the transaction was created:
+// - PERCENTAGE: rate percent of the net EUR amount
+// - PER_KG: rate EUR per kg of net plastic impact
+// - TIERED: marginal percentage bands on the month's net EUR amount under that agreement
+// The monthly close computes one numbered invoice per partner and month from COMPLETED
+// transactions, refunds deducted. Drafts are recomputed by every close and when issued;
+// issued and paid invoices are frozen, so later refunds are not re-invoiced.
+import PDFDocument from 'pdfkit';
+import { Op, Transaction as DbTransaction } from 'sequelize';
+import {
+  sequelize, Partner, PartnerAgreement, PartnerInvoice, Transaction, PaymentStatus,
+} from '../database/models/index.js';
+import { RoyaltyTier, RoyaltyType } from '../database/models/PartnerAgreement.js';
+import {
+  PartnerBillingDetails, PartnerInvoiceLine, PartnerInvoiceStatus,
+} from '../database/models/PartnerInvoice.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+const INVOICE_NUMBER_PREFIX = 'PRT';
+const PAYMENT_TERMS_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTH_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+
+interface AgreementInput {
+  royaltyType?: RoyaltyType;
+  rate?: number | null;
+  tiers?: RoyaltyTier[] | null;
+  effectiveFrom?: Date | string;
+  effectiveTo?: Date | string | null;
+  note?: string | null;
+}
+
+interface InvoiceFilters {
+  partnerId?: string;
+  status?: PartnerInvoiceStatus;
+  month?: string; // YYYY-MM
+  issuedOnly?: boolean; // Hide drafts - partner portal
+  limit?: number;
+  offset?: number;
+}
+
+// Royalty figures of one partner and month
+interface PartnerMonthRoyalty {
+  lines: PartnerInvoiceLine[];
+  transactionCount: number;
+  amountTotal: number;
+  impactGrams: number;
+  royaltyTotal: number;
+}
+
+const roundTo2 = (value: number) => Math.round(value * 100) / 100;
+
+const formatEur = (value: number) => `€${Number(value).toFixed(2)}`;
+
+const formatDate = (date: Date | string) => new Date(date).toISOString().split('T')[0];
+
+class PartnerRoyaltyService {
+  // ==========================================
+  // AGREEMENTS
+  // ==========================================
+
+  /**
+   * Agreements of a partner, newest first
+   */
+  async getAgreements(partnerId: string): Promise<PartnerAgreement[]> {
+    return PartnerAgreement.findAll({
+      where: { partnerId },
+      order: [['effectiveFrom', 'DESC']],
+    });
+  }
+
+  async getAgreement(partnerId: string, agreementId: string): Promise<PartnerAgreement> {
+    const agreement = await PartnerAgreement.findOne({ where: { id: agreementId, partnerId } });
+    if (!agreement) {
+      throw new AppError('Partner agreement not found', 404);
+    }
+    return agreement;
+  }
+
+  /**
+   * Create an agreement (admin only) - it may not overlap another agreement of the partner
+   */
+  async createAgreement(partnerId: string, input: AgreementInput, createdBy: string): Promise<PartnerAgreement> {
+    const partner = await Partner.findByPk(partnerId);
+    if (!partner) {
+      throw new AppError('Partner not found', 404);
+    }
+
+    const data = this.validateAgreement(input);
+
+    const agreement = await sequelize.transaction(async (t) => {
+      await this.lockPartnerAgreements(partnerId, t);
+      await this.assertNoOverlap(partnerId, data.effectiveFrom, data.effectiveTo, t);
+      return PartnerAgreement.create({ partnerId, ...data, createdBy }, { transaction: t });
+    });
+
+    console.log(`🤝 Partner agreement ${agreement.royaltyType} created for partner ${partnerId} from ${agreement.effectiveFrom.toISOString()} by ${createdBy}`);
+
+    return agreement;
+  }
+
+  /**
+   * Update an agreement (admin only) - omitted fields keep their value
+   * Once an issued invoice used the agreement only its end date can change, and not into an invoiced month
+   */
+  async updateAgreement(partnerId: string, agreementId: string, input: AgreementInput): Promise<PartnerAgreement> {
+    return sequelize.transaction(async (t) => {
+      await this.lockPartnerAgreements(partnerId, t);
+      const agreement = await this.getAgreement(partnerId, agreementId);
+
+      const data = this.validateAgreement({
+        royaltyType: input.royaltyType ?? agreement.royaltyType,
+        rate: input.rate !== undefined ? input.rate : agreement.rate,
+        tiers: input.tiers !== undefined ? input.tiers : agreement.tiers,
+        effectiveFrom: input.effectiveFrom ?? agreement.effectiveFrom,
+        effectiveTo: input.effectiveTo !== undefined ? input.effectiveTo : agreement.effectiveTo,
+        note: input.note !== undefined ? input.note : agreement.note,
+      });
+
+      const lastInvoicedEnd = await this.getLastInvoicedPeriodEnd(agreement.id, t);
+      if (lastInvoicedEnd) {
+        const termsChanged = data.royaltyType !== agreement.royaltyType
+          || Number(data.rate ?? 0) !== Number(agreement.rate ?? 0)
+          || JSON.stringify(data.tiers) !== JSON.stringify(agreement.tiers)
+          || data.effectiveFrom.getTime() !== agreement.effectiveFrom.getTime();
+        if (termsChanged) {
+          throw new AppError('Agreement is used by an issued invoice - end it and create a new agreement instead', 409);
+        }
+        if (data.effectiveTo && data.effectiveTo < lastInvoicedEnd) {
+          throw new AppError(`Agreement is invoiced until ${lastInvoicedEnd.toISOString()} - it cannot end earlier`, 409);
+        }
+      }
+
+      await this.assertNoOverlap(partnerId, data.effectiveFrom, data.effectiveTo, t, agreement.id);
+      await agreement.update(data, { transaction: t });
+
+      return agreement;
+    });
+  }
+
+  /**
+   * Delete an agreement (admin only) - only while no issued invoice used it
+   */
+  async deleteAgreement(partnerId: string, agreementId: string): Promise<void> {
+    await sequelize.transaction(async (t) => {
+      await this.lockPartnerAgreements(partnerId, t);
+      const agreement = await this.getAgreement(partnerId, agreementId);
+
+      if (await this.getLastInvoicedPeriodEnd(agreement.id, t)) {
+        throw new AppError('Agreement is used by an issued invoice - end it instead', 409);
+      }
+
+      await agreement.destroy({ transaction: t });
+    });
+  }
+
+  /**
+   * Validate and normalize agreement fields
+   */
+  private validateAgreement(input: AgreementInput) {
+    const royaltyType = input.royaltyType;
+    if (!royaltyType || !Object.values(RoyaltyType).includes(royaltyType)) {
+      throw new AppError(`royaltyType must be one of: ${Object.values(RoyaltyType).join(', ')}`, 400);
+    }
+
+    const effectiveFrom = input.effectiveFrom ? new Date(input.effectiveFrom) : null;
+    if (!effectiveFrom || isNaN(effectiveFrom.getTime())) {
+      throw new AppError('effectiveFrom must be a valid date', 400);
+    }
+    const effectiveTo = input.effectiveTo ? new Date(input.effectiveTo) : null;
+    if (effectiveTo && (isNaN(effectiveTo.getTime()) || effectiveTo <= effectiveFrom)) {
+      throw new AppError('effectiveTo must be a valid date after effectiveFrom', 400);
+    }
+
+    let rate: number | null = null;
+    let tiers: RoyaltyTier[] | null = null;
+
+    if (royaltyType === RoyaltyType.TIERED) {
+      tiers = this.validateTiers(input.tiers);
+    } else {
+      rate = Number(input.rate);
+      if (input.rate === undefined || input.rate === null || isNaN(rate) || rate < 0) {
+        throw new AppError('rate must be a non-negative number', 400);
+      }
+      if (royaltyType === RoyaltyType.PERCENTAGE && rate > 100) {
+        throw new AppError('Percentage rate cannot exceed 100', 400);
+      }
+    }
+
+    return {
+      royaltyType,
+      rate,
+      tiers,
+      effectiveFrom,
+      effectiveTo,
+      note: input.note ? String(input.note).trim() : null,
+    };
+  }
+
+  /**
+   * Bands must ascend and end with an open-ended band
+   */
+  private validateTiers(input?: RoyaltyTier[] | null): RoyaltyTier[] {
+    if (!Array.isArray(input) || input.length === 0) {
+      throw new AppError('tiers are required for TIERED agreements', 400);
+    }
+
+    let previous = 0;
+    return input.map((tier, index) => {
+      const isLast = index === input.length - 1;
+      const percentage = Number(tier?.percentage);
+      if (isNaN(percentage) || percentage < 0 || percentage > 100) {
+        throw new AppError('Tier percentage must be between 0 and 100', 400);
+      }
+
+      if (isLast) {
+        if (tier.upToAmount !== null && tier.upToAmount !== undefined) {
+          throw new AppError('The last tier must be open-ended (upToAmount: null)', 400);
+        }
+        return { upToAmount: null, percentage };
+      }
+
+      const upToAmount = Number(tier.upToAmount);
+      if (tier.upToAmount === null || tier.upToAmount === undefined || isNaN(upToAmount) || upToAmount <= previous) {
+        throw new AppError('Tier upToAmount values must be positive and ascending', 400);
+      }
+      previous = upToAmount;
+      return { upToAmount, percentage };
+    });
+  }
+
+  // Serialize agreement changes of one partner - overlap checks read then write
+  private async lockPartnerAgreements(partnerId: string, t: DbTransaction) {
+    await sequelize.query('SELECT pg_advisory_xact_lock(hashtext(:key))', {
+      replacements: { key: `partner_agreements:${partnerId}` },
+      transaction: t,
+    });
+  }
+
+  private async assertNoOverlap(
+    partnerId: string,
+    effectiveFrom: Date,
+    effectiveTo: Date | null,
+    t: DbTransaction,
+    excludeId?: string
+  ): Promise<void> {
+    const overlapping = await PartnerAgreement.findOne({
+      where: {
+        partnerId,
+        ...(excludeId ? { id: { [Op.ne]: excludeId } } : {}),
+        ...(effectiveTo ? { effectiveFrom: { [Op.lt]: effectiveTo } } : {}),
+        [Op.or]: [{ effectiveTo: null }, { effectiveTo: { [Op.gt]: effectiveFrom } }],
+      },
+      transaction: t,
+    });
+
+    if (overlapping) {
+      throw new AppError(`Agreement overlaps agreement ${overlapping.id} of this partner`, 409);
+    }
+  }
+
+  /**
+   * End of the last issued or paid invoice period that used the agreement, if any
+   */
+  private async getLastInvoicedPeriodEnd(agreementId: string, t?: DbTransaction): Promise<Date | null> {
+    const invoice = await PartnerInvoice.findOne({
+      where: {
+        status: { [Op.in]: [PartnerInvoiceStatus.ISSUED, PartnerInvoiceStatus.PAID] },
+        lines: { [Op.contains]: [{ agreementId }] },
+      } as any,
+      order: [['periodEnd', 'DESC']],
+      transaction: t,
+    });
+    return invoice ? invoice.periodEnd : null;
+  }
+
+  // ==========================================
+  // ROYALTY CALCULATION
+  // ==========================================
+
+  /**
+   * Royalty in EUR of a net amount and impact under an agreement
+   * TIERED bands apply marginally: each band's share of the amount at its own percentage
+   */
+  calculateRoyalty(
+    agreement: Pick<PartnerAgreement, 'royaltyType' | 'rate' | 'tiers'>,
+    amountEur: number,
+    impactGrams: number
+  ): number {
+    switch (agreement.royaltyType) {
+      case RoyaltyType.PER_KG:
+        return roundTo2((impactGrams / 1000) * Number(agreement.rate));
+      case RoyaltyType.TIERED: {
+        let royalty = 0;
+        let bandStart = 0;
+        for (const tier of agreement.tiers || []) {
+          const bandEnd = tier.upToAmount ?? Infinity;
+          royalty += Math.max(0, Math.min(amountEur, bandEnd) - bandStart) * (tier.percentage / 100);
+          if (amountEur <= bandEnd) break;
+          bandStart = bandEnd;
+        }
+        return roundTo2(royalty);
+      }
+      default:
+        return roundTo2(amountEur * (Number(agreement.rate) / 100));
+    }
+  }
+
+  /**
+   * Royalty lines of a partner for a period - one per agreement in force, plus one for
+   * transactions no agreement covered
+   */
+  async calculatePartnerRoyalty(partnerId: string, periodStart: Date, periodEnd: Date): Promise<PartnerMonthRoyalty> {
+    const [transactions, agreements] = await Promise.all([
+      Transaction.findAll({
+        where: {
+          partnerId,
+          paymentStatus: PaymentStatus.COMPLETED,
+          createdAt: { [Op.gte]: periodStart, [Op.lt]: periodEnd },
+        },
+        attributes: ['id', 'amount', 'refundedAmount', 'calculatedImpact', 'refundedImpact', 'createdAt'],
+        order: [['createdAt', 'ASC']],
+      }),
+      PartnerAgreement.findAll({
+        where: {
+          partnerId,
+          effectiveFrom: { [Op.lt]: periodEnd },
+          [Op.or]: [{ effectiveTo: null }, { effectiveTo: { [Op.gt]: periodStart } }],
+        },
+        order: [['effectiveFrom', 'ASC']],
+      }),
+    ]);
+
+    const groups = new Map<string | null, { amount: number; impactGrams: number; count: number }>(
+      agreements.map(agreement => [agreement.id, { amount: 0, impactGrams: 0, count: 0 }])
+    );
+    for (const transaction of transactions) {
+      const agreement = agreements.find(a => a.isActiveAt(transaction.createdAt));
+      const key = agreement ? agreement.id : null;
+      const group = groups.get(key) || { amount: 0, impactGrams: 0, count: 0 };
+      group.amount += Number(transaction.amount) - Number(transaction.refundedAmount);
+      group.impactGrams += Number(transaction.calculatedImpact) - Number(transaction.refundedImpact);
+      group.count++;
+      groups.set(key, group);
+    }
+
+    const lines: PartnerInvoiceLine[] = [];
+    for (const [agreementId, group] of groups) {
+      const agreement = agreements.find(a => a.id === agreementId);
+      const amount = roundTo2(group.amount);
+      const impactGrams = roundTo2(group.impactGrams);
+
+      lines.push({
+        agreementId,
+        royaltyType: agreement?.royaltyType ?? null,
+        rate: agreement?.rate !== null && agreement?.rate !== undefined ? Number(agreement.rate) : null,
+        tiers: agreement?.tiers ?? null,
+        from: (agreement && agreement.effectiveFrom > periodStart ? agreement.effectiveFrom : periodStart).toISOString(),
+        to: (agreement?.effectiveTo && agreement.effectiveTo < periodEnd ? agreement.effectiveTo : periodEnd).toISOString(),
+        transactionCount: group.count,
+        amount,
+        impactGrams,
+        royalty: agreement ? this.calculateRoyalty(agreement, amount, impactGrams) : 0,
+      });
+    }
+
+    return {
+      lines,
+      transactionCount: transactions.length,
+      amountTotal: roundTo2(lines.reduce((sum, line) => sum + line.amount, 0)),
+      impactGrams: roundTo2(lines.reduce((sum, line) => sum + line.impactGrams, 0)),
+      royaltyTotal: roundTo2(lines.reduce((sum, line) => sum + line.royalty, 0)),
+    };
+  }
+
+  // ==========================================
+  // MONTHLY CLOSE
+  // ==========================================
+
+  /**
+   * UTC bounds of a YYYY-MM month - end exclusive
+   */
+  getMonthBounds(month: string): { periodStart: Date; periodEnd: Date } {
+    const match = MONTH_PATTERN.exec(month || '');
+    if (!match) {
+      throw new AppError('month must be in YYYY-MM format', 400);
+    }
+    const year = Number(match[1]);
+    const monthIndex = Number(match[2]) - 1;
+    return {
+      periodStart: new Date(Date.UTC(year, monthIndex, 1)),
+      periodEnd: new Date(Date.UTC(year, monthIndex + 1, 1)),
+    };
+  }
+
+  /**
+   * Previous calendar month (UTC) as YYYY-MM - closed by the scheduler on the 1st
+   */
+  getPreviousMonth(now: Date = new Date()): string {
+    const previous = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+    return `${previous.getUTCFullYear()}-${String(previous.getUTCMonth() + 1).padStart(2, '0')}`;
+  }
+
+  /**
+   * Compute the month's royalty invoices for every partner with an agreement in force
+   * New invoices are created as DRAFT (none when the partner had no transactions); existing drafts
+   * are recomputed; issued and paid invoices are left untouched. Safe to re-run.
+   * @param closedBy - Admin email or 'scheduler'
+   */
+  async closeMonth(month: string, closedBy: string) {
+    const { periodStart, periodEnd } = this.getMonthBounds(month);
+    if (periodEnd > new Date()) {
+      throw new AppError('Only past months can be closed', 400);
+    }
+
+    const agreements = await PartnerAgreement.findAll({
+      where: {
+        effectiveFrom: { [Op.lt]: periodEnd },
+        [Op.or]: [{ effectiveTo: null }, { effectiveTo: { [Op.gt]: periodStart } }],
+      },
+      attributes: ['partnerId'],
+    });
+    const partnerIds = [...new Set(agreements.map(agreement => agreement.partnerId))];
+
+    const result = { month, created: 0, updated: 0, frozen: 0, skipped: 0, invoiceIds: [] as string[] };
+
+    for (const partnerId of partnerIds) {
+      const outcome = await sequelize.transaction(async (t) => {
+        // Serialize numbering and concurrent closes of the same month
+        await sequelize.query('LOCK TABLE "partner_invoices" IN SHARE ROW EXCLUSIVE MODE', { transaction: t });
+
+        const existing = await PartnerInvoice.findOne({ where: { partnerId, periodStart }, transaction: t });
+        if (existing && existing.status !== PartnerInvoiceStatus.DRAFT) {
+          return { status: 'frozen' as const, invoiceId: existing.id };
+        }
+
+        const royalty = await this.calculatePartnerRoyalty(partnerId, periodStart, periodEnd);
+        if (!existing && royalty.transactionCount === 0) {
+          return { status: 'skipped' as const, invoiceId: null };
+        }
+
+        const billingDetails = await this.getBillingDetails(partnerId, t);
+        if (existing) {
+          await existing.update({ ...royalty, billingDetails, calculatedAt: new Date() }, { transaction: t });
+          return { status: 'updated' as const, invoiceId: existing.id };
+        }
+
+        const invoice = await PartnerInvoice.create({
+          invoiceNumber: await this.nextInvoiceNumber(t),
+          partnerId,
+          periodStart,
+          periodEnd,
+          ...royalty,
+          billingDetails,
+          createdBy: closedBy,
+          calculatedAt: new Date(),
+        }, { transaction: t });
+        return { status: 'created' as const, invoiceId: invoice.id };
+      });
+
+      result[outcome.status]++;
+      if (outcome.invoiceId) result.invoiceIds.push(outcome.invoiceId);
+    }
+
+    console.log(`🧾 Partner monthly close ${month} by ${closedBy} - ${result.created} created, ${result.updated} updated, ${result.frozen} already issued`);
+
+    return result;
+  }
+
+  /**
+   * Next PRT-YYYY-NNNN number of the current year - caller holds the partner_invoices table lock
+   */
+  private async nextInvoiceNumber(t: DbTransaction): Promise<string> {
+    const prefix = `${INVOICE_NUMBER_PREFIX}-${new Date().getUTCFullYear()}-`;
+    const last = await PartnerInvoice.findOne({
+      where: { invoiceNumber: { [Op.like]: `${prefix}%` } },
+      order: [['invoiceNumber', 'DESC']],
+      transaction: t,
+    });
+    const sequence = last ? parseInt(last.invoiceNumber.slice(prefix.length), 10) + 1 : 1;
+    return `${prefix}${String(sequence).padStart(4, '0')}`;
+  }
+
+  private async getBillingDetails(partnerId: string, t?: DbTransaction): Promise<PartnerBillingDetails> {
+    const partner = await Partner.findByPk(partnerId, { transaction: t });
+    if (!partner) {
+      throw new AppError('Partner not found', 404);
+    }
+    return {
+      name: partner.name,
+      contactPerson: partner.contactPerson,
+      email: partner.email,
+      billingAddress: partner.billingAddress || null,
+    };
+  }
+
+  // ==========================================
+  // INVOICES
+  // ==========================================
+
+  async listInvoices(filters: InvoiceFilters = {}) {
+    const where: any = {};
+    if (filters.partnerId) where.partnerId = filters.partnerId;
+    if (filters.status) where.status = filters.status;
+    if (filters.issuedOnly) {
+      if (filters.status === PartnerInvoiceStatus.DRAFT) return { invoices: [], total: 0 };
+      where.status = filters.status || { [Op.ne]: PartnerInvoiceStatus.DRAFT };
+    }
+    if (filters.month) where.periodStart = this.getMonthBounds(filters.month).periodStart;
+
+    const { rows, count } = await PartnerInvoice.findAndCountAll({
+      where,
+      attributes: { exclude: ['lines'] },
+      include: [{ model: Partner, as: 'partner', attributes: ['id', 'name'] }],
+      order: [['periodStart', 'DESC'], ['invoiceNumber', 'DESC']],
+      limit: Math.min(filters.limit || 50, 200),
+      offset: filters.offset || 0,
+    });
+
+    return { invoices: rows, total: count };
+  }
+
+  /**
+   * @param partnerId - Restricts the lookup to one partner's issued and paid invoices (partner portal)
+   */
+  async getInvoice(invoiceId: string, partnerId?: string): Promise<PartnerInvoice> {
+    const invoice = await PartnerInvoice.findOne({
+      where: {
+        id: invoiceId,
+        ...(partnerId ? { partnerId, status: { [Op.ne]: PartnerInvoiceStatus.DRAFT } } : {}),
+      },
+      include: [{ model: Partner, as: 'partner', attributes: ['id', 'name'] }],
+    });
+    if (!invoice) {
+      throw new AppError('Partner invoice not found', 404);
+    }
+    return invoice;
+  }
+
+  /**
+   * Issue a draft (admin only) - recomputed one last time, then frozen with its due date
+   */
+  async issueInvoice(invoiceId: string, issuedBy: string): Promise<PartnerInvoice> {
+    const invoice = await sequelize.transaction(async (t) => {
+      const locked = await PartnerInvoice.findByPk(invoiceId, { transaction: t, lock: t.LOCK.UPDATE });
+      if (!locked) {
+        throw new AppError('Partner invoice not found', 404);
+      }
+      if (locked.status !== PartnerInvoiceStatus.DRAFT) {
+        throw new AppError(`Only DRAFT invoices can be issued - invoice is ${locked.status}`, 409);
+      }
+
+      const royalty = await this.calculatePartnerRoyalty(locked.partnerId, locked.periodStart, locked.periodEnd);
+      const issuedAt = new Date();
+      await locked.update({
+        ...royalty,
+        billingDetails: await this.getBillingDetails(locked.partnerId, t),
+        calculatedAt: issuedAt,
+        status: PartnerInvoiceStatus.ISSUED,
+        issuedAt,
+        issuedBy,
+        dueAt: new Date(issuedAt.getTime() + PAYMENT_TERMS_DAYS * DAY_MS),
+      }, { transaction: t });
+
+      return locked;
+    });
+
+    console.log(`🧾 Partner invoice ${invoice.invoiceNumber} issued by ${issuedBy} - ${formatEur(invoice.royaltyTotal)}`);
+
+    return invoice;
+  }
+
+  /**
+   * Record the payment of an issued invoice (admin only)
+   */
+  async markInvoicePaid(invoiceId: string, data: { paidAt?: Date | string; paymentReference?: string }): Promise<PartnerInvoice> {
+    const paidAt = data.paidAt ? new Date(data.paidAt) : new Date();
+    if (isNaN(paidAt.getTime())) {
+      throw new AppError('paidAt must be a valid date', 400);
+    }
+
+    return sequelize.transaction(async (t) => {
+      const invoice = await PartnerInvoice.findByPk(invoiceId, { transaction: t, lock: t.LOCK.UPDATE });
+      if (!invoice) {
+        throw new AppError('Partner invoice not found', 404);
+      }
+      if (invoice.status !== PartnerInvoiceStatus.ISSUED) {
+        throw new AppError(`Only ISSUED invoices can be marked as paid - invoice is ${invoice.status}`, 409);
+      }
+
+      await invoice.update({
+        status: PartnerInvoiceStatus.PAID,
+        paidAt,
+        paymentReference: data.paymentReference || null,
+      }, { transaction: t });
+
+      return invoice;
+    });
+  }
+
+  /**
+   * Invoice PDF, rendered from the stored invoice - drafts are marked as such
+   */
+  async generateInvoicePDF(invoiceId: string, partnerId?: string): Promise<{ invoice: PartnerInvoice; pdf: Buffer }> {
+    const invoice = await this.getInvoice(invoiceId, partnerId);
+    const billing = invoice.billingDetails;
+
+    const pdf = await new Promise<Buffer>((resolve, reject) => {
+      const doc = new PDFDocument({
+        size: 'A4',
+        margins: { top: 50, bottom: 50, left: 60, right: 60 },
+      });
+
+      const buffers: Buffer[] = [];
+      doc.on('data', (buffer) => buffers.push(buffer));
+      doc.on('end', () => resolve(Buffer.concat(buffers)));
+      doc.on('error', reject);
+
+      // Header
+      doc
+        .fontSize(24)
+        .font('Helvetica-Bold')
+        .fillColor('#047857')
+        .text('Royalty Invoice', { align: 'left' });
+
+      if (invoice.status === PartnerInvoiceStatus.DRAFT) {
+        doc
+          .fontSize(12)
+          .fillColor('#B91C1C')
+          .text('DRAFT - not a valid invoice', { align: 'left' });
+      }
+
+      doc.moveDown(0.5);
+
+      doc
+        .fontSize(11)
+        .font('Helvetica')
+        .fillColor('#374151')
+        .text(`Invoice number: ${invoice.invoiceNumber}`)
+        .text(`Period: ${formatDate(invoice.periodStart)} to ${formatDate(new Date(invoice.periodEnd.getTime() - 1))}`)
+        .text(`Issue date: ${invoice.issuedAt ? formatDate(invoice.issuedAt) : '-'}`)
+        .text(`Due date: ${invoice.dueAt ? formatDate(invoice.dueAt) : '-'}`)
+        .text(`Status: ${invoice.status}${invoice.paidAt ? ` (paid ${formatDate(invoice.paidAt)})` : ''}`);
+
+      doc.moveDown(1);
+
+      // Billed party
+      doc.fontSize(12).font('Helvetica-Bold').fillColor('#047857').text('Billed To');
+      doc
+        .fontSize(11)
+        .font('Helvetica')
+        .fillColor('#374151')
+        .text(billing.name)
+        .text(`Attn: ${billing.contactPerson}`)
+        .text(billing.email);
+      if (billing.billingAddress) {
+        doc.text(billing.billingAddress);
+      }
+
+      doc.moveDown(1.5);
+
+      // Lines
+      doc.fontSize(12).font('Helvetica-Bold').fillColor('#047857').text('Royalties');
+      doc.moveDown(0.5);
+
+      const columns = [
+        { label: 'Terms', x: 60, width: 150 },
+        { label: 'Dates', x: 210, width: 110 },
+        { label: 'Transactions', x: 320, width: 65 },
+        { label: 'Net amount', x: 385, width: 75 },
+        { label: 'Royalty', x: 460, width: 75 },
+      ];
+      const drawRow = (values: string[], bold = false) => {
+        const y = doc.y;
+        doc.fontSize(9).font(bold ? 'Helvetica-Bold' : 'Helvetica').fillColor('#374151');
+        columns.forEach((column, index) => {
+          doc.text(values[index], column.x, y, { width: column.width, align: index >= 2 ? 'right' : 'left' });
+        });
+        doc.moveDown(0.6);
+      };
+
+      drawRow(columns.map(column => column.label), true);
+      for (const line of invoice.lines) {
+        drawRow([
+          this.describeTerms(line),
+          `${formatDate(line.from)} - ${formatDate(new Date(new Date(line.to).getTime() - 1))}`,
+          String(line.transactionCount),
+          formatEur(line.amount),
+          formatEur(line.royalty),
+        ]);
+      }
+
+      doc.moveDown(0.5);
+      drawRow([
+        'Total',
+        `${(Number(invoice.impactGrams) / 1000).toFixed(3)} kg impact`,
+        String(invoice.transactionCount),
+        formatEur(invoice.amountTotal),
+        formatEur(invoice.royaltyTotal),
+      ], true);
+
+      doc.moveDown(2);
+      doc
+        .fontSize(9)
+        .font('Helvetica')
+        .fillColor('#6B7280')
+        .text(
+          'Royalties are computed on completed transactions attributed to the partner, net of refunds, ' +
+          'under the agreement in force when each transaction was created. Amounts in EUR.',
+          60,
+          doc.y,
+          { width: 475 }
+        );
+
+      doc.end();
+    });
+
+    return { invoice, pdf };
+  }
+
+  private describeTerms(line: PartnerInvoiceLine): string {
+    switch (line.royaltyType) {
+      case RoyaltyType.PERCENTAGE:
+        return `${line.rate}% of amount`;
+      case RoyaltyType.PER_KG:
+        return `€${line.rate} per kg`;
+      case RoyaltyType.TIERED:
+        return `Tiered: ${(line.tiers || [])
+          .map(tier => `${tier.percentage}%${tier.upToAmount !== null ? ` to €${tier.upToAmount}` : ''}`)
+          .join(', ')}`;
+      default:
+        return 'No agreement in force';
+    }
+  }
+}
+
+export default new PartnerRoyaltyService();
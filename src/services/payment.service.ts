@@ -7,19 +7,33 @@
 // Example: Customer pays €101 (€100 product + €1 plastic)
 //          Stripe splits: €100 to merchant, €1 to CSR26
 import Stripe from 'stripe';
+import { Op, fn, col } from 'sequelize';
+import { IncomingHttpHeaders } from 'http';
 import { env } from '../config/env.js';
 import transactionService from './transaction.service.js';
 import configService from './config.service.js';
-import { PaymentStatus, Merchant } from '../database/models/index.js';
+import exchangeRateService from './exchange-rate.service.js';
+import inboundWebhookService from './inbound-webhook.service.js';
+import { sequelize, PaymentStatus, Merchant, Order, Transaction } from '../database/models/index.js';
 import { StripeAccountStatus } from '../database/models/Merchant.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { OrderItem } from '../database/models/Order.js';
 
 // Initialize Stripe with secret key from environment
 const stripe = new Stripe(env.stripe.secretKey, {
   apiVersion: '2023-10-16',
 });
 
+// Intents the customer can still complete - returned again instead of creating a second payable intent
+const REUSABLE_PAYMENT_INTENT_STATUSES: Stripe.PaymentIntent.Status[] = [
+  'requires_payment_method',
+  'requires_confirmation',
+  'requires_action',
+];
+
 interface CreatePaymentIntentData {
-  amount: number; // Amount in euros
+  amount: number; // Ignored - the transaction's original amount is charged
+  currency?: string; // ISO 4217 (default EUR)
   transactionId: string;
   userId: string;
   skuId: string;
@@ -53,6 +67,26 @@ interface CreateEcommerceSplitPaymentData {
   metadata?: Record<string, string>;
 }
 
+// Split a total in minor units across weights (largest remainder), so the shares add up exactly
+// Equal shares when no weight is set
+const allocate = (total: number, weights: number[]): number[] => {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  const effective = weightSum > 0 ? weights : weights.map(() => 1);
+  const effectiveSum = weightSum > 0 ? weightSum : weights.length;
+
+  const exact = effective.map(weight => (total * weight) / effectiveSum);
+  const shares = exact.map(Math.floor);
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - shares[index] }))
+    .sort((a, b) => b.remainder - a.remainder);
+
+  let left = total - shares.reduce((sum, share) => sum + share, 0);
+  for (let i = 0; left > 0; i++, left--) {
+    shares[byRemainder[i % byRemainder.length].index]++;
+  }
+  return shares;
+};
+
 class PaymentService {
   // ==========================================
   // STRIPE CONNECT ACCOUNT MANAGEMENT
@@ -192,46 +226,85 @@ class PaymentService {
   /**
    * Create payment intent (for PAY type transactions)
    * Supports split payments via Stripe Connect
+   * Only for PENDING transactions - the row stays locked until the intent is recorded on it, so the
+   * expiry job always sees the intent it has to cancel. A transaction has one payable intent at a time:
+   * an open intent is returned again (e.g. the customer reloaded the payment page).
    */
   async createPaymentIntent(data: CreatePaymentIntentData) {
     try {
-      const amountInCents = Math.round(data.amount * 100); // Convert euros to cents
+      return await sequelize.transaction(async (t) => {
+        const transaction = await Transaction.findByPk(data.transactionId, { transaction: t, lock: t.LOCK.UPDATE });
+        if (!transaction) {
+          throw new AppError('Transaction not found', 404);
+        }
+        if (transaction.paymentStatus !== PaymentStatus.PENDING) {
+          throw new AppError(`Transaction is ${transaction.paymentStatus} - only pending transactions can be paid`, 409);
+        }
+
+        if (transaction.stripePaymentIntentId) {
+          const existing = await stripe.paymentIntents.retrieve(transaction.stripePaymentIntentId);
+          if (REUSABLE_PAYMENT_INTENT_STATUSES.includes(existing.status)) {
+            return {
+              clientSecret: existing.client_secret,
+              paymentIntentId: existing.id,
+            };
+          }
+          if (existing.status !== 'canceled') {
+            // processing, requires_capture or succeeded - its webhook settles the transaction
+            throw new AppError(`Transaction already has a payment in progress (${existing.status})`, 409);
+          }
+        }
 
-      // Get platform fee percentage from GlobalConfig (configurable, default 10%)
-      const platformFeePercentage = await configService.getPlatformFeePercentage();
-      const platformFeeAmount = Math.round(amountInCents * platformFeePercentage);
+        const paymentIntent = await this.createTransactionPaymentIntent(transaction, data);
 
-      // Payment intent configuration with required metadata (userId, skuId, partnerId)
-      const paymentIntentData: Stripe.PaymentIntentCreateParams = {
-        amount: amountInCents,
-        currency: 'eur',
-        metadata: {
-          transactionId: data.transactionId,
-          userId: data.userId,
-          skuId: data.skuId,
-          ...(data.partnerId && { partnerId: data.partnerId }),
-        },
-        description: `CSR26 Plastic Neutral Transaction - ${data.transactionId}`,
-      };
+        // Record the intent on the pending transaction so it can be cancelled if abandoned
+        await transaction.update({ stripePaymentIntentId: paymentIntent.id }, { transaction: t });
 
-      // Add split payment if merchant account provided
-      // Uses destination charges - funds go to connected account minus application fee
-      if (data.merchantStripeAccountId) {
-        paymentIntentData.transfer_data = {
-          destination: data.merchantStripeAccountId,
+        return {
+          clientSecret: paymentIntent.client_secret,
+          paymentIntentId: paymentIntent.id,
         };
-        paymentIntentData.application_fee_amount = platformFeeAmount;
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
       }
+      throw new Error(`Stripe payment intent creation failed: ${error.message}`);
+    }
+  }
 
-      const paymentIntent = await stripe.paymentIntents.create(paymentIntentData);
-
-      return {
-        clientSecret: paymentIntent.client_secret,
-        paymentIntentId: paymentIntent.id,
+  // PAY transactions are charged in the currency and amount they were created with
+  private async createTransactionPaymentIntent(transaction: Transaction, data: CreatePaymentIntentData) {
+    const currency = exchangeRateService.normalizeCurrency(transaction.currency || data.currency);
+    const amountInCents = exchangeRateService.toMinorUnits(Number(transaction.originalAmount), currency);
+
+    // Get platform fee percentage from GlobalConfig (configurable, default 10%)
+    const platformFeePercentage = await configService.getPlatformFeePercentage();
+    const platformFeeAmount = Math.round(amountInCents * platformFeePercentage);
+
+    // Payment intent configuration with required metadata (userId, skuId, partnerId)
+    const paymentIntentData: Stripe.PaymentIntentCreateParams = {
+      amount: amountInCents,
+      currency: currency.toLowerCase(),
+      metadata: {
+        transactionId: transaction.id,
+        userId: data.userId,
+        skuId: data.skuId,
+        ...(data.partnerId && { partnerId: data.partnerId }),
+      },
+      description: `CSR26 Plastic Neutral Transaction - ${transaction.id}`,
+    };
+
+    // Add split payment if merchant account provided
+    // Uses destination charges - funds go to connected account minus application fee
+    if (data.merchantStripeAccountId) {
+      paymentIntentData.transfer_data = {
+        destination: data.merchantStripeAccountId,
       };
-    } catch (error: any) {
-      throw new Error(`Stripe payment intent creation failed: ${error.message}`);
+      paymentIntentData.application_fee_amount = platformFeeAmount;
     }
+
+    return stripe.paymentIntents.create(paymentIntentData);
   }
 
   /**
@@ -319,9 +392,9 @@ class PaymentService {
 
   /**
    * Handle Stripe webhook events
-   * Processes both payment events and Connect account events
+   * The verified event is stored before processing and deduplicated by Stripe event id
    */
-  async handleWebhook(payload: string | Buffer, signature: string) {
+  async handleWebhook(payload: string | Buffer, signature: string, headers: IncomingHttpHeaders = {}) {
     try {
       // Verify webhook signature
       const event = stripe.webhooks.constructEvent(
@@ -330,70 +403,186 @@ class PaymentService {
         env.stripe.webhookSecret
       );
 
-      // Handle different event types
-      switch (event.type) {
-        // Payment events
-        case 'payment_intent.succeeded':
-          await this.handlePaymentSuccess(event.data.object as Stripe.PaymentIntent);
-          break;
-
-        case 'payment_intent.payment_failed':
-          await this.handlePaymentFailure(event.data.object as Stripe.PaymentIntent);
-          break;
-
-        case 'payment_intent.canceled':
-          await this.handlePaymentCanceled(event.data.object as Stripe.PaymentIntent);
-          break;
-
-        // Checkout Session events (Section 1.2: E-commerce split payments)
-        case 'checkout.session.completed':
-          await this.handleCheckoutSessionCompleted(event.data.object as Stripe.Checkout.Session);
-          break;
-
-        case 'checkout.session.expired':
-          console.log(`Checkout session expired: ${(event.data.object as Stripe.Checkout.Session).id}`);
-          break;
-
-        // Stripe Connect account events
-        case 'account.updated':
-          await this.handleAccountUpdated(event.data.object as Stripe.Account);
-          break;
-
-        case 'account.application.deauthorized':
-          // The deauthorized event has account ID in the application object
-          const application = event.data.object as { account?: string };
-          if (application.account) {
-            await this.handleAccountDeauthorizedById(application.account);
-          }
-          break;
-
-        default:
-          console.log(`Unhandled event type: ${event.type}`);
-      }
+      const { duplicate } = await inboundWebhookService.receive(
+        {
+          provider: 'STRIPE',
+          externalId: event.id,
+          eventType: event.type,
+          rawBody: payload,
+          headers,
+        },
+        () => this.processStripeEvent(event)
+      );
 
-      return { received: true };
+      return duplicate ? { received: true, duplicate: true } : { received: true };
     } catch (error: any) {
       throw new Error(`Webhook handling failed: ${error.message}`);
     }
   }
 
+  /**
+   * Process a verified Stripe event
+   * Handles both payment events and Connect account events - also used to reprocess stored events
+   */
+  async processStripeEvent(event: Stripe.Event) {
+    // Handle different event types
+    switch (event.type) {
+      // Payment events
+      case 'payment_intent.succeeded':
+        await this.handlePaymentSuccess(event.data.object as Stripe.PaymentIntent);
+        break;
+
+      case 'payment_intent.payment_failed':
+        await this.handlePaymentFailure(event.data.object as Stripe.PaymentIntent);
+        break;
+
+      case 'payment_intent.canceled':
+        await this.handlePaymentCanceled(event.data.object as Stripe.PaymentIntent);
+        break;
+
+      // Refund and dispute events - impact is reversed proportionally from wallets
+      case 'charge.refunded':
+        await this.handleChargeRefunded(event.data.object as Stripe.Charge);
+        break;
+
+      case 'charge.dispute.created':
+        await this.handleDisputeCreated(event.data.object as Stripe.Dispute);
+        break;
+
+      // Checkout Session events (Section 1.2: E-commerce split payments)
+      case 'checkout.session.completed':
+        await this.handleCheckoutSessionCompleted(event.data.object as Stripe.Checkout.Session);
+        break;
+
+      case 'checkout.session.expired':
+        console.log(`Checkout session expired: ${(event.data.object as Stripe.Checkout.Session).id}`);
+        break;
+
+      // Stripe Connect account events
+      case 'account.updated':
+        await this.handleAccountUpdated(event.data.object as Stripe.Account);
+        break;
+
+      case 'account.application.deauthorized':
+        // The deauthorized event has account ID in the application object
+        const application = event.data.object as { account?: string };
+        if (application.account) {
+          await this.handleAccountDeauthorizedById(application.account);
+        }
+        break;
+
+      default:
+        console.log(`Unhandled event type: ${event.type}`);
+    }
+  }
+
+  /**
+   * Settle a pending transaction from a payment intent event
+   * Events for transactions already settled otherwise (reprocessed or out of order - e.g. succeeded
+   * after a refund) are logged and skipped, so they neither fail the webhook nor change the transaction.
+   * A successful payment that can no longer be recorded (transaction expired or failed, or completed
+   * by another intent) is refunded - the customer must not be charged without impact.
+   */
+  private async settleTransaction(transactionId: string, paymentStatus: PaymentStatus, paymentIntentId: string): Promise<boolean> {
+    try {
+      await transactionService.updatePaymentStatus(transactionId, paymentStatus, paymentIntentId);
+      return true;
+    } catch (error: any) {
+      if (!(error instanceof AppError && error.statusCode === 409)) {
+        throw error;
+      }
+
+      console.warn(`Payment intent ${paymentIntentId} ignored for transaction ${transactionId}: ${error.message}`);
+      if (paymentStatus === PaymentStatus.COMPLETED) {
+        await this.refundUnrecordedPayment(transactionId, paymentIntentId);
+      }
+      return false;
+    }
+  }
+
+  // Refund a succeeded intent whose transaction was not credited for it
+  private async refundUnrecordedPayment(transactionId: string, paymentIntentId: string): Promise<void> {
+    const transaction = await Transaction.findByPk(transactionId, { attributes: ['id', 'paymentStatus', 'stripePaymentIntentId'] });
+    const recorded = transaction?.stripePaymentIntentId === paymentIntentId
+      && ![PaymentStatus.EXPIRED, PaymentStatus.FAILED].includes(transaction.paymentStatus);
+    if (recorded) {
+      return;
+    }
+
+    try {
+      // Same key for reprocessed events - Stripe returns the first refund instead of refunding twice
+      await stripe.refunds.create(
+        { payment_intent: paymentIntentId, metadata: { transactionId, reason: 'unrecorded_payment' } },
+        { idempotencyKey: `refund-unrecorded-${paymentIntentId}` }
+      );
+    } catch (refundError: any) {
+      if (refundError?.code === 'charge_already_refunded') {
+        return;
+      }
+      throw refundError;
+    }
+
+    console.warn(`↩️ Payment intent ${paymentIntentId} refunded - transaction ${transactionId} is ${transaction?.paymentStatus || 'missing'}`);
+  }
+
   // Handle successful payment
   private async handlePaymentSuccess(paymentIntent: Stripe.PaymentIntent) {
     const transactionId = paymentIntent.metadata.transactionId;
     if (!transactionId) {
+      // E-commerce split payments have no transaction yet - record it like a completed checkout
+      if (paymentIntent.metadata.merchantId && paymentIntent.metadata.orderId) {
+        await this.handleEcommercePaymentSuccess(paymentIntent);
+        return;
+      }
       console.error('No transaction ID in payment intent metadata');
       return;
     }
 
-    await transactionService.updatePaymentStatus(
-      transactionId,
-      PaymentStatus.COMPLETED,
-      paymentIntent.id
-    );
+    if (!await this.settleTransaction(transactionId, PaymentStatus.COMPLETED, paymentIntent.id)) {
+      return;
+    }
+
+    // Figures missing here are filled in by the record-payment-splits task
+    try {
+      await this.recordPaymentSplit(paymentIntent.id);
+    } catch (error: any) {
+      console.error(`Failed to record split for payment intent ${paymentIntent.id}: ${error.message}`);
+    }
 
     console.log(`Payment succeeded for transaction ${transactionId}`);
   }
 
+  /**
+   * Handle payment_intent.succeeded for e-commerce split payments
+   * Direct payment intents (create-payment-intent) are recorded here; checkout session
+   * intents are left to checkout.session.completed, which carries the customer details
+   */
+  private async handleEcommercePaymentSuccess(paymentIntent: Stripe.PaymentIntent) {
+    const { checkoutFlow, merchantId } = paymentIntent.metadata;
+
+    if (checkoutFlow === 'checkout_session') {
+      return;
+    }
+
+    // Intents created before checkoutFlow was added - skip those belonging to a checkout session
+    if (!checkoutFlow) {
+      const sessions = await stripe.checkout.sessions.list({ payment_intent: paymentIntent.id, limit: 1 });
+      if (sessions.data.length > 0) {
+        return;
+      }
+    }
+
+    // Import checkout service dynamically to avoid circular dependency
+    const checkoutService = (await import('./checkout.service.js')).default;
+
+    const result = await checkoutService.completePaymentIntent({
+      merchantId,
+      paymentIntentId: paymentIntent.id,
+    });
+
+    console.log(`✅ Payment intent ${paymentIntent.id} completed - Transaction: ${result.transactionId}, Impact: ${result.impactKg}kg`);
+  }
+
   // Handle failed payment
   private async handlePaymentFailure(paymentIntent: Stripe.PaymentIntent) {
     const transactionId = paymentIntent.metadata.transactionId;
@@ -402,11 +591,9 @@ class PaymentService {
       return;
     }
 
-    await transactionService.updatePaymentStatus(
-      transactionId,
-      PaymentStatus.FAILED,
-      paymentIntent.id
-    );
+    if (!await this.settleTransaction(transactionId, PaymentStatus.FAILED, paymentIntent.id)) {
+      return;
+    }
 
     console.log(`Payment failed for transaction ${transactionId}`);
   }
@@ -419,15 +606,63 @@ class PaymentService {
       return;
     }
 
-    await transactionService.updatePaymentStatus(
-      transactionId,
-      PaymentStatus.FAILED,
-      paymentIntent.id
-    );
+    if (!await this.settleTransaction(transactionId, PaymentStatus.FAILED, paymentIntent.id)) {
+      return;
+    }
 
     console.log(`Payment canceled for transaction ${transactionId}`);
   }
 
+  /**
+   * Handle charge.refunded webhook
+   * amount_refunded is cumulative, so the refunded share is recomputed on every event
+   * and replays are no-ops. Works for PAY and checkout transactions alike.
+   */
+  private async handleChargeRefunded(charge: Stripe.Charge) {
+    const paymentIntentId = typeof charge.payment_intent === 'string'
+      ? charge.payment_intent
+      : charge.payment_intent?.id;
+    if (!paymentIntentId) {
+      console.error(`No payment intent on refunded charge ${charge.id}`);
+      return;
+    }
+
+    const refundedFraction = charge.amount > 0 ? charge.amount_refunded / charge.amount : 1;
+    const transactions = await transactionService.refundByPaymentIntent(paymentIntentId, refundedFraction, {
+      finalStatus: PaymentStatus.REFUNDED,
+      reason: `Stripe refund on charge ${charge.id}`,
+    });
+
+    console.log(`Refund processed for payment intent ${paymentIntentId} (${transactions.length} transaction(s))`);
+  }
+
+  /**
+   * Handle charge.dispute.created webhook
+   * The disputed amount is withdrawn immediately, so impact is reversed on top of any refunds
+   */
+  private async handleDisputeCreated(dispute: Stripe.Dispute) {
+    const chargeId = typeof dispute.charge === 'string' ? dispute.charge : dispute.charge.id;
+    const charge = await stripe.charges.retrieve(chargeId);
+
+    const paymentIntentId = typeof charge.payment_intent === 'string'
+      ? charge.payment_intent
+      : charge.payment_intent?.id;
+    if (!paymentIntentId) {
+      console.error(`No payment intent on disputed charge ${charge.id}`);
+      return;
+    }
+
+    const refundedFraction = charge.amount > 0
+      ? Math.min((charge.amount_refunded + dispute.amount) / charge.amount, 1)
+      : 1;
+    const transactions = await transactionService.refundByPaymentIntent(paymentIntentId, refundedFraction, {
+      finalStatus: PaymentStatus.REVERSED,
+      reason: `Stripe dispute ${dispute.id} (${dispute.reason})`,
+    });
+
+    console.log(`Dispute ${dispute.id} processed for payment intent ${paymentIntentId} (${transactions.length} transaction(s))`);
+  }
+
   /**
    * Handle checkout.session.completed webhook
    * Section 1.2: E-commerce split payments
@@ -465,7 +700,9 @@ class PaymentService {
         console.log(`Checkout session ${session.id} already processed`);
         return;
       }
+      // Anything else fails the stored event, so it is listed as failed and can be reprocessed
       console.error(`Failed to complete checkout session ${session.id}: ${error.message}`);
+      throw error;
     }
   }
 
@@ -480,35 +717,31 @@ class PaymentService {
       return;
     }
 
-    try {
-      const merchant = await Merchant.findByPk(merchantId);
-      if (!merchant) {
-        console.error(`Merchant ${merchantId} not found for account ${account.id}`);
-        return;
-      }
+    const merchant = await Merchant.findByPk(merchantId);
+    if (!merchant) {
+      console.error(`Merchant ${merchantId} not found for account ${account.id}`);
+      return;
+    }
 
-      // Determine account status
-      let status: StripeAccountStatus = 'pending';
-      if (account.charges_enabled && account.payouts_enabled) {
-        status = 'active';
-      } else if (account.requirements?.disabled_reason) {
-        status = 'disabled';
-      } else if (account.requirements?.currently_due?.length) {
-        status = 'restricted';
-      }
+    // Determine account status
+    let status: StripeAccountStatus = 'pending';
+    if (account.charges_enabled && account.payouts_enabled) {
+      status = 'active';
+    } else if (account.requirements?.disabled_reason) {
+      status = 'disabled';
+    } else if (account.requirements?.currently_due?.length) {
+      status = 'restricted';
+    }
 
-      // Update merchant record
-      await merchant.update({
-        stripeAccountStatus: status,
-        stripeChargesEnabled: account.charges_enabled ?? false,
-        stripePayoutsEnabled: account.payouts_enabled ?? false,
-        stripeOnboardingComplete: account.details_submitted ?? false,
-      });
+    // Update merchant record - errors fail the stored event so it can be reprocessed
+    await merchant.update({
+      stripeAccountStatus: status,
+      stripeChargesEnabled: account.charges_enabled ?? false,
+      stripePayoutsEnabled: account.payouts_enabled ?? false,
+      stripeOnboardingComplete: account.details_submitted ?? false,
+    });
 
-      console.log(`Updated merchant ${merchantId} Stripe status: ${status}`);
-    } catch (error: any) {
-      console.error(`Failed to update merchant from webhook: ${error.message}`);
-    }
+    console.log(`Updated merchant ${merchantId} Stripe status: ${status}`);
   }
 
   /**
@@ -517,30 +750,129 @@ class PaymentService {
    * Uses account ID to find and update the merchant
    */
   private async handleAccountDeauthorizedById(stripeAccountId: string) {
-    try {
-      // Find merchant by Stripe account ID
-      const merchant = await Merchant.findOne({
-        where: { stripeAccountId },
-      });
+    // Find merchant by Stripe account ID
+    const merchant = await Merchant.findOne({
+      where: { stripeAccountId },
+    });
 
-      if (!merchant) {
-        console.log(`No merchant found for Stripe account ${stripeAccountId}`);
-        return;
+    if (!merchant) {
+      console.log(`No merchant found for Stripe account ${stripeAccountId}`);
+      return;
+    }
+
+    // Clear Stripe connection - errors fail the stored event so it can be reprocessed
+    await merchant.update({
+      stripeAccountId: undefined,
+      stripeAccountStatus: undefined,
+      stripeChargesEnabled: false,
+      stripePayoutsEnabled: false,
+      stripeOnboardingComplete: false,
+    });
+
+    console.log(`Merchant ${merchant.id} disconnected from Stripe`);
+  }
+
+  /**
+   * Store the actual split of a confirmed payment intent on the transactions it paid
+   * Gross, application fee and Stripe fee come from Stripe. A payment covering several order
+   * lines is allocated across them - merchant share by line price, plastic fee by line fee.
+   * Skipped when the figures are already recorded, unless `force`
+   * @returns Number of transactions updated
+   */
+  async recordPaymentSplit(paymentIntentId: string, force = false): Promise<number> {
+    const transactions = await Transaction.findAll({
+      where: { stripePaymentIntentId: paymentIntentId },
+      include: [{ model: Order, as: 'parentOrder', attributes: ['id', 'items'] }],
+      order: [['createdAt', 'ASC'], ['id', 'ASC']],
+    });
+    if (!transactions.length || (!force && transactions.every(t => t.grossAmount !== null))) {
+      return 0;
+    }
+
+    const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId, {
+      expand: ['latest_charge.balance_transaction'],
+    });
+    if (paymentIntent.status !== 'succeeded') {
+      return 0;
+    }
+
+    const currency = exchangeRateService.normalizeCurrency(paymentIntent.currency);
+    if (transactions.some(t => t.currency !== currency)) {
+      console.warn(`Payment intent ${paymentIntentId} charged in ${currency}, transactions in ${transactions[0].currency} - split not recorded`);
+      return 0;
+    }
+
+    // Destination charges send the rest to the merchant; without a split CSR26 keeps the whole charge
+    const gross = paymentIntent.amount_received;
+    const plasticFee = paymentIntent.transfer_data ? paymentIntent.application_fee_amount || 0 : gross;
+    const charge = typeof paymentIntent.latest_charge === 'object' ? paymentIntent.latest_charge : null;
+    const balanceTransaction = charge && typeof charge.balance_transaction === 'object'
+      ? charge.balance_transaction
+      : null;
+
+    const lines = transactions.map(t => {
+      const item = (t.parentOrder?.items as OrderItem[] | undefined)?.find(i => i.transactionId === t.id);
+      return {
+        productValue: item ? Number(item.price) * Number(item.quantity) : 0,
+        fee: Number(t.originalAmount),
+      };
+    });
+    const plasticFees = allocate(plasticFee, lines.map(line => line.fee));
+    const merchantShares = allocate(gross - plasticFee, lines.map(line => line.productValue));
+    const grossShares = lines.map((_, i) => plasticFees[i] + merchantShares[i]);
+    // Settled in the platform currency - allocated by each line's share of the charge
+    const stripeFees = balanceTransaction ? allocate(balanceTransaction.fee, grossShares) : null;
+
+    await sequelize.transaction(async (dbTransaction) => {
+      for (const [i, transaction] of transactions.entries()) {
+        await transaction.update({
+          grossAmount: exchangeRateService.fromMinorUnits(grossShares[i], currency),
+          merchantAmount: exchangeRateService.fromMinorUnits(merchantShares[i], currency),
+          plasticFeeAmount: exchangeRateService.fromMinorUnits(plasticFees[i], currency),
+          stripeFeeAmount: stripeFees && balanceTransaction
+            ? exchangeRateService.fromMinorUnits(stripeFees[i], balanceTransaction.currency)
+            : null,
+          stripeFeeCurrency: balanceTransaction ? exchangeRateService.normalizeCurrency(balanceTransaction.currency) : null,
+        }, { transaction: dbTransaction });
       }
+    });
 
-      // Clear Stripe connection
-      await merchant.update({
-        stripeAccountId: undefined,
-        stripeAccountStatus: undefined,
-        stripeChargesEnabled: false,
-        stripePayoutsEnabled: false,
-        stripeOnboardingComplete: false,
-      });
+    return transactions.length;
+  }
 
-      console.log(`Merchant ${merchant.id} disconnected from Stripe`);
-    } catch (error: any) {
-      console.error(`Failed to handle deauthorization: ${error.message}`);
+  /**
+   * Record splits still missing on recently paid transactions (Stripe errors during completion), newest first
+   * Splits recorded before the Stripe fee settled keep a NULL fee - they are not fetched again every hour
+   */
+  async recordMissingPaymentSplits(since: Date, limit = 100) {
+    const where: any = {
+      stripePaymentIntentId: { [Op.ne]: null },
+      paymentStatus: PaymentStatus.COMPLETED,
+      createdAt: { [Op.gte]: since },
+      grossAmount: null,
+    };
+
+    const rows = await Transaction.findAll({
+      attributes: ['stripePaymentIntentId'],
+      where,
+      group: ['stripePaymentIntentId'],
+      order: [[fn('MAX', col('created_at')), 'DESC']],
+      limit,
+      raw: true,
+    });
+
+    let recorded = 0;
+    let failed = 0;
+    for (const row of rows) {
+      try {
+        recorded += await this.recordPaymentSplit(row.stripePaymentIntentId!);
+      } catch (error: any) {
+        failed++;
+        console.error(`Failed to record split for payment intent ${row.stripePaymentIntentId}: ${error.message}`);
+      }
     }
+
+    return { payments: rows.length, transactions: recorded, failed };
   }
 
   // Get payment intent status
@@ -548,6 +880,25 @@ class PaymentService {
     return await stripe.paymentIntents.retrieve(paymentIntentId);
   }
 
+  /**
+   * Cancel the PaymentIntent of an abandoned transaction
+   * Returns false when the payment is past abandoning (succeeded, processing or awaiting
+   * capture) - its webhook settles the transaction instead
+   */
+  async cancelAbandonedPaymentIntent(paymentIntentId: string): Promise<boolean> {
+    const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+
+    if (paymentIntent.status === 'canceled') {
+      return true;
+    }
+    if (['succeeded', 'processing', 'requires_capture'].includes(paymentIntent.status)) {
+      return false;
+    }
+
+    await stripe.paymentIntents.cancel(paymentIntentId, { cancellation_reason: 'abandoned' });
+    return true;
+  }
+
   // Export stripe instance for advanced usage
   getStripe() {
     return stripe;
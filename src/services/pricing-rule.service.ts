@@ -0,0 +1,286 @@
+// Pricing Rule Service - Per-merchant plastic fee pricing for checkout calculate-fee
+// A cart line uses the most specific active rule of the merchant: SKU, then category,
+// then the merchant-wide rule. Without any rule the historical default applies (1% of price).
+// Fees are computed in EUR; CLAIM SKUs keep their weight-based fee and are not priced by rules.
+import { Merchant, PricingRule } from '../database/models/index.js';
+import { PricingRuleScope, PricingFeeType, PricingRoundingMode } from '../database/models/PricingRule.js';
+
+// Default when a merchant has no matching rule - 1% of the line price
+const DEFAULT_FEE_PERCENTAGE = 1;
+
+interface PricingRuleInput {
+  scope?: PricingRuleScope;
+  skuCode?: string | null;
+  category?: string | null;
+  feeType?: PricingFeeType;
+  value?: number;
+  minFee?: number | null;
+  maxFee?: number | null;
+  roundingMode?: PricingRoundingMode;
+  isActive?: boolean;
+}
+
+// Cart line data a rule is evaluated against
+interface PricingLine {
+  skuCode: string;
+  category?: string | null;
+  quantity: number;
+  lineTotalEur: number; // Price x quantity, normalized to EUR
+  weightGrams?: number | null; // Product weight per unit
+}
+
+// Which rule priced a cart line - returned by calculate-fee for every line
+export interface AppliedPricing {
+  source: 'RULE' | 'DEFAULT' | 'CLAIM_WEIGHT';
+  ruleId: string | null;
+  scope: PricingRuleScope | null;
+  feeType: PricingFeeType | null;
+  value: number | null;
+  roundingMode: PricingRoundingMode;
+  capApplied: 'MIN' | 'MAX' | null;
+}
+
+// Normalized for case-insensitive matching
+const normalizeCategory = (category?: string | null) => (category ? category.trim().toLowerCase() : null);
+
+const roundFee = (fee: number, mode: PricingRoundingMode): number => {
+  // Epsilon guards against float noise like 0.1 + 0.2 rounding up a whole cent
+  switch (mode) {
+    case PricingRoundingMode.UP:
+      return Math.ceil(fee * 100 - 1e-9) / 100;
+    case PricingRoundingMode.DOWN:
+      return Math.floor(fee * 100 + 1e-9) / 100;
+    default:
+      return Math.round(fee * 100) / 100;
+  }
+};
+
+class PricingRuleService {
+  /**
+   * Rules of a merchant, most specific scope first
+   */
+  async getRules(merchantId: string, includeInactive = false): Promise<PricingRule[]> {
+    return PricingRule.findAll({
+      where: { merchantId, ...(includeInactive ? {} : { isActive: true }) },
+      order: [['scope', 'ASC'], ['createdAt', 'ASC']],
+    });
+  }
+
+  async getRule(merchantId: string, ruleId: string): Promise<PricingRule> {
+    const rule = await PricingRule.findOne({ where: { id: ruleId, merchantId } });
+    if (!rule) {
+      throw new Error('Pricing rule not found');
+    }
+    return rule;
+  }
+
+  /**
+   * Create a rule (admin only)
+   * Only one active rule may exist per merchant and target (SKU code, category or merchant-wide)
+   */
+  async createRule(merchantId: string, input: PricingRuleInput, createdBy: string): Promise<PricingRule> {
+    const merchant = await Merchant.findByPk(merchantId);
+    if (!merchant) {
+      throw new Error('Merchant not found');
+    }
+
+    const data = this.validate(input);
+    if (input.isActive !== false) {
+      await this.assertNoActiveDuplicate(merchantId, data.scope, data.skuCode, data.category);
+    }
+
+    const rule = await PricingRule.create({
+      merchantId,
+      ...data,
+      isActive: input.isActive !== false,
+      createdBy,
+    });
+
+    console.log(`🏷️ Pricing rule ${rule.scope}${rule.skuCode ? ' ' + rule.skuCode : ''}${rule.category ? ' ' + rule.category : ''} (${rule.feeType} ${rule.value}) created for merchant ${merchantId} by ${createdBy}`);
+
+    return rule;
+  }
+
+  /**
+   * Update a rule (admin only) - omitted fields keep their value
+   */
+  async updateRule(merchantId: string, ruleId: string, input: PricingRuleInput): Promise<PricingRule> {
+    const rule = await this.getRule(merchantId, ruleId);
+
+    const data = this.validate({
+      scope: input.scope ?? rule.scope,
+      skuCode: input.skuCode !== undefined ? input.skuCode : rule.skuCode,
+      category: input.category !== undefined ? input.category : rule.category,
+      feeType: input.feeType ?? rule.feeType,
+      value: input.value ?? Number(rule.value),
+      minFee: input.minFee !== undefined ? input.minFee : rule.minFee,
+      maxFee: input.maxFee !== undefined ? input.maxFee : rule.maxFee,
+      roundingMode: input.roundingMode ?? rule.roundingMode,
+    });
+    const isActive = input.isActive !== undefined ? Boolean(input.isActive) : rule.isActive;
+
+    if (isActive) {
+      await this.assertNoActiveDuplicate(merchantId, data.scope, data.skuCode, data.category, rule.id);
+    }
+
+    await rule.update({ ...data, isActive });
+
+    return rule;
+  }
+
+  async deleteRule(merchantId: string, ruleId: string): Promise<void> {
+    const rule = await this.getRule(merchantId, ruleId);
+    await rule.destroy();
+  }
+
+  /**
+   * Pick the rule for a cart line: SKU > CATEGORY > MERCHANT
+   * @param rules - Active rules of the merchant (load once per cart with getRules)
+   */
+  resolveRule(rules: PricingRule[], skuCode: string, category?: string | null): PricingRule | null {
+    const normalizedCategory = normalizeCategory(category);
+
+    return (
+      rules.find(r => r.scope === PricingRuleScope.SKU && r.skuCode === skuCode) ||
+      (normalizedCategory
+        ? rules.find(r => r.scope === PricingRuleScope.CATEGORY && r.category === normalizedCategory)
+        : undefined) ||
+      rules.find(r => r.scope === PricingRuleScope.MERCHANT) ||
+      null
+    );
+  }
+
+  /**
+   * Fee in EUR for a cart line, rounded to cents per the rule
+   */
+  calculateLineFee(rules: PricingRule[], line: PricingLine): { feeEur: number; pricing: AppliedPricing } {
+    const rule = this.resolveRule(rules, line.skuCode, line.category);
+
+    if (!rule) {
+      return {
+        feeEur: roundFee(line.lineTotalEur * (DEFAULT_FEE_PERCENTAGE / 100), PricingRoundingMode.NEAREST),
+        pricing: {
+          source: 'DEFAULT',
+          ruleId: null,
+          scope: null,
+          feeType: PricingFeeType.PERCENTAGE,
+          value: DEFAULT_FEE_PERCENTAGE,
+          roundingMode: PricingRoundingMode.NEAREST,
+          capApplied: null,
+        },
+      };
+    }
+
+    const value = Number(rule.value);
+    let fee: number;
+    switch (rule.feeType) {
+      case PricingFeeType.FIXED_PER_ITEM:
+        fee = value * line.quantity;
+        break;
+      case PricingFeeType.PER_GRAM:
+        fee = value * (Number(line.weightGrams) || 0) * line.quantity;
+        break;
+      default:
+        fee = line.lineTotalEur * (value / 100);
+    }
+
+    let capApplied: AppliedPricing['capApplied'] = null;
+    if (rule.minFee !== null && fee < Number(rule.minFee)) {
+      fee = Number(rule.minFee);
+      capApplied = 'MIN';
+    }
+    if (rule.maxFee !== null && fee > Number(rule.maxFee)) {
+      fee = Number(rule.maxFee);
+      capApplied = 'MAX';
+    }
+
+    return {
+      feeEur: roundFee(fee, rule.roundingMode),
+      pricing: {
+        source: 'RULE',
+        ruleId: rule.id,
+        scope: rule.scope,
+        feeType: rule.feeType,
+        value,
+        roundingMode: rule.roundingMode,
+        capApplied,
+      },
+    };
+  }
+
+  /**
+   * Validate and normalize rule fields
+   */
+  private validate(input: PricingRuleInput) {
+    const scope = input.scope;
+    if (!scope || !Object.values(PricingRuleScope).includes(scope)) {
+      throw new Error(`scope must be one of: ${Object.values(PricingRuleScope).join(', ')}`);
+    }
+
+    const feeType = input.feeType;
+    if (!feeType || !Object.values(PricingFeeType).includes(feeType)) {
+      throw new Error(`feeType must be one of: ${Object.values(PricingFeeType).join(', ')}`);
+    }
+
+    const roundingMode = input.roundingMode ?? PricingRoundingMode.NEAREST;
+    if (!Object.values(PricingRoundingMode).includes(roundingMode)) {
+      throw new Error(`roundingMode must be one of: ${Object.values(PricingRoundingMode).join(', ')}`);
+    }
+
+    const skuCode = input.skuCode ? String(input.skuCode).trim() : null;
+    const category = normalizeCategory(input.category);
+    if (scope === PricingRuleScope.SKU && !skuCode) {
+      throw new Error('skuCode is required for SKU rules');
+    }
+    if (scope === PricingRuleScope.CATEGORY && !category) {
+      throw new Error('category is required for CATEGORY rules');
+    }
+
+    const value = Number(input.value);
+    if (input.value === undefined || input.value === null || isNaN(value) || value < 0) {
+      throw new Error('value must be a non-negative number');
+    }
+    if (feeType === PricingFeeType.PERCENTAGE && value > 100) {
+      throw new Error('Percentage fee cannot exceed 100');
+    }
+
+    const minFee = input.minFee !== undefined && input.minFee !== null ? Number(input.minFee) : null;
+    const maxFee = input.maxFee !== undefined && input.maxFee !== null ? Number(input.maxFee) : null;
+    if ((minFee !== null && (isNaN(minFee) || minFee < 0)) || (maxFee !== null && (isNaN(maxFee) || maxFee < 0))) {
+      throw new Error('minFee and maxFee must be non-negative numbers');
+    }
+    if (minFee !== null && maxFee !== null && minFee > maxFee) {
+      throw new Error('minFee cannot be greater than maxFee');
+    }
+
+    return {
+      scope,
+      // Only the target of the rule's own scope is kept
+      skuCode: scope === PricingRuleScope.SKU ? skuCode : null,
+      category: scope === PricingRuleScope.CATEGORY ? category : null,
+      feeType,
+      value,
+      minFee,
+      maxFee,
+      roundingMode,
+    };
+  }
+
+  private async assertNoActiveDuplicate(
+    merchantId: string,
+    scope: PricingRuleScope,
+    skuCode: string | null,
+    category: string | null,
+    excludeId?: string
+  ): Promise<void> {
+    const existing = await PricingRule.findOne({
+      where: { merchantId, scope, skuCode, category, isActive: true },
+    });
+
+    if (existing && existing.id !== excludeId) {
+      throw new Error('An active pricing rule already exists for this target - update or deactivate it first');
+    }
+  }
+}
+
+export default new PricingRuleService();
@@ -5,10 +5,16 @@ import PDFDocument from 'pdfkit';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { SKU } from '../database/models/index.js';
+import { AppError } from '../middleware/errorHandler.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+type QRCodeFormat = 'png' | 'svg' | 'pdf';
+
+const QR_CODE_FORMATS: QRCodeFormat[] = ['png', 'svg', 'pdf'];
+
 interface QRCodeGenerationOptions {
   skuCode: string;
   baseUrl: string; // From env: FRONTEND_URL
@@ -36,6 +42,44 @@ class QRCodeService {
     this.logoPath = process.env.CSR26_LOGO_PATH || path.join(__dirname, '../../assets/csr26-logo.png');
   }
 
+  // ==========================================
+  // REQUEST VALIDATION (shared by the merchant, general and partner endpoints)
+  // ==========================================
+
+  validateFormat(format: unknown): QRCodeFormat {
+    if (!QR_CODE_FORMATS.includes(format as QRCodeFormat)) {
+      throw new AppError('Invalid format. Must be png, svg, or pdf', 400);
+    }
+    return format as QRCodeFormat;
+  }
+
+  async getActiveSKU(skuCode: string): Promise<SKU> {
+    const sku = await SKU.findOne({ where: { code: skuCode, isActive: true } });
+    if (!sku) {
+      throw new AppError('SKU not found or inactive', 404);
+    }
+    return sku;
+  }
+
+  /**
+   * Active SKUs of a bulk request, in request order
+   */
+  async getActiveSKUs(skuCodes: unknown): Promise<SKU[]> {
+    if (!Array.isArray(skuCodes) || skuCodes.length === 0) {
+      throw new AppError('skuCodes must be a non-empty array', 400);
+    }
+
+    const skus = await SKU.findAll({ where: { code: skuCodes, isActive: true } });
+    const skusByCode = new Map(skus.map(sku => [sku.code, sku]));
+
+    const missingCodes = skuCodes.filter((code: string) => !skusByCode.has(code));
+    if (missingCodes.length > 0) {
+      throw new AppError(`Some SKUs not found or inactive: ${missingCodes.join(', ')}`, 400);
+    }
+
+    return skuCodes.map((code: string) => skusByCode.get(code)!);
+  }
+
   async generateQRCode(options: QRCodeGenerationOptions): Promise<QRCodeResponse> {
     const { skuCode, baseUrl, merchantId, partnerId, amount, format = 'png', includeLogo = false } = options;
 
@@ -287,6 +331,14 @@ class QRCodeService {
     };
   }
 
+  /**
+   * Generate the QR code of an order line's tokenized impact URL (Section 20.4: Point B)
+   * Attached to the line's confirmation email so the customer can reopen their impact page
+   */
+  async generateImpactQRCode(impactUrl: string, transactionId: string): Promise<QRCodeResponse> {
+    return this.generatePNG(impactUrl, `QR_impact_${transactionId}.png`, false);
+  }
+
   /**
    * Generate multiple QR codes at once (bulk)
    * Section 15.1: Supports all URL parameters (sku, amount, partner, merchant)
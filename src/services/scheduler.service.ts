@@ -0,0 +1,185 @@
+// Scheduler Service - In-process cron scheduler for maintenance tasks
+// Every instance ticks, but each due run is claimed through a lease on its scheduled_tasks row,
+// so only one instance executes it. Every run is recorded in scheduled_task_runs.
+import os from 'os';
+import { sequelize, ScheduledTask, ScheduledTaskRun } from '../database/models/index.js';
+import { ScheduledTaskRunStatus } from '../database/models/ScheduledTask.js';
+import { getNextCronDate } from '../utils/cron.js';
+
+export interface ScheduledTaskDefinition {
+  name: string;
+  schedule: string; // Cron expression (UTC)
+  description: string;
+  lockTtlMs?: number; // Lease length - must exceed the task's longest run
+  run: () => Promise<object>; // Returned object is stored as the run result
+}
+
+const DEFAULT_LOCK_TTL_MS = 10 * 60 * 1000;
+
+class SchedulerService {
+  private definitions = new Map<string, ScheduledTaskDefinition>();
+  private instanceId = `${os.hostname()}:${process.pid}`;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  register(definitions: ScheduledTaskDefinition[]): void {
+    for (const definition of definitions) {
+      getNextCronDate(definition.schedule); // Fail fast on invalid expressions
+      this.definitions.set(definition.name, definition);
+    }
+  }
+
+  /**
+   * Sync task rows with the registered schedules and start ticking
+   */
+  async start(tickIntervalMs: number): Promise<void> {
+    if (this.timer) {
+      return;
+    }
+
+    for (const definition of this.definitions.values()) {
+      const [task] = await ScheduledTask.findOrCreate({
+        where: { name: definition.name },
+        defaults: {
+          name: definition.name,
+          schedule: definition.schedule,
+          nextRunAt: getNextCronDate(definition.schedule),
+        },
+      });
+
+      // Schedule changed in code - recompute the next run
+      if (task.schedule !== definition.schedule) {
+        await task.update({ schedule: definition.schedule, nextRunAt: getNextCronDate(definition.schedule) });
+      }
+    }
+
+    this.timer = setInterval(() => {
+      this.tick();
+    }, tickIntervalMs);
+
+    console.log(`⏰ Scheduler started on ${this.instanceId} (${[...this.definitions.keys()].join(', ')})`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Last run and next run of every task - for /health/detailed
+   */
+  async getStatus() {
+    const tasks = await ScheduledTask.findAll({ order: [['name', 'ASC']] });
+    const now = new Date();
+
+    return {
+      running: !!this.timer,
+      tasks: tasks.map((task) => ({
+        name: task.name,
+        schedule: task.schedule,
+        nextRunAt: task.nextRunAt,
+        inProgress: !!(task.lockedUntil && task.lockedUntil > now),
+        lastRunAt: task.lastRunAt,
+        lastStatus: task.lastStatus,
+        lastDurationMs: task.lastDurationMs,
+        lastResult: task.lastResult,
+        lastError: task.lastError,
+      })),
+    };
+  }
+
+  private async tick(): Promise<void> {
+    // A slow task must not cause overlapping ticks on this instance
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      for (const definition of this.definitions.values()) {
+        if (await this.acquire(definition)) {
+          await this.runTask(definition);
+        }
+      }
+    } catch (error: any) {
+      // Keep ticking - e.g. the database is briefly unavailable
+      console.error('❌ Scheduler tick failed:', error.message);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Claim a due task - succeeds on one instance only until the run finishes or the lease expires
+   */
+  private async acquire(definition: ScheduledTaskDefinition): Promise<boolean> {
+    const [rows] = await sequelize.query(
+      `UPDATE "scheduled_tasks"
+       SET "locked_until" = :lockedUntil, "locked_by" = :instanceId, "updated_at" = NOW()
+       WHERE "name" = :name
+         AND "next_run_at" <= NOW()
+         AND ("locked_until" IS NULL OR "locked_until" < NOW())
+       RETURNING "name";`,
+      {
+        replacements: {
+          name: definition.name,
+          instanceId: this.instanceId,
+          lockedUntil: new Date(Date.now() + (definition.lockTtlMs || DEFAULT_LOCK_TTL_MS)),
+        },
+      }
+    );
+
+    return (rows as unknown[]).length > 0;
+  }
+
+  private async runTask(definition: ScheduledTaskDefinition): Promise<void> {
+    const startedAt = new Date();
+    let status: ScheduledTaskRunStatus = 'succeeded';
+    let result: object | null = null;
+    let error: string | null = null;
+
+    try {
+      result = await definition.run();
+    } catch (err: any) {
+      status = 'failed';
+      error = err?.message || String(err);
+      console.error(`❌ Scheduled task ${definition.name} failed: ${error}`);
+    }
+
+    const finishedAt = new Date();
+    const durationMs = finishedAt.getTime() - startedAt.getTime();
+
+    await ScheduledTaskRun.create({
+      taskName: definition.name,
+      status,
+      startedAt,
+      finishedAt,
+      durationMs,
+      result,
+      error,
+      instanceId: this.instanceId,
+    });
+
+    await ScheduledTask.update(
+      {
+        nextRunAt: getNextCronDate(definition.schedule, finishedAt),
+        lockedUntil: null,
+        lockedBy: null,
+        lastRunAt: startedAt,
+        lastStatus: status,
+        lastDurationMs: durationMs,
+        lastResult: result,
+        lastError: error,
+      },
+      { where: { name: definition.name } }
+    );
+
+    if (status === 'succeeded') {
+      console.log(`⏰ Scheduled task ${definition.name} finished in ${durationMs}ms`, result);
+    }
+  }
+}
+
+export default new SchedulerService();
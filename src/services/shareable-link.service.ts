@@ -1,4 +1,5 @@
 // Shareable Link Service - Business logic for secure dashboard sharing
+import { Op } from 'sequelize';
 import { ShareableLink, User, Wallet, Transaction, SKU } from '../database/models/index.js';
 import { env } from '../config/env.js';
 
@@ -162,6 +163,15 @@ class ShareableLinkService {
     return { deletedCount: result };
   }
 
+  // Delete expired links (run by the maintenance scheduler) - links without expiry are kept
+  async cleanupExpiredLinks(): Promise<number> {
+    const result = await ShareableLink.destroy({
+      where: { expiresAt: { [Op.lt]: new Date() } },
+    });
+    console.log(`🧹 Cleaned up ${result} expired shareable links`);
+    return result;
+  }
+
   // Update link settings
   async updateLink(id: string, userId: string, updates: { isPublic?: boolean; expiresInDays?: number }) {
     const link = await ShareableLink.findOne({
@@ -14,6 +14,7 @@ interface CreateSKUData {
   impactMultiplier?: number;
   productWeight?: number; // Section 5.1: Actual grams for physical products
   description?: string; // Section 5.1: Merchant-facing description
+  category?: string; // Selects CATEGORY-scoped merchant pricing rules
   partnerId?: string;
 }
 
@@ -0,0 +1,96 @@
+// Stripe Reconciliation Source - where reconciliation reads Stripe records from
+// The live source lists them from the Stripe API. The fixture source reads the same objects
+// from a local JSON file (STRIPE_RECONCILIATION_FIXTURE), so reconciliation can be run and
+// tested without a Stripe account. See src/database/fixtures/stripe-reconciliation.json.
+import { readFile } from 'fs/promises';
+import Stripe from 'stripe';
+import { env } from '../config/env.js';
+import { ReconciliationSource } from '../database/models/ReconciliationRun.js';
+
+// Stripe `created` range in Unix seconds (inclusive)
+export interface StripeCreatedRange {
+  gte: number;
+  lte: number;
+}
+
+// Records are returned with their charge expanded, as reconciliation needs the payment intent:
+// balance transactions with `source`, application fees with `charge`, transfers with `source_transaction`
+export interface StripeReconciliationSource {
+  name: ReconciliationSource;
+  listBalanceTransactions(range: StripeCreatedRange): Promise<Stripe.BalanceTransaction[]>;
+  listApplicationFees(range: StripeCreatedRange): Promise<Stripe.ApplicationFee[]>;
+  listTransfers(range: StripeCreatedRange): Promise<Stripe.Transfer[]>;
+}
+
+// Fixture file layout - lists of Stripe objects, expanded like the API source
+interface StripeFixture {
+  balanceTransactions?: Stripe.BalanceTransaction[];
+  applicationFees?: Stripe.ApplicationFee[];
+  transfers?: Stripe.Transfer[];
+}
+
+// Safety cap on objects imported per type and run
+const MAX_OBJECTS = 10000;
+
+class StripeApiSource implements StripeReconciliationSource {
+  readonly name = 'stripe' as const;
+  private stripe = new Stripe(env.stripe.secretKey, {
+    apiVersion: '2023-10-16',
+  });
+
+  listBalanceTransactions(range: StripeCreatedRange) {
+    return this.stripe.balanceTransactions
+      .list({ created: range, limit: 100, expand: ['data.source'] })
+      .autoPagingToArray({ limit: MAX_OBJECTS });
+  }
+
+  listApplicationFees(range: StripeCreatedRange) {
+    return this.stripe.applicationFees
+      .list({ created: range, limit: 100, expand: ['data.charge'] })
+      .autoPagingToArray({ limit: MAX_OBJECTS });
+  }
+
+  listTransfers(range: StripeCreatedRange) {
+    return this.stripe.transfers
+      .list({ created: range, limit: 100, expand: ['data.source_transaction'] })
+      .autoPagingToArray({ limit: MAX_OBJECTS });
+  }
+}
+
+class StripeFixtureSource implements StripeReconciliationSource {
+  readonly name = 'fixture' as const;
+  private fixture?: Promise<StripeFixture>;
+
+  constructor(private path: string) {}
+
+  async listBalanceTransactions(range: StripeCreatedRange) {
+    return this.inRange((await this.load()).balanceTransactions, range);
+  }
+
+  async listApplicationFees(range: StripeCreatedRange) {
+    return this.inRange((await this.load()).applicationFees, range);
+  }
+
+  async listTransfers(range: StripeCreatedRange) {
+    return this.inRange((await this.load()).transfers, range);
+  }
+
+  private load(): Promise<StripeFixture> {
+    if (!this.fixture) {
+      this.fixture = readFile(this.path, 'utf8').then((content) => JSON.parse(content) as StripeFixture);
+    }
+    return this.fixture;
+  }
+
+  private inRange<T extends { created: number }>(objects: T[] | undefined, range: StripeCreatedRange): T[] {
+    return (objects || []).filter((object) => object.created >= range.gte && object.created <= range.lte);
+  }
+}
+
+/**
+ * Fixture source when STRIPE_RECONCILIATION_FIXTURE is set, the Stripe API otherwise
+ */
+export const createStripeReconciliationSource = (): StripeReconciliationSource =>
+  env.stripe.reconciliationFixture
+    ? new StripeFixtureSource(env.stripe.reconciliationFixture)
+    : new StripeApiSource();
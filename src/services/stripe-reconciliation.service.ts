@@ -0,0 +1,517 @@
+// Stripe Reconciliation Service - Compare local transactions with what Stripe actually did
+// A run imports the period's Stripe balance transactions, application fees and transfers into
+// stripe_ledger_entries (re-imports update them), matches them to Transaction.stripePaymentIntentId
+// and records an issue for every discrepancy:
+// - MISSING_IN_STRIPE: paid transaction without a Stripe charge
+// - ORPHAN_IN_STRIPE: Stripe record whose payment intent has no local transaction
+// - AMOUNT_MISMATCH: direct (PAY) charge differs from the transaction amount
+// - FEE_MISMATCH: split payment application fee missing or not the recorded plastic fee
+// - TRANSFER_MISMATCH: merchant transfer missing or not the charge minus the application fee
+// Issues stay open until an admin resolves them; later runs record them again if still present.
+import Stripe from 'stripe';
+import { CreationAttributes, Op } from 'sequelize';
+import {
+  sequelize, Transaction, SKU, PaymentStatus,
+  StripeLedgerEntry, ReconciliationRun, ReconciliationIssue,
+} from '../database/models/index.js';
+import { StripeObjectType } from '../database/models/StripeLedgerEntry.js';
+import { ReconciliationIssueType } from '../database/models/ReconciliationIssue.js';
+import { PaymentMode } from '../database/models/SKU.js';
+import { AppError } from '../middleware/errorHandler.js';
+import exchangeRateService from './exchange-rate.service.js';
+import { createStripeReconciliationSource, StripeReconciliationSource } from './stripe-reconciliation-source.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stripe records are imported up to a day past the period, so payments confirmed
+// shortly after their transaction was created are still found
+const IMPORT_GRACE_MS = DAY_MS;
+
+// Balance transaction types that represent the customer's charge
+const CHARGE_TYPES = ['charge', 'payment'];
+
+// Transactions that should have been charged through Stripe
+const RECONCILED_STATUSES = [PaymentStatus.COMPLETED, PaymentStatus.NA, PaymentStatus.REFUNDED, PaymentStatus.REVERSED];
+
+type LedgerEntryData = CreationAttributes<StripeLedgerEntry>;
+
+interface IssueData {
+  issueType: ReconciliationIssueType;
+  stripePaymentIntentId: string;
+  transactionIds: string[];
+  ledgerEntryId?: string | null;
+  currency?: string | null;
+  expectedAmount?: number | null;
+  actualAmount?: number | null;
+  details: string;
+}
+
+interface IssueFilters {
+  runId?: string;
+  issueType?: ReconciliationIssueType;
+  status?: 'open' | 'resolved';
+  stripePaymentIntentId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+const roundTo2 = (value: number) => Math.round(value * 100) / 100;
+
+// Amounts are compared at cent precision
+const differs = (a: number, b: number) => Math.abs(roundTo2(a) - roundTo2(b)) >= 0.01;
+
+const sum = (values: number[]) => roundTo2(values.reduce((total, value) => total + value, 0));
+
+// Id of an expandable Stripe reference
+const idOf = (ref: string | { id: string } | null | undefined): string | null =>
+  typeof ref === 'string' ? ref : ref?.id || null;
+
+// Balance transaction of the customer's charge
+export const isChargeEntry = (entry: StripeLedgerEntry) =>
+  entry.objectType === StripeObjectType.BALANCE_TRANSACTION && CHARGE_TYPES.includes(entry.type);
+
+class StripeReconciliationService {
+  /**
+   * Import and reconcile the Stripe records of a period
+   * @param startedBy - Admin email or 'scheduler'
+   * @param source - Stripe API by default, or the fixture file when STRIPE_RECONCILIATION_FIXTURE is set
+   */
+  async runReconciliation(
+    periodStart: Date,
+    periodEnd: Date,
+    startedBy: string,
+    source: StripeReconciliationSource = createStripeReconciliationSource()
+  ) {
+    if (isNaN(periodStart.getTime()) || isNaN(periodEnd.getTime()) || periodStart >= periodEnd) {
+      throw new AppError('A valid startDate before endDate is required', 400);
+    }
+
+    const run = await ReconciliationRun.create({
+      periodStart,
+      periodEnd,
+      source: source.name,
+      startedBy,
+    });
+
+    console.log(`🔎 Stripe reconciliation ${run.id} started (${source.name}) - ${periodStart.toISOString()} to ${periodEnd.toISOString()}`);
+
+    try {
+      const imported = await this.importPeriod(source, periodStart, periodEnd);
+      const { matchedPayments, issues } = await this.matchPeriod(periodStart, periodEnd);
+
+      await sequelize.transaction(async (t) => {
+        await ReconciliationIssue.bulkCreate(
+          issues.map((issue) => ({ ...issue, runId: run.id })),
+          { transaction: t }
+        );
+        await run.update({
+          status: 'completed',
+          imported,
+          matchedPayments,
+          issueCount: issues.length,
+          completedAt: new Date(),
+        }, { transaction: t });
+      });
+
+      console.log(`✅ Stripe reconciliation ${run.id} completed - ${matchedPayments} matched, ${issues.length} issues`);
+      return run;
+    } catch (error: any) {
+      await run.update({ status: 'failed', error: error.message, completedAt: new Date() });
+      console.error(`❌ Stripe reconciliation ${run.id} failed:`, error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Import the period's Stripe records into the local ledger
+   */
+  private async importPeriod(source: StripeReconciliationSource, periodStart: Date, periodEnd: Date) {
+    const importUntil = Math.max(Math.min(periodEnd.getTime() + IMPORT_GRACE_MS, Date.now()), periodEnd.getTime());
+    const range = {
+      gte: Math.floor(periodStart.getTime() / 1000),
+      lte: Math.floor(importUntil / 1000),
+    };
+
+    const balanceTransactions = await source.listBalanceTransactions(range);
+    for (const balanceTransaction of balanceTransactions) {
+      await this.saveEntry(this.fromBalanceTransaction(balanceTransaction));
+    }
+
+    const applicationFees = await source.listApplicationFees(range);
+    for (const applicationFee of applicationFees) {
+      await this.saveEntry(this.fromApplicationFee(applicationFee));
+    }
+
+    const transfers = await source.listTransfers(range);
+    for (const transfer of transfers) {
+      await this.saveEntry(this.fromTransfer(transfer));
+    }
+
+    return {
+      balanceTransactions: balanceTransactions.length,
+      applicationFees: applicationFees.length,
+      transfers: transfers.length,
+    };
+  }
+
+  private async saveEntry(data: LedgerEntryData) {
+    const existing = await StripeLedgerEntry.findOne({ where: { stripeId: data.stripeId } });
+    if (existing) {
+      await existing.update(data);
+    } else {
+      await StripeLedgerEntry.create(data);
+    }
+  }
+
+  private fromBalanceTransaction(balanceTransaction: Stripe.BalanceTransaction): LedgerEntryData {
+    const source = balanceTransaction.source && typeof balanceTransaction.source === 'object'
+      ? balanceTransaction.source as any
+      : null;
+    // Charges carry the payment intent; refunds and fees point back to their charge
+    const charge: Stripe.Charge | null = source?.object === 'charge' ? source : null;
+    const currency = balanceTransaction.currency;
+
+    return {
+      objectType: StripeObjectType.BALANCE_TRANSACTION,
+      stripeId: balanceTransaction.id,
+      type: balanceTransaction.type,
+      stripeChargeId: charge ? charge.id : idOf(source?.charge),
+      stripePaymentIntentId: idOf(source?.payment_intent),
+      stripeAccountId: null,
+      amount: exchangeRateService.fromMinorUnits(balanceTransaction.amount, currency),
+      fee: exchangeRateService.fromMinorUnits(balanceTransaction.fee, currency),
+      net: exchangeRateService.fromMinorUnits(balanceTransaction.net, currency),
+      currency: exchangeRateService.normalizeCurrency(currency),
+      sourceAmount: charge ? exchangeRateService.fromMinorUnits(charge.amount, charge.currency) : null,
+      sourceCurrency: charge ? exchangeRateService.normalizeCurrency(charge.currency) : null,
+      amountRefunded: 0,
+      status: balanceTransaction.status,
+      stripeCreatedAt: new Date(balanceTransaction.created * 1000),
+      raw: balanceTransaction,
+      lastImportedAt: new Date(),
+    };
+  }
+
+  private fromApplicationFee(applicationFee: Stripe.ApplicationFee): LedgerEntryData {
+    const charge = typeof applicationFee.charge === 'object' ? applicationFee.charge : null;
+    const currency = applicationFee.currency;
+    const amount = exchangeRateService.fromMinorUnits(applicationFee.amount, currency);
+    const amountRefunded = exchangeRateService.fromMinorUnits(applicationFee.amount_refunded, currency);
+
+    return {
+      objectType: StripeObjectType.APPLICATION_FEE,
+      stripeId: applicationFee.id,
+      type: 'application_fee',
+      stripeChargeId: idOf(applicationFee.charge),
+      stripePaymentIntentId: idOf(charge?.payment_intent),
+      stripeAccountId: idOf(applicationFee.account),
+      amount,
+      fee: 0,
+      net: roundTo2(amount - amountRefunded),
+      currency: exchangeRateService.normalizeCurrency(currency),
+      amountRefunded,
+      status: applicationFee.refunded ? 'refunded' : null,
+      stripeCreatedAt: new Date(applicationFee.created * 1000),
+      raw: applicationFee,
+      lastImportedAt: new Date(),
+    };
+  }
+
+  private fromTransfer(transfer: Stripe.Transfer): LedgerEntryData {
+    const charge = transfer.source_transaction && typeof transfer.source_transaction === 'object'
+      ? transfer.source_transaction
+      : null;
+    const currency = transfer.currency;
+    const amount = exchangeRateService.fromMinorUnits(transfer.amount, currency);
+    const amountRefunded = exchangeRateService.fromMinorUnits(transfer.amount_reversed, currency);
+
+    return {
+      objectType: StripeObjectType.TRANSFER,
+      stripeId: transfer.id,
+      type: 'transfer',
+      stripeChargeId: idOf(transfer.source_transaction),
+      stripePaymentIntentId: idOf(charge?.payment_intent),
+      stripeAccountId: idOf(transfer.destination),
+      amount,
+      fee: 0,
+      net: roundTo2(amount - amountRefunded),
+      currency: exchangeRateService.normalizeCurrency(currency),
+      amountRefunded,
+      status: transfer.reversed ? 'reversed' : null,
+      stripeCreatedAt: new Date(transfer.created * 1000),
+      raw: transfer,
+      lastImportedAt: new Date(),
+    };
+  }
+
+  /**
+   * Match the period's transactions with the imported ledger, per payment intent
+   */
+  private async matchPeriod(periodStart: Date, periodEnd: Date) {
+    const transactions = await Transaction.findAll({
+      where: {
+        stripePaymentIntentId: { [Op.not]: null as any },
+        createdAt: { [Op.gte]: periodStart, [Op.lte]: periodEnd },
+        paymentStatus: { [Op.in]: RECONCILED_STATUSES },
+      } as any,
+      include: [{ model: SKU, as: 'sku', attributes: ['code', 'paymentMode'] }],
+      order: [['createdAt', 'ASC']],
+    });
+
+    const transactionsByPaymentIntent = new Map<string, Transaction[]>();
+    for (const transaction of transactions) {
+      const group = transactionsByPaymentIntent.get(transaction.stripePaymentIntentId!) || [];
+      group.push(transaction);
+      transactionsByPaymentIntent.set(transaction.stripePaymentIntentId!, group);
+    }
+
+    const periodEntries = await StripeLedgerEntry.findAll({
+      where: {
+        stripeCreatedAt: { [Op.gte]: periodStart, [Op.lte]: periodEnd },
+        stripePaymentIntentId: { [Op.not]: null as any },
+      } as any,
+    });
+
+    const paymentIntentIds = [...new Set([
+      ...transactionsByPaymentIntent.keys(),
+      ...periodEntries.map((entry) => entry.stripePaymentIntentId!),
+    ])];
+
+    const entries = paymentIntentIds.length
+      ? await StripeLedgerEntry.findAll({ where: { stripePaymentIntentId: { [Op.in]: paymentIntentIds } } })
+      : [];
+    const entriesByPaymentIntent = new Map<string, StripeLedgerEntry[]>();
+    for (const entry of entries) {
+      const group = entriesByPaymentIntent.get(entry.stripePaymentIntentId!) || [];
+      group.push(entry);
+      entriesByPaymentIntent.set(entry.stripePaymentIntentId!, group);
+    }
+
+    const issues: IssueData[] = [];
+    let matchedPayments = 0;
+
+    for (const [paymentIntentId, group] of transactionsByPaymentIntent) {
+      const paymentIssues = this.checkPayment(paymentIntentId, group, entriesByPaymentIntent.get(paymentIntentId) || []);
+      if (paymentIssues.length) {
+        issues.push(...paymentIssues);
+      } else {
+        matchedPayments++;
+      }
+    }
+
+    // Stripe records of the period whose transaction is not in the period may still exist locally
+    const unmatchedIds = [...new Set(periodEntries.map((entry) => entry.stripePaymentIntentId!))]
+      .filter((paymentIntentId) => !transactionsByPaymentIntent.has(paymentIntentId));
+    const knownTransactions = unmatchedIds.length
+      ? await Transaction.findAll({
+          where: { stripePaymentIntentId: { [Op.in]: unmatchedIds } },
+          attributes: ['stripePaymentIntentId'],
+        })
+      : [];
+    const known = new Set(knownTransactions.map((transaction) => transaction.stripePaymentIntentId));
+
+    for (const paymentIntentId of unmatchedIds.filter((id) => !known.has(id))) {
+      const orphanEntries = entriesByPaymentIntent.get(paymentIntentId) || [];
+      const entry = orphanEntries.find(isChargeEntry) || orphanEntries[0];
+      issues.push({
+        issueType: ReconciliationIssueType.ORPHAN_IN_STRIPE,
+        stripePaymentIntentId: paymentIntentId,
+        transactionIds: [],
+        ledgerEntryId: entry?.id,
+        currency: entry ? entry.sourceCurrency || entry.currency : null,
+        actualAmount: entry ? Number(entry.sourceAmount ?? entry.amount) : null,
+        details: `Stripe ${orphanEntries.map((e) => e.stripeId).join(', ')} without a local transaction`,
+      });
+    }
+
+    return { matchedPayments, issues };
+  }
+
+  /**
+   * Issues of one payment intent - PAY transactions are checked on the charge, e-commerce
+   * checkouts (the transaction is the plastic fee) on the application fee. Any split payment
+   * must transfer the rest of the charge to the merchant.
+   */
+  private checkPayment(paymentIntentId: string, transactions: Transaction[], entries: StripeLedgerEntry[]): IssueData[] {
+    const transactionIds = transactions.map((transaction) => transaction.id);
+    const currency = transactions[0].currency;
+    const expected = sum(transactions.map((transaction) => Number(transaction.originalAmount ?? transaction.amount)));
+    const base = { stripePaymentIntentId: paymentIntentId, transactionIds, currency };
+
+    const charges = entries.filter(isChargeEntry);
+    if (!charges.length) {
+      return [{
+        ...base,
+        issueType: ReconciliationIssueType.MISSING_IN_STRIPE,
+        expectedAmount: expected,
+        details: `No Stripe charge for ${transactions.length} ${transactions[0].paymentStatus} transaction(s)`,
+      }];
+    }
+
+    const issues: IssueData[] = [];
+    const applicationFees = entries.filter((entry) => entry.objectType === StripeObjectType.APPLICATION_FEE);
+    const transfers = entries.filter((entry) => entry.objectType === StripeObjectType.TRANSFER);
+    const chargeCurrency = charges[0].sourceCurrency || charges[0].currency;
+    const gross = sum(charges.map((charge) => Number(charge.sourceAmount ?? charge.amount)));
+    const isCheckout = transactions.some(
+      (transaction) => transaction.parentOrderId || transaction.sku?.paymentMode !== PaymentMode.PAY
+    );
+    const feeTotal = sum(applicationFees.map((fee) => Number(fee.amount)));
+
+    if (!isCheckout) {
+      if (chargeCurrency !== currency || differs(gross, expected)) {
+        issues.push({
+          ...base,
+          issueType: ReconciliationIssueType.AMOUNT_MISMATCH,
+          ledgerEntryId: charges[0].id,
+          expectedAmount: expected,
+          actualAmount: gross,
+          details: `Charged ${gross.toFixed(2)} ${chargeCurrency}, transactions total ${expected.toFixed(2)} ${currency}`,
+        });
+      }
+
+      // Split PAY payments: the application fee recorded when the payment was confirmed
+      const recordedFee = transactions.every((transaction) => transaction.plasticFeeAmount !== null)
+        ? sum(transactions.map((transaction) => Number(transaction.plasticFeeAmount)))
+        : null;
+      if (applicationFees.length && recordedFee !== null && differs(feeTotal, recordedFee)) {
+        issues.push({
+          ...base,
+          issueType: ReconciliationIssueType.FEE_MISMATCH,
+          ledgerEntryId: applicationFees[0].id,
+          expectedAmount: recordedFee,
+          actualAmount: feeTotal,
+          details: `Application fee ${feeTotal.toFixed(2)} ${applicationFees[0].currency}, recorded ${recordedFee.toFixed(2)} ${currency}`,
+        });
+      }
+    } else if (!applicationFees.length || differs(feeTotal, expected)) {
+      // The application fee is the plastic fee recorded on the checkout transactions
+      issues.push({
+        ...base,
+        issueType: ReconciliationIssueType.FEE_MISMATCH,
+        ledgerEntryId: applicationFees[0]?.id || charges[0].id,
+        expectedAmount: expected,
+        actualAmount: applicationFees.length ? feeTotal : null,
+        details: applicationFees.length
+          ? `Application fee ${feeTotal.toFixed(2)} ${applicationFees[0].currency}, plastic fee ${expected.toFixed(2)} ${currency}`
+          : `No application fee on a checkout payment of ${gross.toFixed(2)} ${chargeCurrency}`,
+      });
+    }
+
+    // The merchant receives the rest of the charge
+    if (applicationFees.length || transfers.length) {
+      const expectedTransfer = roundTo2(gross - feeTotal);
+      const transferred = sum(transfers.map((transfer) => Number(transfer.amount)));
+      if (!transfers.length || differs(transferred, expectedTransfer)) {
+        issues.push({
+          ...base,
+          issueType: ReconciliationIssueType.TRANSFER_MISMATCH,
+          ledgerEntryId: transfers[0]?.id || applicationFees[0]?.id,
+          currency: chargeCurrency,
+          expectedAmount: expectedTransfer,
+          actualAmount: transfers.length ? transferred : null,
+          details: transfers.length
+            ? `Transferred ${transferred.toFixed(2)}, charge minus application fee is ${expectedTransfer.toFixed(2)} ${chargeCurrency}`
+            : `No merchant transfer for charge ${gross.toFixed(2)} ${chargeCurrency}`,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Reconciliation runs, newest first
+   */
+  async listRuns(limit?: number, offset?: number) {
+    const { rows, count } = await ReconciliationRun.findAndCountAll({
+      order: [['createdAt', 'DESC']],
+      limit: Math.min(limit || 50, 200),
+      offset: offset || 0,
+    });
+
+    return { runs: rows, total: count };
+  }
+
+  /**
+   * Run with its issue counts per type
+   */
+  async getRun(runId: string) {
+    const run = await ReconciliationRun.findByPk(runId);
+    if (!run) {
+      throw new AppError('Reconciliation run not found', 404);
+    }
+
+    const counts = await ReconciliationIssue.findAll({
+      where: { runId },
+      attributes: ['issueType', [sequelize.fn('COUNT', sequelize.col('id')), 'count']],
+      group: ['issueType'],
+      raw: true,
+    }) as unknown as { issueType: ReconciliationIssueType; count: string }[];
+
+    const issuesByType: Record<string, number> = {};
+    for (const row of counts) {
+      issuesByType[row.issueType] = Number(row.count);
+    }
+
+    return { run, issuesByType };
+  }
+
+  async listIssues(filters: IssueFilters = {}) {
+    const where: any = {};
+    if (filters.runId) where.runId = filters.runId;
+    if (filters.issueType) where.issueType = filters.issueType;
+    if (filters.stripePaymentIntentId) where.stripePaymentIntentId = filters.stripePaymentIntentId;
+    if (filters.status === 'open') where.resolvedAt = null;
+    if (filters.status === 'resolved') where.resolvedAt = { [Op.not]: null };
+
+    const { rows, count } = await ReconciliationIssue.findAndCountAll({
+      where,
+      include: [{ model: StripeLedgerEntry, as: 'ledgerEntry', attributes: { exclude: ['raw'] } }],
+      order: [['createdAt', 'DESC']],
+      limit: Math.min(filters.limit || 50, 200),
+      offset: filters.offset || 0,
+    });
+
+    return { issues: rows, total: count };
+  }
+
+  async resolveIssue(issueId: string, resolvedBy: string, note?: string) {
+    const issue = await ReconciliationIssue.findByPk(issueId);
+    if (!issue) {
+      throw new AppError('Reconciliation issue not found', 404);
+    }
+    if (issue.resolvedAt) {
+      throw new AppError('Reconciliation issue is already resolved', 409);
+    }
+
+    await issue.update({ resolvedAt: new Date(), resolvedBy, resolutionNote: note || null });
+    return issue;
+  }
+
+  /**
+   * Ledger entries and open issues of the given payment intents, for reports
+   * Issues are newest first - later runs record an unresolved discrepancy again
+   */
+  async getPaymentLedger(paymentIntentIds: string[]) {
+    if (!paymentIntentIds.length) {
+      return { entries: [], openIssues: [] };
+    }
+
+    const [entries, openIssues] = await Promise.all([
+      StripeLedgerEntry.findAll({
+        where: { stripePaymentIntentId: { [Op.in]: paymentIntentIds } },
+        attributes: { exclude: ['raw'] },
+      }),
+      ReconciliationIssue.findAll({
+        where: { stripePaymentIntentId: { [Op.in]: paymentIntentIds }, resolvedAt: null },
+        attributes: ['stripePaymentIntentId', 'issueType', 'runId', 'createdAt'],
+        order: [['createdAt', 'DESC']],
+      }),
+    ]);
+
+    return { entries, openIssues };
+  }
+}
+
+export default new StripeReconciliationService();
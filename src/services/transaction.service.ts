@@ -4,8 +4,8 @@
 // UNIVERSAL FORMULA (all modes): impactGrams = (amount / CURRENT_CSR_PRICE) * impactMultiplier * 1000
 // Per client clarification (conversation.txt line 682): "€1 generates 9,090 grams of removal. 1/0.11"
 
-import { Op } from 'sequelize';
-import { Transaction, SKU, User, GiftCardCode } from '../database/models/index.js';
+import { Op, Transaction as DbTransaction } from 'sequelize';
+import { sequelize, Transaction, SKU, SKULocalization, User, GiftCardCode, Wallet, CSRPricePeriod } from '../database/models/index.js';
 import { PaymentMode } from '../database/models/SKU.js';
 import { PaymentStatus } from '../database/models/Transaction.js';
 import userService from './user.service.js';
@@ -13,8 +13,11 @@ import walletService from './wallet.service.js';
 import giftCardService from './giftCard.service.js';
 import skuService from './sku.service.js';
 import configService from './config.service.js';
-import emailService from './email.service.js';
-import { env } from '../config/env.js';
+import exchangeRateService from './exchange-rate.service.js';
+import notificationService from './notification.service.js';
+import outboundWebhookService from './outbound-webhook.service.js';
+import partnerAssignmentService from './partner-assignment.service.js';
+import { AppError } from '../middleware/errorHandler.js';
 
 // Registration data from frontend
 interface RegistrationData {
@@ -37,11 +40,34 @@ interface CreateTransactionInput {
   merchantId?: string;
   partnerId?: string;
   orderId?: string;
-  amount?: number; // Required for ALLOCATION type (from URL)
+  amount?: number; // Required for ALLOCATION type (from URL), in `currency`
+  currency?: string; // ISO 4217 currency of `amount` (default EUR)
+  locale?: string; // PAY type: charge the SKU's localized price and currency for this locale
   giftCardCode?: string; // Required for GIFT_CARD type
   registrationData?: RegistrationData;
+  skipConfirmationEmail?: boolean; // Caller queues its own confirmation (e.g. e-commerce with impact URL)
+  stripePaymentIntentId?: string; // Already-paid Stripe payment (e-commerce split) - recorded at most once
+  parentOrderId?: string; // E-commerce order this line belongs to - the order dedupes its payment
+  prepaidFee?: boolean; // Order line: `amount` is the plastic fee collected at checkout, whatever the SKU's payment mode
 }
 
+// Options for refunds and reversals
+interface RefundOptions {
+  finalStatus: PaymentStatus.REFUNDED | PaymentStatus.REVERSED; // Status once fully refunded
+  reason?: string;
+}
+
+// Round to a fixed number of decimals (amount uses 4, impact grams use 2)
+const roundTo = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+// Payment status changes allowed through updatePaymentStatus - a pending payment settles once
+const SETTLED_PAYMENT_STATUSES = [PaymentStatus.COMPLETED, PaymentStatus.FAILED, PaymentStatus.EXPIRED];
+const isAllowedPaymentStatusChange = (from: PaymentStatus, to: PaymentStatus) =>
+  from === PaymentStatus.PENDING && SETTLED_PAYMENT_STATUSES.includes(to);
+
 class TransactionService {
   /**
    * Calculate impact in grams - UNIVERSAL FORMULA for ALL payment modes
@@ -79,8 +105,13 @@ class TransactionService {
   /**
    * Main transaction creation - handles all 4 SKU types
    * Flow: Validate SKU → Create/Find User → Calculate Impact → Create Transaction → Update Wallet
+   * Runs in its own DB transaction, or as a savepoint of options.transaction (e.g. all lines of an order)
+   * options.csrPrice replaces the price in force - order lines use the price quoted at checkout
    */
-  async createTransaction(input: CreateTransactionInput) {
+  async createTransaction(
+    input: CreateTransactionInput,
+    options: { transaction?: DbTransaction; csrPrice?: { periodId: string | null; price: number } } = {}
+  ) {
     // 1. Get SKU information
     const sku = await skuService.getSKUByCode(input.skuCode);
     if (!sku.isActive) {
@@ -89,35 +120,44 @@ class TransactionService {
 
     // 2. Get global config values (CSR price, Master ID, threshold)
     // Note: ALLOCATION_MULTIPLIER is no longer used - all modes use same formula
-    const currentCSRPrice = await configService.getCurrentCSRPrice();
+    // The CSR price period in force is stored on the transaction for reporting
+    const { periodId: csrPricePeriodId, price: currentCSRPrice } = options.csrPrice ?? await configService.getCSRPriceAt();
     const masterId = await configService.getMasterId();
     const corsairThreshold = await configService.getCorsairThreshold();
 
-    // 3. Determine transaction amount based on SKU type
-    let transactionAmount = 0;
+    // 3. Determine transaction amount (in the customer's currency) based on SKU type
+    let originalAmount = 0;
+    let currency: string | undefined;
     let paymentStatus: PaymentStatus = PaymentStatus.NA;
     let giftCardCodeId: string | undefined;
 
-    switch (sku.paymentMode) {
+    // Prepaid order lines are recorded like an allocation of the collected fee
+    switch (input.prepaidFee ? PaymentMode.ALLOCATION : sku.paymentMode) {
       case PaymentMode.CLAIM:
         // Type 1: Prepaid Lot - Merchant already paid
         // Use SKU price for impact calculation
-        transactionAmount = Number(sku.price);
+        originalAmount = Number(sku.price);
         paymentStatus = PaymentStatus.NA;
         break;
 
-      case PaymentMode.PAY:
+      case PaymentMode.PAY: {
         // Type 2: Pay-as-you-go - Customer pays via Stripe
-        transactionAmount = Number(sku.price);
+        // Localized SKUs are charged in the market's price and currency
+        const localization = input.locale
+          ? await SKULocalization.findOne({ where: { skuId: sku.id, locale: input.locale, isActive: true } })
+          : null;
+        originalAmount = localization ? Number(localization.localizedPrice) : Number(sku.price);
+        currency = localization?.currency;
         paymentStatus = PaymentStatus.PENDING; // Needs Stripe payment
         break;
+      }
 
       case PaymentMode.GIFT_CARD:
         // Type 3: Gift Card - Customer paid at physical store
         if (!input.giftCardCode) {
           throw new Error('Gift card code is required');
         }
-        transactionAmount = Number(sku.price);
+        originalAmount = Number(sku.price);
         paymentStatus = PaymentStatus.COMPLETED; // Already paid at store
         break;
 
@@ -126,7 +166,8 @@ class TransactionService {
         if (!input.amount || input.amount <= 0) {
           throw new Error('Amount is required for allocation type');
         }
-        transactionAmount = input.amount;
+        originalAmount = input.amount;
+        currency = input.currency;
         paymentStatus = PaymentStatus.COMPLETED; // Paid at partner checkout
         break;
 
@@ -134,13 +175,18 @@ class TransactionService {
         throw new Error(`Unknown payment mode: ${sku.paymentMode}`);
     }
 
+    // Normalize to EUR - impact, Corsair threshold and wallets always use the EUR amount
+    const normalized = await exchangeRateService.normalizeToEur(originalAmount, currency);
+    const transactionAmount = normalized.amountEur;
+
     // 4. Calculate impact in grams - UNIVERSAL FORMULA for ALL payment modes
     // Per client clarification: ALL modes use (amount / CSR_PRICE) * multiplier * 1000
     // Example: €5 / 0.11 × 1 = 45.45 kg = 45,454 grams
+    // Prepaid order lines use 1 - the quoted fee already reflects the SKU's weight and multiplier
     const calculatedImpact = this.calculateImpactGrams(
       transactionAmount,
       currentCSRPrice,
-      Number(sku.impactMultiplier)
+      input.prepaidFee ? 1 : Number(sku.impactMultiplier)
     );
 
     // 5. Check if should flag for Corsair Connect (CORSAIR_THRESHOLD from global config)
@@ -152,171 +198,166 @@ class TransactionService {
       corsairThreshold
     );
 
-    // 7. Create or find user based on registration level
-    let user: User;
-
-    if (input.userId) {
-      // User already registered - just fetch
-      user = await userService.getUserById(input.userId);
-    } else if (input.registrationData) {
-      // New user registration
-      const regData = input.registrationData;
-
-      switch (requiredLevel) {
-        case 'minimal':
-          user = await userService.findOrCreateMinimalUser({ email: regData.email });
-          break;
+    // 7-11. Persist atomically: user, gift card redemption, transaction, wallet credits and
+    // corsairConnectFlag either all commit or all roll back. Gift card and wallet rows are
+    // locked FOR UPDATE, so concurrent redemptions of one code yield exactly one success.
+    const { transaction } = await sequelize.transaction({ transaction: options.transaction }, async (dbTransaction) => {
+      // A Stripe payment may be completed by its webhook and by the merchant at the same time -
+      // serialize on the payment intent so only one transaction records it
+      // (order lines share the payment intent and are deduplicated by locking their order instead)
+      if (input.stripePaymentIntentId && !input.parentOrderId) {
+        await sequelize.query('SELECT pg_advisory_xact_lock(hashtext(:key))', {
+          replacements: { key: `stripe_payment_intent:${input.stripePaymentIntentId}` },
+          transaction: dbTransaction,
+        });
+        const existing = await Transaction.findOne({
+          where: { stripePaymentIntentId: input.stripePaymentIntentId },
+          transaction: dbTransaction,
+        });
+        if (existing) {
+          throw new Error(`Payment ${input.stripePaymentIntentId} is already recorded as transaction ${existing.id}`);
+        }
+      }
 
-        case 'standard':
-          if (!regData.firstName || !regData.lastName) {
-            throw new Error('First name and last name are required');
-          }
-          user = await userService.findOrCreateStandardUser({
-            email: regData.email,
-            firstName: regData.firstName,
-            lastName: regData.lastName,
-            termsAccepted: regData.termsAccepted,
-          });
-          break;
+      // 7. Create or find user based on registration level
+      let user: User;
+
+      if (input.userId) {
+        // User already registered - just fetch
+        user = await userService.getUserById(input.userId, { transaction: dbTransaction });
+      } else if (input.registrationData) {
+        // New user registration
+        const regData = input.registrationData;
+
+        switch (requiredLevel) {
+          case 'minimal':
+            user = await userService.findOrCreateMinimalUser(
+              { email: regData.email },
+              { transaction: dbTransaction }
+            );
+            break;
+
+          case 'standard':
+            if (!regData.firstName || !regData.lastName) {
+              throw new Error('First name and last name are required');
+            }
+            user = await userService.findOrCreateStandardUser({
+              email: regData.email,
+              firstName: regData.firstName,
+              lastName: regData.lastName,
+              termsAccepted: regData.termsAccepted,
+            }, { transaction: dbTransaction });
+            break;
+
+          case 'full':
+            if (!regData.firstName || !regData.lastName || !regData.dateOfBirth ||
+                !regData.street || !regData.city || !regData.postalCode || !regData.country) {
+              throw new Error('Full registration data required for transactions of 10 euros or more');
+            }
+            user = await userService.findOrCreateFullUser({
+              email: regData.email,
+              firstName: regData.firstName,
+              lastName: regData.lastName,
+              dateOfBirth: regData.dateOfBirth,
+              street: regData.street,
+              city: regData.city,
+              postalCode: regData.postalCode,
+              country: regData.country,
+              state: regData.state,
+              termsAccepted: regData.termsAccepted,
+            }, { transaction: dbTransaction });
+            break;
+        }
+      } else {
+        throw new Error('Either userId or registrationData is required');
+      }
 
-        case 'full':
-          if (!regData.firstName || !regData.lastName || !regData.dateOfBirth ||
-              !regData.street || !regData.city || !regData.postalCode || !regData.country) {
-            throw new Error('Full registration data required for transactions of 10 euros or more');
-          }
-          user = await userService.findOrCreateFullUser({
-            email: regData.email,
-            firstName: regData.firstName,
-            lastName: regData.lastName,
-            dateOfBirth: regData.dateOfBirth,
-            street: regData.street,
-            city: regData.city,
-            postalCode: regData.postalCode,
-            country: regData.country,
-            state: regData.state,
-            termsAccepted: regData.termsAccepted,
-          });
-          break;
+      // 8. For GIFT_CARD, validate and redeem the code now that we have user
+      if (sku.paymentMode === PaymentMode.GIFT_CARD && input.giftCardCode) {
+        const giftCard = await giftCardService.validateAndRedeemCode(
+          input.giftCardCode,
+          user.id,
+          { transaction: dbTransaction }
+        );
+        giftCardCodeId = giftCard.id;
       }
-    } else {
-      throw new Error('Either userId or registrationData is required');
-    }
 
-    // 8. For GIFT_CARD, validate and redeem the code now that we have user
-    if (sku.paymentMode === PaymentMode.GIFT_CARD && input.giftCardCode) {
-      const giftCard = await giftCardService.validateAndRedeemCode(
-        input.giftCardCode,
-        user.id
-      );
-      giftCardCodeId = giftCard.id;
-    }
+      // 9. Create transaction with all 3 attribution IDs:
+      // - masterId: Marcello's ID for overall network tracking
+      // - merchantId: The specific business/seller
+      // - partnerId: Who brought the merchant onboard (for royalty calculation) - defaults to the
+      //   partner assigned to the merchant when none is supplied
+      const partnerId = await this.resolvePartnerId(input.merchantId, input.partnerId, dbTransaction);
+      const transaction = await Transaction.create({
+        userId: user.id,
+        skuId: sku.id,
+        masterId,
+        merchantId: input.merchantId,
+        partnerId,
+        orderId: input.orderId,
+        parentOrderId: input.parentOrderId,
+        stripePaymentIntentId: input.stripePaymentIntentId,
+        amount: transactionAmount,
+        currency: normalized.currency,
+        originalAmount: normalized.originalAmount,
+        fxRate: normalized.fxRate,
+        calculatedImpact,
+        csrPricePeriodId,
+        paymentStatus,
+        giftCardCodeId,
+        corsairConnectFlag,
+      }, { transaction: dbTransaction });
+
+      // 10. Update wallet for completed transactions
+      // Section 6.2: Pass transaction amount and threshold for accumulation tracking
+      if (paymentStatus === PaymentStatus.COMPLETED || paymentStatus === PaymentStatus.NA) {
+        await this.creditWallets(transaction, corsairThreshold, dbTransaction);
+      }
 
-    // 9. Create transaction with all 3 attribution IDs:
-    // - masterId: Marcello's ID for overall network tracking
-    // - merchantId: The specific business/seller
-    // - partnerId: Who brought the merchant onboard (for royalty calculation)
-    const transaction = await Transaction.create({
-      userId: user.id,
-      skuId: sku.id,
-      masterId,
-      merchantId: input.merchantId,
-      partnerId: input.partnerId,
-      orderId: input.orderId,
-      amount: transactionAmount,
-      calculatedImpact,
-      paymentStatus,
-      giftCardCodeId,
-      corsairConnectFlag,
-    });
+      // 11. Update user's corsairConnectFlag if transaction triggers it
+      const previousCorsairFlag = user.corsairConnectFlag;
+      if (corsairConnectFlag && !user.corsairConnectFlag) {
+        await userService.setCorsairConnectFlag(user.id, true, { transaction: dbTransaction });
+      }
 
-    // 10. Update wallet for completed transactions
-    // Section 6.2: Pass transaction amount and threshold for accumulation tracking
-    if (paymentStatus === PaymentStatus.COMPLETED || paymentStatus === PaymentStatus.NA) {
-      await walletService.updateWalletBalance(
-        user.id,
-        calculatedImpact,
-        'user',
-        transactionAmount,
-        corsairThreshold
-      );
-      if (input.merchantId) {
-        await walletService.updateWalletBalance(
-          input.merchantId,
-          calculatedImpact,
-          'merchant',
-          transactionAmount,
-          corsairThreshold
-        );
+      // 12. Queue transaction confirmation email (Section 15.2) for completed transactions (COMPLETED or NA)
+      // Enqueued in the same DB transaction - sent by the job worker only after commit
+      if ((paymentStatus === PaymentStatus.COMPLETED || paymentStatus === PaymentStatus.NA) && !input.skipConfirmationEmail) {
+        await notificationService.queueTransactionConfirmation(transaction.id, { transaction: dbTransaction });
       }
-    }
 
-    // 11. Update user's corsairConnectFlag if transaction triggers it
-    const previousCorsairFlag = user.corsairConnectFlag;
-    if (corsairConnectFlag && !user.corsairConnectFlag) {
-      await userService.setCorsairConnectFlag(user.id, true);
-    }
+      // 13. Queue threshold achievement email if user just crossed €10 threshold (Section 15.3)
+      // Only send if this transaction caused the threshold to be crossed (not previously flagged)
+      if (corsairConnectFlag && !previousCorsairFlag) {
+        await notificationService.queueThresholdAchievement(transaction.id, { transaction: dbTransaction });
+      }
 
-    // 12. Send transaction confirmation email (Section 15.2)
-    // Send for completed transactions (COMPLETED or NA status)
-    if (paymentStatus === PaymentStatus.COMPLETED || paymentStatus === PaymentStatus.NA) {
-      const userName = user.firstName || 'Guest';
-      const impactKg = (calculatedImpact / 1000).toFixed(3);
-      const transactionDate = new Date().toISOString().split('T')[0];
-
-      // Generate certificate URL if this is a certified asset (≥€10)
-      const certificateUrl = corsairConnectFlag
-        ? `${env.frontend.url}/api/certificates/${transaction.id}/download`
-        : undefined;
-
-      await emailService.sendTransactionConfirmation(
-        user.email,
-        userName,
-        {
-          id: transaction.id,
-          impactGrams: calculatedImpact,
-          impactKg,
-          date: transactionDate,
-          sku: { code: sku.code, name: sku.name },
-          amount: transactionAmount,
-        },
-        user.id,
-        certificateUrl
-      );
-    }
+      // 14. Notify the merchant's webhook endpoints - PENDING transactions do so once paid
+      if (paymentStatus === PaymentStatus.COMPLETED || paymentStatus === PaymentStatus.NA) {
+        await outboundWebhookService.publishTransactionCompleted(transaction, {
+          thresholdReached: corsairConnectFlag && !previousCorsairFlag,
+          transaction: dbTransaction,
+        });
+      }
 
-    // 13. Send threshold achievement email if user just crossed €10 threshold (Section 15.3)
-    // Only send if this transaction caused the threshold to be crossed (not previously flagged)
-    if (corsairConnectFlag && !previousCorsairFlag) {
-      const userName = user.firstName || 'Guest';
-      const wallet = await walletService.getUserWallet(user.id);
-      const totalImpactKg = Number(wallet.wallet.totalAccumulated) / 1000;
-      const totalAmountSpent = Number(wallet.wallet.totalAmountSpent);
-
-      const certificateUrl = `${env.frontend.url}/api/certificates/${transaction.id}/download`;
-
-      await emailService.sendThresholdAchievement(
-        user.email,
-        userName,
-        totalImpactKg,
-        totalAmountSpent,
-        user.id,
-        certificateUrl
-      );
-    }
+      return { transaction };
+    });
 
-    // 14. Return transaction with associations
-    return await this.getTransactionById(transaction.id);
+    // 15. Return transaction with associations
+    return await this.getTransactionById(transaction.id, { transaction: options.transaction });
   }
 
   /**
    * Get transaction by ID with all associations
    */
-  async getTransactionById(id: string) {
+  async getTransactionById(id: string, options: { transaction?: DbTransaction } = {}) {
     const transaction = await Transaction.findByPk(id, {
+      transaction: options.transaction,
       include: [
         { model: User, as: 'user' },
         { model: SKU, as: 'sku' },
         { model: GiftCardCode, as: 'giftCardCode' },
+        { model: CSRPricePeriod, as: 'csrPricePeriod', attributes: ['id', 'price', 'effectiveFrom', 'effectiveTo'] },
       ],
     });
     if (!transaction) {
@@ -341,7 +382,8 @@ class TransactionService {
    */
   async getTransactionsByMerchantId(merchantId: string) {
     return await Transaction.findAll({
-      where: { merchantId },
+      // Abandoned payments are not shown to merchants (they stay in the reconciliation export)
+      where: { merchantId, paymentStatus: { [Op.ne]: PaymentStatus.EXPIRED } },
       include: [
         { model: User, as: 'user' },
         { model: SKU, as: 'sku' },
@@ -405,107 +447,147 @@ class TransactionService {
 
   /**
    * Update transaction payment status (called by Stripe webhook)
+   * The transaction row is locked so duplicate webhook deliveries cannot credit wallets twice
    */
   async updatePaymentStatus(
     transactionId: string,
     paymentStatus: PaymentStatus,
     stripePaymentIntentId?: string
   ) {
-    const transaction = await this.getTransactionById(transactionId);
+    const corsairThreshold = await configService.getCorsairThreshold();
 
-    await transaction.update({
-      paymentStatus,
-      stripePaymentIntentId,
-    });
+    await sequelize.transaction(async (dbTransaction) => {
+      const transaction = await Transaction.findByPk(transactionId, {
+        transaction: dbTransaction,
+        lock: dbTransaction.LOCK.UPDATE,
+      });
+      if (!transaction) {
+        throw new Error('Transaction not found');
+      }
 
-    // If payment just completed, update wallets
-    // Section 6.2: Pass transaction amount and threshold for accumulation tracking
-    if (paymentStatus === PaymentStatus.COMPLETED) {
-      const corsairThreshold = await configService.getCorsairThreshold();
+      // Redelivered webhooks repeat the current status - nothing to do
+      if (transaction.paymentStatus === paymentStatus) {
+        return;
+      }
 
-      await walletService.updateWalletBalance(
-        transaction.userId,
-        Number(transaction.calculatedImpact),
-        'user',
-        Number(transaction.amount),
-        corsairThreshold
-      );
-      if (transaction.merchantId) {
-        await walletService.updateWalletBalance(
-          transaction.merchantId,
-          Number(transaction.calculatedImpact),
-          'merchant',
-          Number(transaction.amount),
-          corsairThreshold
-        );
+      // Cancelling an expired transaction's PaymentIntent triggers payment_intent.canceled - keep it EXPIRED
+      if (transaction.paymentStatus === PaymentStatus.EXPIRED && paymentStatus === PaymentStatus.FAILED) {
+        return;
       }
 
-      // Update user's corsairConnectFlag if applicable
-      const user = transaction.user;
-      const previousCorsairFlag = user.corsairConnectFlag;
-      if (transaction.corsairConnectFlag && !user.corsairConnectFlag) {
-        await userService.setCorsairConnectFlag(transaction.userId, true);
+      // Only pending payments are settled here - refunds and reversals go through applyRefund
+      if (!isAllowedPaymentStatusChange(transaction.paymentStatus, paymentStatus)) {
+        throw new AppError(`Cannot change payment status from ${transaction.paymentStatus} to ${paymentStatus}`, 409);
       }
 
-      // Send transaction confirmation email (Section 15.2)
-      const userName = user.firstName || 'Guest';
-      const impactKg = (Number(transaction.calculatedImpact) / 1000).toFixed(3);
-      const transactionDate = transaction.createdAt.toISOString().split('T')[0];
-      const sku = transaction.sku;
-
-      // Generate certificate URL if this is a certified asset (≥€10)
-      const certificateUrl = transaction.corsairConnectFlag
-        ? `${env.frontend.url}/api/certificates/${transaction.id}/download`
-        : undefined;
-
-      await emailService.sendTransactionConfirmation(
-        user.email,
-        userName,
-        {
-          id: transaction.id,
-          impactGrams: Number(transaction.calculatedImpact),
-          impactKg,
-          date: transactionDate,
-          sku: { code: sku.code, name: sku.name },
-          amount: Number(transaction.amount),
-        },
-        user.id,
-        certificateUrl
-      );
+      const justCompleted = paymentStatus === PaymentStatus.COMPLETED;
 
-      // Send threshold achievement email if user just crossed €10 threshold (Section 15.3)
-      if (transaction.corsairConnectFlag && !previousCorsairFlag) {
-        const wallet = await walletService.getUserWallet(user.id);
-        const totalImpactKg = Number(wallet.wallet.totalAccumulated) / 1000;
-        const totalAmountSpent = Number(wallet.wallet.totalAmountSpent);
+      await transaction.update({
+        paymentStatus,
+        stripePaymentIntentId,
+      }, { transaction: dbTransaction });
 
-        const thresholdCertificateUrl = `${env.frontend.url}/api/certificates/${transaction.id}/download`;
+      // If payment just completed, update wallets
+      // Section 6.2: Pass transaction amount and threshold for accumulation tracking
+      if (justCompleted) {
+        await this.creditWallets(transaction, corsairThreshold, dbTransaction);
 
-        await emailService.sendThresholdAchievement(
-          user.email,
-          userName,
-          totalImpactKg,
-          totalAmountSpent,
-          user.id,
-          thresholdCertificateUrl
-        );
+        // Update user's corsairConnectFlag if applicable
+        const user = await userService.getUserById(transaction.userId, { transaction: dbTransaction });
+        const previousCorsairFlag = user.corsairConnectFlag;
+        if (transaction.corsairConnectFlag && !user.corsairConnectFlag) {
+          await userService.setCorsairConnectFlag(transaction.userId, true, { transaction: dbTransaction });
+        }
+
+        // Queue emails with the status change - the job worker sends them after commit
+        // Transaction confirmation (Section 15.2) and, if the user just crossed €10, threshold achievement (Section 15.3)
+        await notificationService.queueTransactionConfirmation(transaction.id, { transaction: dbTransaction });
+        if (transaction.corsairConnectFlag && !previousCorsairFlag) {
+          await notificationService.queueThresholdAchievement(transaction.id, { transaction: dbTransaction });
+        }
+
+        await outboundWebhookService.publishTransactionCompleted(transaction, {
+          thresholdReached: transaction.corsairConnectFlag && !previousCorsairFlag,
+          transaction: dbTransaction,
+        });
       }
-    }
+    });
 
-    return transaction;
+    return await this.getTransactionById(transactionId);
   }
 
   /**
-   * Get user's total impact (sum of all completed transactions)
+   * Expire PENDING transactions created before the cutoff (run by the maintenance scheduler)
+   * Each row stays locked while its Stripe PaymentIntent is cancelled, so the resulting
+   * payment_intent.canceled webhook finds it EXPIRED. Intents that already succeeded or are
+   * processing are skipped and left to their webhook. Pending transactions never credited
+   * wallets, so only the status changes.
    */
-  async getUserTotalImpact(userId: string): Promise<number> {
-    const result = await Transaction.sum('calculatedImpact', {
+  async expireStalePendingTransactions(createdBefore: Date): Promise<{ expired: number; skipped: number; failed: number }> {
+    // Import payment service dynamically to avoid circular dependency
+    const paymentService = (await import('./payment.service.js')).default;
+
+    const stale = await Transaction.findAll({
       where: {
-        userId,
-        paymentStatus: [PaymentStatus.COMPLETED, PaymentStatus.NA],
+        paymentStatus: PaymentStatus.PENDING,
+        createdAt: { [Op.lt]: createdBefore },
       },
+      attributes: ['id'],
+      order: [['createdAt', 'ASC']],
     });
-    return result || 0;
+
+    const result = { expired: 0, skipped: 0, failed: 0 };
+
+    for (const { id } of stale) {
+      try {
+        const expired = await sequelize.transaction(async (dbTransaction) => {
+          const transaction = await Transaction.findByPk(id, {
+            transaction: dbTransaction,
+            lock: dbTransaction.LOCK.UPDATE,
+          });
+          if (!transaction || transaction.paymentStatus !== PaymentStatus.PENDING) {
+            return false;
+          }
+
+          if (transaction.stripePaymentIntentId
+            && !(await paymentService.cancelAbandonedPaymentIntent(transaction.stripePaymentIntentId))) {
+            return false;
+          }
+
+          await transaction.update({ paymentStatus: PaymentStatus.EXPIRED }, { transaction: dbTransaction });
+          return true;
+        });
+
+        if (expired) {
+          result.expired++;
+        } else {
+          result.skipped++;
+        }
+      } catch (error: any) {
+        // Retried on the next run - one Stripe error must not block the rest
+        console.error(`Failed to expire pending transaction ${id}: ${error.message}`);
+        result.failed++;
+      }
+    }
+
+    if (stale.length > 0) {
+      console.log(`🧹 Expired ${result.expired} stale pending transactions (${result.skipped} skipped, ${result.failed} failed)`);
+    }
+    return result;
+  }
+
+  /**
+   * Get user's total impact (sum of all completed transactions)
+   */
+  async getUserTotalImpact(userId: string): Promise<number> {
+    const where = {
+      userId,
+      paymentStatus: [PaymentStatus.COMPLETED, PaymentStatus.NA],
+    };
+    // Partial refunds keep the transaction COMPLETED - subtract the reversed share
+    const credited = await Transaction.sum('calculatedImpact', { where });
+    const refunded = await Transaction.sum('refundedImpact', { where });
+    return (credited || 0) - (refunded || 0);
   }
 
   /**
@@ -537,7 +619,7 @@ class TransactionService {
 
     // 3. Get global config values
     // Note: ALLOCATION_MULTIPLIER is no longer used - all modes use same formula
-    const currentCSRPrice = await configService.getCurrentCSRPrice();
+    const { periodId: csrPricePeriodId, price: currentCSRPrice } = await configService.getCSRPriceAt();
     const masterId = await configService.getMasterId();
     const corsairThreshold = await configService.getCorsairThreshold();
 
@@ -552,47 +634,250 @@ class TransactionService {
     // 5. Determine Corsair Connect flag
     const corsairConnectFlag = input.amount >= corsairThreshold;
 
-    // 6. Create transaction
+    // 6-8. Create transaction, credit wallets and flag the user atomically
     // Manual transactions are always marked as COMPLETED (admin bypass)
-    const transaction = await Transaction.create({
-      userId: input.userId,
-      skuId: sku.id,
-      masterId,
-      merchantId: input.merchantId,
-      partnerId: input.partnerId,
-      orderId: input.orderId || `MANUAL-${Date.now()}`,
-      amount: input.amount,
-      calculatedImpact,
-      paymentStatus: PaymentStatus.COMPLETED,
-      corsairConnectFlag,
-      // Store admin notes in a field (we'd need to add this to model, or use orderId)
+    const transaction = await sequelize.transaction(async (dbTransaction) => {
+      const transaction = await Transaction.create({
+        userId: input.userId,
+        skuId: sku.id,
+        masterId,
+        merchantId: input.merchantId,
+        partnerId: await this.resolvePartnerId(input.merchantId, input.partnerId, dbTransaction),
+        orderId: input.orderId || `MANUAL-${Date.now()}`,
+        amount: input.amount,
+        originalAmount: input.amount, // Manual entries are in EUR
+        calculatedImpact,
+        csrPricePeriodId,
+        paymentStatus: PaymentStatus.COMPLETED,
+        corsairConnectFlag,
+        // Store admin notes in a field (we'd need to add this to model, or use orderId)
+      }, { transaction: dbTransaction });
+
+      // 7. Update wallets
+      await this.creditWallets(transaction, corsairThreshold, dbTransaction);
+
+      // 8. Update user's corsairConnectFlag if transaction triggers it
+      const thresholdReached = corsairConnectFlag && !user.corsairConnectFlag;
+      if (thresholdReached) {
+        await userService.setCorsairConnectFlag(user.id, true, { transaction: dbTransaction });
+      }
+
+      await outboundWebhookService.publishTransactionCompleted(transaction, { thresholdReached, transaction: dbTransaction });
+
+      return transaction;
+    });
+
+    // 9. Return transaction with associations
+    return await this.getTransactionById(transaction.id);
+  }
+
+  /**
+   * Refund or reverse a transaction, fully or partially
+   * `refundedFraction` is the CUMULATIVE share of the transaction refunded so far (0-1],
+   * so replaying the same Stripe event is a no-op. Only the newly refunded share is
+   * reversed from user and merchant wallets (REVERSAL ledger entries).
+   */
+  async applyRefund(transactionId: string, refundedFraction: number, options: RefundOptions) {
+    if (!(refundedFraction > 0)) {
+      throw new Error('Refunded fraction must be positive');
+    }
+    const fraction = Math.min(refundedFraction, 1);
+    const corsairThreshold = await configService.getCorsairThreshold();
+
+    await sequelize.transaction(async (dbTransaction) => {
+      const transaction = await Transaction.findByPk(transactionId, {
+        transaction: dbTransaction,
+        lock: dbTransaction.LOCK.UPDATE,
+      });
+      if (!transaction) {
+        throw new Error('Transaction not found');
+      }
+
+      // Already fully refunded or charged back - nothing left to reverse
+      if (transaction.paymentStatus === PaymentStatus.REFUNDED || transaction.paymentStatus === PaymentStatus.REVERSED) {
+        return;
+      }
+
+      // Only transactions that credited wallets can be refunded
+      if (transaction.paymentStatus !== PaymentStatus.COMPLETED && transaction.paymentStatus !== PaymentStatus.NA) {
+        throw new Error(`Cannot refund a transaction with status ${transaction.paymentStatus}`);
+      }
+
+      const amount = Number(transaction.amount);
+      const impact = Number(transaction.calculatedImpact);
+      const isFull = fraction >= 1;
+      const targetAmount = isFull ? amount : roundTo(amount * fraction, 4);
+      const targetImpact = isFull ? impact : roundTo(impact * fraction, 2);
+      const deltaAmount = Math.max(roundTo(targetAmount - Number(transaction.refundedAmount), 4), 0);
+      const deltaImpact = Math.max(roundTo(targetImpact - Number(transaction.refundedImpact), 2), 0);
+
+      // Same or smaller share than already applied (duplicate event)
+      if (!isFull && deltaAmount === 0 && deltaImpact === 0) {
+        return;
+      }
+
+      // Reverse the newly refunded share from wallets (same lock order as crediting)
+      if (deltaAmount > 0 || deltaImpact > 0) {
+        const description = options.reason || 'Transaction refunded';
+        await walletService.reverseWalletBalance(
+          transaction.userId,
+          deltaImpact,
+          'user',
+          deltaAmount,
+          corsairThreshold,
+          { transactionId: transaction.id, description, transaction: dbTransaction }
+        );
+        if (transaction.merchantId) {
+          await walletService.reverseWalletBalance(
+            transaction.merchantId,
+            deltaImpact,
+            'merchant',
+            deltaAmount,
+            corsairThreshold,
+            { transactionId: transaction.id, description, transaction: dbTransaction }
+          );
+        }
+      }
+
+      // Re-evaluate Corsair Connect on what remains of the transaction
+      const refundedAmount = roundTo(Number(transaction.refundedAmount) + deltaAmount, 4);
+      const refundedImpact = roundTo(Number(transaction.refundedImpact) + deltaImpact, 2);
+      const netAmount = amount - refundedAmount;
+      await transaction.update({
+        refundedAmount,
+        refundedImpact,
+        refundedAt: new Date(),
+        refundReason: options.reason || null,
+        paymentStatus: isFull ? options.finalStatus : transaction.paymentStatus,
+        corsairConnectFlag: transaction.corsairConnectFlag && netAmount >= corsairThreshold,
+      }, { transaction: dbTransaction });
+
+      await this.reevaluateUserCorsairFlag(transaction.userId, dbTransaction);
+
+      await outboundWebhookService.publishTransactionRefunded(transaction, { transaction: dbTransaction });
+    });
+
+    console.log(`↩️ Refund applied to transaction ${transactionId} (${Math.round(fraction * 100)}% refunded)`);
+
+    return await this.getTransactionById(transactionId);
+  }
+
+  /**
+   * Apply a refund or dispute to every transaction paid by a Stripe payment intent
+   * Called by charge.refunded / charge.dispute.created webhooks
+   */
+  async refundByPaymentIntent(stripePaymentIntentId: string, refundedFraction: number, options: RefundOptions) {
+    const transactions = await Transaction.findAll({
+      where: {
+        stripePaymentIntentId,
+        paymentStatus: [PaymentStatus.COMPLETED, PaymentStatus.NA],
+      },
+    });
+
+    const refunded = [];
+    for (const transaction of transactions) {
+      refunded.push(await this.applyRefund(transaction.id, refundedFraction, options));
+    }
+
+    return refunded;
+  }
+
+  /**
+   * Refund a transaction manually (admin only)
+   * `amount` is the additional euros of the transaction amount to refund (defaults to the remainder).
+   * Records the refund on our side only - refunds issued in Stripe arrive via the charge.refunded webhook.
+   */
+  async refundTransaction(transactionId: string, input: { amount?: number; reason: string; reversal?: boolean }) {
+    const transaction = await this.getTransactionById(transactionId);
+
+    const amount = Number(transaction.amount);
+    const alreadyRefunded = Number(transaction.refundedAmount);
+    const remaining = roundTo(amount - alreadyRefunded, 4);
+    const refundAmount = input.amount ?? remaining;
+
+    if (refundAmount <= 0) {
+      throw new Error('Refund amount must be positive');
+    }
+    if (refundAmount > remaining) {
+      throw new Error(`Refund exceeds remaining amount. Remaining: €${remaining}, Requested: €${refundAmount}`);
+    }
+
+    // Zero-amount transactions (e.g. free CLAIM) can only be refunded in full
+    const fraction = amount > 0 ? (alreadyRefunded + refundAmount) / amount : 1;
+
+    return await this.applyRefund(transactionId, fraction, {
+      finalStatus: input.reversal ? PaymentStatus.REVERSED : PaymentStatus.REFUNDED,
+      reason: input.reason,
     });
+  }
+
+  /**
+   * Partner a new transaction is attributed to - the explicit partnerId, otherwise the partner
+   * assigned to the merchant right now (if any)
+   */
+  private async resolvePartnerId(
+    merchantId: string | undefined,
+    partnerId: string | undefined,
+    dbTransaction: DbTransaction
+  ): Promise<string | undefined> {
+    if (partnerId || !merchantId) {
+      return partnerId || undefined;
+    }
+    return partnerAssignmentService.getAssignedPartnerId(merchantId, new Date(), { transaction: dbTransaction });
+  }
+
+  /**
+   * Clear the user's corsairConnectFlag when nothing qualifies them anymore
+   * (no remaining transaction over the threshold and wallet no longer a certified asset)
+   */
+  private async reevaluateUserCorsairFlag(userId: string, dbTransaction: DbTransaction) {
+    const user = await userService.getUserById(userId, { transaction: dbTransaction });
+    if (!user.corsairConnectFlag) {
+      return;
+    }
+
+    const wallet = await Wallet.findOne({ where: { userId }, transaction: dbTransaction });
+    if (wallet?.certifiedAssetStatus) {
+      return;
+    }
 
-    // 7. Update wallets
+    const qualifyingTransactions = await Transaction.count({
+      where: {
+        userId,
+        corsairConnectFlag: true,
+        paymentStatus: [PaymentStatus.COMPLETED, PaymentStatus.NA],
+      },
+      transaction: dbTransaction,
+    });
+
+    if (qualifyingTransactions === 0) {
+      await userService.setCorsairConnectFlag(userId, false, { transaction: dbTransaction });
+    }
+  }
+
+  /**
+   * Credit user and merchant wallets for a completed transaction
+   * Wallets are always locked in the same order (user, then merchant) to avoid deadlocks
+   */
+  private async creditWallets(transaction: Transaction, corsairThreshold: number, dbTransaction: DbTransaction) {
     await walletService.updateWalletBalance(
-      user.id,
-      calculatedImpact,
+      transaction.userId,
+      Number(transaction.calculatedImpact),
       'user',
-      input.amount,
-      corsairThreshold
+      Number(transaction.amount),
+      corsairThreshold,
+      { transactionId: transaction.id, transaction: dbTransaction }
     );
-    if (input.merchantId) {
+    if (transaction.merchantId) {
       await walletService.updateWalletBalance(
-        input.merchantId,
-        calculatedImpact,
+        transaction.merchantId,
+        Number(transaction.calculatedImpact),
         'merchant',
-        input.amount,
-        corsairThreshold
+        Number(transaction.amount),
+        corsairThreshold,
+        { transactionId: transaction.id, transaction: dbTransaction }
       );
     }
-
-    // 8. Update user's corsairConnectFlag if transaction triggers it
-    if (corsairConnectFlag && !user.corsairConnectFlag) {
-      await userService.setCorsairConnectFlag(user.id, true);
-    }
-
-    // 9. Return transaction with associations
-    return await this.getTransactionById(transaction.id);
   }
 }
 
@@ -5,7 +5,7 @@
 // to access their impact landing page without logging in.
 
 import crypto from 'crypto';
-import { Op } from 'sequelize';
+import { Op, Transaction as DbTransaction } from 'sequelize';
 import { TransactionToken, Transaction, SKU, User } from '../database/models/index.js';
 
 // Default token expiration: 30 days
@@ -25,14 +25,16 @@ class TransactionTokenService {
    *
    * @param transactionId - The transaction ID to create a token for
    * @param expirationDays - Days until token expires (default: 30)
+   * @param options.transaction - DB transaction the transaction was created in, if not committed yet
    * @returns The created TransactionToken
    */
   async createToken(
     transactionId: string,
-    expirationDays: number = DEFAULT_TOKEN_EXPIRATION_DAYS
+    expirationDays: number = DEFAULT_TOKEN_EXPIRATION_DAYS,
+    options: { transaction?: DbTransaction } = {}
   ): Promise<TransactionToken> {
     // Verify transaction exists
-    const transaction = await Transaction.findByPk(transactionId);
+    const transaction = await Transaction.findByPk(transactionId, { transaction: options.transaction });
     if (!transaction) {
       throw new Error(`Transaction not found: ${transactionId}`);
     }
@@ -49,7 +51,7 @@ class TransactionTokenService {
       transactionId,
       token,
       expiresAt,
-    });
+    }, { transaction: options.transaction });
 
     console.log(`✅ Created transaction token for transaction ${transactionId}`);
 
@@ -134,7 +136,10 @@ class TransactionTokenService {
    * Get or create token for a transaction
    * Useful when you want to ensure a token exists
    */
-  async getOrCreateToken(transactionId: string): Promise<TransactionToken> {
+  async getOrCreateToken(
+    transactionId: string,
+    options: { transaction?: DbTransaction } = {}
+  ): Promise<TransactionToken> {
     // Try to find existing valid token
     const existingToken = await TransactionToken.findOne({
       where: {
@@ -142,6 +147,7 @@ class TransactionTokenService {
         expiresAt: { [Op.gt]: new Date() }, // Not expired
       },
       order: [['createdAt', 'DESC']],
+      transaction: options.transaction,
     });
 
     if (existingToken) {
@@ -149,7 +155,7 @@ class TransactionTokenService {
     }
 
     // Create new token
-    return await this.createToken(transactionId);
+    return await this.createToken(transactionId, DEFAULT_TOKEN_EXPIRATION_DAYS, options);
   }
 
   /**
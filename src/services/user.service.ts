@@ -1,6 +1,7 @@
 // User Service - Business logic for user management
 // Supports 3 registration levels: minimal (email only), standard (email+name), full (all fields)
 
+import { Transaction as DbTransaction } from 'sequelize';
 import { User, Transaction, SKU, Merchant } from '../database/models/index.js';
 import { RegistrationLevel } from '../database/models/User.js';
 
@@ -51,9 +52,14 @@ class UserService {
   // Create or find user with minimal registration (email required, name optional)
   // Used for CLAIM type transactions
   // Section 3.1: Minimal Registration - email required, firstName/lastName optional
-  async findOrCreateMinimalUser(data: MinimalRegistrationData): Promise<User> {
+  async findOrCreateMinimalUser(
+    data: MinimalRegistrationData,
+    options: { transaction?: DbTransaction } = {}
+  ): Promise<User> {
+    const { transaction } = options;
+
     // Check if user exists by email
-    let user = await User.findOne({ where: { email: data.email } });
+    let user = await User.findOne({ where: { email: data.email }, transaction });
 
     if (user) {
       // If optional name fields provided, update user if they're currently empty
@@ -61,7 +67,7 @@ class UserService {
         await user.update({
           firstName: data.firstName || user.firstName,
           lastName: data.lastName || user.lastName,
-        });
+        }, { transaction });
       }
       return user;
     }
@@ -73,21 +79,26 @@ class UserService {
       lastName: data.lastName || null,
       registrationLevel: 'minimal',
       corsairConnectFlag: false,
-    });
+    }, { transaction });
 
     return user;
   }
 
   // Create or find user with standard registration (email + name)
   // Used for small PAY/ALLOCATION transactions under 10 euros
-  async findOrCreateStandardUser(data: StandardRegistrationData): Promise<User> {
+  async findOrCreateStandardUser(
+    data: StandardRegistrationData,
+    options: { transaction?: DbTransaction } = {}
+  ): Promise<User> {
+    const { transaction } = options;
+
     // Validate terms acceptance
     if (!data.termsAccepted) {
       throw new Error('Terms and conditions must be accepted');
     }
 
     // Check if user exists by email
-    let user = await User.findOne({ where: { email: data.email } });
+    let user = await User.findOne({ where: { email: data.email }, transaction });
 
     if (user) {
       // Update to standard if currently minimal
@@ -97,7 +108,7 @@ class UserService {
           lastName: data.lastName,
           registrationLevel: 'standard',
           termsAcceptedAt: new Date(),
-        });
+        }, { transaction });
       }
       return user;
     }
@@ -110,21 +121,26 @@ class UserService {
       registrationLevel: 'standard',
       corsairConnectFlag: false,
       termsAcceptedAt: new Date(),
-    });
+    }, { transaction });
 
     return user;
   }
 
   // Create or find user with full registration (all fields)
   // Required for transactions >= 10 euros (corsairConnectFlag = true)
-  async findOrCreateFullUser(data: FullRegistrationData): Promise<User> {
+  async findOrCreateFullUser(
+    data: FullRegistrationData,
+    options: { transaction?: DbTransaction } = {}
+  ): Promise<User> {
+    const { transaction } = options;
+
     // Validate terms acceptance
     if (!data.termsAccepted) {
       throw new Error('Terms and conditions must be accepted');
     }
 
     // Check if user exists by email
-    let user = await User.findOne({ where: { email: data.email } });
+    let user = await User.findOne({ where: { email: data.email }, transaction });
 
     if (user) {
       // Upgrade to full if not already
@@ -141,7 +157,7 @@ class UserService {
           registrationLevel: 'full',
           corsairConnectFlag: true,
           termsAcceptedAt: new Date(),
-        });
+        }, { transaction });
       }
       return user;
     }
@@ -160,7 +176,7 @@ class UserService {
       registrationLevel: 'full',
       corsairConnectFlag: true,
       termsAcceptedAt: new Date(),
-    });
+    }, { transaction });
 
     return user;
   }
@@ -187,15 +203,19 @@ class UserService {
   }
 
   // Set corsair connect flag on user
-  async setCorsairConnectFlag(userId: string, flag: boolean): Promise<User> {
-    const user = await this.getUserById(userId);
-    await user.update({ corsairConnectFlag: flag });
+  async setCorsairConnectFlag(
+    userId: string,
+    flag: boolean,
+    options: { transaction?: DbTransaction } = {}
+  ): Promise<User> {
+    const user = await this.getUserById(userId, options);
+    await user.update({ corsairConnectFlag: flag }, { transaction: options.transaction });
     return user;
   }
 
   // Get user by ID
-  async getUserById(id: string): Promise<User> {
-    const user = await User.findByPk(id);
+  async getUserById(id: string, options: { transaction?: DbTransaction } = {}): Promise<User> {
+    const user = await User.findByPk(id, { transaction: options.transaction });
     if (!user) {
       throw new Error('User not found');
     }
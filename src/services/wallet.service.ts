@@ -1,65 +1,157 @@
 // Wallet Service - Business logic for wallet management
 // CRITICAL: getWalletWithHistory must include SKU association for transaction history display
 
-import { Wallet, User, Merchant, Transaction, SKU, WalletAdjustment } from '../database/models/index.js';
+import crypto from 'crypto';
+import { Op, Transaction as DbTransaction } from 'sequelize';
+import {
+  Wallet,
+  Transaction,
+  SKU,
+  WalletAdjustment,
+  WalletLedgerEntry,
+  LedgerEntryType,
+  LedgerAccount,
+  PaymentStatus,
+} from '../database/models/index.js';
+import configService from './config.service.js';
+import { runInTransaction } from '../utils/dbTransaction.js';
 
 type WalletType = 'user' | 'merchant';
 
+// One wallet movement to be posted on the ledger (deltas are signed)
+interface LedgerPosting {
+  entryType: LedgerEntryType;
+  impactGrams?: number;
+  redeemedGrams?: number;
+  amountEur?: number;
+  transactionId?: string | null;
+  walletAdjustmentId?: string | null;
+  redemptionReference?: string | null;
+  description?: string | null;
+}
+
+interface WalletTotals {
+  totalAccumulated: number;
+  totalRedeemed: number;
+  currentBalance: number;
+  totalAmountSpent: number;
+  certifiedAssetStatus: boolean;
+}
+
+interface WalletDrift {
+  field: keyof WalletTotals;
+  stored: number | boolean;
+  derived: number | boolean;
+  difference?: number;
+}
+
+export interface WalletRebuildReport {
+  walletId: string;
+  entryCount: number;
+  stored: WalletTotals;
+  derived: WalletTotals;
+  drift: WalletDrift[];
+  unbalancedJournals: string[];
+  inSync: boolean;
+  applied: boolean;
+}
+
+// Contra account used for the other side of each entry type
+const CONTRA_ACCOUNTS: Record<LedgerEntryType, LedgerAccount> = {
+  [LedgerEntryType.OPENING_BALANCE]: LedgerAccount.IMPACT_ISSUANCE,
+  [LedgerEntryType.CREDIT]: LedgerAccount.IMPACT_ISSUANCE,
+  [LedgerEntryType.REDEMPTION]: LedgerAccount.IMPACT_REDEMPTION,
+  [LedgerEntryType.ADJUSTMENT]: LedgerAccount.MANUAL_ADJUSTMENT,
+  [LedgerEntryType.REVERSAL]: LedgerAccount.IMPACT_REVERSAL,
+};
+
+// Wallet columns are DECIMAL(x, 2) - round deltas the same way so ledger sums match stored totals
+const roundTo2 = (value: number) => Math.round(value * 100) / 100;
+
 class WalletService {
   // Find or create wallet
-  async findOrCreateWallet(ownerId: string, type: WalletType) {
+  // Inside a transaction the wallet row is locked FOR UPDATE until commit,
+  // so concurrent postings to the same wallet serialize instead of overwriting each other
+  async findOrCreateWallet(ownerId: string, type: WalletType, options: { transaction?: DbTransaction } = {}) {
+    const { transaction } = options;
     const where = type === 'user' ? { userId: ownerId } : { merchantId: ownerId };
+    const lock = transaction ? transaction.LOCK.UPDATE : undefined;
 
-    let wallet = await Wallet.findOne({ where });
+    let wallet = await Wallet.findOne({ where, transaction, lock });
 
     if (!wallet) {
       // Explicitly set userId or merchantId to avoid spread syntax issues
-      if (type === 'user') {
-        wallet = await Wallet.create({
-          userId: ownerId,
-          totalAccumulated: 0,
-          totalRedeemed: 0,
-          currentBalance: 0,
-        });
-      } else {
-        wallet = await Wallet.create({
-          merchantId: ownerId,
-          totalAccumulated: 0,
-          totalRedeemed: 0,
-          currentBalance: 0,
-        });
-      }
+      // findOrCreate tolerates a concurrent insert (unique index on owner), then we lock the row
+      await Wallet.findOrCreate({
+        where,
+        defaults: type === 'user'
+          ? { userId: ownerId, totalAccumulated: 0, totalRedeemed: 0, currentBalance: 0 }
+          : { merchantId: ownerId, totalAccumulated: 0, totalRedeemed: 0, currentBalance: 0 },
+        transaction,
+      });
+      wallet = await Wallet.findOne({ where, transaction, lock });
+    }
+
+    if (!wallet) {
+      throw new Error('Wallet could not be created');
     }
 
     return wallet;
   }
 
-  // Update wallet balance (atomic operation)
+  // Credit wallet with transaction impact
   // Section 6.2: Now also tracks euro amounts and certified asset status
+  // Posted as a CREDIT journal on the ledger - wallet totals follow from the posting
   async updateWalletBalance(
     ownerId: string,
     impactGrams: number,
     type: WalletType,
     transactionAmount: number = 0,
-    corsairThreshold: number = 10
+    corsairThreshold: number = 10,
+    options: { transactionId?: string; description?: string; transaction?: DbTransaction } = {}
   ) {
-    const wallet = await this.findOrCreateWallet(ownerId, type);
+    return runInTransaction(options.transaction, async (transaction) => {
+      const wallet = await this.findOrCreateWallet(ownerId, type, { transaction });
+
+      await this.postToLedger(wallet, {
+        entryType: LedgerEntryType.CREDIT,
+        impactGrams,
+        amountEur: transactionAmount,
+        transactionId: options.transactionId,
+        description: options.description || 'Impact credited from transaction',
+      }, transaction, corsairThreshold);
+
+      return wallet;
+    });
+  }
 
-    const newTotalAccumulated = Number(wallet.totalAccumulated) + impactGrams;
-    const newCurrentBalance = newTotalAccumulated - Number(wallet.totalRedeemed);
-    const newTotalAmountSpent = Number(wallet.totalAmountSpent) + transactionAmount;
+  // Reverse previously credited impact (refunds, chargebacks)
+  // Amounts are passed as positive values and posted as negative deltas
+  async reverseWalletBalance(
+    ownerId: string,
+    impactGrams: number,
+    type: WalletType,
+    transactionAmount: number = 0,
+    corsairThreshold: number = 10,
+    options: { transactionId?: string; description?: string; transaction?: DbTransaction } = {}
+  ) {
+    if (impactGrams < 0 || transactionAmount < 0) {
+      throw new Error('Reversal amounts must be positive');
+    }
 
-    // Section 6.2: Check if threshold reached to update certified asset status
-    const certifiedAssetStatus = newTotalAmountSpent >= corsairThreshold;
+    return runInTransaction(options.transaction, async (transaction) => {
+      const wallet = await this.findOrCreateWallet(ownerId, type, { transaction });
 
-    await wallet.update({
-      totalAccumulated: newTotalAccumulated,
-      currentBalance: newCurrentBalance,
-      totalAmountSpent: newTotalAmountSpent,
-      certifiedAssetStatus,
-    });
+      await this.postToLedger(wallet, {
+        entryType: LedgerEntryType.REVERSAL,
+        impactGrams: -impactGrams,
+        amountEur: -transactionAmount,
+        transactionId: options.transactionId,
+        description: options.description || 'Impact reversed',
+      }, transaction, corsairThreshold);
 
-    return wallet;
+      return wallet;
+    });
   }
 
   // Get wallet with transaction history
@@ -75,6 +167,11 @@ class WalletService {
     // Build where clause
     const where: any = type === 'user' ? { userId: ownerId } : { merchantId: ownerId };
 
+    // Abandoned payments are hidden from the merchant dashboard
+    if (type === 'merchant') {
+      where.paymentStatus = { [Op.ne]: PaymentStatus.EXPIRED };
+    }
+
     // Add date range filtering if provided
     if (options.startDate || options.endDate) {
       where.createdAt = {};
@@ -117,36 +214,40 @@ class WalletService {
     return await this.getWalletWithHistory(merchantId, 'merchant', options);
   }
 
-  // Handle redemption (update totalRedeemed and recalculate balance)
-  async redeemWalletBalance(ownerId: string, redeemAmountGrams: number, type: WalletType) {
-    const wallet = await this.findOrCreateWallet(ownerId, type);
-
+  // Handle redemption (posted as a REDEMPTION journal on the ledger)
+  async redeemWalletBalance(
+    ownerId: string,
+    redeemAmountGrams: number,
+    type: WalletType,
+    options: { redemptionReference?: string; transaction?: DbTransaction } = {}
+  ) {
     // Validate redemption amount
     if (redeemAmountGrams <= 0) {
       throw new Error('Redemption amount must be positive');
     }
 
-    const currentBalance = Number(wallet.currentBalance);
-    if (redeemAmountGrams > currentBalance) {
-      throw new Error(`Insufficient balance. Available: ${currentBalance}g, Requested: ${redeemAmountGrams}g`);
-    }
+    return runInTransaction(options.transaction, async (transaction) => {
+      const wallet = await this.findOrCreateWallet(ownerId, type, { transaction });
 
-    const newTotalRedeemed = Number(wallet.totalRedeemed) + redeemAmountGrams;
-    const newCurrentBalance = Number(wallet.totalAccumulated) - newTotalRedeemed;
+      const currentBalance = Number(wallet.currentBalance);
+      if (redeemAmountGrams > currentBalance) {
+        throw new Error(`Insufficient balance. Available: ${currentBalance}g, Requested: ${redeemAmountGrams}g`);
+      }
 
-    await wallet.update({
-      totalRedeemed: newTotalRedeemed,
-      currentBalance: newCurrentBalance,
-    });
+      await this.postToLedger(wallet, {
+        entryType: LedgerEntryType.REDEMPTION,
+        redeemedGrams: redeemAmountGrams,
+        redemptionReference: options.redemptionReference || null,
+        description: 'Impact redeemed from wallet',
+      }, transaction);
 
-    return wallet;
+      return wallet;
+    });
   }
 
   // Manual wallet adjustment (admin only) - Section 9.4
-  // Adjusts wallet balance and creates audit log entry
+  // Creates the audit log entry and posts an ADJUSTMENT journal tied to it
   async adjustWallet(userId: string, amountGrams: number, reason: string, adjustedBy: string) {
-    const wallet = await this.findOrCreateWallet(userId, 'user');
-
     // Validate adjustment
     if (amountGrams === 0) {
       throw new Error('Adjustment amount cannot be zero');
@@ -156,30 +257,34 @@ class WalletService {
       throw new Error('Reason is required for wallet adjustments');
     }
 
-    const currentBalance = Number(wallet.currentBalance);
-    const newTotalAccumulated = Number(wallet.totalAccumulated) + amountGrams;
-    const newCurrentBalance = currentBalance + amountGrams;
+    return runInTransaction(undefined, async (transaction) => {
+      const wallet = await this.findOrCreateWallet(userId, 'user', { transaction });
 
-    // Prevent negative balance
-    if (newCurrentBalance < 0) {
-      throw new Error(`Adjustment would result in negative balance. Current: ${currentBalance}g, Adjustment: ${amountGrams}g`);
-    }
+      const currentBalance = Number(wallet.currentBalance);
+      const newCurrentBalance = currentBalance + amountGrams;
 
-    // Update wallet
-    await wallet.update({
-      totalAccumulated: newTotalAccumulated,
-      currentBalance: newCurrentBalance,
-    });
+      // Prevent negative balance
+      if (newCurrentBalance < 0) {
+        throw new Error(`Adjustment would result in negative balance. Current: ${currentBalance}g, Adjustment: ${amountGrams}g`);
+      }
 
-    // Create audit log entry
-    const adjustment = await WalletAdjustment.create({
-      userId,
-      amount: amountGrams,
-      reason: reason.trim(),
-      adjustedBy,
+      // Create audit log entry
+      const adjustment = await WalletAdjustment.create({
+        userId,
+        amount: amountGrams,
+        reason: reason.trim(),
+        adjustedBy,
+      }, { transaction });
+
+      await this.postToLedger(wallet, {
+        entryType: LedgerEntryType.ADJUSTMENT,
+        impactGrams: amountGrams,
+        walletAdjustmentId: adjustment.id,
+        description: reason.trim(),
+      }, transaction);
+
+      return { wallet, adjustment };
     });
-
-    return { wallet, adjustment };
   }
 
   // Get wallet adjustment history for a user (admin only) - Section 9.4
@@ -189,6 +294,182 @@ class WalletService {
       order: [['adjustedAt', 'DESC']],
     });
   }
+
+  // Get the ledger lines of a wallet in posting order (admin only)
+  async getLedger(walletId: string, options: { limit?: number; offset?: number } = {}) {
+    const wallet = await Wallet.findByPk(walletId);
+    if (!wallet) {
+      throw new Error('Wallet not found');
+    }
+
+    const { rows: entries, count: total } = await WalletLedgerEntry.findAndCountAll({
+      where: { walletId },
+      order: [['createdAt', 'ASC'], ['id', 'ASC']],
+      limit: options.limit || 500,
+      offset: options.offset || 0,
+    });
+
+    return { wallet, entries, total };
+  }
+
+  // Rebuild wallet totals from the ledger and report drift against the stored totals
+  // With apply = false this is a pure verification; with apply = true stored totals are overwritten
+  async rebuildWallet(walletId: string, options: { apply?: boolean } = {}): Promise<WalletRebuildReport> {
+    const corsairThreshold = await configService.getCorsairThreshold();
+
+    // Lock the wallet so no posting lands between summing the ledger and writing the totals
+    return runInTransaction(undefined, async (transaction) => {
+      const wallet = await Wallet.findByPk(walletId, { transaction, lock: transaction.LOCK.UPDATE });
+      if (!wallet) {
+        throw new Error('Wallet not found');
+      }
+
+      const walletLines = await WalletLedgerEntry.findAll({
+        where: { walletId, account: LedgerAccount.WALLET },
+        transaction,
+      });
+
+      // Derive totals by summing every wallet line
+      let totalAccumulated = 0;
+      let totalRedeemed = 0;
+      let totalAmountSpent = 0;
+      for (const line of walletLines) {
+        totalAccumulated += Number(line.impactGrams);
+        totalRedeemed += Number(line.redeemedGrams);
+        totalAmountSpent += Number(line.amountEur);
+      }
+
+      const derived: WalletTotals = {
+        totalAccumulated: roundTo2(totalAccumulated),
+        totalRedeemed: roundTo2(totalRedeemed),
+        currentBalance: roundTo2(totalAccumulated - totalRedeemed),
+        totalAmountSpent: roundTo2(totalAmountSpent),
+        certifiedAssetStatus: roundTo2(totalAmountSpent) >= corsairThreshold,
+      };
+
+      const stored: WalletTotals = {
+        totalAccumulated: Number(wallet.totalAccumulated),
+        totalRedeemed: Number(wallet.totalRedeemed),
+        currentBalance: Number(wallet.currentBalance),
+        totalAmountSpent: Number(wallet.totalAmountSpent),
+        certifiedAssetStatus: wallet.certifiedAssetStatus,
+      };
+
+      const drift: WalletDrift[] = [];
+      for (const field of ['totalAccumulated', 'totalRedeemed', 'currentBalance', 'totalAmountSpent'] as const) {
+        const difference = roundTo2(stored[field] - derived[field]);
+        if (difference !== 0) {
+          drift.push({ field, stored: stored[field], derived: derived[field], difference });
+        }
+      }
+      if (stored.certifiedAssetStatus !== derived.certifiedAssetStatus) {
+        drift.push({
+          field: 'certifiedAssetStatus',
+          stored: stored.certifiedAssetStatus,
+          derived: derived.certifiedAssetStatus,
+        });
+      }
+
+      // Every journal touching this wallet must sum to zero across its lines
+      const journalIds = [...new Set(walletLines.map((line) => line.journalId))];
+      const journalLines = journalIds.length > 0
+        ? await WalletLedgerEntry.findAll({ where: { journalId: journalIds }, transaction })
+        : [];
+      const journalSums = new Map<string, { impact: number; redeemed: number; amount: number }>();
+      for (const line of journalLines) {
+        const sums = journalSums.get(line.journalId) || { impact: 0, redeemed: 0, amount: 0 };
+        sums.impact += Number(line.impactGrams);
+        sums.redeemed += Number(line.redeemedGrams);
+        sums.amount += Number(line.amountEur);
+        journalSums.set(line.journalId, sums);
+      }
+      const unbalancedJournals = [...journalSums.entries()]
+        .filter(([, sums]) => roundTo2(sums.impact) !== 0 || roundTo2(sums.redeemed) !== 0 || roundTo2(sums.amount) !== 0)
+        .map(([journalId]) => journalId);
+
+      let applied = false;
+      if (options.apply && drift.length > 0) {
+        await wallet.update(derived, { transaction });
+        applied = true;
+        console.log(`🔧 Wallet ${walletId} rebuilt from ledger (${drift.length} field(s) corrected)`);
+      }
+
+      return {
+        walletId,
+        entryCount: walletLines.length,
+        stored,
+        derived,
+        drift,
+        unbalancedJournals,
+        inSync: drift.length === 0 && unbalancedJournals.length === 0,
+        applied,
+      };
+    });
+  }
+
+  // Post one journal (wallet line + contra line) and apply its deltas to the wallet totals
+  // All wallet mutations go through here so the ledger stays the source of truth
+  // Callers must hold the wallet row lock inside the given transaction
+  private async postToLedger(
+    wallet: Wallet,
+    posting: LedgerPosting,
+    transaction: DbTransaction,
+    corsairThreshold?: number
+  ) {
+    const impactGrams = roundTo2(posting.impactGrams || 0);
+    const redeemedGrams = roundTo2(posting.redeemedGrams || 0);
+    const amountEur = roundTo2(posting.amountEur || 0);
+
+    const totalAccumulated = roundTo2(Number(wallet.totalAccumulated) + impactGrams);
+    const totalRedeemed = roundTo2(Number(wallet.totalRedeemed) + redeemedGrams);
+    const currentBalance = roundTo2(totalAccumulated - totalRedeemed);
+    const totalAmountSpent = roundTo2(Number(wallet.totalAmountSpent) + amountEur);
+
+    const journalId = crypto.randomUUID();
+    const shared = {
+      journalId,
+      entryType: posting.entryType,
+      transactionId: posting.transactionId || null,
+      walletAdjustmentId: posting.walletAdjustmentId || null,
+      redemptionReference: posting.redemptionReference || null,
+      description: posting.description || null,
+    };
+
+    const [entry] = await WalletLedgerEntry.bulkCreate([
+      {
+        ...shared,
+        account: LedgerAccount.WALLET,
+        walletId: wallet.id,
+        impactGrams,
+        redeemedGrams,
+        amountEur,
+        balanceAfter: currentBalance,
+      },
+      {
+        ...shared,
+        account: CONTRA_ACCOUNTS[posting.entryType],
+        walletId: null,
+        impactGrams: -impactGrams,
+        redeemedGrams: -redeemedGrams,
+        amountEur: -amountEur,
+      },
+    ], { transaction });
+
+    // Section 6.2: Re-evaluate certified asset status when the euro total moves
+    const updates: Partial<WalletTotals> = {
+      totalAccumulated,
+      totalRedeemed,
+      currentBalance,
+      totalAmountSpent,
+    };
+    if (amountEur !== 0 && corsairThreshold !== undefined) {
+      updates.certifiedAssetStatus = totalAmountSpent >= corsairThreshold;
+    }
+
+    await wallet.update(updates, { transaction });
+
+    return entry;
+  }
 }
 
 export default new WalletService();
@@ -1,20 +1,31 @@
 // Webhook Service - Process e-commerce platform webhooks
 // Section 20.4: WooCommerce/E-commerce Integration
 import crypto from 'crypto';
-import { Merchant, SKU, User, Transaction } from '../database/models/index.js';
+import { sequelize, Merchant, User } from '../database/models/index.js';
 import { WebhookPlatform } from '../database/models/Merchant.js';
-import transactionService from './transaction.service.js';
+import { OrderPlatform } from '../database/models/Order.js';
+import orderService from './order.service.js';
 import transactionTokenService from './transactionToken.service.js';
 import userService from './user.service.js';
 import qrcodeService from './qrcode.service.js';
-import emailService from './email.service.js';
 import { env } from '../config/env.js';
 
+const DEFAULT_SECRET_ROTATION_GRACE_HOURS = 24;
+
+// QR code of an order line, pointing to its tokenized impact URL
+interface LineQRCode {
+  transactionId: string;
+  qrCode: string; // PNG data URL
+  targetUrl: string;
+  token: string;
+}
+
 // WooCommerce webhook payload interface
 interface WooCommerceOrderWebhook {
   id: number;
   status: string;
   total: string;
+  currency?: string; // ISO 4217, e.g. "EUR"
   customer_id: number;
   billing: {
     first_name: string;
@@ -48,6 +59,7 @@ interface ShopifyOrderWebhook {
   id: number;
   order_number: string;
   total_price: string;
+  currency?: string; // Shop currency, ISO 4217
   customer: {
     id: number;
     email: string;
@@ -86,9 +98,11 @@ interface ProcessedOrder {
   };
   items: Array<{
     sku: string;
+    name?: string;
     quantity: number;
-    total: number;
+    total: number; // In `currency`
   }>;
+  currency?: string; // ISO 4217 - normalized to EUR on transaction creation (default EUR)
   partnerId?: string;
 }
 
@@ -172,6 +186,98 @@ class WebhookService {
     );
   }
 
+  /**
+   * Verify a webhook against the merchant's secrets
+   * Tries the current secret, then the previous one while its rotation grace window is open,
+   * and records when the matching secret was last used
+   */
+  async verifyMerchantSignature(
+    merchant: Merchant,
+    payload: string | Buffer,
+    signature: string
+  ): Promise<'current' | 'previous' | null> {
+    if (!merchant.webhookSecret || !merchant.webhookPlatform) {
+      return null;
+    }
+
+    if (this.verifySignature(payload, signature, merchant.webhookSecret, merchant.webhookPlatform)) {
+      await merchant.update({ webhookSecretLastUsedAt: new Date() });
+      return 'current';
+    }
+
+    if (
+      merchant.isPreviousWebhookSecretValid() &&
+      this.verifySignature(payload, signature, merchant.previousWebhookSecret!, merchant.webhookPlatform)
+    ) {
+      await merchant.update({ previousWebhookSecretLastUsedAt: new Date() });
+      console.warn(`⚠️ Webhook for merchant ${merchant.id} signed with previous secret (expires ${merchant.previousWebhookSecretExpiresAt!.toISOString()})`);
+      return 'previous';
+    }
+
+    return null;
+  }
+
+  /**
+   * Rotate a merchant's webhook secret
+   * The replaced secret keeps verifying for graceHours so the store can be updated without downtime.
+   * A secret can be supplied for platforms that issue their own (e.g. Shopify), otherwise one is generated.
+   */
+  async rotateWebhookSecret(
+    merchantId: string,
+    rotatedBy: string,
+    options: { graceHours?: number; secret?: string } = {}
+  ): Promise<{ secret: string; previousSecretExpiresAt: Date | null }> {
+    const graceHours = options.graceHours ?? DEFAULT_SECRET_ROTATION_GRACE_HOURS;
+
+    return sequelize.transaction(async (t) => {
+      const merchant = await Merchant.findByPk(merchantId, { transaction: t, lock: t.LOCK.UPDATE });
+      if (!merchant) {
+        throw new Error('Merchant not found');
+      }
+
+      const secret = options.secret || `whsec_${crypto.randomBytes(32).toString('hex')}`;
+      if (secret === merchant.webhookSecret) {
+        throw new Error('New webhook secret must differ from the current one');
+      }
+
+      const now = new Date();
+      const previousSecretExpiresAt = merchant.webhookSecret && graceHours > 0
+        ? new Date(now.getTime() + graceHours * 60 * 60 * 1000)
+        : null;
+
+      await merchant.update({
+        webhookSecret: secret,
+        webhookSecretRotatedAt: now,
+        webhookSecretLastUsedAt: null,
+        previousWebhookSecret: previousSecretExpiresAt ? merchant.webhookSecret : null,
+        previousWebhookSecretExpiresAt: previousSecretExpiresAt,
+        previousWebhookSecretLastUsedAt: previousSecretExpiresAt ? merchant.webhookSecretLastUsedAt : null,
+      }, { transaction: t });
+
+      console.log(`🔑 Webhook secret rotated for merchant ${merchantId} by ${rotatedBy} (previous secret valid until ${previousSecretExpiresAt?.toISOString() || 'now'})`);
+
+      return { secret, previousSecretExpiresAt };
+    });
+  }
+
+  // Webhook secret status for the config endpoint - never includes secret values
+  getWebhookSecretStatus(merchant: Merchant) {
+    return {
+      current: {
+        configured: !!merchant.webhookSecret,
+        rotatedAt: merchant.webhookSecretRotatedAt || null,
+        lastUsedAt: merchant.webhookSecretLastUsedAt || null,
+      },
+      previous: merchant.previousWebhookSecret
+        ? {
+            active: merchant.isPreviousWebhookSecretValid(),
+            expiresAt: merchant.previousWebhookSecretExpiresAt || null,
+            lastUsedAt: merchant.previousWebhookSecretLastUsedAt || null,
+          }
+        : null,
+    };
+  }
+
   /**
    * Process webhook from e-commerce platform
    * Main entry point for webhook processing
@@ -179,16 +285,25 @@ class WebhookService {
    * Flow:
    * 1. Parse order data from platform-specific payload
    * 2. Create/find user from order customer data
-   * 3. Create transactions for each line item
+   * 3. Record the order - one transaction per line item (skipped if the order was already recorded)
    * 4. Generate secure tokens for each transaction (for Point B landing page)
-   * 5. Generate QR codes
-   * 6. Send confirmation emails with impact URLs
+   * 5. Queue confirmation emails with impact URLs - the job generates each line's QR code
+   *
+   * includeQrCodes generates the line QR codes in the request as well (test endpoint only)
    */
   async processWebhook(
     merchantId: string,
     payload: any,
-    platform: WebhookPlatform
-  ): Promise<{ success: boolean; transactionIds: string[]; qrCodes?: any[]; impactUrls?: string[] }> {
+    platform: WebhookPlatform,
+    options: { includeQrCodes?: boolean } = {}
+  ): Promise<{
+    success: boolean;
+    orderId: string;
+    duplicate: boolean;
+    transactionIds: string[];
+    impactUrls: string[];
+    qrCodes?: LineQRCode[];
+  }> {
     console.log(`📦 Processing ${platform} webhook for merchant ${merchantId}`);
 
     // Find merchant
@@ -203,34 +318,34 @@ class WebhookService {
     // Create or find user
     const user = await this.findOrCreateUserFromOrder(processedOrder.customer, merchant.id);
 
-    // Process each line item as a separate transaction
+    // Process each line item as a separate transaction, grouped under the order
+    // A repeated webhook for an order that was already recorded creates nothing
+    const { order, transactions, created } = await orderService.recordPlatformOrder({
+      merchantId: merchant.id,
+      externalOrderId: processedOrder.orderId,
+      platform: platform as OrderPlatform,
+      userId: user.id,
+      partnerId: processedOrder.partnerId,
+      customer: {
+        email: processedOrder.customer.email,
+        firstName: processedOrder.customer.firstName,
+        lastName: processedOrder.customer.lastName,
+        country: processedOrder.customer.country,
+      },
+      currency: processedOrder.currency,
+      items: processedOrder.items,
+    });
+
     const transactionIds: string[] = [];
-    const qrCodes: any[] = [];
     const impactUrls: string[] = [];
+    const qrCodes: LineQRCode[] = [];
 
-    for (const item of processedOrder.items) {
-      // Find SKU by code
-      const sku = await SKU.findOne({ where: { code: item.sku } });
-      if (!sku) {
-        console.warn(`⚠️ SKU not found: ${item.sku} - skipping line item`);
-        continue;
-      }
-
-      // Create transaction for this item
-      const transaction = await transactionService.createTransaction({
-        userId: user.id,
-        skuCode: sku.code,
-        merchantId: merchant.id,
-        partnerId: processedOrder.partnerId,
-        orderId: processedOrder.orderId,
-        amount: item.total,
-      });
-
+    for (const transaction of transactions) {
       transactionIds.push(transaction.id);
 
-      // Section 20.4: Generate secure token for e-commerce landing page (Point B)
+      // Section 20.4: Secure token for e-commerce landing page (Point B), created with the order
       // This allows customers to access their personalized impact page without logging in
-      const token = await transactionTokenService.createToken(transaction.id);
+      const token = await transactionTokenService.getOrCreateToken(transaction.id);
       const impactUrl = transactionTokenService.generateImpactUrl(
         transaction.id,
         token.token,
@@ -238,39 +353,52 @@ class WebhookService {
       );
       impactUrls.push(impactUrl);
 
-      // Generate QR code for customer (they can verify their impact)
-      // QR code now points to the tokenized impact URL
-      const qrCode = await qrcodeService.generateQRCode({
-        merchantId: merchant.id,
-        skuCode: sku.code,
-        baseUrl: env.frontend.url,
-        format: 'png',
-      });
-
-      qrCodes.push({
-        transactionId: transaction.id,
-        sku: item.sku,
-        qrCode: qrCode.qrCodeData,
-        targetUrl: impactUrl, // Use tokenized URL instead of generic QR target
-        token: token.token,
-      });
+      if (options.includeQrCodes) {
+        const qrCode = await qrcodeService.generateImpactQRCode(impactUrl, transaction.id);
+        qrCodes.push({
+          transactionId: transaction.id,
+          qrCode: qrCode.qrCodeData,
+          targetUrl: impactUrl,
+          token: token.token,
+        });
+      }
     }
 
-    // Send confirmation email with impact URLs
-    if (transactionIds.length > 0) {
-      await this.sendOrderConfirmationEmail(user, transactionIds, qrCodes);
+    if (created) {
+      console.log(`✅ Webhook processed - Created ${transactionIds.length} transactions for order ${processedOrder.orderId}`);
+    } else {
+      console.log(`↩️ Webhook for order ${processedOrder.orderId} already recorded - no transactions created`);
     }
 
-    console.log(`✅ Webhook processed - Created ${transactionIds.length} transactions for order ${processedOrder.orderId}`);
-
     return {
       success: true,
+      orderId: order.id,
+      duplicate: !created,
       transactionIds,
-      qrCodes,
       impactUrls,
+      ...(options.includeQrCodes ? { qrCodes } : {}),
     };
   }
 
+  /**
+   * External order id of a webhook payload - used to deduplicate repeated deliveries
+   * Returns null when the payload carries no stable id
+   */
+  getExternalOrderId(payload: any, platform: WebhookPlatform): string | null {
+    switch (platform) {
+      case 'WOOCOMMERCE':
+        return payload?.id !== undefined ? `WC-${payload.id}` : null;
+      case 'SHOPIFY':
+        return payload?.order_number !== undefined ? `SHOPIFY-${payload.order_number}` : null;
+      case 'CUSTOM': {
+        const orderId = payload?.orderId || payload?.id;
+        return orderId !== undefined && orderId !== null ? String(orderId) : null;
+      }
+      default:
+        return null;
+    }
+  }
+
   /**
    * Parse order data from platform-specific payload
    */
@@ -309,9 +437,11 @@ class WebhookService {
       },
       items: order.line_items.map(item => ({
         sku: item.sku,
+        name: item.name,
         quantity: item.quantity,
         total: parseFloat(item.total),
       })),
+      currency: order.currency,
       partnerId,
     };
   }
@@ -334,9 +464,11 @@ class WebhookService {
       },
       items: order.line_items.map(item => ({
         sku: item.sku,
+        name: item.title,
         quantity: item.quantity,
         total: parseFloat(item.price) * item.quantity,
       })),
+      currency: order.currency,
     };
   }
 
@@ -345,7 +477,7 @@ class WebhookService {
    */
   private parseCustomOrder(order: any): ProcessedOrder {
     // Flexible parsing for custom platforms
-    // Expects order to have: orderId, customer, items, partnerId (optional)
+    // Expects order to have: orderId, customer, items, currency (optional), partnerId (optional)
     return {
       orderId: order.orderId || order.id || 'CUSTOM-' + Date.now(),
       customer: {
@@ -360,9 +492,11 @@ class WebhookService {
       },
       items: order.items.map((item: any) => ({
         sku: item.sku || item.skuCode,
+        name: item.name,
         quantity: item.quantity || 1,
         total: item.total || item.price || 0,
       })),
+      currency: order.currency,
       partnerId: order.partnerId,
     };
   }
@@ -393,54 +527,6 @@ class WebhookService {
     return user;
   }
 
-  /**
-   * Send order confirmation email with QR codes and impact URLs
-   * Section 20.4: Includes tokenized impact URL for Point B (Thank You Page)
-   */
-  private async sendOrderConfirmationEmail(
-    user: User,
-    transactionIds: string[],
-    qrCodes: any[]
-  ): Promise<void> {
-    // Create a map of transaction IDs to impact URLs from QR codes
-    const impactUrlMap = new Map<string, string>();
-    for (const qr of qrCodes) {
-      if (qr.transactionId && qr.targetUrl) {
-        impactUrlMap.set(qr.transactionId, qr.targetUrl);
-      }
-    }
-
-    // Send individual transaction confirmations with impact URLs
-    for (const transactionId of transactionIds) {
-      const transaction = await Transaction.findByPk(transactionId, {
-        include: [{ model: SKU, as: 'sku' }],
-      });
-
-      if (transaction) {
-        // Get the impact URL for this transaction (Section 20.4: Point B)
-        const impactUrl = impactUrlMap.get(transactionId);
-
-        await emailService.sendTransactionConfirmation(
-          user.email,
-          `${user.firstName} ${user.lastName}`,
-          {
-            id: transaction.id,
-            impactGrams: Number(transaction.calculatedImpact),
-            impactKg: (Number(transaction.calculatedImpact) / 1000).toFixed(3),
-            date: transaction.createdAt.toISOString().split('T')[0],
-            sku: { code: transaction.sku.code, name: transaction.sku.name },
-            amount: Number(transaction.amount),
-          },
-          user.id,
-          undefined, // certificateUrl
-          impactUrl  // Section 20.4: Tokenized URL for e-commerce landing page
-        );
-      }
-    }
-
-    console.log(`✅ Sent order confirmation emails for ${transactionIds.length} transactions with impact URLs`);
-  }
-
   /**
    * Generate webhook endpoint URL for a merchant
    * Used when merchant configures their webhook in their e-commerce platform
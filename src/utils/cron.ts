@@ -0,0 +1,132 @@
+/**
+ * Cron expression helpers for the maintenance scheduler
+ * Standard five fields - minute hour day-of-month month day-of-week - evaluated in UTC.
+ * Each field accepts '*', 'n', 'a-b', a step suffix '/s' on '*' or a range, and comma-separated lists.
+ * Day-of-week 0 and 7 are both Sunday.
+ */
+
+interface CronFieldSpec {
+  min: number;
+  max: number;
+}
+
+interface ParsedCron {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const FIELDS: CronFieldSpec[] = [
+  { min: 0, max: 59 }, // minute
+  { min: 0, max: 23 }, // hour
+  { min: 1, max: 31 }, // day of month
+  { min: 1, max: 12 }, // month
+  { min: 0, max: 7 }, // day of week
+];
+
+// Upper bound on search steps - reached only by expressions that never match (e.g. "0 0 31 2 *")
+const MAX_SEARCH_STEPS = 366 * 24 * 60;
+
+const parseField = (field: string, spec: CronFieldSpec, expression: string): Set<number> => {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText !== undefined ? parseInt(stepText, 10) : 1;
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      [start, end] = range.split('-').map((value) => parseInt(value, 10));
+    } else {
+      start = parseInt(range, 10);
+      end = stepText !== undefined ? spec.max : start;
+    }
+
+    if ([start, end, step].some((value) => isNaN(value)) || step < 1 || start < spec.min || end > spec.max || start > end) {
+      throw new Error(`Invalid cron expression "${expression}": bad field "${field}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Parse a five-field cron expression
+ * Throws on invalid expressions so bad schedules fail at startup
+ */
+export const parseCron = (expression: string): ParsedCron => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELDS[index], expression)
+  );
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: fields[2] !== '*',
+    dayOfWeekRestricted: fields[4] !== '*',
+  };
+};
+
+/**
+ * Next time (UTC, whole minute) strictly after `from` matching the expression
+ */
+export const getNextCronDate = (expression: string, from: Date = new Date()): Date => {
+  const cron = parseCron(expression);
+  const candidate = new Date(from.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+  for (let i = 0; i < MAX_SEARCH_STEPS; i++) {
+    // When both day fields are restricted, cron matches either of them
+    const dayOfMonthMatch = cron.daysOfMonth.has(candidate.getUTCDate());
+    const dayOfWeekMatch = cron.daysOfWeek.has(candidate.getUTCDay());
+    const dayMatch = cron.dayOfMonthRestricted && cron.dayOfWeekRestricted
+      ? dayOfMonthMatch || dayOfWeekMatch
+      : dayOfMonthMatch && dayOfWeekMatch;
+
+    if (!cron.months.has(candidate.getUTCMonth() + 1) || !dayMatch) {
+      // Skip to the start of the next day
+      candidate.setUTCHours(24, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.hours.has(candidate.getUTCHours())) {
+      // Skip to the start of the next hour
+      candidate.setUTCMinutes(60, 0, 0);
+      continue;
+    }
+
+    if (cron.minutes.has(candidate.getUTCMinutes())) {
+      return candidate;
+    }
+
+    candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+  }
+
+  throw new Error(`Cron expression "${expression}" has no upcoming run`);
+};
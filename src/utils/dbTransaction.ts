@@ -0,0 +1,20 @@
+/**
+ * Database transaction helpers
+ */
+
+import { Transaction as DbTransaction } from 'sequelize';
+import { sequelize } from '../database/models/sequelize.js';
+
+/**
+ * Run a unit of work inside the caller's transaction when one is given,
+ * otherwise inside a new managed transaction (committed on success, rolled back on error)
+ */
+export const runInTransaction = async <T>(
+  transaction: DbTransaction | undefined,
+  work: (t: DbTransaction) => Promise<T>
+): Promise<T> => {
+  if (transaction) {
+    return work(transaction);
+  }
+  return sequelize.transaction(work);
+};
@@ -27,12 +27,12 @@ export const formatImpact = (grams: number): string => {
 };
 
 /**
- * Format currency (EUR)
+ * Format currency (EUR unless an ISO 4217 code is given)
  */
-export const formatCurrency = (amount: number): string => {
+export const formatCurrency = (amount: number, currency: string = 'EUR'): string => {
   return new Intl.NumberFormat('it-IT', {
     style: 'currency',
-    currency: 'EUR',
+    currency: currency.toUpperCase(),
   }).format(amount);
 };
 
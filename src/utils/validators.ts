@@ -53,7 +53,7 @@ export const isValidPaymentMode = (mode: string): boolean => {
  * Validate payment status
  */
 export const isValidPaymentStatus = (status: string): boolean => {
-  const validStatuses = ['pending', 'completed', 'failed', 'n/a'];
+  const validStatuses = ['pending', 'completed', 'failed', 'n/a', 'expired'];
   return validStatuses.includes(status);
 };
 